@@ -4,6 +4,13 @@ pragma solidity >=0.8.27;
 import {BITE} from "@skalenetwork/bite-solidity/contracts/BITE.sol";
 import {IBiteSupplicant} from "@skalenetwork/bite-solidity/contracts/interfaces/IBiteSupplicant.sol";
 
+/// @dev The ERC-20 / EIP-2612 surface the marketplace needs for token escrow (USDC)
+interface IERC20Permit {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
 /**
  * @title ServiceMarketplace
  * @notice Decentralized marketplace for autonomous agent service arbitrage on SKALE.
@@ -49,6 +56,9 @@ contract ServiceMarketplace is IBiteSupplicant {
     enum RequestStatus { Open, Matched, Settled, Cancelled }
 
     // ──────────────────────── State ────────────────────────
+    /// @notice How long a request takes offers before anyone may refund its escrow
+    uint256 public constant REQUEST_TTL = 1 hours;
+
     uint256 public nextServiceId;
     uint256 public nextRequestId;
 
@@ -58,6 +68,12 @@ contract ServiceMarketplace is IBiteSupplicant {
     mapping(uint256 => mapping(address => EncryptedOffer)) public offers;
     // requestId => list of bidder addresses
     mapping(uint256 => address[]) public requestBidders;
+    // requestId => unix time after which an open request can be refunded.
+    // Kept out of ServiceRequest so the `requests` getter layout is unchanged.
+    mapping(uint256 => uint256) public requestDeadlines;
+    // requestId => ERC-20 the budget is escrowed in; address(0) for native sFUEL.
+    // Kept out of ServiceRequest for the same reason as requestDeadlines.
+    mapping(uint256 => address) public requestTokens;
 
     // ──────── BITE Phase II: Conditional Transaction State ────────
     /// @dev Maps CTX callback sender address to the request it belongs to
@@ -73,6 +89,9 @@ contract ServiceMarketplace is IBiteSupplicant {
     event EncryptedOfferSubmitted(uint256 indexed requestId, address indexed provider, bytes32 offerHash);
     event OfferRevealed(uint256 indexed requestId, address indexed provider, uint256 price);
     event PaymentSettled(uint256 indexed requestId, address indexed provider, uint256 amount, string protocol);
+    event RequestCancelled(uint256 indexed requestId, address indexed requester, uint256 refund, bool expired);
+    /// @notice Emitted after ServiceRequestCreated when the budget is an ERC-20 (its `budget` is in token units)
+    event RequestTokenEscrowed(uint256 indexed requestId, address indexed token, uint256 amount);
     event ServiceRated(uint256 indexed serviceId, address indexed rater, uint8 rating);
 
     // BITE Phase II events
@@ -113,15 +132,98 @@ contract ServiceMarketplace is IBiteSupplicant {
         string calldata _objective
     ) external payable returns (uint256 requestId) {
         require(msg.value > 0, "Budget must be > 0");
+        requestId = _openRequest(_serviceId, _objective, msg.value);
+    }
+
+    /**
+     * @notice Create a service request with an ERC-20 budget (e.g. USDC).
+     *         The requester must have approved the marketplace for `_amount` first.
+     */
+    function createTokenRequest(
+        uint256 _serviceId,
+        string calldata _objective,
+        address _token,
+        uint256 _amount
+    ) external returns (uint256 requestId) {
+        requestId = _openTokenRequest(_serviceId, _objective, _token, _amount);
+    }
+
+    /**
+     * @notice Same as createTokenRequest, approving the marketplace with an
+     *         EIP-2612 permit in the same transaction.
+     */
+    function createTokenRequestWithPermit(
+        uint256 _serviceId,
+        string calldata _objective,
+        address _token,
+        uint256 _amount,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external returns (uint256 requestId) {
+        IERC20Permit(_token).permit(msg.sender, address(this), _amount, _permitDeadline, _v, _r, _s);
+        requestId = _openTokenRequest(_serviceId, _objective, _token, _amount);
+    }
+
+    function _openTokenRequest(
+        uint256 _serviceId,
+        string calldata _objective,
+        address _token,
+        uint256 _amount
+    ) private returns (uint256 requestId) {
+        require(_amount > 0, "Budget must be > 0");
+        require(_token.code.length > 0, "Token has no code");
+        _safeTransferFrom(_token, msg.sender, address(this), _amount);
+        requestId = _openRequest(_serviceId, _objective, _amount);
+        requestTokens[requestId] = _token;
+        emit RequestTokenEscrowed(requestId, _token, _amount);
+    }
+
+    function _openRequest(uint256 _serviceId, string calldata _objective, uint256 _budget) private returns (uint256 requestId) {
         requestId = nextRequestId++;
         requests[requestId] = ServiceRequest({
             requester: msg.sender,
             serviceId: _serviceId,
             objective: _objective,
-            budget: msg.value,
+            budget: _budget,
             status: RequestStatus.Open
         });
-        emit ServiceRequestCreated(requestId, msg.sender, _serviceId, msg.value);
+        requestDeadlines[requestId] = block.timestamp + REQUEST_TTL;
+        emit ServiceRequestCreated(requestId, msg.sender, _serviceId, _budget);
+    }
+
+    /**
+     * @notice Cancel an open request and return its whole budget to the requester.
+     *         Only the requester can call this, at any time before settlement.
+     */
+    function cancelRequest(uint256 _requestId) external {
+        ServiceRequest storage req = requests[_requestId];
+        require(msg.sender == req.requester, "Only requester can cancel");
+        require(req.status == RequestStatus.Open, "Request not open");
+        _refund(_requestId, false);
+    }
+
+    /**
+     * @notice Refund an open request whose deadline has passed. Anyone can call
+     *         this (a keeper, a provider, the requester); the budget always goes
+     *         back to the requester.
+     */
+    function refundExpired(uint256 _requestId) external {
+        ServiceRequest storage req = requests[_requestId];
+        require(req.status == RequestStatus.Open, "Request not open");
+        require(block.timestamp > requestDeadlines[_requestId], "Request not expired");
+        _refund(_requestId, true);
+    }
+
+    function _refund(uint256 _requestId, bool _expired) private {
+        ServiceRequest storage req = requests[_requestId];
+        req.status = RequestStatus.Cancelled;
+        uint256 refund = req.budget;
+
+        _pay(_requestId, req.requester, refund);
+
+        emit RequestCancelled(_requestId, req.requester, refund, _expired);
     }
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -133,7 +235,8 @@ contract ServiceMarketplace is IBiteSupplicant {
 
     /**
      * @notice Submit an encrypted (hashed) offer for a request.
-     *         The hash = keccak256(abi.encodePacked(price, nonce))
+     *         The hash = keccak256(abi.encodePacked(price, nonce)), or
+     *         keccak256(abi.encodePacked(price, nonce, requestId, provider))
      *         When sent via BITE encrypted transaction, the calldata
      *         itself is encrypted at the consensus level, providing
      *         double protection against MEV and front-running.
@@ -143,6 +246,7 @@ contract ServiceMarketplace is IBiteSupplicant {
         bytes32 _offerHash
     ) external {
         require(requests[_requestId].status == RequestStatus.Open, "Request not open");
+        require(block.timestamp <= requestDeadlines[_requestId], "Request expired");
         require(offers[_requestId][msg.sender].offerHash == bytes32(0), "Already submitted");
 
         offers[_requestId][msg.sender] = EncryptedOffer({
@@ -160,6 +264,9 @@ contract ServiceMarketplace is IBiteSupplicant {
     /**
      * @notice Reveal a previously committed offer.
      *         Provider must supply the original price + nonce to prove the hash.
+     *         Accepts either keccak256(price, nonce) or the bound form
+     *         keccak256(price, nonce, requestId, provider), which stops a
+     *         competitor from copying a commitment onto their own offer.
      */
     function revealOffer(
         uint256 _requestId,
@@ -171,7 +278,11 @@ contract ServiceMarketplace is IBiteSupplicant {
         require(!offer.revealed, "Already revealed");
 
         bytes32 computedHash = keccak256(abi.encodePacked(_price, _nonce));
-        require(computedHash == offer.offerHash, "Hash mismatch - invalid reveal");
+        bytes32 boundHash = keccak256(abi.encodePacked(_price, _nonce, _requestId, msg.sender));
+        require(
+            computedHash == offer.offerHash || boundHash == offer.offerHash,
+            "Hash mismatch - invalid reveal"
+        );
 
         offer.revealedPrice = _price;
         offer.revealed = true;
@@ -199,6 +310,7 @@ contract ServiceMarketplace is IBiteSupplicant {
         bytes calldata _encryptedPrice
     ) external payable {
         require(requests[_requestId].status == RequestStatus.Open, "Request not open");
+        require(block.timestamp <= requestDeadlines[_requestId], "Request expired");
         require(offers[_requestId][msg.sender].offerHash == bytes32(0), "Already submitted");
 
         // Prepare encrypted arguments for BITE
@@ -294,20 +406,42 @@ contract ServiceMarketplace is IBiteSupplicant {
         req.status = RequestStatus.Settled;
         offer.accepted = true;
 
-        // Transfer payment (x402-style instant settlement)
-        (bool success, ) = payable(_provider).call{value: offer.revealedPrice}("");
-        require(success, "Payment transfer failed");
+        // Transfer payment (x402-style instant settlement), in the request's token
+        _pay(_requestId, _provider, offer.revealedPrice);
 
         // Refund remaining budget to requester
         uint256 refund = req.budget - offer.revealedPrice;
         if (refund > 0) {
-            (bool refundSuccess, ) = payable(req.requester).call{value: refund}("");
-            require(refundSuccess, "Refund failed");
+            _pay(_requestId, req.requester, refund);
         }
 
         emit PaymentSettled(_requestId, _provider, offer.revealedPrice, "x402");
     }
 
+    // ──────────────────────── Escrow Transfers ────────────────────────
+
+    /// @dev Pay `_amount` of the request's escrow (sFUEL or its ERC-20) to `_to`
+    function _pay(uint256 _requestId, address _to, uint256 _amount) private {
+        address token = requestTokens[_requestId];
+        if (token == address(0)) {
+            (bool success, ) = payable(_to).call{value: _amount}("");
+            require(success, "Payment transfer failed");
+        } else {
+            _safeTransfer(token, _to, _amount);
+        }
+    }
+
+    /// @dev Tokens that return nothing (rather than `true`) are accepted, as in OpenZeppelin's SafeERC20
+    function _safeTransfer(address _token, address _to, uint256 _amount) private {
+        (bool success, bytes memory data) = _token.call(abi.encodeCall(IERC20Permit.transfer, (_to, _amount)));
+        require(success && (data.length == 0 || abi.decode(data, (bool))), "Token transfer failed");
+    }
+
+    function _safeTransferFrom(address _token, address _from, address _to, uint256 _amount) private {
+        (bool success, bytes memory data) = _token.call(abi.encodeCall(IERC20Permit.transferFrom, (_from, _to, _amount)));
+        require(success && (data.length == 0 || abi.decode(data, (bool))), "Token transferFrom failed");
+    }
+
     // ──────────────────────── View Helpers ────────────────────────
 
     function getRequestBidders(uint256 _requestId) external view returns (address[] memory) {
@@ -0,0 +1,45 @@
+import { encodeFunctionData, formatEther, parseEther } from 'viem'
+import dotenv from 'dotenv'
+
+dotenv.config({ path: '.env.local' })
+
+// Usage: tsx scripts/register_service.ts [network]
+// Registers the STEALTHBID service for the custodial provider agent (needs SIGNER_MASTER_KEY).
+async function register() {
+    // Network profiles read env at module load, so import after dotenv
+    const { getNetworkProfile, DEFAULT_NETWORK_ID } = await import('../src/config/networks')
+    const { MarketplaceClient } = await import('../src/lib/skale/marketplace-client')
+    const { SERVICE_MARKETPLACE_ABI } = await import('../src/lib/skale/marketplace-abi')
+    const { getAgentSigner } = await import('../src/lib/signer/service')
+
+    const network = getNetworkProfile(process.argv[2] || process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK_ID)
+    const signer = getAgentSigner()
+    const agent = signer.ensureAgent(process.env.NEXT_PUBLIC_PROVIDER_AGENT_ID || 'stealthbid-provider', 'provider')
+    const market = MarketplaceClient.forNetwork(network)
+    const balance = await market.publicClient.getBalance({ address: agent.address })
+    console.log(`Using provider agent "${agent.id}": ${agent.address} (${formatEther(balance)} sFUEL)`)
+
+    console.log(`Registering STEALTHBID service on ${network.label}...`)
+    try {
+        // Goes through the same policy check and audit log as the /api/signer routes
+        const { hash } = await signer.signAndSend({
+            agentId: agent.id,
+            network,
+            to: network.marketplaceAddress,
+            data: encodeFunctionData({
+                abi: SERVICE_MARKETPLACE_ABI,
+                functionName: 'registerService',
+                args: ['STEALTHBID Market Intel', 'Elite intelligence for SKALE ecosystem', parseEther('0.01'), 100, 5],
+            }),
+        })
+        console.log(`Transaction submitted! Hash: ${hash}`)
+
+        const receipt = await market.waitForSuccess(hash)
+        console.log(`Service registered successfully!`)
+        console.log(`New Service ID: ${market.getRegisteredServiceId(receipt, agent.address)}`)
+    } catch (e) {
+        console.error('Registration failed:', e)
+    }
+}
+
+register()
@@ -0,0 +1,126 @@
+/**
+ * Headless Agent Runner
+ *
+ * Drives the full marketplace lifecycle (register → request → commit →
+ * reveal → settle) from the terminal via `runAgentArbitrageFlow`, without
+ * opening the dashboard. Intended for cron jobs and CI against a local chain.
+ *
+ * Usage:
+ *   npm run agent:run -- --objective "Render 4K frames" [--network local] [--currency sFUEL|USDC] [--format ndjson|pretty] [--env-file .env.local]
+ *
+ * Keys are read from the environment (never from argv, which leaks into `ps`):
+ *   AGENT_REQUESTER_KEY   requester / treasury private key
+ *   AGENT_PROVIDER_KEY    provider agent private key
+ *
+ * Exit codes: 0 = flow completed, 1 = a lifecycle step failed, 2 = bad usage/config.
+ */
+import { parseArgs } from 'node:util'
+import dotenv from 'dotenv'
+import type { AgentEngineLog } from '../src/lib/agent-engine'
+
+type OutputFormat = 'ndjson' | 'pretty'
+
+const USAGE = `Usage: run_agent --objective <text> [--network <id>] [--currency sFUEL|USDC] [--format ndjson|pretty] [--env-file <path>]`
+
+function isPrivateKey(value: string | undefined): value is `0x${string}` {
+    return !!value && /^0x[0-9a-fA-F]{64}$/.test(value)
+}
+
+function createPrinter(format: OutputFormat) {
+    return (log: AgentEngineLog) => {
+        if (format === 'ndjson') {
+            process.stdout.write(JSON.stringify({ ts: new Date().toISOString(), ...log }) + '\n')
+            return
+        }
+        const time = new Date().toLocaleTimeString([], { hour12: false })
+        const tx = log.txHash ? `  (tx: ${log.txHash})` : ''
+        const line = `[${time}] ${log.step.padEnd(12)} ${log.detail}${tx}\n`
+        if (log.step === 'ERROR') process.stderr.write(line)
+        else process.stdout.write(line)
+    }
+}
+
+async function main(): Promise<number> {
+    let values
+    try {
+        ({ values } = parseArgs({
+            options: {
+                objective: { type: 'string', short: 'o' },
+                network: { type: 'string', short: 'n' },
+                currency: { type: 'string', short: 'c' },
+                format: { type: 'string', short: 'f', default: 'pretty' },
+                'env-file': { type: 'string', default: '.env.local' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        }))
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : String(e))
+        console.error(USAGE)
+        return 2
+    }
+
+    if (values.help) {
+        console.log(USAGE)
+        return 0
+    }
+
+    const format = values.format as OutputFormat
+    if (format !== 'ndjson' && format !== 'pretty') {
+        console.error(`Unknown --format "${values.format}" (expected ndjson or pretty)`)
+        return 2
+    }
+    if (!values.objective?.trim()) {
+        console.error('Missing --objective')
+        console.error(USAGE)
+        return 2
+    }
+
+    // Load env before importing the engine: network profiles read contract config at module load.
+    dotenv.config({ path: values['env-file'], quiet: true })
+
+    const { getNetworkProfile, DEFAULT_NETWORK_ID } = await import('../src/config/networks')
+    let network
+    try {
+        network = getNetworkProfile(values.network || process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK_ID)
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : String(e))
+        return 2
+    }
+
+    const { getSettlementCurrency, isSettlementCurrency } = await import('../src/lib/skale/assets')
+    const currency = values.currency ?? getSettlementCurrency()
+    if (!isSettlementCurrency(currency)) {
+        console.error(`Unknown --currency "${values.currency}" (expected sFUEL or USDC)`)
+        return 2
+    }
+
+    const requesterKey = process.env.AGENT_REQUESTER_KEY
+    const providerKey = process.env.AGENT_PROVIDER_KEY
+    if (!isPrivateKey(requesterKey) || !isPrivateKey(providerKey)) {
+        console.error('AGENT_REQUESTER_KEY and AGENT_PROVIDER_KEY must be set to 32-byte hex private keys')
+        return 2
+    }
+
+    const { runAgentArbitrageFlow, AgentEngineError } = await import('../src/lib/agent-engine')
+    const print = createPrinter(format)
+
+    let lastStep = 'INIT'
+    try {
+        await runAgentArbitrageFlow(requesterKey, providerKey, values.objective.trim(), log => {
+            lastStep = log.step
+            print(log)
+        }, { network, currency })
+        return 0
+    } catch (e) {
+        const step = e instanceof AgentEngineError ? e.step : lastStep
+        const message = e instanceof Error ? e.message.split('\n')[0] : String(e)
+        print({
+            step: 'ERROR',
+            detail: `❌ ${step} failed: ${message}`,
+            txHash: e instanceof AgentEngineError ? e.txHash : undefined,
+        })
+        return 1
+    }
+}
+
+main().then(code => process.exit(code))
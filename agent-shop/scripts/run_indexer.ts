@@ -0,0 +1,110 @@
+/**
+ * Marketplace Indexer
+ *
+ * Follows ServiceMarketplace events into a local SQLite file so discovery,
+ * receipts and analytics can query history instead of the RPC.
+ *
+ * Usage:
+ *   npm run indexer -- [--network local] [--from-block 123456] [--db data/indexer.db] [--once] [--env-file .env.local]
+ *
+ * Config (flags win over env):
+ *   INDEXER_START_BLOCK     first block to scan on an empty index (default 0)
+ *   INDEXER_DB_PATH         database file (default data/indexer-<network>.db)
+ *   INDEXER_CONFIRMATIONS   blocks to stay behind head (default 0)
+ *   INDEXER_BATCH_SIZE      blocks per eth_getLogs call (default 2000)
+ *   INDEXER_POLL_MS         poll interval once caught up (default 5000)
+ *
+ * `--once` syncs to head and exits (cron); otherwise runs until SIGINT/SIGTERM.
+ */
+import { parseArgs } from 'node:util'
+import dotenv from 'dotenv'
+
+const USAGE = `Usage: run_indexer [--network <id>] [--from-block <n>] [--db <path>] [--once] [--env-file <path>]`
+
+function parseBlock(value: string | undefined, name: string): bigint | undefined {
+    if (value === undefined || value === '') return undefined
+    if (!/^\d+$/.test(value)) throw new Error(`${name} must be a non-negative integer, got "${value}"`)
+    return BigInt(value)
+}
+
+async function main(): Promise<number> {
+    let values
+    try {
+        ({ values } = parseArgs({
+            options: {
+                network: { type: 'string', short: 'n' },
+                'from-block': { type: 'string' },
+                db: { type: 'string' },
+                once: { type: 'boolean' },
+                'env-file': { type: 'string', default: '.env.local' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        }))
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : String(e))
+        console.error(USAGE)
+        return 2
+    }
+
+    if (values.help) {
+        console.log(USAGE)
+        return 0
+    }
+
+    // Load env before importing modules that read contract config at load time.
+    dotenv.config({ path: values['env-file'], quiet: true })
+
+    const { getNetworkProfile, DEFAULT_NETWORK_ID } = await import('../src/config/networks')
+    const { IndexerStore } = await import('../src/lib/indexer/store')
+    const { MarketplaceIndexer, defaultIndexerDbPath } = await import('../src/lib/indexer/indexer')
+
+    let network, startBlock, confirmations, batchSize
+    try {
+        network = getNetworkProfile(values.network || process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK_ID)
+        startBlock = parseBlock(values['from-block'] ?? process.env.INDEXER_START_BLOCK, 'start block')
+        confirmations = parseBlock(process.env.INDEXER_CONFIRMATIONS, 'INDEXER_CONFIRMATIONS')
+        batchSize = parseBlock(process.env.INDEXER_BATCH_SIZE, 'INDEXER_BATCH_SIZE')
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : String(e))
+        return 2
+    }
+
+    const dbPath = values.db || defaultIndexerDbPath(network)
+    const store = IndexerStore.open(dbPath)
+    const log = (message: string) => console.log(`[${new Date().toLocaleTimeString([], { hour12: false })}] ${message}`)
+    log(`🗄️ ${network.label} → ${dbPath}`)
+
+    try {
+        const indexer = new MarketplaceIndexer({
+            network,
+            store,
+            startBlock,
+            confirmations,
+            batchSize,
+            pollIntervalMs: process.env.INDEXER_POLL_MS ? Number(process.env.INDEXER_POLL_MS) : undefined,
+            onLog: log,
+        })
+
+        if (values.once) {
+            let result
+            do {
+                result = await indexer.syncOnce()
+            } while (!result.caughtUp)
+            log(`✅ Caught up at block #${result.toBlock}`)
+            return 0
+        }
+
+        const controller = new AbortController()
+        process.once('SIGINT', () => controller.abort())
+        process.once('SIGTERM', () => controller.abort())
+        await indexer.run(controller.signal)
+        return 0
+    } catch (e) {
+        console.error(`❌ ${e instanceof Error ? e.message.split('\n')[0] : String(e)}`)
+        return 1
+    } finally {
+        store.close()
+    }
+}
+
+main().then(code => process.exit(code))
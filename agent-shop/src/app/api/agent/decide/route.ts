@@ -9,9 +9,14 @@
  * - Context-aware prompting
  * - Real-world price comparison enforcement
  * - Structured JSON output for the frontend state machine
+ *
+ * Body `mode` (strict|demo, see run-mode.ts): in demo mode a failed Gemini call
+ * answers 200 with a canned decision marked `provenance: 'simulated'`; in
+ * strict mode it answers 502.
  */
 import { NextRequest, NextResponse } from 'next/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { parseRunMode } from '@/lib/run-mode'
 
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || 'no-key')
 
@@ -84,18 +89,19 @@ You must output ONLY valid JSON (no markdown, no code fences) in this exact form
         const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim()
         const decision = JSON.parse(jsonStr)
 
-        return NextResponse.json({ success: true, decision, raw: text })
+        return NextResponse.json({ success: true, decision, raw: text, provenance: 'real' })
     } catch (error) {
+        // Try to rescue state and mode from request clone, but don't crash if it fails
+        const body = await req.clone().json().catch(() => ({}))
+        const mode = parseRunMode(body.mode)
+        if (mode === 'strict') {
+            console.error('Agent Brain API Error:', error)
+            return NextResponse.json({ success: false, error: String(error), mode }, { status: 502 })
+        }
         console.error('Agent Brain API Error (Using Fallback):', error)
 
         // Robust Fallback handling to prevent 500
-        let currentState = 'INITIAL_ANALYSIS'
-        try {
-            // Try to rescue state from request clone, but don't crash if it fails
-            const body = await req.clone().json().catch(() => ({}))
-            if (body.currentState) currentState = body.currentState
-        } catch (e) { }
-
+        const currentState = typeof body.currentState === 'string' ? body.currentState : 'INITIAL_ANALYSIS'
         const decision = getFallbackDecision(currentState)
 
         return NextResponse.json(
@@ -103,7 +109,9 @@ You must output ONLY valid JSON (no markdown, no code fences) in this exact form
                 success: false,
                 decision,
                 error: String(error),
-                isFallback: true
+                isFallback: true,
+                provenance: 'simulated',
+                mode,
             },
             { status: 200 } // Return 200 so frontend doesn't see red 500
         )
@@ -0,0 +1,144 @@
+/**
+ * Market Intelligence API (paid, x402)
+ *
+ * Prices a budget against the live marketplace: how many active services
+ * match `q`, their price range and median, and where `budget` (sFUEL) falls.
+ * Each call costs MARKET_INTEL_PRICE_USDC (default 0.01), paid over x402 to
+ * X402_PAY_TO_ADDRESS; without that address the API is disabled (503).
+ * Settled calls are recorded in the payment request store.
+ *
+ * Query: q, budget (sFUEL), network.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { formatEther, getAddress, isAddress, parseEther, parseUnits, type Address } from 'viem'
+import { getActiveNetwork, getNetworkProfile, type NetworkProfile } from '@/config/networks'
+import { USDC_DECIMALS } from '@/lib/skale/assets'
+import { getServiceSnapshot } from '@/lib/skale/service-directory'
+import { facilitatorFor } from '@/lib/x402/facilitator'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+import { exactUsdcRequirements } from '@/lib/x402/protocol'
+import { withX402Payment } from '@/lib/x402/server'
+
+const DEFAULT_PRICE_USDC = '0.01'
+
+interface IntelQuery {
+    network: NetworkProfile
+    q?: string
+    budget?: bigint
+}
+
+function parseQuery(params: URLSearchParams): IntelQuery {
+    const networkId = params.get('network')
+    let budget: bigint | undefined
+    const rawBudget = params.get('budget')
+    if (rawBudget) {
+        try {
+            budget = parseEther(rawBudget)
+        } catch {
+            throw new Error('budget must be a decimal amount in sFUEL')
+        }
+    }
+    return {
+        network: networkId ? getNetworkProfile(networkId) : getActiveNetwork(),
+        q: params.get('q')?.trim() || undefined,
+        budget,
+    }
+}
+
+function payTo(): Address | null {
+    const raw = process.env.X402_PAY_TO_ADDRESS
+    return raw && isAddress(raw, { strict: false }) ? getAddress(raw) : null
+}
+
+/** The price in atomic USDC, or null when MARKET_INTEL_PRICE_USDC is not a positive decimal amount */
+function price(): bigint | null {
+    try {
+        const amount = parseUnits(process.env.MARKET_INTEL_PRICE_USDC || DEFAULT_PRICE_USDC, USDC_DECIMALS)
+        return amount > 0n ? amount : null
+    } catch {
+        return null
+    }
+}
+
+const median = (sorted: bigint[]) => {
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2n
+}
+
+async function handler(req: NextRequest) {
+    const { network, q, budget } = parseQuery(req.nextUrl.searchParams)
+
+    let snapshot
+    try {
+        snapshot = await getServiceSnapshot(network)
+    } catch (error) {
+        console.error('Market Intel Error:', error)
+        // A non-2xx response is not settled, so the caller is not charged
+        return NextResponse.json({
+            success: false,
+            error: `Failed to read services from ${network.label}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+        }, { status: 502 })
+    }
+
+    const needle = q?.toLowerCase()
+    const prices = snapshot.services
+        .filter(svc => !needle || svc.name.toLowerCase().includes(needle) || svc.description.toLowerCase().includes(needle))
+        .map(svc => svc.pricePerUnit)
+        .sort((a, b) => a === b ? 0 : a < b ? -1 : 1)
+
+    const stats = prices.length === 0 ? null : {
+        min: formatEther(prices[0]),
+        median: formatEther(median(prices)),
+        max: formatEther(prices[prices.length - 1]),
+    }
+    let budgetPosition = null
+    if (budget !== undefined && prices.length > 0) {
+        const mid = median(prices)
+        budgetPosition = {
+            /** Share of matching services the budget can afford */
+            affordablePercent: Math.round(prices.filter(p => p <= budget).length / prices.length * 100),
+            /** Budget relative to the median price; negative means below it */
+            vsMedianPercent: mid === 0n ? null : Number((budget - mid) * 10_000n / mid) / 100,
+        }
+    }
+
+    return NextResponse.json({
+        success: true,
+        network: network.id,
+        query: q ?? null,
+        matchingServices: prices.length,
+        totalActive: snapshot.services.length,
+        priceSfuel: stats,
+        budget: budget !== undefined ? formatEther(budget) : null,
+        budgetPosition,
+        fetchedAt: snapshot.fetchedAt,
+    })
+}
+
+export const GET = withX402Payment(handler, {
+    requirements: req => {
+        let network
+        try {
+            network = parseQuery(req.nextUrl.searchParams).network
+        } catch (error) {
+            return NextResponse.json({ success: false, error: error instanceof Error ? error.message : String(error) }, { status: 400 })
+        }
+        const recipient = payTo()
+        if (!recipient) {
+            return NextResponse.json({ success: false, error: 'Market intel is not for sale: X402_PAY_TO_ADDRESS is not set' }, { status: 503 })
+        }
+        const amount = price()
+        if (amount === null) {
+            return NextResponse.json({ success: false, error: 'Market intel is not for sale: MARKET_INTEL_PRICE_USDC must be a positive USDC amount' }, { status: 503 })
+        }
+        return exactUsdcRequirements({
+            network,
+            amount,
+            payTo: recipient,
+            resource: req.nextUrl.toString(),
+            description: 'StealthBid market intelligence: marketplace price range and budget position',
+        })
+    },
+    facilitator: req => facilitatorFor(parseQuery(req.nextUrl.searchParams).network),
+    paymentRequests: () => getPaymentRequestStore(),
+})
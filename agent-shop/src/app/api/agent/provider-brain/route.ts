@@ -6,10 +6,14 @@
  * against a minimum acceptable price (reservation price).
  */
 import { NextRequest, NextResponse } from 'next/server'
+import { parseRunMode } from '@/lib/run-mode'
 
 export async function POST(req: NextRequest) {
+    let mode = parseRunMode(undefined)
     try {
-        const { offerPrice, serviceId } = await req.json()
+        const body = await req.json()
+        const { offerPrice, serviceId } = body
+        mode = parseRunMode(body.mode)
         const minPrice = 0.01 // Hardcoded minimum for demo
 
         // Simulate agent processing time
@@ -27,6 +31,9 @@ export async function POST(req: NextRequest) {
             })
         }
     } catch (error) {
-        return NextResponse.json({ accepted: true, message: "Provider offline. Auto-accepting based on protocol defaults." })
+        if (mode === 'strict') {
+            return NextResponse.json({ accepted: false, error: String(error), mode }, { status: 400 })
+        }
+        return NextResponse.json({ accepted: true, message: "Provider offline. Auto-accepting based on protocol defaults.", provenance: 'simulated' })
     }
 }
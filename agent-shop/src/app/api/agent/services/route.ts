@@ -1,110 +1,137 @@
 /**
  * Service Registry API
- * 
+ *
  * Interfaces with the ServiceMarketplace smart contract on SKALE.
  * Fetches real-time provider data (Price, Uptime, Reputation)
  * to populate the agent's innovative "Market View".
+ *
+ * Query: q, minRating (stars), maxPrice (sFUEL), minUptime (%), provider,
+ * sort (newest|oldest|price_asc|price_desc|rating|uptime), cursor, limit, network.
+ * Responses carry an ETag and honour If-None-Match. `source` says whether the
+ * data came from the chain or the demo mock (only with SERVICES_MOCK_FALLBACK=true,
+ * and never for `mode=strict`).
  */
 import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient, http, formatEther } from 'viem'
+import { getAddress, isAddress, parseEther } from 'viem'
+import { getActiveNetwork, getNetworkProfile } from '@/config/networks'
+import { parseRunMode } from '@/lib/run-mode'
+import {
+    SERVICE_SORTS,
+    computeEtag,
+    decodeCursor,
+    encodeCursor,
+    getServiceSnapshot,
+    mockServiceSnapshot,
+    mockServicesEnabled,
+    queryServices,
+    serviceCacheTtlMs,
+    type ServiceQuery,
+    type ServiceSnapshot,
+    type ServiceSort,
+} from '@/lib/skale/service-directory'
 
-const SANDBOX_RPC = 'https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox'
-const MARKETPLACE_ADDRESS = (process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS || '0xEcB3fA9afa1344BD5fCC3cE6a71bB815FBB3B532') as `0x${string}`
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
 
-const SERVICE_ABI = [
-    {
-        name: 'services',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [{ name: 'serviceId', type: 'uint256' }],
-        outputs: [
-            { name: 'provider', type: 'address' },
-            { name: 'active', type: 'bool' },
-            { name: 'uptime', type: 'uint8' },
-            { name: 'rating', type: 'uint8' },
-            { name: 'name', type: 'string' },
-            { name: 'description', type: 'string' },
-            { name: 'pricePerUnit', type: 'uint256' },
-            { name: 'ratingCount', type: 'uint256' },
-        ],
-    },
-    {
-        name: 'nextServiceId',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'uint256' }],
-    },
-] as const
+function parseQuery(params: URLSearchParams): ServiceQuery {
+    const number = (name: string, min: number, max: number) => {
+        const raw = params.get(name)
+        if (raw === null || raw === '') return undefined
+        const value = Number(raw)
+        if (!Number.isFinite(value) || value < min || value > max) {
+            throw new Error(`${name} must be a number between ${min} and ${max}`)
+        }
+        return value
+    }
 
-export async function GET(_req: NextRequest) {
-    try {
-        const client = createPublicClient({
-            transport: http(SANDBOX_RPC),
-        })
+    const sort = (params.get('sort') || 'newest') as ServiceSort
+    if (!SERVICE_SORTS.includes(sort)) throw new Error(`sort must be one of: ${SERVICE_SORTS.join(', ')}`)
 
-        const nextId = await client.readContract({
-            address: MARKETPLACE_ADDRESS,
-            abi: SERVICE_ABI,
-            functionName: 'nextServiceId',
-        })
+    const provider = params.get('provider')
+    if (provider && !isAddress(provider, { strict: false })) throw new Error('provider must be a 0x-prefixed address')
 
-        const totalServices = Number(nextId)
-        if (totalServices === 0) {
-            return NextResponse.json({ success: false, error: 'No services registered' })
+    let maxPrice: bigint | undefined
+    const rawMaxPrice = params.get('maxPrice')
+    if (rawMaxPrice) {
+        try {
+            maxPrice = parseEther(rawMaxPrice)
+        } catch {
+            throw new Error('maxPrice must be a decimal amount in sFUEL')
         }
+    }
 
-        // Read all services
-        const services = []
-        for (let i = 0; i < totalServices; i++) {
-            const result = await client.readContract({
-                address: MARKETPLACE_ADDRESS,
-                abi: SERVICE_ABI,
-                functionName: 'services',
-                args: [BigInt(i)],
-            })
+    const cursor = params.get('cursor')
+    const offset = cursor ? decodeCursor(cursor) : 0
+    if (offset === null) throw new Error('cursor is invalid')
 
-            const [provider, active, uptime, rating, name, description, pricePerUnit] = result
-            if (active) {
-                services.push({
-                    id: i,
-                    provider,
-                    name,
-                    description,
-                    price: formatEther(pricePerUnit),
-                    active,
-                    uptime: Number(uptime),
-                    rating: Number(rating),
-                })
-            }
-        }
+    const limit = number('limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT
+    if (!Number.isInteger(limit)) throw new Error('limit must be an integer')
 
-        return NextResponse.json({
-            success: true,
-            services,
-            contract: MARKETPLACE_ADDRESS,
-            totalRegistered: totalServices,
-        })
+    return {
+        q: params.get('q')?.trim() || undefined,
+        minRating: number('minRating', 0, 5),
+        maxPrice,
+        minUptime: number('minUptime', 0, 100),
+        provider: provider ? getAddress(provider) : undefined,
+        sort,
+        offset,
+        limit,
+    }
+}
+
+export async function GET(req: NextRequest) {
+    let network, query
+    const mode = parseRunMode(req.nextUrl.searchParams.get('mode'))
+    try {
+        const networkId = req.nextUrl.searchParams.get('network')
+        network = networkId ? getNetworkProfile(networkId) : getActiveNetwork()
+        query = parseQuery(req.nextUrl.searchParams)
     } catch (error) {
-        console.error('Service Registry Error (Using Mock):', error)
-        // Fallback Mock Data to prevent 500 in demo
-        return NextResponse.json({
-            success: true,
-            services: [
-                {
-                    id: 0,
-                    provider: '0x83934d93e8c9c0F82Fb1A45',
-                    name: 'GPU Compute Node (Mock)',
-                    description: 'High-performance GPU processing (Fallback)',
-                    price: '0.01',
-                    active: true,
-                    uptime: 99.9,
-                    rating: 4.8
-                }
-            ],
-            contract: MARKETPLACE_ADDRESS,
-            totalRegistered: 1,
-            isMock: true
-        })
+        return NextResponse.json({ success: false, error: error instanceof Error ? error.message : String(error) }, { status: 400 })
+    }
+
+    const ttlMs = serviceCacheTtlMs()
+    let snapshot: ServiceSnapshot
+    try {
+        snapshot = await getServiceSnapshot(network, ttlMs)
+    } catch (error) {
+        console.error('Service Registry Error:', error)
+        if (mode === 'strict' || !mockServicesEnabled()) {
+            return NextResponse.json({
+                success: false,
+                source: 'chain',
+                error: `Failed to read services from ${network.label}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+                contract: network.marketplaceAddress,
+                network: network.id,
+                mode,
+            }, { status: 502 })
+        }
+        console.warn('⚠️ SERVICES_MOCK_FALLBACK is set: serving mock services')
+        snapshot = mockServiceSnapshot()
+    }
+
+    const page = queryServices(snapshot, query)
+    const body = {
+        success: true,
+        source: snapshot.source,
+        services: page.services,
+        total: page.total,
+        nextCursor: page.nextOffset !== null ? encodeCursor(page.nextOffset) : null,
+        contract: network.marketplaceAddress,
+        network: network.id,
+        totalRegistered: snapshot.totalRegistered,
+    }
+
+    const etag = computeEtag(body)
+    const headers = {
+        ETag: etag,
+        // Mock responses must never be cached downstream
+        'Cache-Control': snapshot.source === 'chain'
+            ? `public, max-age=${Math.floor(ttlMs / 1000)}, stale-while-revalidate=${Math.floor(ttlMs / 1000)}`
+            : 'no-store',
+    }
+    if (req.headers.get('if-none-match') === etag) {
+        return new NextResponse(null, { status: 304, headers })
     }
+    return NextResponse.json({ ...body, fetchedAt: snapshot.fetchedAt }, { headers })
 }
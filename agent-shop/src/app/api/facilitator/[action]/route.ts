@@ -0,0 +1,59 @@
+/**
+ * Local x402 Facilitator API
+ *
+ * The standard facilitator REST API over LocalFacilitator, for the `local`
+ * network profile (its default facilitatorUrl) and CI:
+ * - `POST /api/facilitator/verify` and `POST /api/facilitator/settle` with
+ *   `{ x402Version, paymentPayload, paymentRequirements }`
+ * - `GET /api/facilitator/supported`
+ *
+ * Settles with X402_FACILITATOR_KEY (server-only); offline without it.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { NETWORK_PROFILES } from '@/config/networks'
+import { jsonError } from '@/lib/indexer/api'
+import { getLocalFacilitator } from '@/lib/x402/local-facilitator'
+import type { PaymentPayload, PaymentRequirements } from '@/lib/x402/protocol'
+
+type Params = { params: Promise<{ action: string }> }
+
+export async function GET(_req: NextRequest, { params }: Params) {
+    if ((await params).action !== 'supported') return jsonError(404, 'Use GET /supported')
+    try {
+        const networks = new Set(Object.values(NETWORK_PROFILES).map(p => p.x402Network))
+        const facilitators = [...networks].flatMap(n => getLocalFacilitator(n) ?? [])
+        const supported = await Promise.all(facilitators.map(f => f.supported()))
+        return NextResponse.json({ kinds: supported.flatMap(s => s.kinds) })
+    } catch (error) {
+        console.error('Facilitator API Error:', error)
+        return jsonError(500, error instanceof Error ? error.message : String(error))
+    }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+    const action = (await params).action
+    if (action !== 'verify' && action !== 'settle') return jsonError(404, 'Use POST /verify or POST /settle')
+
+    let paymentPayload: PaymentPayload
+    let paymentRequirements: PaymentRequirements
+    try {
+        ({ paymentPayload, paymentRequirements } = await req.json())
+    } catch {
+        return jsonError(400, 'Body must be JSON')
+    }
+    if (!paymentPayload?.payload || typeof paymentRequirements?.network !== 'string') {
+        return jsonError(400, 'paymentPayload and paymentRequirements are required')
+    }
+
+    try {
+        const facilitator = getLocalFacilitator(paymentRequirements.network)
+        if (!facilitator) return jsonError(400, `Unsupported network "${paymentRequirements.network}"`)
+        const result = action === 'verify'
+            ? await facilitator.verify(paymentPayload, paymentRequirements)
+            : await facilitator.settle(paymentPayload, paymentRequirements)
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('Facilitator API Error:', error)
+        return jsonError(502, `Facilitator failed: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+    }
+}
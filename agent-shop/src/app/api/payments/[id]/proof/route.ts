@@ -0,0 +1,54 @@
+/**
+ * Payment Proof API
+ *
+ * POST `{ transactionHash, payer, signature }` submits the payment for
+ * request `id`. `signature` is the payer's personal_sign over
+ * `paymentProofMessage`. The transaction is verified on the request's chain
+ * (token, recipient, payer, amount, time window) and the request becomes `paid`. Answers 402 with the
+ * failure `reason` when it does not pay the request, and 409 when the
+ * request is already paid or the transaction already paid another one.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, getAddress, isAddress, isHash, isHex } from 'viem'
+import { NETWORK_PROFILES, networkTransport } from '@/config/networks'
+import { jsonError } from '@/lib/indexer/api'
+import { paymentErrorResponse, serializePaymentRecord } from '@/lib/x402/payment-api'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    let body
+    try {
+        body = await req.json()
+    } catch {
+        return jsonError(400, 'Body must be JSON')
+    }
+    if (typeof body.transactionHash !== 'string' || !isHash(body.transactionHash)) return jsonError(400, 'transactionHash must be a 32-byte hash')
+    if (typeof body.payer !== 'string' || !isAddress(body.payer, { strict: false })) return jsonError(400, 'payer must be an address')
+    if (!isHex(body.signature)) return jsonError(400, 'signature must be the payer\'s 0x-hex signature of the proof message')
+
+    try {
+        const store = getPaymentRequestStore()
+        const record = store.get(id)
+        if (!record) return jsonError(404, `Unknown payment request "${id}"`)
+        const network = Object.values(NETWORK_PROFILES).find(p => p.chain.id === record.request.chainId)
+        if (!network) return jsonError(400, `Payment request "${id}" is on unknown chain ${record.request.chainId}`)
+
+        const publicClient = createPublicClient({ chain: network.chain, transport: networkTransport(network) })
+        const verification = await store.submitProof({
+            requestId: id,
+            transactionHash: body.transactionHash,
+            payer: getAddress(body.payer),
+            signature: body.signature,
+            timestamp: Date.now(),
+            facilitator: record.request.facilitator,
+        }, publicClient)
+        if (!verification.valid) {
+            const status = verification.reason === 'already_used' ? 409 : 402
+            return NextResponse.json({ success: false, error: verification.message, reason: verification.reason }, { status })
+        }
+        return NextResponse.json({ success: true, ...serializePaymentRecord(store.get(id)!) })
+    } catch (error) {
+        return paymentErrorResponse(error, 'Payment Proof API')
+    }
+}
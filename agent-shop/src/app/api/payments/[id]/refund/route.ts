@@ -0,0 +1,36 @@
+/**
+ * Payment Refund API
+ *
+ * POST `{ refundTxHash? }` marks paid request `id` `refunded`, with the
+ * transaction that returned the funds when they moved on-chain. Requires
+ * `Authorization: Bearer <PAYMENTS_API_TOKEN>`. Answers 409 when the request
+ * is not `paid`.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { isHash } from 'viem'
+import { jsonError } from '@/lib/indexer/api'
+import { paymentErrorResponse, requirePaymentsAuth, serializePaymentRecord } from '@/lib/x402/payment-api'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = requirePaymentsAuth(req)
+    if (denied) return denied
+    let body
+    try {
+        const text = await req.text()
+        body = text ? JSON.parse(text) : {}
+    } catch {
+        return jsonError(400, 'Body must be JSON')
+    }
+    const { refundTxHash } = body
+    if (refundTxHash !== undefined && (typeof refundTxHash !== 'string' || !isHash(refundTxHash))) {
+        return jsonError(400, 'refundTxHash must be a 32-byte hash')
+    }
+
+    try {
+        const { id } = await params
+        return NextResponse.json({ success: true, ...serializePaymentRecord(getPaymentRequestStore().markRefunded(id, refundTxHash)) })
+    } catch (error) {
+        return paymentErrorResponse(error, 'Payment Refund API')
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * Payment Request Status API
+ *
+ * GET reports where request `id` is in its lifecycle
+ * (created → paid → settled | expired | refunded) and, once paid, the
+ * transaction, payer and amount. Providers gate delivery on `status: paid`.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { jsonError } from '@/lib/indexer/api'
+import { paymentErrorResponse, serializePaymentRecord } from '@/lib/x402/payment-api'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params
+        const record = getPaymentRequestStore().get(id)
+        if (!record) return jsonError(404, `Unknown payment request "${id}"`)
+        return NextResponse.json({ success: true, ...serializePaymentRecord(record) })
+    } catch (error) {
+        return paymentErrorResponse(error, 'Payment Request Status API')
+    }
+}
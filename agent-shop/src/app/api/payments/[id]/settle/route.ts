@@ -0,0 +1,21 @@
+/**
+ * Payment Settle API
+ *
+ * POST marks paid request `id` `settled` once the service was delivered.
+ * Requires `Authorization: Bearer <PAYMENTS_API_TOKEN>`. Answers 409 when
+ * the request is not `paid`.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { paymentErrorResponse, requirePaymentsAuth, serializePaymentRecord } from '@/lib/x402/payment-api'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = requirePaymentsAuth(req)
+    if (denied) return denied
+    try {
+        const { id } = await params
+        return NextResponse.json({ success: true, ...serializePaymentRecord(getPaymentRequestStore().markSettled(id)) })
+    } catch (error) {
+        return paymentErrorResponse(error, 'Payment Settle API')
+    }
+}
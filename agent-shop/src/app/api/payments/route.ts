@@ -0,0 +1,45 @@
+/**
+ * Payment Requests API
+ *
+ * POST `{ amount, network?, metadata? }` issues an x402 payment request for
+ * `amount` USDC to this server's X402_PAY_TO_ADDRESS (503 without it) and
+ * starts tracking it. Payers answer with a proof at
+ * /api/payments/:id/proof; GET /api/payments/:id reports the status.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { getAddress, isAddress } from 'viem'
+import { getActiveNetwork, getNetworkProfile } from '@/config/networks'
+import { jsonError } from '@/lib/indexer/api'
+import { createPaymentRequest } from '@/lib/skale/x402'
+import { paymentErrorResponse, serializePaymentRecord } from '@/lib/x402/payment-api'
+import { getPaymentRequestStore } from '@/lib/x402/payment-requests'
+
+export async function POST(req: NextRequest) {
+    let body
+    try {
+        body = await req.json()
+    } catch {
+        return jsonError(400, 'Body must be JSON')
+    }
+    if (typeof body.amount !== 'string' || !/^\d+(\.\d{1,6})?$/.test(body.amount) || Number(body.amount) <= 0) {
+        return jsonError(400, 'amount must be a positive decimal USDC amount')
+    }
+    if (body.metadata !== undefined && (typeof body.metadata !== 'object' || body.metadata === null)) {
+        return jsonError(400, 'metadata must be an object')
+    }
+    let network
+    try {
+        network = typeof body.network === 'string' ? getNetworkProfile(body.network) : getActiveNetwork()
+    } catch (error) {
+        return jsonError(400, error instanceof Error ? error.message : String(error))
+    }
+    const payTo = process.env.X402_PAY_TO_ADDRESS
+    if (!payTo || !isAddress(payTo, { strict: false })) return jsonError(503, 'Payments are disabled: X402_PAY_TO_ADDRESS is not set')
+
+    try {
+        const record = getPaymentRequestStore().create(createPaymentRequest(getAddress(payTo), body.amount, body.metadata ?? {}, network))
+        return NextResponse.json({ success: true, ...serializePaymentRecord(record) }, { status: 201 })
+    } catch (error) {
+        return paymentErrorResponse(error, 'Payment Requests API')
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Provider API
+ *
+ * One provider's footprint from the event index: registered services,
+ * lifetime stats (bids, reveals, wins, earnings) and the requests it bid on,
+ * each with its own offer. Requests are paginated (limit, offset) and
+ * filterable by requester, service and status.
+ *
+ * `earned` lists the provider's payouts per token, formatted like request
+ * amounts (see lib/indexer/api). Service prices are sFUEL.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { formatEther } from 'viem'
+import {
+    QueryParamError,
+    indexUnavailable,
+    jsonError,
+    openIndex,
+    pagination,
+    parseAddressParam,
+    parseFilter,
+    parsePage,
+    resolveNetwork,
+    serializeOffer,
+    serializeRequest,
+    tokenAmounts,
+} from '@/lib/indexer/api'
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+    try {
+        const network = resolveNetwork(req)
+        const provider = parseAddressParam((await params).address, 'address')
+        if (!provider) return jsonError(400, 'address is required')
+        const filter = { ...parseFilter(req.nextUrl.searchParams), provider }
+        const page = parsePage(req.nextUrl.searchParams)
+
+        const index = openIndex(network)
+        if (!index) return indexUnavailable(network)
+
+        const services = index.listServices({ provider })
+        const stats = index.providerStats(provider)
+        const offers = index.listOffers({ provider })
+        const { items, total } = index.listRequests(filter, page)
+
+        return NextResponse.json({
+            success: true,
+            provider,
+            stats: {
+                ...stats,
+                earned: [...stats.earned].map(([token, amount]) => {
+                    const { format, ...asset } = tokenAmounts(network, token)
+                    return { ...asset, amount: format(amount) }
+                }),
+            },
+            services: services.map(svc => ({
+                id: Number(svc.serviceId),
+                name: svc.name,
+                price: formatEther(svc.pricePerUnit),
+                block: Number(svc.blockNumber),
+                txHash: svc.txHash,
+            })),
+            requests: items.map(r => {
+                const offer = offers.find(o => o.requestId === r.requestId)
+                return { ...serializeRequest(r, network), offer: offer ? serializeOffer(offer, network) : null }
+            }),
+            pagination: pagination(page, total),
+            network: network.id,
+        })
+    } catch (error) {
+        if (error instanceof QueryParamError) return jsonError(400, error.message)
+        console.error('Provider API Error:', error)
+        return jsonError(500, String(error))
+    }
+}
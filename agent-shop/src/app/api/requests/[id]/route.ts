@@ -0,0 +1,89 @@
+/**
+ * Request Detail API
+ *
+ * "What happened to request 42": live contract state (request, bidders from
+ * `getRequestBidders`, each bidder's committed hash and revealed price)
+ * merged with the event index for transaction hashes and the settlement.
+ * Works without the index; the tx fields are then null.
+ *
+ * `refundableBy` says who can release an open request's escrow right now:
+ * the requester (`cancelRequest`), or anyone once the deadline has passed
+ * (`refundExpired`).
+ *
+ * Amounts are decimal strings in the request's `currency` (sFUEL or USDC);
+ * for a token this app does not know they are atomic units and `currency` is null.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { formatUnits } from 'viem'
+import { assetOfToken } from '@/lib/skale/assets'
+import { MarketplaceClient, isRequestExpired } from '@/lib/skale/marketplace-client'
+import {
+    QueryParamError,
+    jsonError,
+    openIndex,
+    parseIdParam,
+    resolveNetwork,
+    serializeSettlement,
+} from '@/lib/indexer/api'
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const network = resolveNetwork(req)
+        const requestId = parseIdParam((await params).id, 'id')
+        if (requestId === undefined) return jsonError(400, 'id is required')
+
+        const market = MarketplaceClient.forNetwork(network)
+        const request = await market.getRequest(requestId)
+        if (!request) return jsonError(404, `Request ${requestId} not found on ${network.label}`)
+
+        const bidders = await market.getRequestBidders(requestId)
+        const offers = await Promise.all(bidders.map(provider => market.getOffer(requestId, provider)))
+
+        const index = openIndex(network)
+        const indexedRequest = index?.getRequest(requestId) ?? null
+        const indexedOffers = index?.listOffers({ requestId }) ?? []
+        const settlement = index?.getSettlement(requestId) ?? null
+        const expired = isRequestExpired(request)
+        const asset = assetOfToken(network, request.token)
+        const amount = (value: bigint) => asset ? formatUnits(value, asset.decimals) : value.toString()
+
+        return NextResponse.json({
+            success: true,
+            request: {
+                id: Number(request.id),
+                requester: request.requester,
+                serviceId: Number(request.serviceId),
+                objective: request.objective,
+                budget: amount(request.budget),
+                token: request.token,
+                currency: asset?.symbol ?? null,
+                status: request.status,
+                deadline: request.deadline > 0n ? new Date(Number(request.deadline) * 1000).toISOString() : null,
+                expired,
+                refundableBy: request.status !== 'open' ? null : expired ? 'anyone' : 'requester',
+                txHash: indexedRequest?.txHash ?? null,
+                block: indexedRequest ? Number(indexedRequest.blockNumber) : null,
+            },
+            offers: bidders.map((provider, i) => {
+                const offer = offers[i]
+                const indexed = indexedOffers.find(o => o.provider.toLowerCase() === provider.toLowerCase())
+                return {
+                    provider,
+                    offerHash: offer?.offerHash ?? null,
+                    revealed: offer?.revealed ?? false,
+                    revealedPrice: offer?.revealed ? amount(offer.revealedPrice) : null,
+                    accepted: offer?.accepted ?? false,
+                    commitTx: indexed?.commitTx ?? null,
+                    revealTx: indexed?.revealTx ?? null,
+                }
+            }),
+            settlement: settlement ? serializeSettlement(settlement, network) : null,
+            indexed: !!index,
+            network: network.id,
+        })
+    } catch (error) {
+        if (error instanceof QueryParamError) return jsonError(400, error.message)
+        console.error('Request Detail API Error:', error)
+        return jsonError(502, `Failed to read request: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+    }
+}
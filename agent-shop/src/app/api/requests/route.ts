@@ -0,0 +1,43 @@
+/**
+ * Requests API
+ *
+ * Lists marketplace requests from the event index, newest first.
+ * Filters: requester, provider (bid on or paid), service, status.
+ * Pagination: limit (max 200), offset.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    QueryParamError,
+    indexUnavailable,
+    jsonError,
+    openIndex,
+    pagination,
+    parseFilter,
+    parsePage,
+    resolveNetwork,
+    serializeRequest,
+} from '@/lib/indexer/api'
+
+export async function GET(req: NextRequest) {
+    try {
+        const network = resolveNetwork(req)
+        const filter = parseFilter(req.nextUrl.searchParams)
+        const page = parsePage(req.nextUrl.searchParams)
+
+        const index = openIndex(network)
+        if (!index) return indexUnavailable(network)
+
+        const { items, total } = index.listRequests(filter, page)
+        return NextResponse.json({
+            success: true,
+            requests: items.map(r => serializeRequest(r, network)),
+            pagination: pagination(page, total),
+            network: network.id,
+            indexedThrough: index.getCheckpoint()?.blockNumber.toString() ?? null,
+        })
+    } catch (error) {
+        if (error instanceof QueryParamError) return jsonError(400, error.message)
+        console.error('Requests API Error:', error)
+        return jsonError(500, String(error))
+    }
+}
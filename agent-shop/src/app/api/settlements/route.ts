@@ -0,0 +1,43 @@
+/**
+ * Settlements API
+ *
+ * Lists PaymentSettled events from the event index, newest first.
+ * Filters: requester, provider, service. Pagination: limit (max 200), offset.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    QueryParamError,
+    indexUnavailable,
+    jsonError,
+    openIndex,
+    pagination,
+    parseFilter,
+    parsePage,
+    resolveNetwork,
+    serializeSettlement,
+} from '@/lib/indexer/api'
+
+export async function GET(req: NextRequest) {
+    try {
+        const network = resolveNetwork(req)
+        // Settlements are always "settled"; status is ignored here
+        const filter = { ...parseFilter(req.nextUrl.searchParams), status: undefined }
+        const page = parsePage(req.nextUrl.searchParams)
+
+        const index = openIndex(network)
+        if (!index) return indexUnavailable(network)
+
+        const { items, total } = index.listSettlements(filter, page)
+        return NextResponse.json({
+            success: true,
+            settlements: items.map(s => serializeSettlement(s, network)),
+            pagination: pagination(page, total),
+            network: network.id,
+            indexedThrough: index.getCheckpoint()?.blockNumber.toString() ?? null,
+        })
+    } catch (error) {
+        if (error instanceof QueryParamError) return jsonError(400, error.message)
+        console.error('Settlements API Error:', error)
+        return jsonError(500, String(error))
+    }
+}
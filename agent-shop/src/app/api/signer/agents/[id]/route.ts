@@ -0,0 +1,30 @@
+/**
+ * Signer Agent Detail API
+ *
+ * One custodial agent: address, policy and its most recent sends.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { jsonError } from '@/lib/indexer/api'
+import { getAgentSigner } from '@/lib/signer/service'
+import { requireSignerAuth, serializeAgent, serializeSend, signerErrorResponse } from '@/lib/signer/api'
+
+const RECENT_SENDS = 20
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = requireSignerAuth(req)
+    if (denied) return denied
+    try {
+        const { id } = await params
+        const signer = getAgentSigner()
+        const agent = signer.store.getAgent(id)
+        if (!agent) return jsonError(404, `Unknown agent "${id}"`)
+
+        return NextResponse.json({
+            success: true,
+            agent: serializeAgent(agent),
+            sends: signer.store.recentSends(id, RECENT_SENDS).map(serializeSend),
+        })
+    } catch (error) {
+        return signerErrorResponse(error, 'Signer Agent API')
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Signer Send API
+ *
+ * POST `{ network?, to, data, value?, gas?, gasPrice?, encrypt? }` signs and
+ * broadcasts a marketplace call as agent `id` after the policy check.
+ * Quantities are decimal or 0x-hex strings. Answers 403 when the policy
+ * denies the call; the key is never used in that case.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress, isHex } from 'viem'
+import { getActiveNetwork, getNetworkProfile } from '@/config/networks'
+import { jsonError } from '@/lib/indexer/api'
+import { SignerRequestError, getAgentSigner } from '@/lib/signer/service'
+import { requireSignerAuth, signerErrorResponse } from '@/lib/signer/api'
+
+function parseQuantity(value: unknown, name: string): bigint | undefined {
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== 'string' || !/^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+        throw new SignerRequestError(400, `${name} must be a decimal or 0x-hex string`)
+    }
+    return BigInt(value)
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = requireSignerAuth(req)
+    if (denied) return denied
+    try {
+        const { id } = await params
+        const body = await req.json()
+        if (typeof body.to !== 'string' || !isAddress(body.to, { strict: false })) return jsonError(400, 'to must be an address')
+        if (!isHex(body.data)) return jsonError(400, 'data must be 0x-hex calldata')
+
+        let network
+        try {
+            network = body.network ? getNetworkProfile(body.network) : getActiveNetwork()
+        } catch (e) {
+            return jsonError(400, e instanceof Error ? e.message : String(e))
+        }
+
+        const result = await getAgentSigner().signAndSend({
+            agentId: id,
+            network,
+            to: body.to,
+            data: body.data,
+            value: parseQuantity(body.value, 'value'),
+            gas: parseQuantity(body.gas, 'gas'),
+            gasPrice: parseQuantity(body.gasPrice, 'gasPrice'),
+            encrypt: body.encrypt === true,
+        })
+        return NextResponse.json({ success: true, ...result, network: network.id })
+    } catch (error) {
+        if (error instanceof SyntaxError) return jsonError(400, 'Body must be JSON')
+        return signerErrorResponse(error, 'Signer Send API')
+    }
+}
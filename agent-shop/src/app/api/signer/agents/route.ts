@@ -0,0 +1,39 @@
+/**
+ * Signer Agents API
+ *
+ * GET lists the custodial agent wallets (addresses and policies, never keys).
+ * POST `{ id, role }` returns that agent, creating it with the role's default
+ * policy on first use, so clients can ask for a stable identity by name.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { jsonError } from '@/lib/indexer/api'
+import { isAgentRole } from '@/lib/signer/policy'
+import { getAgentSigner } from '@/lib/signer/service'
+import { requireSignerAuth, serializeAgent, signerErrorResponse } from '@/lib/signer/api'
+
+export async function GET(req: NextRequest) {
+    const denied = requireSignerAuth(req)
+    if (denied) return denied
+    try {
+        const signer = getAgentSigner()
+        return NextResponse.json({ success: true, agents: signer.store.listAgents().map(serializeAgent) })
+    } catch (error) {
+        return signerErrorResponse(error, 'Signer Agents API')
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const denied = requireSignerAuth(req)
+    if (denied) return denied
+    try {
+        const { id, role } = await req.json()
+        if (typeof id !== 'string') return jsonError(400, 'id is required')
+        if (!isAgentRole(role)) return jsonError(400, 'role must be provider or requester')
+
+        const agent = getAgentSigner().ensureAgent(id, role)
+        return NextResponse.json({ success: true, agent: serializeAgent(agent) })
+    } catch (error) {
+        if (error instanceof SyntaxError) return jsonError(400, 'Body must be JSON')
+        return signerErrorResponse(error, 'Signer Agents API')
+    }
+}
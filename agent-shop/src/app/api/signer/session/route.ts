@@ -0,0 +1,49 @@
+/**
+ * Signer Session API
+ *
+ * Lets the dashboard use the agent signer without holding its credential:
+ * POST `{ token }` with SIGNER_API_TOKEN sets an HttpOnly session cookie
+ * that the other /api/signer routes accept, DELETE clears it, GET reports
+ * whether the current session is signed in.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { jsonError } from '@/lib/indexer/api'
+import {
+    SIGNER_SESSION_COOKIE,
+    SIGNER_SESSION_MAX_AGE_SECONDS,
+    isSignerApiToken,
+    requireSignerAuth,
+    signerSessionValue,
+} from '@/lib/signer/api'
+
+export async function GET(req: NextRequest) {
+    const denied = requireSignerAuth(req)
+    return NextResponse.json({ success: true, signedIn: !denied, enabled: denied?.status !== 503 })
+}
+
+export async function POST(req: NextRequest) {
+    let token: unknown
+    try {
+        token = (await req.json()).token
+    } catch {
+        return jsonError(400, 'Body must be JSON')
+    }
+    if (!process.env.SIGNER_API_TOKEN) return jsonError(503, 'Agent signer API is disabled: set SIGNER_API_TOKEN on the server')
+    if (!isSignerApiToken(token)) return jsonError(401, 'Wrong signer token')
+
+    const res = NextResponse.json({ success: true, signedIn: true })
+    res.cookies.set(SIGNER_SESSION_COOKIE, signerSessionValue(token as string), {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/api/signer',
+        maxAge: SIGNER_SESSION_MAX_AGE_SECONDS,
+    })
+    return res
+}
+
+export async function DELETE() {
+    const res = NextResponse.json({ success: true, signedIn: false })
+    res.cookies.delete({ name: SIGNER_SESSION_COOKIE, path: '/api/signer' })
+    return res
+}
@@ -26,17 +26,29 @@ import {
     CheckCircle2,
     FileJson,
     RefreshCw,
-    ExternalLink
+    ExternalLink,
+    Undo2
 } from 'lucide-react'
 import { useAccount, useWalletClient, useSwitchChain } from 'wagmi'
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-import { createWalletClient, http, formatEther, parseEther, createPublicClient, type Hex } from 'viem'
-import { skaleBiteSandbox } from '@/config/chains'
+import { createWalletClient, formatEther, formatUnits, parseEther, parseUnits, createPublicClient, zeroAddress } from 'viem'
+import { getActiveNetwork, networkTransport, explorerTxUrl } from '@/config/networks'
+import { maxTransferable, transferNative, transferTokenAmount } from '@/lib/treasury'
+import { SpendingPolicyEngine, SpendingPolicyError, browserSpendLedger, type PolicyDecision } from '@/lib/spending-policy'
+import { loadSpendingPolicy } from '@/config/spending-policy'
+import { getRunMode, type Provenance, type RunMode } from '@/lib/run-mode'
 
 // Custom Hooks for Logic
-import { useAgent, AgentLog } from '@/hooks/useAgent'
-import { useMultiAgent } from '@/hooks/useMultiAgent'
+import { useAgent, AgentLog, type AgentRunSession } from '@/hooks/useAgent'
+import { useMultiAgent, type BattleSession } from '@/hooks/useMultiAgent'
 import { useVoiceInput } from '@/hooks/useVoiceInput'
+import { useCommitmentVault } from '@/hooks/useCommitmentVault'
+import { useSessionRecovery } from '@/hooks/useSessionRecovery'
+import { useEscrowRefunds } from '@/hooks/useEscrowRefunds'
+import type { EscrowRelease } from '@/lib/skale/escrow'
+import { isNativeAsset, parseAssetAmount, settlementAsset, type SettlementAsset, type SettlementCurrency } from '@/lib/skale/assets'
+import { tokenBalance, transferToken } from '@/lib/skale/token-escrow'
+import { SessionStore, type AgentSession } from '@/lib/session-store'
+import { useTreasuryKeystore } from '@/hooks/useTreasuryKeystore'
 
 // Components
 import { WalletConnect } from '@/components/wallet-connect'
@@ -44,9 +56,13 @@ import { EventSidebar } from '@/components/event-sidebar'
 import { LeftSidebar } from '@/components/left-sidebar'
 import { AgentTerminal } from '@/components/agent-terminal'
 import { ProgressTimeline } from '@/components/progress-timeline'
+import { AGENT_LIFECYCLE, isActiveState } from '@/lib/workflow/lifecycle'
 import { MOCK_ITEMS, Item } from '@/components/item-selector'
 import { AGENT_PERSONAS, AgentPersona } from '@/components/agent-selector'
 import { NegotiationView } from '@/components/negotiation-view'
+import { TreasuryKeystorePanel } from '@/components/treasury-keystore-panel'
+import { SignerSessionPanel } from '@/components/signer-session-panel'
+import { ApprovalCard } from '@/components/approval-card'
 
 // --- Types ---
 export interface Receipt {
@@ -62,20 +78,37 @@ export interface Receipt {
         item: string
         finalPrice: string
         currency: string
+        /** Token and decimals `finalPrice` is denominated in */
+        asset: SettlementAsset
         agentId: string
     }
+    /** Token of the spending-policy decision that cleared the settlement (or the last spend) */
     authorizationToken: string
+    policyDecisions?: PolicyDecision[]
     agentIdentityID: string
+    runMode: RunMode
+    /** 'simulated' if the payment or any step of the run was simulated */
+    provenance: Provenance
     payment?: {
         network: 'SKALE Nebula'
         chainId: number
         settlementHash: string
         status: 'settled'
+        /** A simulated payment's hash is random and exists on no chain */
+        provenance: Provenance
     }
     logs: AgentLog[]
+    /** The on-chain request the run escrowed its budget in */
+    request?: {
+        id: string
+        /** 'refunded' once the escrow came back through cancelRequest / refundExpired */
+        status: 'open' | 'settled' | 'refunded'
+        refundHash?: string
+    }
 }
 
 const PROVIDER_ADDRESS = '0x83934d36c760BFA75f96C31dA0863c0792FB1A45' as `0x${string}`
+const ESCROW_SWEEP_MS = 60_000
 
 export default function Dashboard() {
     const router = useRouter()
@@ -87,7 +120,8 @@ export default function Dashboard() {
     // 1v1 State
     const [selected1v1AgentId, setSelected1v1AgentId] = useState<string>(AGENT_PERSONAS[0].id)
     const [objective, setObjective] = useState('')
-    const { state: agentState, logs, processRequest, reset: resetAgent } = useAgent()
+    const [runMode, setRunMode] = useState<RunMode>(getRunMode)
+    const { state: agentState, snapshot: agentSnapshot, logs, pendingApproval, approve, reject, processRequest, resumeSession, reset: resetAgent } = useAgent(runMode)
 
     // Multi-Agent State
     const [items, setItems] = useState<Item[]>(MOCK_ITEMS)
@@ -95,8 +129,8 @@ export default function Dashboard() {
     const [selectedItem, setSelectedItem] = useState<Item | null>(null)
     const [selectedAgentIds, setSelectedAgentIds] = useState<string[]>([])
 
-    const { state: battleState, bids: battleBids, logs: battleLogs, startBattle, resetBattle } = useMultiAgent()
-    const isBattleActive = battleState !== 'IDLE' && battleState !== 'COMPLETED' && battleState !== 'ERROR'
+    const { state: battleState, bids: battleBids, logs: battleLogs, startBattle, resumeBattle, resetBattle } = useMultiAgent(runMode)
+    const isBattleActive = isActiveState(battleState)
 
     const agents = battleBids.map((bid, idx) => ({
         id: `agent_${idx}`,
@@ -114,6 +148,22 @@ export default function Dashboard() {
         logs: [] as any[]
     }))
 
+    // Commitments whose reveal was interrupted, and runs that never completed; re-read whenever a run ends
+    const { pending: pendingReveals, isResuming: isResumingReveals, resume: resumeReveals, refresh: refreshReveals } = useCommitmentVault()
+    const { sessions: interruptedSessions, refresh: refreshSessions, discard: discardSession } = useSessionRecovery()
+    useEffect(() => {
+        if (agentState === 'IDLE' || agentState === 'COMPLETED' || agentState === 'ERROR') {
+            refreshReveals()
+            refreshSessions()
+        }
+    }, [agentState, refreshReveals, refreshSessions])
+    useEffect(() => {
+        if (battleState === 'IDLE' || battleState === 'COMPLETED' || battleState === 'ERROR') {
+            refreshReveals()
+            refreshSessions()
+        }
+    }, [battleState, refreshReveals, refreshSessions])
+
     const winner = agents.find(a => a.status === 'winner') || null
     const { transcript } = useVoiceInput()
 
@@ -121,16 +171,32 @@ export default function Dashboard() {
     const [receipt, setReceipt] = useState<Receipt | null>(null)
     const [completedDeals, setCompletedDeals] = useState<Receipt[]>([])
 
+    // Deals from earlier visits, kept in the session store
+    useEffect(() => {
+        if (!SessionStore.isSupported()) return
+        SessionStore.open()
+            .then(store => store.listDeals<Receipt>())
+            .then(saved => setCompletedDeals(prev => [...prev, ...saved.filter(d => !prev.some(p => p.id === d.id))]))
+            .catch(e => console.warn('Deal history read failed:', e))
+    }, [])
+
     const [isAuthorizing, setIsAuthorizing] = useState(false)
     const [isUnlockingData, setIsUnlockingData] = useState(false)
     const [isDecrypting, setIsDecrypting] = useState(false)
 
-    const [treasuryAccount, setTreasuryAccount] = useState<any>(null)
+    const keystore = useTreasuryKeystore()
+    const treasuryAccount = keystore.account
+    const treasuryAddress = keystore.address
+    const { refunding, release: releaseEscrow, sweep: sweepEscrow } = useEscrowRefunds(treasuryAccount)
     const [treasuryBalance, setTreasuryBalance] = useState<string>('0')
+    const [treasuryUsdcBalance, setTreasuryUsdcBalance] = useState<string>('0')
     const [isDepositing, setIsDepositing] = useState(false)
     const [isFundingModalOpen, setIsFundingModalOpen] = useState(false)
     const [depositAmount, setDepositAmount] = useState('1.0')
-    const [activeTab, setActiveTab] = useState<'deposit' | 'withdraw'>('deposit')
+    const [withdrawAmount, setWithdrawAmount] = useState('')
+    const [withdrawCurrency, setWithdrawCurrency] = useState<SettlementCurrency>('sFUEL')
+    const [isWithdrawing, setIsWithdrawing] = useState(false)
+    const [activeTab, setActiveTab] = useState<'deposit' | 'withdraw' | 'keystore'>('deposit')
     const [errorMessage, setErrorMessage] = useState<string | null>(null)
 
     const [showMobileLeft, setShowMobileLeft] = useState(false)
@@ -142,37 +208,30 @@ export default function Dashboard() {
     const [newAgentBase, setNewAgentBase] = useState({ name: '', strategy: 'aggressive' })
 
     const isReadyToNegotiate = mode === '1v1' ? !!selectedItem : !!(selectedItem && selectedAgentIds.length >= 2)
-    const isNegotiating = agentState !== 'IDLE' && agentState !== 'COMPLETED' && agentState !== 'ERROR'
-
-    useEffect(() => {
-        if (typeof window !== 'undefined') {
-            const storedKey = localStorage.getItem('agentTreasuryKey')
-            let account
-            if (storedKey) {
-                account = privateKeyToAccount(storedKey as `0x${string}`)
-            } else {
-                const newKey = generatePrivateKey()
-                localStorage.setItem('agentTreasuryKey', newKey)
-                account = privateKeyToAccount(newKey)
-            }
-            setTreasuryAccount(account)
-        }
-    }, [])
+    const isNegotiating = isActiveState(agentState)
 
+    const [network] = useState(getActiveNetwork)
+    const [asset] = useState(() => settlementAsset(network))
+    const [spendingPolicy] = useState(() => new SpendingPolicyEngine(loadSpendingPolicy(), browserSpendLedger()))
     const [publicClient] = useState(() => createPublicClient({
-        chain: skaleBiteSandbox,
-        transport: http(skaleBiteSandbox.rpcUrls.default.http[0])
+        chain: network.chain,
+        transport: networkTransport(network)
     }))
 
     useEffect(() => {
-        if (!treasuryAccount) return
+        if (!treasuryAddress) return
         const fetchBal = () => {
-            publicClient.getBalance({ address: treasuryAccount.address }).then(b => setTreasuryBalance(formatEther(b)))
+            publicClient.getBalance({ address: treasuryAddress }).then(b => setTreasuryBalance(formatEther(b)))
+            if (!isNativeAsset(asset)) {
+                tokenBalance(publicClient, asset.address, treasuryAddress)
+                    .then(b => setTreasuryUsdcBalance(formatUnits(b, asset.decimals)))
+                    .catch(e => console.warn('USDC balance read failed:', e))
+            }
         }
         fetchBal()
         const interval = setInterval(fetchBal, 5000)
         return () => clearInterval(interval)
-    }, [treasuryAccount, isDepositing, publicClient])
+    }, [treasuryAddress, isDepositing, publicClient, asset])
 
     const handleDownloadReceipt = (receiptData: Receipt) => {
         const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(receiptData, null, 2))
@@ -184,7 +243,7 @@ export default function Dashboard() {
         downloadAnchorNode.remove()
     }
 
-    const handleGenerateReceipt = useCallback((realHash?: string, isOneOnOne?: boolean) => {
+    const handleGenerateReceipt = useCallback((realHash?: string, isOneOnOne?: boolean, settleDecision?: PolicyDecision) => {
         let itemTitle = selectedItem?.name || objective || 'Service Purchase'
         let finalPrice = winner?.currentBid.toString() || '0.01'
         let agentName = winner?.persona.name || 'Commander Agent'
@@ -193,29 +252,53 @@ export default function Dashboard() {
         if (isOneOnOne) {
             const priceLog = logs.find((l: any) => l.type === 'tx' && l.content.includes('Offer Revealed'))
             if (priceLog) {
-                const match = priceLog.content.match(/(\d+\.?\d*)\s*sFUEL/)
+                const match = priceLog.content.match(/(\d+\.?\d*)\s*(?:sFUEL|USDC)/)
                 if (match) finalPrice = match[1]
             }
         }
 
+        const runLogs: { metadata?: { policyDecision?: PolicyDecision } }[] = mode === '1v1' ? logs : battleLogs
+        const policyDecisions = runLogs.flatMap(l => l.metadata?.policyDecision ? [l.metadata.policyDecision] : [])
+        if (settleDecision) policyDecisions.push(settleDecision)
+        const clearing = policyDecisions.findLast(d => d.allowed && d.action === 'settlePayment')
+            ?? policyDecisions.findLast(d => d.allowed)
+
+        const currentLogs: AgentLog[] = mode === '1v1' ? logs : battleLogs
+        // Demo runs without a real settlement get a stand-in hash; strict runs get no payment block
+        const payment: Receipt['payment'] = realHash
+            ? { network: 'SKALE Nebula', chainId: network.chain.id, settlementHash: realHash, status: 'settled', provenance: 'real' }
+            : runMode === 'demo'
+                ? {
+                    network: 'SKALE Nebula', chainId: network.chain.id, status: 'settled', provenance: 'simulated',
+                    settlementHash: `0x${Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
+                }
+                : undefined
+        const provenance: Provenance = payment?.provenance === 'real' && currentLogs.every(l => l.provenance === 'real') ? 'real' : 'simulated'
+        const requestId: string | undefined = currentLogs.findLast(l => l.metadata?.requestId)?.metadata.requestId
+        // The run records what it settled in; older sessions predate that and settled in sFUEL
+        const settledAsset: SettlementAsset = currentLogs.findLast(l => l.metadata?.asset)?.metadata.asset ?? asset
+
         const newReceipt: Receipt = {
             id: `rcpt_${crypto.randomUUID().split('-')[0]}`,
             timestamp: new Date().toISOString(),
             intentMandate: { type: 'purchase_order', target: itemTitle, maxBudget: selectedItem?.basePrice.toString() || finalPrice },
-            cartMandate: { provider: 'Nebula Cloud Node', item: itemTitle, finalPrice, currency: 'sFUEL', agentId: agentName },
-            authorizationToken: `Auth-Policy-42-${crypto.randomUUID().split('-')[0]}`,
+            cartMandate: { provider: 'Nebula Cloud Node', item: itemTitle, finalPrice, currency: settledAsset.symbol, asset: settledAsset, agentId: agentName },
+            authorizationToken: clearing?.token ?? 'unchecked',
+            policyDecisions,
             agentIdentityID: `ACP-VIRTUAL-${personaId.toUpperCase()}-${crypto.randomUUID().split('-')[0]}`,
-            payment: {
-                network: 'SKALE Nebula', chainId: 103698795,
-                settlementHash: realHash || `0x${Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-                status: 'settled'
-            },
-            logs: mode === '1v1' ? logs : battleLogs
+            runMode,
+            provenance,
+            payment,
+            logs: currentLogs,
+            request: requestId ? { id: requestId, status: payment?.provenance === 'real' ? 'settled' : 'open' } : undefined,
         }
         setReceipt(newReceipt)
         setCompletedDeals(prev => [newReceipt, ...prev])
+        if (SessionStore.isSupported()) {
+            SessionStore.open().then(store => store.saveDeal(newReceipt)).catch(e => console.warn('Deal save failed:', e))
+        }
         setShowReceipt(true)
-    }, [selectedItem, objective, winner, logs, battleLogs, mode, agents])
+    }, [selectedItem, objective, winner, logs, battleLogs, mode, runMode, agents, network, asset])
 
     useEffect(() => {
         const currentLogs = mode === '1v1' ? logs : battleLogs
@@ -238,24 +321,38 @@ export default function Dashboard() {
         setIsDecrypting(true)
         try {
             const treasuryClient = createWalletClient({
-                account: treasuryAccount, chain: skaleBiteSandbox,
-                transport: http(skaleBiteSandbox.rpcUrls.default.http[0])
+                account: treasuryAccount, chain: network.chain,
+                transport: networkTransport(network)
             })
-            const bidValue = parseEther(winner.currentBid.toFixed(18))
-            const currentNonce = await publicClient.getTransactionCount({ address: treasuryAccount.address })
-            const hash = await treasuryClient.sendTransaction({
-                account: treasuryAccount, to: PROVIDER_ADDRESS, value: bidValue,
-                chain: skaleBiteSandbox, gas: 500000n, nonce: currentNonce
+            const bidValue = parseAssetAmount(winner.currentBid.toFixed(asset.decimals), asset)
+            const decision = spendingPolicy.authorize({
+                agentId: 'treasury-dashboard',
+                action: 'transfer',
+                value: bidValue,
+                currency: asset.symbol,
+                to: PROVIDER_ADDRESS,
+                price: bidValue,
+                basePrice: selectedItem ? parseAssetAmount(selectedItem.basePrice.toFixed(asset.decimals), asset) : undefined,
             })
-            await publicClient.waitForTransactionReceipt({ hash })
+            const currentNonce = await publicClient.getTransactionCount({ address: treasuryAccount.address })
+            const hash = isNativeAsset(asset)
+                ? await treasuryClient.sendTransaction({
+                    account: treasuryAccount, to: PROVIDER_ADDRESS, value: bidValue,
+                    chain: network.chain, gas: 500000n, nonce: currentNonce
+                })
+                : await transferToken(treasuryClient, asset.address, PROVIDER_ADDRESS, bidValue, { gas: 500000n, nonce: currentNonce })
+            const settleReceipt = await publicClient.waitForTransactionReceipt({ hash })
+            // A reverted payout must not be receipted as a settlement
+            if (settleReceipt.status !== 'success') throw new Error(`Transaction ${hash} reverted on-chain (block #${settleReceipt.blockNumber})`)
             setIsDecrypting(false)
-            handleGenerateReceipt(hash)
+            handleGenerateReceipt(hash, false, decision)
         } catch (e: any) {
             setIsDecrypting(false)
+            if (e instanceof SpendingPolicyError) return alert(e.message)
             alert("Settlement failed: " + e.message)
-            handleGenerateReceipt()
+            if (runMode === 'demo') handleGenerateReceipt()
         }
-    }, [isDecrypting, receipt, winner, treasuryAccount, publicClient, handleGenerateReceipt])
+    }, [isDecrypting, receipt, winner, treasuryAccount, publicClient, handleGenerateReceipt, network, spendingPolicy, selectedItem, runMode, asset])
 
     // Unified settlement trigger
     useEffect(() => {
@@ -271,15 +368,15 @@ export default function Dashboard() {
         if (!treasuryAccount) return []
         try {
             const treasuryClient = createWalletClient({
-                account: treasuryAccount, chain: skaleBiteSandbox,
-                transport: http(skaleBiteSandbox.rpcUrls.default.http[0])
+                account: treasuryAccount, chain: network.chain,
+                transport: networkTransport(network)
             })
             let currentNonce = await publicClient.getTransactionCount({ address: treasuryAccount.address })
             const hashes = []
             for (const agent of agents) {
                 const hash = await treasuryClient.sendTransaction({
                     account: treasuryAccount, to: agent.address as `0x${string}`, value: parseEther('0.001'),
-                    chain: skaleBiteSandbox, gas: 1000000n, nonce: currentNonce++
+                    chain: network.chain, gas: 1000000n, nonce: currentNonce++
                 })
                 hashes.push(hash)
                 await new Promise(r => setTimeout(r, 500))
@@ -289,24 +386,24 @@ export default function Dashboard() {
     }
 
     const executeDeposit = async () => {
-        if (!walletClient || !treasuryAccount) {
+        if (!walletClient || !treasuryAddress) {
             setErrorMessage("Wallet not ready.")
             return
         }
         setIsDepositing(true)
         try {
-            if (accountChainId !== skaleBiteSandbox.id) {
-                await switchChainAsync({ chainId: skaleBiteSandbox.id })
+            if (accountChainId !== network.chain.id) {
+                await switchChainAsync({ chainId: network.chain.id })
             }
             const [address] = await walletClient.getAddresses()
             const hash = await walletClient.sendTransaction({
                 account: address,
-                to: treasuryAccount.address,
+                to: treasuryAddress,
                 value: parseEther(depositAmount),
-                chain: skaleBiteSandbox,
+                chain: network.chain,
             })
             await publicClient.waitForTransactionReceipt({ hash })
-            const newBal = await publicClient.getBalance({ address: treasuryAccount.address })
+            const newBal = await publicClient.getBalance({ address: treasuryAddress })
             setTreasuryBalance(formatEther(newBal))
             setIsFundingModalOpen(false)
         } catch (err: any) {
@@ -316,6 +413,74 @@ export default function Dashboard() {
         }
     }
 
+    const handleWithdrawMax = async () => {
+        if (!treasuryAddress) return
+        if (withdrawCurrency === 'USDC') {
+            const usdc = settlementAsset(network, 'USDC')
+            setWithdrawAmount(formatUnits(await tokenBalance(publicClient, usdc.address, treasuryAddress), usdc.decimals))
+            return
+        }
+        const [balance, gasPrice] = await Promise.all([
+            publicClient.getBalance({ address: treasuryAddress }),
+            publicClient.getGasPrice(),
+        ])
+        setWithdrawAmount(formatEther(maxTransferable(balance, gasPrice)))
+    }
+
+    /** Send treasury funds back to the connected wallet. */
+    const executeWithdraw = async () => {
+        if (!userAddress) {
+            setErrorMessage("Connect the wallet to withdraw to.")
+            return
+        }
+        if (!treasuryAccount) {
+            setErrorMessage("Unlock the treasury keystore to withdraw.")
+            return
+        }
+        if (isNegotiating || isBattleActive) {
+            setErrorMessage("Wait for the running agents to finish before withdrawing.")
+            return
+        }
+        setErrorMessage(null)
+        setIsWithdrawing(true)
+        try {
+            const treasuryClient = createWalletClient({
+                account: treasuryAccount, chain: network.chain,
+                transport: networkTransport(network)
+            })
+            if (withdrawCurrency === 'USDC') {
+                const usdc = settlementAsset(network, 'USDC')
+                const amount = parseUnits(withdrawAmount || '0', usdc.decimals)
+                if (amount <= 0n) throw new Error("Enter an amount to withdraw.")
+                const balance = await tokenBalance(publicClient, usdc.address, treasuryAccount.address)
+                if (amount > balance) throw new Error(`Treasury holds only ${formatUnits(balance, usdc.decimals)} USDC.`)
+                await transferTokenAmount({ publicClient, wallet: treasuryClient, token: usdc.address, to: userAddress, amount })
+                setTreasuryUsdcBalance(formatUnits(balance - amount, usdc.decimals))
+                setWithdrawAmount('')
+                setIsFundingModalOpen(false)
+                return
+            }
+            const amount = parseEther(withdrawAmount || '0')
+            if (amount <= 0n) throw new Error("Enter an amount to withdraw.")
+            const [balance, gasPrice] = await Promise.all([
+                publicClient.getBalance({ address: treasuryAccount.address }),
+                publicClient.getGasPrice(),
+            ])
+            if (amount > maxTransferable(balance, gasPrice)) {
+                throw new Error(`Max withdrawable is ${formatEther(maxTransferable(balance, gasPrice))} sFUEL after gas.`)
+            }
+            await transferNative({ publicClient, wallet: treasuryClient, to: userAddress, amount, gasPrice })
+            const newBal = await publicClient.getBalance({ address: treasuryAccount.address })
+            setTreasuryBalance(formatEther(newBal))
+            setWithdrawAmount('')
+            setIsFundingModalOpen(false)
+        } catch (err) {
+            setErrorMessage(err instanceof Error ? err.message.split('\n')[0] : "Withdraw failed.")
+        } finally {
+            setIsWithdrawing(false)
+        }
+    }
+
     const handleAddItemFinal = () => {
         if (!newItemBase.name) return
         const newItem: Item = {
@@ -359,9 +524,81 @@ export default function Dashboard() {
         setAgentsList(p => p.filter(a => a.id !== id))
     }
 
+    // Agents sign with the treasury key, so it has to be unlocked first
+    const promptTreasuryUnlock = (action = 'deploy agents') => {
+        setActiveTab('keystore')
+        setErrorMessage(keystore.status === 'locked' ? `Unlock the treasury to ${action}.` : `Secure the treasury key to ${action}.`)
+        setIsFundingModalOpen(true)
+    }
+
+    // ─────────────── Escrow refunds ───────────────
+
+    /** Record what happened to a deal's request after a refund attempt */
+    const applyEscrowRelease = useCallback((requestId: string, release: EscrowRelease) => {
+        const status = release.outcome === 'refunded' || (release.outcome === 'closed' && release.status === 'cancelled') ? 'refunded'
+            : release.outcome === 'closed' && release.status === 'settled' ? 'settled'
+                : null
+        if (!status) return
+        const patch = (deal: Receipt): Receipt => deal.request?.id === requestId
+            ? { ...deal, request: { ...deal.request, status, refundHash: release.outcome === 'refunded' ? release.hash : undefined } }
+            : deal
+        setCompletedDeals(prev => prev.map(patch))
+        setReceipt(prev => prev && patch(prev))
+        if (SessionStore.isSupported()) {
+            const changed = completedDeals.filter(d => d.request?.id === requestId).map(patch)
+            SessionStore.open()
+                .then(store => Promise.all(changed.map(deal => store.saveDeal(deal))))
+                .catch(e => console.warn('Deal save failed:', e))
+        }
+    }, [completedDeals])
+
+    const handleRefundDeal = async (deal: Receipt) => {
+        if (!deal.request) return
+        if (!treasuryAccount) return promptTreasuryUnlock('refund escrow')
+        try {
+            const release = await releaseEscrow(BigInt(deal.request.id))
+            applyEscrowRelease(deal.request.id, release)
+            if (release.outcome === 'locked') alert(`Request #${deal.request.id} is ${release.reason}.`)
+            refreshSessions()
+        } catch (e) {
+            alert("Refund failed: " + (e instanceof Error ? e.message.split('\n')[0] : String(e)))
+        }
+    }
+
+    // Requests left open by unsettled deals or interrupted runs are refunded once their
+    // deadline passes, while the treasury is unlocked and no run is using it
+    useEffect(() => {
+        if (!treasuryAccount) return
+        const interval = setInterval(async () => {
+            if (isNegotiating || isBattleActive) return
+            const ids = new Set([
+                ...completedDeals.flatMap(d => d.request?.status === 'open' ? [d.request.id] : []),
+                ...interruptedSessions.flatMap(s =>
+                    s.reconciliation?.request === 'open' && s.session.requestId !== null ? [s.session.requestId.toString()] : []),
+            ])
+            if (ids.size === 0) return
+            const results = await sweepEscrow([...ids].map(id => BigInt(id)))
+            results.forEach(r => applyEscrowRelease(r.requestId.toString(), r.release))
+            if (results.some(r => r.release.outcome === 'refunded')) refreshSessions()
+        }, ESCROW_SWEEP_MS)
+        return () => clearInterval(interval)
+    }, [treasuryAccount, isNegotiating, isBattleActive, completedDeals, interruptedSessions, sweepEscrow, applyEscrowRelease, refreshSessions])
+
+    const handleResumeSession = (session: AgentSession) => {
+        if (!treasuryAccount) return promptTreasuryUnlock('resume agents')
+        setReceipt(null)
+        setShowReceipt(false)
+        if (session.kind === '1v1') {
+            setMode('1v1')
+            resumeSession(session as AgentRunSession, treasuryAccount)
+        } else {
+            setMode('multi')
+            resumeBattle(session as BattleSession, treasuryAccount)
+        }
+    }
+
     const handleDeploy = async () => {
-        const treasuryKey = localStorage.getItem('agentTreasuryKey') as Hex | null
-        if (!treasuryKey) return alert("Treasury not initialized!")
+        if (!treasuryAccount) return promptTreasuryUnlock()
 
         // Reset receipt state for fresh run
         setReceipt(null)
@@ -371,16 +608,19 @@ export default function Dashboard() {
             if (agentState === 'COMPLETED' || agentState === 'ERROR') resetAgent()
             const persona = agentsList.find(p => p.id === selected1v1AgentId) || AGENT_PERSONAS.find(p => p.id === selected1v1AgentId)
             const personaDesc = persona ? `${persona.name} (${persona.role}) - ${persona.description}` : undefined
-            processRequest(objective.trim() || 'Negotiate best deal', treasuryKey, personaDesc)
+            processRequest(objective.trim() || 'Negotiate best deal', treasuryAccount, personaDesc, selectedItem?.basePrice)
         } else {
             if (!selectedItem || selectedAgentIds.length < 2) return
             if (Number(treasuryBalance) < 0.01) return alert("Insufficient Treasury Funds (Min 0.01 sFUEL needed for Battle)!")
+            if (!isNativeAsset(asset) && Number(treasuryUsdcBalance) < selectedItem.basePrice) {
+                return alert(`Insufficient Treasury USDC (${selectedItem.basePrice} USDC needed to escrow the Battle budget)!`)
+            }
 
             // Reset multi hooks
             if (battleState === 'COMPLETED' || battleState === 'ERROR') resetBattle()
 
             // Start real multi-agent battle on-chain autonomously
-            startBattle(selectedItem.name, treasuryKey, selectedAgentIds.length)
+            startBattle(selectedItem.name, treasuryAccount, selectedAgentIds.length, selectedItem.basePrice)
         }
     }
 
@@ -417,6 +657,14 @@ export default function Dashboard() {
                     </div>
 
                     <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => setRunMode(m => m === 'strict' ? 'demo' : 'strict')}
+                            disabled={isNegotiating || isBattleActive}
+                            title={runMode === 'strict' ? 'Strict: any failed step ends the run' : 'Demo: failed steps are simulated and tagged'}
+                            className={`px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-40 ${runMode === 'strict' ? 'border-cyan-400/30 text-cyan-300 bg-cyan-400/5' : 'border-amber-400/30 text-amber-300 bg-amber-400/5'}`}
+                        >
+                            {runMode}
+                        </button>
                         <WalletConnect />
                         <button onClick={() => setShowMobileRight(true)} className="xl:hidden p-2 hover:bg-white/5 rounded-xl border border-white/10 text-white/40"><History className="w-5 h-5" /></button>
                     </div>
@@ -426,7 +674,8 @@ export default function Dashboard() {
                     <div className="hidden lg:flex w-96 flex-none h-full border-r border-white/5">
                         <LeftSidebar
                             mode={mode} setMode={setMode} items={items} agents={agentsList}
-                            treasuryBalance={treasuryBalance} selectedItem={selectedItem}
+                            treasuryBalance={treasuryBalance} treasuryUsdcBalance={isNativeAsset(asset) ? undefined : treasuryUsdcBalance}
+                            selectedItem={selectedItem}
                             setSelectedItem={setSelectedItem} selected1v1AgentId={selected1v1AgentId}
                             setSelected1v1AgentId={setSelected1v1AgentId} selectedAgentIds={selectedAgentIds}
                             setSelectedAgentIds={setSelectedAgentIds} toggleAgentSelection={id => mode === '1v1' ? setSelected1v1AgentId(id) : setSelectedAgentIds(p => p.includes(id) ? p.filter(x => x !== id) : [...p, id])}
@@ -443,11 +692,17 @@ export default function Dashboard() {
                         <AnimatePresence>
                             {isNegotiating && mode === '1v1' && (
                                 <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full pt-4 pb-8 px-4 z-20">
-                                    <ProgressTimeline state={agentState} />
+                                    <ProgressTimeline definition={AGENT_LIFECYCLE} snapshot={agentSnapshot} />
                                 </motion.div>
                             )}
                         </AnimatePresence>
 
+                        <AnimatePresence>
+                            {pendingApproval && mode === '1v1' && (
+                                <ApprovalCard key={pendingApproval.id} request={pendingApproval} onApprove={approve} onReject={reject} />
+                            )}
+                        </AnimatePresence>
+
                         <div className="flex-1 flex flex-col min-h-0">
                             {mode === '1v1' ? (
                                 <AgentTerminal logs={logs} status={agentState} targetItem={selectedItem} />
@@ -502,6 +757,15 @@ export default function Dashboard() {
                             logs={mode === '1v1' ? logs : battleLogs}
                             deals={completedDeals}
                             onClose={() => setShowReceipt(false)}
+                            pendingReveals={pendingReveals}
+                            isResumingReveals={isResumingReveals}
+                            onResumeReveals={resumeReveals}
+                            interruptedSessions={interruptedSessions}
+                            isRunActive={isNegotiating || isBattleActive}
+                            onResumeSession={handleResumeSession}
+                            onDiscardSession={discardSession}
+                            refundingRequests={refunding}
+                            onRefundDeal={handleRefundDeal}
                             onDealClick={(deal) => { setReceipt(deal); setShowReceipt(true); }}
                         />
                     </div>
@@ -520,13 +784,51 @@ export default function Dashboard() {
                         <div className="bg-[#1a1a1a] border border-white/10 p-8 rounded-3xl w-full max-w-md relative">
                             <button onClick={() => setIsFundingModalOpen(false)} className="absolute top-4 right-4 text-white/30 hover:text-white"><XIcon /></button>
                             <h3 className="text-2xl font-black mb-6 uppercase">Treasury</h3>
+                            <div className="flex gap-2 mb-6">
+                                {(['deposit', 'withdraw', 'keystore'] as const).map(tab => (
+                                    <button key={tab} onClick={() => { setActiveTab(tab); setErrorMessage(null) }} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${activeTab === tab ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-white/40'}`}>{tab}</button>
+                                ))}
+                            </div>
                             <div className="space-y-4">
                                 {errorMessage && <div className="text-red-400 text-[10px] font-bold uppercase">{errorMessage}</div>}
-                                <div>
-                                    <label className="text-[10px] text-white/40 uppercase block mb-1">Amount sFUEL</label>
-                                    <input type="number" value={depositAmount} onChange={e => setDepositAmount(e.target.value)} className="w-full bg-white/5 border border-white/10 p-4 rounded-2xl text-xl font-mono" />
-                                </div>
-                                <button onClick={executeDeposit} className="w-full py-5 bg-indigo-600 rounded-2xl font-black uppercase tracking-widest" disabled={isDepositing}>{isDepositing ? "Processing..." : "Deposit"}</button>
+                                {activeTab === 'keystore' ? (
+                                    <>
+                                        <TreasuryKeystorePanel
+                                            keystore={keystore}
+                                            publicClient={publicClient}
+                                            isBusy={isNegotiating || isBattleActive}
+                                            onRotated={() => setErrorMessage(null)}
+                                        />
+                                        <SignerSessionPanel />
+                                    </>
+                                ) : activeTab === 'deposit' ? (
+                                    <>
+                                        <div>
+                                            <label className="text-[10px] text-white/40 uppercase block mb-1">Amount sFUEL</label>
+                                            <input type="number" value={depositAmount} onChange={e => setDepositAmount(e.target.value)} className="w-full bg-white/5 border border-white/10 p-4 rounded-2xl text-xl font-mono" />
+                                        </div>
+                                        <button onClick={executeDeposit} className="w-full py-5 bg-indigo-600 rounded-2xl font-black uppercase tracking-widest" disabled={isDepositing}>{isDepositing ? "Processing..." : "Deposit"}</button>
+                                    </>
+                                ) : (
+                                    <>
+                                        {network.usdcAddress !== zeroAddress && (
+                                            <div className="flex gap-2">
+                                                {(['sFUEL', 'USDC'] as const).map(currency => (
+                                                    <button key={currency} onClick={() => { setWithdrawCurrency(currency); setWithdrawAmount('') }} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${withdrawCurrency === currency ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-white/40'}`}>{currency}</button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div>
+                                            <div className="flex justify-between items-end mb-1">
+                                                <label className="text-[10px] text-white/40 uppercase block">Amount {withdrawCurrency} (balance {Number(treasuryBalance).toFixed(4)}{!isNativeAsset(asset) && `, ${Number(treasuryUsdcBalance).toFixed(2)} USDC`})</label>
+                                                <button onClick={handleWithdrawMax} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300">Max</button>
+                                            </div>
+                                            <input type="number" value={withdrawAmount} onChange={e => setWithdrawAmount(e.target.value)} placeholder="0.0" className="w-full bg-white/5 border border-white/10 p-4 rounded-2xl text-xl font-mono" />
+                                            <p className="text-[9px] text-white/30 font-bold mt-2 break-all">To {userAddress || 'connected wallet'}</p>
+                                        </div>
+                                        <button onClick={executeWithdraw} className="w-full py-5 bg-indigo-600 rounded-2xl font-black uppercase tracking-widest disabled:opacity-40" disabled={isWithdrawing || !userAddress}>{isWithdrawing ? "Processing..." : "Withdraw"}</button>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </motion.div>
@@ -569,9 +871,15 @@ export default function Dashboard() {
                                             <p className="text-lg font-black text-white italic tracking-tight">x402 Mandate</p>
                                         </div>
                                     </div>
-                                    <div className="px-3 py-1 rounded-full bg-indigo-500/20 border border-indigo-500/30 text-[8px] font-black text-indigo-400 uppercase tracking-widest">
-                                        Gasless Verified
-                                    </div>
+                                    {receipt.provenance === 'real' ? (
+                                        <div className="px-3 py-1 rounded-full bg-indigo-500/20 border border-indigo-500/30 text-[8px] font-black text-indigo-400 uppercase tracking-widest">
+                                            Gasless Verified
+                                        </div>
+                                    ) : (
+                                        <div className="px-3 py-1 rounded-full bg-amber-500/20 border border-amber-500/30 text-[8px] font-black text-amber-400 uppercase tracking-widest">
+                                            {receipt.payment?.provenance === 'real' ? 'Partly Simulated' : 'Simulated'}
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                     <div className="p-6 bg-green-500/[0.03] rounded-2xl border border-green-500/10 shadow-[inset_0_0_20px_rgba(34,197,94,0.05)]">
@@ -580,7 +888,7 @@ export default function Dashboard() {
                                             <span className="text-2xl md:text-3xl font-black text-green-400 font-mono break-all leading-tight">
                                                 {receipt.cartMandate?.finalPrice}
                                             </span>
-                                            <span className="text-sm font-black text-green-400/60 uppercase">sFUEL</span>
+                                            <span className="text-sm font-black text-green-400/60 uppercase">{receipt.cartMandate?.currency ?? 'sFUEL'}</span>
                                         </div>
                                     </div>
                                     <div className="p-6 bg-white/[0.02] rounded-2xl border border-white/5">
@@ -596,16 +904,41 @@ export default function Dashboard() {
                                         <label className="text-[9px] text-white/20 uppercase font-black tracking-widest block mb-3">Settlement Hash</label>
                                         <div className="flex items-center gap-3">
                                             <Globe className="w-4 h-4 text-indigo-500/60" />
-                                            <a href={`https://base-sepolia-testnet-explorer.skalenodes.com:10032/tx/${receipt.payment?.settlementHash}`} target="_blank" className="text-[11px] font-mono text-indigo-400/80 hover:text-indigo-400 break-all transition-colors flex-1">
-                                                {receipt.payment?.settlementHash}
+                                            <a href={receipt.payment?.provenance === 'real' ? explorerTxUrl(network, receipt.payment.settlementHash) : undefined} target="_blank" className="text-[11px] font-mono text-indigo-400/80 hover:text-indigo-400 break-all transition-colors flex-1">
+                                                {receipt.payment?.settlementHash ?? 'No payment settled'}
+                                                {receipt.payment?.provenance === 'simulated' && <span className="ml-2 text-amber-400">(simulated, not on-chain)</span>}
                                             </a>
                                             <ExternalLink className="w-3 h-3 text-white/20" />
                                         </div>
                                     </div>
                                 </div>
+                                {receipt.request && receipt.request.status !== 'settled' && (
+                                    <div className="p-4 bg-black/40 border border-white/5 rounded-2xl flex items-center justify-between gap-3">
+                                        <div>
+                                            <label className="text-[9px] text-white/20 uppercase font-black tracking-widest block mb-1">Escrow · Request #{receipt.request.id}</label>
+                                            {receipt.request.status === 'refunded' ? (
+                                                <a href={receipt.request.refundHash ? explorerTxUrl(network, receipt.request.refundHash) : undefined} target="_blank" className="text-[11px] font-bold text-cyan-300 hover:text-cyan-200">
+                                                    Budget refunded to the treasury
+                                                </a>
+                                            ) : (
+                                                <p className="text-[11px] font-bold text-amber-400">Budget still locked: nothing was settled on-chain</p>
+                                            )}
+                                        </div>
+                                        {receipt.request.status === 'open' && (
+                                            <button
+                                                onClick={() => handleRefundDeal(receipt)}
+                                                disabled={refunding.includes(receipt.request.id)}
+                                                className="shrink-0 px-4 py-3 bg-white/5 hover:bg-cyan-500/10 text-white hover:text-cyan-300 border border-white/10 hover:border-cyan-500/30 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all flex items-center gap-2 disabled:opacity-40"
+                                            >
+                                                <Undo2 className="w-3 h-3" />
+                                                {refunding.includes(receipt.request.id) ? 'Refunding...' : 'Cancel & Refund'}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-3 gap-3 pt-2">
                                     <button
-                                        onClick={() => window.open(`https://base-sepolia-testnet-explorer.skalenodes.com:10032/tx/${receipt.payment?.settlementHash}`, '_blank')}
+                                        onClick={() => { const url = receipt.payment?.provenance === 'real' && explorerTxUrl(network, receipt.payment.settlementHash); if (url) window.open(url, '_blank') }}
                                         className="py-4 bg-indigo-600 hover:bg-indigo-500 text-white border-t border-indigo-400/20 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all flex items-center justify-center gap-2 shadow-[0_0_30px_rgba(79,70,229,0.3)] hover:scale-[1.02] active:scale-95"
                                     >
                                         <Globe className="w-3 h-3 text-white" />
@@ -691,7 +1024,8 @@ export default function Dashboard() {
                             <div className="p-2">
                                 <LeftSidebar
                                     mode={mode} setMode={setMode} items={items} agents={agentsList}
-                                    treasuryBalance={treasuryBalance} selectedItem={selectedItem}
+                                    treasuryBalance={treasuryBalance} treasuryUsdcBalance={isNativeAsset(asset) ? undefined : treasuryUsdcBalance}
+                                    selectedItem={selectedItem}
                                     setSelectedItem={setSelectedItem} selected1v1AgentId={selected1v1AgentId}
                                     setSelected1v1AgentId={setSelected1v1AgentId} selectedAgentIds={selectedAgentIds}
                                     setSelectedAgentIds={setSelectedAgentIds} toggleAgentSelection={id => mode === '1v1' ? setSelected1v1AgentId(id) : setSelectedAgentIds(p => p.includes(id) ? p.filter(x => x !== id) : [...p, id])}
@@ -734,6 +1068,15 @@ export default function Dashboard() {
                                     logs={mode === '1v1' ? logs : battleLogs}
                                     deals={completedDeals}
                                     onDealClick={(deal) => { setReceipt(deal); setShowReceipt(true); setShowMobileRight(false); }}
+                                    pendingReveals={pendingReveals}
+                                    isResumingReveals={isResumingReveals}
+                                    onResumeReveals={resumeReveals}
+                                    interruptedSessions={interruptedSessions}
+                                    isRunActive={isNegotiating || isBattleActive}
+                                    onResumeSession={(session) => { setShowMobileRight(false); handleResumeSession(session); }}
+                                    onDiscardSession={discardSession}
+                                    refundingRequests={refunding}
+                                    onRefundDeal={handleRefundDeal}
                                 />
                             </div>
                         </motion.div>
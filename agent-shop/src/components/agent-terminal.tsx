@@ -150,6 +150,11 @@ export function AgentTerminal({ logs, status, targetItem }: AgentTerminalProps)
                                             )}>
                                                 {log.type === 'thought' ? 'THINK' : log.type === 'action' ? 'ACTION' : log.type === 'tx' ? 'SETTLE' : 'INFO'}
                                             </span>
+                                            {log.provenance === 'simulated' && (
+                                                <span className="text-[9px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded border bg-amber-500/10 border-amber-500/30 text-amber-400">
+                                                    SIMULATED
+                                                </span>
+                                            )}
                                         </div>
                                         <p className={cn(
                                             "text-xs font-bold leading-relaxed transition-colors",
@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { formatUnits } from 'viem'
+import { Hand, Check, X, Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ApprovalRequest } from '@/lib/approval'
+
+interface ApprovalCardProps {
+    request: ApprovalRequest
+    onApprove: () => void
+    onReject: () => void
+}
+
+export function ApprovalCard({ request, onApprove, onReject }: ApprovalCardProps) {
+    // Ticks the countdown; the hook itself enforces the deadline
+    const [now, setNow] = useState(() => Date.now())
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [])
+
+    const secondsLeft = Math.max(0, Math.ceil((request.expiresAt - now) / 1000))
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="mx-4 mt-4 p-5 rounded-2xl bg-amber-500/[0.06] border border-amber-400/30 shadow-[0_0_30px_rgba(251,191,36,0.08)]"
+        >
+            <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center gap-2">
+                    <Hand className="w-4 h-4 text-amber-400" />
+                    <h3 className="text-[11px] font-black tracking-[0.2em] uppercase text-white">Approval Required</h3>
+                </div>
+                <span className={cn(
+                    'flex items-center gap-1 text-[10px] font-mono font-bold',
+                    secondsLeft <= 15 ? 'text-red-400' : 'text-amber-300'
+                )}>
+                    <Timer className="w-3 h-3" />
+                    {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4 text-[10px] font-bold">
+                <div>
+                    <div className="uppercase tracking-widest text-white/40 mb-1">Action</div>
+                    <div className="font-mono text-white">{request.functionName}</div>
+                </div>
+                <div>
+                    <div className="uppercase tracking-widest text-white/40 mb-1">{request.functionName.startsWith('create') ? 'Escrow' : request.functionName === 'transferWithAuthorization' ? 'Payment' : 'Payout'}</div>
+                    <div className="font-mono text-amber-300 text-sm">{formatUnits(request.amount, request.asset.decimals)} <span className="text-[9px] opacity-60">{request.asset.symbol}</span></div>
+                </div>
+                {request.provider && (
+                    <div className="col-span-2">
+                        <div className="uppercase tracking-widest text-white/40 mb-1">Provider</div>
+                        <div className="font-mono text-white/80 break-all">{request.provider}</div>
+                    </div>
+                )}
+            </div>
+
+            <div className="mb-4 p-3 rounded-xl bg-black/30 border border-white/5">
+                <div className="text-[9px] font-black uppercase tracking-widest text-white/40 mb-2">
+                    Calldata → {request.to.slice(0, 8)}...{request.to.slice(-4)}
+                </div>
+                <div className="space-y-1 font-mono text-[10px]">
+                    {request.args.map(arg => (
+                        <div key={arg.name} className="flex gap-2">
+                            <span className="text-purple-300 shrink-0">{arg.name}</span>
+                            <span className="text-white/30 shrink-0">{arg.type}</span>
+                            <span className="text-white/80 truncate" title={arg.value}>{arg.value}</span>
+                        </div>
+                    ))}
+                    {request.value > 0n && (
+                        <div className="flex gap-2">
+                            <span className="text-purple-300 shrink-0">msg.value</span>
+                            <span className="text-white/80">{request.value.toString()} wei</span>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex gap-3">
+                <button
+                    onClick={onReject}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl border border-red-400/30 text-red-300 text-[10px] font-black uppercase tracking-widest hover:bg-red-400/10 transition-colors"
+                >
+                    <X className="w-3.5 h-3.5" /> Reject
+                </button>
+                <button
+                    onClick={onApprove}
+                    disabled={secondsLeft === 0}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl bg-amber-400 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-300 disabled:opacity-30 transition-colors"
+                >
+                    <Check className="w-3.5 h-3.5" /> Approve & Sign
+                </button>
+            </div>
+        </motion.div>
+    )
+}
@@ -3,17 +3,32 @@ import { useRef, useEffect } from 'react'
 import { AgentLog } from '@/hooks/useAgent'
 import { Receipt } from '@/app/dashboard/page'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Terminal, History, ExternalLink, ShieldCheck, Activity, X, Zap, Shield, CheckCircle2, MessageSquare, Box, ShoppingCart, Trophy } from 'lucide-react'
+import { Terminal, History, ExternalLink, ShieldCheck, Activity, X, Zap, Shield, CheckCircle2, MessageSquare, Box, ShoppingCart, Trophy, Undo2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { getActiveNetwork, explorerTxUrl } from '@/config/networks'
+import { PendingReveals } from '@/components/pending-reveals'
+import type { PendingReveal } from '@/hooks/useCommitmentVault'
+import { InterruptedSessions } from '@/components/interrupted-sessions'
+import type { InterruptedSession } from '@/hooks/useSessionRecovery'
 
 interface EventSidebarProps {
     logs: AgentLog[]
     deals: Receipt[]
     onClose?: (receipt?: Receipt) => void
     onDealClick?: (deal: Receipt) => void
+    pendingReveals?: PendingReveal[]
+    isResumingReveals?: boolean
+    onResumeReveals?: (ids?: string[]) => void
+    interruptedSessions?: InterruptedSession[]
+    isRunActive?: boolean
+    onResumeSession?: (session: InterruptedSession['session']) => void
+    onDiscardSession?: (id: string) => void
+    /** Request IDs with an escrow refund in flight */
+    refundingRequests?: string[]
+    onRefundDeal?: (deal: Receipt) => void
 }
 
-export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebarProps) {
+export function EventSidebar({ logs, deals, onClose, onDealClick, pendingReveals = [], isResumingReveals = false, onResumeReveals, interruptedSessions = [], isRunActive = false, onResumeSession, onDiscardSession, refundingRequests = [], onRefundDeal }: EventSidebarProps) {
     const reversedLogs = [...logs].reverse().slice(0, 50)
     const logEndRef = useRef<HTMLDivElement>(null)
 
@@ -36,6 +51,16 @@ export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebar
                 </button>
             )}
 
+            {/* Runs cut short by a reload or a failed step (survive via the session store) */}
+            {onResumeSession && onDiscardSession && (
+                <InterruptedSessions sessions={interruptedSessions} isBusy={isRunActive} onResume={onResumeSession} onDiscard={onDiscardSession} />
+            )}
+
+            {/* Offers committed but never revealed (survive reloads via the commitment vault) */}
+            {onResumeReveals && (
+                <PendingReveals pending={pendingReveals} isResuming={isResumingReveals} onResume={onResumeReveals} />
+            )}
+
             {/* Contract Events Section */}
             <div className="flex-1 flex flex-col overflow-hidden">
                 <div className="p-4 border-b border-white/5 flex flex-col gap-1">
@@ -65,7 +90,10 @@ export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebar
 
                                     <div className="text-[11px] text-white/30 font-mono mb-1 flex justify-between items-center">
                                         <span>{new Date(log.timestamp).toLocaleTimeString([], { hour12: false, hour: "2-digit", minute: "2-digit", second: "2-digit" })}</span>
-                                        {log.type.toUpperCase()}
+                                        <span>
+                                            {log.provenance === 'simulated' && <span className="mr-1.5 text-amber-400">SIM</span>}
+                                            {log.type.toUpperCase()}
+                                        </span>
                                     </div>
 
                                     <div className={cn(
@@ -77,9 +105,13 @@ export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebar
                                         {log.content}
                                     </div>
 
-                                    {log.metadata?.hash && (
+                                    {log.metadata?.hash && log.provenance === 'simulated' ? (
+                                        <span className="mt-2 flex items-center gap-1.5 text-[9px] text-amber-400/60 w-fit border border-amber-400/20 px-2 py-0.5 rounded">
+                                            SIMULATED: not on-chain
+                                        </span>
+                                    ) : log.metadata?.hash && (
                                         <a
-                                            href={`https://base-sepolia-testnet-explorer.skalenodes.com:10032/tx/${log.metadata.hash}`}
+                                            href={explorerTxUrl(getActiveNetwork(), log.metadata.hash)}
                                             target="_blank"
                                             rel="noreferrer"
                                             className="mt-2 flex items-center gap-1.5 text-[9px] text-white/30 hover:text-white transition-colors w-fit border border-white/10 px-2 py-0.5 rounded"
@@ -133,7 +165,7 @@ export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebar
                                             </div>
                                         </div>
                                         <div className="text-[10px] font-black text-green-400">
-                                            {deal.cartMandate?.finalPrice || '0.00'} <span className="text-[8px] opacity-60">sFUEL</span>
+                                            {deal.cartMandate?.finalPrice || '0.00'} <span className="text-[8px] opacity-60">{deal.cartMandate?.currency || 'sFUEL'}</span>
                                         </div>
                                     </div>
 
@@ -147,17 +179,35 @@ export function EventSidebar({ logs, deals, onClose, onDealClick }: EventSidebar
                                         </div>
                                         <div className="flex flex-col gap-0.5 text-right">
                                             <span className="text-white/20 uppercase tracking-tighter">Status</span>
-                                            <span className="text-green-500/80 uppercase">Settled</span>
+                                            {deal.payment?.provenance === 'real'
+                                                ? <span className="text-green-500/80 uppercase">Settled</span>
+                                                : deal.request?.status === 'refunded'
+                                                    ? <span className="text-cyan-300/80 uppercase">Refunded</span>
+                                                    : <span className="text-amber-400/80 uppercase">{deal.payment ? 'Simulated' : 'Unsettled'}</span>}
                                         </div>
                                     </div>
 
+                                    {/* Nothing settled on-chain: the escrowed budget can be taken back */}
+                                    {deal.request?.status === 'open' && onRefundDeal && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); onRefundDeal(deal) }}
+                                            disabled={refundingRequests.includes(deal.request.id)}
+                                            className="mt-2 w-full flex items-center justify-center gap-1 py-1 rounded-lg border border-white/5 text-[8px] font-black uppercase tracking-widest text-amber-300/80 hover:text-cyan-300 hover:border-cyan-500/30 disabled:opacity-40"
+                                        >
+                                            <Undo2 className="w-2.5 h-2.5" />
+                                            {refundingRequests.includes(deal.request.id) ? 'Refunding...' : `Cancel & refund request #${deal.request.id}`}
+                                        </button>
+                                    )}
+
                                     <div className="mt-2 pt-2 border-t border-white/5 flex items-center justify-between">
                                         <span className="text-[8px] text-white/10 font-mono">
                                             {new Date(deal.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })}
                                         </span>
                                         <div className="flex items-center gap-1.5">
-                                            <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" />
-                                            <span className="text-[8px] text-white/30 uppercase tracking-widest font-black">Verified On-Chain</span>
+                                            <div className={cn('w-1.5 h-1.5 rounded-full', deal.provenance === 'real' ? 'bg-green-500 animate-pulse' : 'bg-amber-400')} />
+                                            <span className="text-[8px] text-white/30 uppercase tracking-widest font-black">
+                                                {deal.provenance === 'real' ? 'Verified On-Chain' : `Simulated (${deal.runMode})`}
+                                            </span>
                                         </div>
                                     </div>
                                 </motion.div>
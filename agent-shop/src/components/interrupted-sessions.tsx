@@ -0,0 +1,71 @@
+import { motion, AnimatePresence } from 'framer-motion'
+import { History as HistoryIcon, Play, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { InterruptedSession } from '@/hooks/useSessionRecovery'
+
+interface InterruptedSessionsProps {
+    sessions: InterruptedSession[]
+    /** A run is in progress; resuming would clobber it */
+    isBusy: boolean
+    onResume: (session: InterruptedSession['session']) => void
+    onDiscard: (id: string) => void
+}
+
+export function InterruptedSessions({ sessions, isBusy, onResume, onDiscard }: InterruptedSessionsProps) {
+    if (sessions.length === 0) return null
+
+    return (
+        <div className="border-b border-white/5 bg-cyan-500/[0.03] flex flex-col max-h-64 overflow-hidden">
+            <div className="p-4 border-b border-white/5 flex items-center gap-2 bg-black/20">
+                <HistoryIcon className="w-3.5 h-3.5 text-cyan-400" />
+                <h3 className="text-[10px] font-black tracking-[0.2em] uppercase text-white">Interrupted Sessions</h3>
+                <span className="text-[10px] font-mono text-cyan-400 bg-cyan-400/10 px-1.5 py-0.5 rounded">{sessions.length}</span>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                <AnimatePresence initial={false}>
+                    {sessions.map(({ session, reconciliation, error }) => {
+                        const resumable = !!reconciliation?.resumable
+                        return (
+                            <motion.div
+                                key={session.id}
+                                initial={{ opacity: 0, y: 10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, height: 0 }}
+                                className="p-3 rounded-xl bg-white/[0.03] border border-white/5 text-[9px] font-bold"
+                            >
+                                <div className="flex justify-between items-center mb-1 gap-2">
+                                    <span className="text-[11px] font-black text-white/90 truncate" title={session.objective}>{session.objective}</span>
+                                    <span className="shrink-0 uppercase tracking-widest text-[8px] px-1.5 py-0.5 rounded bg-white/5 text-white/50">
+                                        {session.kind === 'battle' ? 'Battle' : '1v1'}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-center text-white/40">
+                                    <span className="font-mono">{session.snapshot.state}{session.snapshot.step ? ` · ${session.snapshot.step}` : ''}</span>
+                                    <span>{new Date(session.updatedAt).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit' })}</span>
+                                </div>
+                                <div className={cn('mt-1', error ? 'text-red-400' : resumable ? 'text-cyan-300/80' : 'text-white/30')}>
+                                    {error ? `Chain check failed: ${error}` : reconciliation?.note ?? 'Checking on-chain state...'}
+                                </div>
+                                <div className="mt-2 pt-2 border-t border-white/5 flex items-center justify-end gap-3">
+                                    <button
+                                        onClick={() => onDiscard(session.id)}
+                                        className="flex items-center gap-1 uppercase tracking-widest text-white/30 hover:text-red-300"
+                                    >
+                                        <Trash2 className="w-2.5 h-2.5" /> Discard
+                                    </button>
+                                    <button
+                                        onClick={() => onResume(session)}
+                                        disabled={isBusy || !resumable}
+                                        className="flex items-center gap-1 uppercase tracking-widest text-cyan-300 hover:text-cyan-200 disabled:opacity-30"
+                                    >
+                                        <Play className="w-2.5 h-2.5" /> Resume
+                                    </button>
+                                </div>
+                            </motion.div>
+                        )
+                    })}
+                </AnimatePresence>
+            </div>
+        </div>
+    )
+}
@@ -28,6 +28,8 @@ interface LeftSidebarProps {
     isReady: boolean
     isTreasuryReady: boolean
     treasuryBalance: string
+    /** Treasury USDC, shown when requests settle in USDC */
+    treasuryUsdcBalance?: string
     onFund: () => void
     onClose?: () => void
     onDeleteItem: (id: string) => void
@@ -55,6 +57,7 @@ export function LeftSidebar({
     isReady,
     isTreasuryReady,
     treasuryBalance,
+    treasuryUsdcBalance,
     onFund,
     onClose,
     onDeleteItem,
@@ -116,6 +119,11 @@ export function LeftSidebar({
                                     <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-green-400 font-mono text-[9px] lowercase">
                                         ({treasuryBalance} sfuel)
                                     </span>
+                                    {treasuryUsdcBalance !== undefined && (
+                                        <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-sky-400 font-mono text-[9px]">
+                                            ({treasuryUsdcBalance} USDC)
+                                        </span>
+                                    )}
                                 </span>
                             </div>
                             <button
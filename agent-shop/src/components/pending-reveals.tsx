@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { formatEther } from 'viem'
+import { KeyRound, RefreshCw, Loader2, ExternalLink } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getActiveNetwork, explorerTxUrl } from '@/config/networks'
+import type { PendingReveal } from '@/hooks/useCommitmentVault'
+
+interface PendingRevealsProps {
+    pending: PendingReveal[]
+    isResuming: boolean
+    onResume: (ids?: string[]) => void
+}
+
+export function PendingReveals({ pending, isResuming, onResume }: PendingRevealsProps) {
+    // Ticks so "Overdue" flips without waiting for another render
+    const [now, setNow] = useState(() => Date.now())
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 30_000)
+        return () => clearInterval(interval)
+    }, [])
+
+    if (pending.length === 0) return null
+    const outstanding = pending.filter(p => p.outcome?.status !== 'revealed' && p.outcome?.status !== 'dropped')
+
+    return (
+        <div className="border-b border-white/5 bg-amber-500/[0.03] flex flex-col max-h-64 overflow-hidden">
+            <div className="p-4 border-b border-white/5 flex justify-between items-center bg-black/20">
+                <div className="flex items-center gap-2">
+                    <KeyRound className="w-3.5 h-3.5 text-amber-400" />
+                    <h3 className="text-[10px] font-black tracking-[0.2em] uppercase text-white">Pending Reveals</h3>
+                    <span className="text-[10px] font-mono text-amber-400 bg-amber-400/10 px-1.5 py-0.5 rounded">{outstanding.length}</span>
+                </div>
+                <button
+                    onClick={() => onResume()}
+                    disabled={isResuming || outstanding.length === 0}
+                    className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded border border-amber-400/30 text-amber-300 hover:bg-amber-400/10 disabled:opacity-30 transition-colors"
+                >
+                    {isResuming ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                    Resume All
+                </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                <AnimatePresence initial={false}>
+                    {pending.map(entry => {
+                        const overdue = now > entry.deadline
+                        const outcome = entry.outcome
+                        const hashUrl = outcome?.status === 'revealed' ? explorerTxUrl(getActiveNetwork(), outcome.hash) : undefined
+                        return (
+                            <motion.div
+                                key={entry.id}
+                                initial={{ opacity: 0, y: 10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                className="p-3 rounded-xl bg-white/[0.03] border border-white/5 text-[9px] font-bold"
+                            >
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-[11px] font-black text-white/90">Request #{entry.requestId.toString()}</span>
+                                    <span className="text-[10px] font-black text-amber-300">
+                                        {formatEther(entry.price)} <span className="text-[8px] opacity-60">sFUEL</span>
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-center text-white/40">
+                                    <span className="font-mono">{entry.provider.slice(0, 8)}...{entry.provider.slice(-4)}</span>
+                                    <span className={cn(overdue && 'text-red-400')}>
+                                        {overdue ? 'Overdue' : `Reveal by ${new Date(entry.deadline).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit' })}`}
+                                    </span>
+                                </div>
+                                <div className="mt-2 pt-2 border-t border-white/5 flex items-center justify-between">
+                                    <span className={cn(
+                                        'uppercase tracking-widest truncate max-w-[200px]',
+                                        outcome?.status === 'revealed' ? 'text-green-400' :
+                                            outcome?.status === 'failed' ? 'text-red-400' :
+                                                outcome?.status === 'dropped' ? 'text-white/30' : 'text-white/50'
+                                    )} title={outcome && 'reason' in outcome ? outcome.reason : undefined}>
+                                        {outcome?.status === 'revealed' ? 'Revealed' :
+                                            outcome?.status === 'revealing' ? 'Revealing...' :
+                                                outcome?.status === 'dropped' ? outcome.reason :
+                                                    outcome?.status === 'failed' ? outcome.reason : 'Awaiting reveal'}
+                                    </span>
+                                    {hashUrl ? (
+                                        <a href={hashUrl} target="_blank" rel="noreferrer" className="text-white/30 hover:text-white"><ExternalLink className="w-2.5 h-2.5" /></a>
+                                    ) : !outcome || outcome.status === 'failed' ? (
+                                        <button
+                                            onClick={() => onResume([entry.id])}
+                                            disabled={isResuming}
+                                            className="uppercase tracking-widest text-amber-300 hover:text-amber-200 disabled:opacity-30"
+                                        >
+                                            Reveal
+                                        </button>
+                                    ) : null}
+                                </div>
+                            </motion.div>
+                        )
+                    })}
+                </AnimatePresence>
+            </div>
+        </div>
+    )
+}
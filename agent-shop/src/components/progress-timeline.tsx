@@ -1,35 +1,30 @@
 
 import { motion } from 'framer-motion'
-import { AgentState } from '@/hooks/useAgent'
-import { CheckCircle2, Circle, Clock, Calculator, Handshake, CreditCard, CheckCircle } from 'lucide-react'
+import { CheckCircle2, Circle, Calculator, Landmark, Handshake, CreditCard, CheckCircle, Hand, type LucideIcon } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { phaseIndex, type WorkflowDefinition, type WorkflowSnapshot } from '@/lib/workflow/machine'
 
-interface ProgressTimelineProps {
-    state: AgentState
+interface ProgressTimelineProps<S extends string> {
+    definition: WorkflowDefinition<S>
+    snapshot: WorkflowSnapshot<S>
 }
 
-const STEPS = [
-    { id: 'THINKING', label: 'Analysis', icon: Calculator },
-    { id: 'NEGOTIATING', label: 'Negotiation', icon: Handshake }, // Covers MATCHED & REVEALING
-    { id: 'TRANSACTING', label: 'Settlement', icon: CreditCard },
-    { id: 'COMPLETED', label: 'Done', icon: CheckCircle },
-]
-
-export function ProgressTimeline({ state }: ProgressTimelineProps) {
-    if (state === 'IDLE' || state === 'ERROR') return null
+// Phase IDs come from the workflow definition; unknown phases get a plain dot
+const PHASE_ICONS: Record<string, LucideIcon> = {
+    analysis: Calculator,
+    escrow: Landmark,
+    negotiation: Handshake,
+    settlement: CreditCard,
+    done: CheckCircle,
+}
 
-    // Map internal states to step indices
-    const getCurrentStepIndex = () => {
-        switch (state) {
-            case 'THINKING': return 0
-            case 'NEGOTIATING': return 1
-            case 'TRANSACTING': return 2
-            case 'COMPLETED': return 3
-            default: return 0 // Fallback
-        }
-    }
+export function ProgressTimeline<S extends string>({ definition, snapshot }: ProgressTimelineProps<S>) {
+    if (snapshot.state === definition.initial || snapshot.state === definition.failed) return null
 
-    const currentIndex = getCurrentStepIndex()
+    const steps = definition.phases
+    const currentIndex = Math.max(0, phaseIndex(definition, snapshot))
+    // A state outside every phase is a pause (e.g. waiting for operator approval)
+    const isPaused = !steps.some(p => p.states.includes(snapshot.state))
 
     return (
         <div className="w-full max-w-4xl mx-auto mb-8 px-4">
@@ -39,14 +34,14 @@ export function ProgressTimeline({ state }: ProgressTimelineProps) {
                 <motion.div
                     className="absolute top-1/2 left-0 h-0.5 bg-gradient-to-r from-purple-500 to-cyan-500 -z-10"
                     initial={{ width: '0%' }}
-                    animate={{ width: `${(currentIndex / (STEPS.length - 1)) * 100}%` }}
+                    animate={{ width: `${(currentIndex / (steps.length - 1)) * 100}%` }}
                     transition={{ duration: 0.5 }}
                 />
 
-                {STEPS.map((step, index) => {
+                {steps.map((step, index) => {
                     const isActive = index === currentIndex
                     const isCompleted = index < currentIndex
-                    const Icon = step.icon
+                    const Icon = isActive && isPaused ? Hand : PHASE_ICONS[step.id] ?? Circle
 
                     return (
                         <div key={step.id} className="flex flex-col items-center gap-2 relative">
@@ -55,7 +50,7 @@ export function ProgressTimeline({ state }: ProgressTimelineProps) {
                                 animate={{
                                     scale: isActive ? 1.1 : 1,
                                     backgroundColor: isActive || isCompleted ? '#000' : '#000',
-                                    borderColor: isActive ? '#a855f7' : isCompleted ? '#22d3ee' : 'rgba(255,255,255,0.1)'
+                                    borderColor: isActive ? (isPaused ? '#fbbf24' : '#a855f7') : isCompleted ? '#22d3ee' : 'rgba(255,255,255,0.1)'
                                 }}
                                 className={cn(
                                     "w-10 h-10 rounded-full border-2 flex items-center justify-center z-10 bg-black transition-colors duration-300",
@@ -68,7 +63,7 @@ export function ProgressTimeline({ state }: ProgressTimelineProps) {
                                 ) : (
                                     <Icon className={cn(
                                         "w-5 h-5",
-                                        isActive ? "text-purple-400" : "text-white/20"
+                                        isActive ? (isPaused ? "text-amber-400" : "text-purple-400") : "text-white/20"
                                     )} />
                                 )}
                             </motion.div>
@@ -77,7 +72,7 @@ export function ProgressTimeline({ state }: ProgressTimelineProps) {
                                 "absolute -bottom-6 text-[10px] md:text-xs font-medium tracking-wide whitespace-nowrap transition-colors duration-300",
                                 isActive ? "text-white" : isCompleted ? "text-cyan-400" : "text-white/30"
                             )}>
-                                {step.label}
+                                {isActive && isPaused ? 'Awaiting approval' : step.label}
                             </div>
                         </div>
                     )
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { LogIn, LogOut, ServerCog } from 'lucide-react'
+
+type SessionState = { enabled: boolean; signedIn: boolean } | null
+
+const inputClass = 'w-full bg-white/5 border border-white/10 p-4 rounded-2xl text-sm font-mono'
+const buttonClass = 'w-full py-3 border border-white/10 rounded-2xl font-black uppercase tracking-widest text-[10px] text-white/70 hover:bg-white/5 disabled:opacity-40 flex items-center justify-center gap-2'
+
+/**
+ * Signs this browser in to the server's custodial agent signer with
+ * SIGNER_API_TOKEN. The token is exchanged for an HttpOnly cookie and not
+ * kept here. Signed out, provider agents run on a session burner.
+ */
+export function SignerSessionPanel() {
+    const [session, setSession] = useState<SessionState>(null)
+    const [token, setToken] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [isWorking, setIsWorking] = useState(false)
+
+    useEffect(() => {
+        fetch('/api/signer/session')
+            .then(res => res.json())
+            .then(body => setSession({ enabled: body.enabled, signedIn: body.signedIn }))
+            .catch(() => setSession({ enabled: false, signedIn: false }))
+    }, [])
+
+    const call = async (method: 'POST' | 'DELETE') => {
+        setError(null)
+        setIsWorking(true)
+        try {
+            const res = await fetch('/api/signer/session', {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: method === 'POST' ? JSON.stringify({ token }) : undefined,
+            })
+            const body = await res.json()
+            if (!body.success) throw new Error(body.error ?? `HTTP ${res.status}`)
+            setSession({ enabled: true, signedIn: body.signedIn })
+            setToken('')
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    if (!session?.enabled) return null
+
+    return (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+            <p className="text-[11px] text-white/50 font-bold flex items-center gap-2">
+                <ServerCog className="w-3.5 h-3.5 flex-none" />
+                {session.signedIn ? 'Signed in to the agent signer.' : 'Sign in to the agent signer to use custodial provider wallets.'}
+            </p>
+            {error && <div className="text-red-400 text-[10px] font-bold uppercase">{error}</div>}
+            {session.signedIn ? (
+                <button className={buttonClass} disabled={isWorking} onClick={() => call('DELETE')}>
+                    <LogOut className="w-3.5 h-3.5" /> Sign out
+                </button>
+            ) : (
+                <>
+                    <input
+                        type="password" value={token} onChange={e => setToken(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && token && call('POST')}
+                        placeholder="SIGNER_API_TOKEN" className={inputClass}
+                    />
+                    <button className={buttonClass} disabled={isWorking || !token} onClick={() => call('POST')}>
+                        <LogIn className="w-3.5 h-3.5" /> {isWorking ? 'Signing in...' : 'Sign in'}
+                    </button>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,175 @@
+import { useState, useRef } from 'react'
+import { formatEther, formatUnits, type PublicClient } from 'viem'
+import { Lock as LockIcon, Unlock, KeyRound, Download, Upload, RefreshCw, Fingerprint } from 'lucide-react'
+import { passkeysSupported } from '@/lib/keystore'
+import { USDC_DECIMALS } from '@/lib/skale/assets'
+import type { useTreasuryKeystore } from '@/hooks/useTreasuryKeystore'
+
+interface TreasuryKeystorePanelProps {
+    keystore: ReturnType<typeof useTreasuryKeystore>
+    publicClient: PublicClient
+    /** Agents are running; rotation would pull funds from under them */
+    isBusy: boolean
+    onRotated?: () => void
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/10 p-4 rounded-2xl text-sm font-mono'
+const primaryClass = 'w-full py-4 bg-indigo-600 rounded-2xl font-black uppercase tracking-widest text-xs disabled:opacity-40 flex items-center justify-center gap-2'
+const secondaryClass = 'flex-1 py-3 border border-white/10 rounded-2xl font-black uppercase tracking-widest text-[10px] text-white/70 hover:bg-white/5 disabled:opacity-40 flex items-center justify-center gap-2'
+
+export function TreasuryKeystorePanel({ keystore, publicClient, isBusy, onRotated }: TreasuryKeystorePanelProps) {
+    const [passphrase, setPassphrase] = useState('')
+    const [confirmation, setConfirmation] = useState('')
+    const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null)
+    const [isWorking, setIsWorking] = useState(false)
+    const fileRef = useRef<HTMLInputElement>(null)
+
+    const run = async (action: () => Promise<string | void>) => {
+        setMessage(null)
+        setIsWorking(true)
+        try {
+            const info = await action()
+            if (info) setMessage({ type: 'info', text: info })
+            setPassphrase('')
+            setConfirmation('')
+        } catch (e) {
+            setMessage({ type: 'error', text: e instanceof Error ? e.message.split('\n')[0] : String(e) })
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    const download = (json: string) => {
+        const anchor = document.createElement('a')
+        anchor.href = 'data:application/json;charset=utf-8,' + encodeURIComponent(json)
+        anchor.download = `treasury-keystore-${keystore.address?.slice(2, 10).toLowerCase()}.json`
+        document.body.appendChild(anchor)
+        anchor.click()
+        anchor.remove()
+    }
+
+    const handleImport = (file: File) => run(async () => {
+        if (!passphrase) throw new Error('Enter the passphrase of the keystore file first')
+        if (!window.confirm(`Replace treasury ${keystore.address ?? ''} with the imported key? Funds on the current key are not moved.`)) return
+        await keystore.importKeystore(await file.text(), passphrase)
+        return '✅ Keystore imported and unlocked.'
+    })
+
+    return (
+        <div className="space-y-4">
+            {message && (
+                <div className={`text-[10px] font-bold uppercase ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</div>
+            )}
+
+            {(keystore.status === 'none' || keystore.status === 'legacy') && (
+                <>
+                    <p className="text-[11px] text-white/50 font-bold">
+                        {keystore.status === 'legacy'
+                            ? 'A plaintext treasury key from an earlier version is stored in this browser. Encrypt it now; the plaintext copy is deleted.'
+                            : 'Protect the agent treasury key. It is stored only in encrypted form.'}
+                    </p>
+                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase (min 8 chars)" className={inputClass} />
+                    <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="Confirm passphrase" className={inputClass} />
+                    <button
+                        className={primaryClass}
+                        disabled={isWorking || !passphrase}
+                        onClick={() => run(async () => {
+                            if (passphrase !== confirmation) throw new Error('Passphrases do not match')
+                            await keystore.create({ passphrase })
+                        })}
+                    >
+                        <LockIcon className="w-4 h-4" /> {isWorking ? 'Encrypting...' : 'Encrypt with passphrase'}
+                    </button>
+                    {passkeysSupported() && (
+                        <button className={secondaryClass + ' w-full'} disabled={isWorking} onClick={() => run(() => keystore.create({ passkey: true }))}>
+                            <Fingerprint className="w-4 h-4" /> Use a passkey instead
+                        </button>
+                    )}
+                </>
+            )}
+
+            {keystore.status === 'locked' && (
+                <>
+                    <p className="text-[11px] text-white/50 font-bold break-all">Treasury {keystore.address} is locked.</p>
+                    {keystore.kdf === 'pbkdf2' ? (
+                        <>
+                            <input
+                                type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && passphrase && run(() => keystore.unlock(passphrase))}
+                                placeholder="Passphrase" className={inputClass}
+                            />
+                            <button className={primaryClass} disabled={isWorking || !passphrase} onClick={() => run(() => keystore.unlock(passphrase))}>
+                                <Unlock className="w-4 h-4" /> {isWorking ? 'Unlocking...' : 'Unlock'}
+                            </button>
+                        </>
+                    ) : (
+                        <button className={primaryClass} disabled={isWorking} onClick={() => run(() => keystore.unlock())}>
+                            <Fingerprint className="w-4 h-4" /> Unlock with passkey
+                        </button>
+                    )}
+                </>
+            )}
+
+            {keystore.status === 'unlocked' && (
+                <>
+                    <div className="flex items-center justify-between">
+                        <p className="text-[11px] text-green-400/80 font-bold break-all flex items-center gap-2"><KeyRound className="w-3.5 h-3.5 flex-none" /> {keystore.address}</p>
+                        <button className="text-[10px] font-black uppercase text-white/50 hover:text-white flex items-center gap-1" onClick={keystore.lock}>
+                            <LockIcon className="w-3 h-3" /> Lock
+                        </button>
+                    </div>
+                    {keystore.pendingRotation && (
+                        <p className="text-[10px] text-amber-400 font-bold uppercase break-all">Rotation to {keystore.pendingRotation} was interrupted. Rotate again to finish it.</p>
+                    )}
+                    <input
+                        type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)}
+                        placeholder={keystore.kdf === 'pbkdf2' ? 'Passphrase of file to import' : 'Passphrase for export / import file'}
+                        className={inputClass}
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            className={secondaryClass}
+                            disabled={isWorking}
+                            onClick={() => run(async () => {
+                                download(await keystore.exportKeystore(passphrase || undefined))
+                                return '✅ Encrypted keystore exported.'
+                            })}
+                        >
+                            <Download className="w-3.5 h-3.5" /> Export
+                        </button>
+                        <button className={secondaryClass} disabled={isWorking} onClick={() => fileRef.current?.click()}>
+                            <Upload className="w-3.5 h-3.5" /> Import
+                        </button>
+                        <input
+                            ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0]
+                                e.target.value = ''
+                                if (file) handleImport(file)
+                            }}
+                        />
+                    </div>
+                    <button
+                        className={primaryClass}
+                        disabled={isWorking || isBusy}
+                        onClick={() => run(async () => {
+                            if (!window.confirm('Move all treasury funds to a freshly generated key? The old key is discarded.')) return
+                            const { native, usdc } = await keystore.rotate(publicClient)
+                            onRotated?.()
+                            const moved = [
+                                usdc && `${formatUnits(usdc.amount, USDC_DECIMALS)} USDC`,
+                                native && `${formatEther(native.amount)} sFUEL`,
+                            ].filter(Boolean)
+                            return moved.length > 0
+                                ? `✅ Rotated. Moved ${moved.join(' and ')} to the new key.`
+                                : '✅ Rotated. Old key held no funds to move.'
+                        })}
+                    >
+                        <RefreshCw className="w-4 h-4" /> {isWorking ? 'Working...' : 'Rotate key'}
+                    </button>
+                    {isBusy && <p className="text-[9px] text-white/30 font-bold uppercase">Rotation is disabled while agents are running.</p>}
+                </>
+            )}
+        </div>
+    )
+}
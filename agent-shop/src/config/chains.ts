@@ -21,5 +21,20 @@ export const skaleBiteSandbox = defineChain({
     testnet: true,
 })
 
+// Local Anvil / Hardhat node for offline runs (default chain ID 31337)
+export const localDevnet = defineChain({
+    id: Number(process.env.NEXT_PUBLIC_LOCAL_CHAIN_ID || 31_337),
+    name: 'Local Devnet',
+    nativeCurrency: {
+        decimals: 18,
+        name: 'Ether',
+        symbol: 'ETH',
+    },
+    rpcUrls: {
+        default: { http: [process.env.NEXT_PUBLIC_LOCAL_RPC_URL || 'http://127.0.0.1:8545'] },
+    },
+    testnet: true,
+})
+
 // Update alias to point to the new Sandbox
 export const skaleChaosTestnet = skaleBiteSandbox
@@ -0,0 +1,163 @@
+/**
+ * Network Profiles
+ *
+ * Single registry of every chain the agents can run against. A profile bundles
+ * the viem chain definition with the deployment-specific addresses and
+ * endpoints (marketplace, USDC, x402 facilitator, Algebra DEX, explorer) so
+ * switching networks never means editing call sites.
+ *
+ * Selection order: `setActiveNetwork()` override (browser, persisted) →
+ * `NEXT_PUBLIC_NETWORK` → the BITE V2 Sandbox.
+ */
+import { fallback, http, type Address, type Chain, type Hash } from 'viem'
+import { skaleBiteSandbox, localDevnet } from './chains'
+
+export type NetworkId = 'bite-sandbox' | 'local'
+
+/** Algebra DEX contracts used to hedge budgets into USDC */
+export interface AlgebraDeployment {
+    /** SwapRouter (`exactInputSingle`) */
+    router: Address
+    /** Quoter (`quoteExactInputSingle`); without it quotes come from the pool's spot price */
+    quoter?: Address
+    /** Wrapped native token (WsFUEL) */
+    wnative: Address
+    /** WNATIVE/USDC pool, for spot quotes */
+    pool?: Address
+}
+
+export interface NetworkProfile {
+    id: NetworkId
+    label: string
+    chain: Chain
+    /** Ordered by preference; the transport falls back down the list. */
+    rpcUrls: string[]
+    marketplaceAddress: Address
+    usdcAddress: Address
+    /** EIP-712 domain of the USDC contract, signed over by EIP-3009 authorizations */
+    usdcDomain: { name: string; version: string }
+    facilitatorUrl: string
+    /** Network name in x402 payment requirements and payloads */
+    x402Network: string
+    /** Multicall3 deployment, if any. Without it batch reads fall back to JSON-RPC batching. */
+    multicallAddress?: Address
+    /** Block explorer base URL, without trailing slash. Absent for local nodes. */
+    explorerUrl?: string
+    /** Whether the chain runs BITE threshold encryption (local nodes do not). */
+    bite: boolean
+    /** Absent until a router and WNATIVE are configured; swaps are then unavailable. */
+    algebra?: AlgebraDeployment
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address
+
+function algebraDeployment(router?: string, wnative?: string, quoter?: string, pool?: string): AlgebraDeployment | undefined {
+    if (!router || !wnative) return undefined
+    return {
+        router: router as Address,
+        wnative: wnative as Address,
+        quoter: (quoter || undefined) as Address | undefined,
+        pool: (pool || undefined) as Address | undefined,
+    }
+}
+
+// NEXT_PUBLIC_* vars must be read literally so Next.js can inline them in the client bundle.
+export const NETWORK_PROFILES: Record<NetworkId, NetworkProfile> = {
+    'bite-sandbox': {
+        id: 'bite-sandbox',
+        label: 'SKALE BITE V2 Sandbox',
+        chain: skaleBiteSandbox,
+        rpcUrls: [
+            ...(process.env.NEXT_PUBLIC_SKALE_RPC_URL ? [process.env.NEXT_PUBLIC_SKALE_RPC_URL] : []),
+            ...skaleBiteSandbox.rpcUrls.default.http,
+        ],
+        marketplaceAddress: (process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS || '0xb64100AAF149215b6CA3B1D366031e39ecb04ce3') as Address,
+        usdcAddress: (process.env.NEXT_PUBLIC_USDC_ADDRESS || '0xc4083B1E81ceb461Ccef3FDa8A9F24F0d764B6D8') as Address,
+        usdcDomain: {
+            name: process.env.NEXT_PUBLIC_USDC_EIP712_NAME || 'USDC',
+            version: process.env.NEXT_PUBLIC_USDC_EIP712_VERSION || '2',
+        },
+        facilitatorUrl: process.env.NEXT_PUBLIC_KOBARU_FACILITATOR_URL || 'https://gateway.kobaru.io',
+        x402Network: 'skale-bite-sandbox',
+        multicallAddress: (process.env.NEXT_PUBLIC_MULTICALL_ADDRESS || undefined) as Address | undefined,
+        explorerUrl: skaleBiteSandbox.blockExplorers?.default.url,
+        bite: true,
+        algebra: algebraDeployment(
+            process.env.NEXT_PUBLIC_ALGEBRA_ROUTER_ADDRESS,
+            process.env.NEXT_PUBLIC_WNATIVE_ADDRESS,
+            process.env.NEXT_PUBLIC_ALGEBRA_QUOTER_ADDRESS,
+            process.env.NEXT_PUBLIC_ALGEBRA_POOL_ADDRESS,
+        ),
+    },
+    local: {
+        id: 'local',
+        label: 'Local Devnet (Anvil/Hardhat)',
+        chain: localDevnet,
+        rpcUrls: [...localDevnet.rpcUrls.default.http],
+        marketplaceAddress: (process.env.NEXT_PUBLIC_LOCAL_MARKETPLACE_ADDRESS || ZERO_ADDRESS) as Address,
+        usdcAddress: (process.env.NEXT_PUBLIC_LOCAL_USDC_ADDRESS || ZERO_ADDRESS) as Address,
+        usdcDomain: { name: 'USDC', version: '2' },
+        facilitatorUrl: process.env.NEXT_PUBLIC_LOCAL_FACILITATOR_URL || 'http://localhost:3000/api/facilitator',
+        x402Network: 'local',
+        multicallAddress: (process.env.NEXT_PUBLIC_LOCAL_MULTICALL_ADDRESS || undefined) as Address | undefined,
+        bite: false,
+        algebra: algebraDeployment(
+            process.env.NEXT_PUBLIC_LOCAL_ALGEBRA_ROUTER_ADDRESS,
+            process.env.NEXT_PUBLIC_LOCAL_WNATIVE_ADDRESS,
+            process.env.NEXT_PUBLIC_LOCAL_ALGEBRA_QUOTER_ADDRESS,
+            process.env.NEXT_PUBLIC_LOCAL_ALGEBRA_POOL_ADDRESS,
+        ),
+    },
+}
+
+export const DEFAULT_NETWORK_ID: NetworkId = 'bite-sandbox'
+
+const STORAGE_KEY = 'agentNetwork'
+
+export function isNetworkId(id: string): id is NetworkId {
+    return Object.prototype.hasOwnProperty.call(NETWORK_PROFILES, id)
+}
+
+/**
+ * Look up a profile by ID. Throws on unknown IDs so a typo in config fails
+ * loudly instead of silently running against the sandbox.
+ */
+export function getNetworkProfile(id: string): NetworkProfile {
+    if (!isNetworkId(id)) {
+        throw new Error(`Unknown network "${id}". Available: ${Object.keys(NETWORK_PROFILES).join(', ')}`)
+    }
+    return NETWORK_PROFILES[id]
+}
+
+/**
+ * The profile the app is currently running against.
+ */
+export function getActiveNetwork(): NetworkProfile {
+    if (typeof window !== 'undefined') {
+        const override = window.localStorage.getItem(STORAGE_KEY)
+        if (override && isNetworkId(override)) return NETWORK_PROFILES[override]
+    }
+    return getNetworkProfile(process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK_ID)
+}
+
+/**
+ * Persist a runtime network choice in the browser. Takes effect on next load,
+ * since wagmi and the hooks bind their clients once.
+ */
+export function setActiveNetwork(id: NetworkId | null) {
+    if (typeof window === 'undefined') return
+    if (id) window.localStorage.setItem(STORAGE_KEY, id)
+    else window.localStorage.removeItem(STORAGE_KEY)
+}
+
+/**
+ * viem transport over the profile's RPC list (fallback when more than one).
+ */
+export function networkTransport(profile: NetworkProfile, options: { batch?: boolean } = {}) {
+    const transports = profile.rpcUrls.map(url => http(url, { batch: options.batch }))
+    return transports.length === 1 ? transports[0] : fallback(transports)
+}
+
+export function explorerTxUrl(profile: NetworkProfile, hash: Hash | string): string | undefined {
+    return profile.explorerUrl ? `${profile.explorerUrl}/tx/${hash}` : undefined
+}
@@ -0,0 +1,31 @@
+/**
+ * Spending Policy Config
+ *
+ * The rules every agent runs under unless NEXT_PUBLIC_SPENDING_POLICY holds a
+ * replacement document (same shape, JSON). Caps are in sFUEL unless they name
+ * a `currency`; USDC runs are held to the USDC caps.
+ */
+import { parseSpendingPolicy, type SpendingPolicyConfig } from '@/lib/spending-policy'
+
+export const DEFAULT_SPENDING_POLICY: SpendingPolicyConfig = {
+    id: 'treasury-v1',
+    defaults: [
+        { kind: 'perTxCap', max: '0.5' },
+        { kind: 'dailyCap', max: '2' },
+        { kind: 'weeklyCap', max: '5' },
+        { kind: 'perTxCap', max: '25', currency: 'USDC' },
+        { kind: 'dailyCap', max: '100', currency: 'USDC' },
+        { kind: 'weeklyCap', max: '250', currency: 'USDC' },
+        { kind: 'maxPriceOverBase', ratio: 1 },
+        { kind: 'minUptime', min: 90 },
+    ],
+}
+
+/**
+ * The configured policy. A malformed override throws: running with no
+ * limits because of a typo is worse than not running.
+ */
+export function loadSpendingPolicy(): SpendingPolicyConfig {
+    const override = process.env.NEXT_PUBLIC_SPENDING_POLICY
+    return override ? parseSpendingPolicy(override) : DEFAULT_SPENDING_POLICY
+}
@@ -1,18 +1,32 @@
 /**
  * Lifecycle management for 1v1 Agent Negotiation following SKALE BITE V2.
  */
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useWalletClient, usePublicClient, useAccount, useSwitchChain } from 'wagmi'
-import { createWalletClient, http, parseEther, formatEther, type Hex, keccak256, encodePacked } from 'viem'
+import { createWalletClient, encodeFunctionData, parseEther, parseUnits, formatEther, formatUnits, zeroAddress, type Hex, type LocalAccount } from 'viem'
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-import { skaleBiteSandbox } from '@/config/chains'
-import { SERVICE_MARKETPLACE_ABI, SERVICE_MARKETPLACE_ABI as MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
-const MARKETPLACE_ADDRESS = "0xb64100AAF149215b6CA3B1D366031e39ecb04ce3"
-import { BiteService } from '@/lib/bite-service'
-import { ALGEBRA_ROUTER_ADDRESS, ALGEBRA_ROUTER_ABI, WETH_ADDRESS, USDC_ADDRESS, ERC20_ABI } from '@/lib/skale/algebra'
-
-// State machine for the agent's internal lifecycle
-export type AgentState = 'IDLE' | 'THINKING' | 'NEGOTIATING' | 'TRANSACTING' | 'SETTLING' | 'COMPLETED' | 'ERROR'
+import { getActiveNetwork, networkTransport } from '@/config/networks'
+import { MarketplaceClient, MarketplaceEventError, type MarketplaceWallet } from '@/lib/skale/marketplace-client'
+import { SERVICE_MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
+import { commitSealedOffer } from '@/lib/skale/sealed-offer'
+import { assertCommitReady, assertRevealMatches, createOfferCommitment, type OfferCommitment } from '@/lib/skale/commitment'
+import { describeEscrowRelease, releaseEscrow } from '@/lib/skale/escrow'
+import { formatAssetAmount, isNativeAsset, parseAssetAmount, settlementAsset, type SettlementAsset } from '@/lib/skale/assets'
+import { createEscrowedRequest, tokenBalance } from '@/lib/skale/token-escrow'
+import { openCommitmentVault, DEFAULT_REVEAL_WINDOW_MS, type CommitmentEntry, type CommitmentVault } from '@/lib/commitment-vault'
+import { RemoteSigner, RemoteSignerError } from '@/lib/signer/remote'
+import { SpendingPolicyEngine, SpendingPolicyError, browserSpendLedger, formatDecision, type SpendIntent } from '@/lib/spending-policy'
+import { loadSpendingPolicy } from '@/config/spending-policy'
+import { ApprovalDeniedError, ApprovalGate, createApprovalRequest, createPaymentApprovalRequest, loadApprovalConfig, needsApproval, type ApprovalRequest } from '@/lib/approval'
+import { getRunMode, StrictModeError, type Provenance, type RunMode } from '@/lib/run-mode'
+import { WorkflowCancelled, WorkflowMachine, idleSnapshot, type StepControl, type WorkflowStep } from '@/lib/workflow/machine'
+import { AGENT_LIFECYCLE, READ_RETRY, type AgentState } from '@/lib/workflow/lifecycle'
+import { newSessionId, openSessionStore, type AgentSession, type SessionStore } from '@/lib/session-store'
+import { createPaymentFetch } from '@/lib/x402/client'
+import { algebraFor, getSlippageBps, isSwapDryRun, swapExactInput } from '@/lib/skale/algebra'
+
+// The agent's lifecycle states are shared with the battle and headless flows
+export type { AgentState }
 
 export interface AgentLog {
     id: string
@@ -20,6 +34,8 @@ export interface AgentLog {
     type: 'info' | 'thought' | 'action' | 'error' | 'tx'
     content: string
     metadata?: any
+    /** 'simulated' for stand-ins produced by demo mode (fake hashes, canned decisions) */
+    provenance: Provenance
 }
 
 interface GeminiDecision {
@@ -39,6 +55,8 @@ interface Service {
     description: string
     price: string
     active?: boolean // Changed from strict boolean to optional matching usage
+    rating: number
+    uptime: number
 }
 
 interface ServiceData {
@@ -48,36 +66,119 @@ interface ServiceData {
     description: string
 }
 
-// Contract Config - Pulled from env or trusted defaults
-const CONTRACT = process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS || '0xb64100AAF149215b6CA3B1D366031e39ecb04ce3'
-const CHAIN_ID = process.env.NEXT_PUBLIC_SKALE_CHAIN_ID || '103698795'
-const MAX_SPEND_PER_TX = 0.5 // Safety Cap
+/** Spending-policy identity of the 1v1 agent (see config/spending-policy) */
+const POLICY_AGENT_ID = 'agent-1v1'
 
-export function useAgent() {
-    const [state, setState] = useState<AgentState>('IDLE')
-    const [logs, setLogs] = useState<AgentLog[]>([])
+/** Most the agent pays for one x402 API call, in atomic USDC units */
+const X402_MAX_PAYMENT = parseUnits(process.env.NEXT_PUBLIC_X402_MAX_PAYMENT_USDC || '0.05', 6)
 
-    // Wagmi Hooks for User Interaction (The "Requester")
-    const { address, isConnected, chainId: accountChainId } = useAccount()
-    const { switchChain, switchChainAsync } = useSwitchChain()
-    const { data: walletClient } = useWalletClient({ chainId: Number(CHAIN_ID) })
-    const publicClient = usePublicClient({ chainId: Number(CHAIN_ID) })
+/** Custodial signer agent that bids as the 1v1 provider */
+const PROVIDER_AGENT_ID = process.env.NEXT_PUBLIC_PROVIDER_AGENT_ID || 'stealthbid-provider'
+
+interface ProviderIdentity {
+    address: `0x${string}`
+    wallet: MarketplaceWallet
+    /** Set for the server-held key */
+    agentId?: string
+    /** Set for a session burner */
+    signerKey?: Hex
+}
 
-    // Bot Identity
-    const providedKey = process.env.NEXT_PUBLIC_BOT_PRIVATE_KEY as `0x${string}` | undefined
-    const providerKey = useRef(providedKey || generatePrivateKey()).current
-    const providerAccount = privateKeyToAccount(providerKey)
+/** What the 1v1 steps hand each other */
+interface AgentRun {
+    provider?: ProviderIdentity
+    decision?: GeminiDecision
+    /** -1 until a service is discovered or registered */
+    serviceId: number
+    /** Owner of the chosen service */
+    providerAddress?: `0x${string}`
+    serviceStats?: { rating: number; uptime: number }
+    userBalance: bigint
+    /** What the request is priced, escrowed and settled in */
+    asset: SettlementAsset
+    txOptions?: { gasPrice: bigint; gas: bigint }
+    providerMarket?: MarketplaceClient
+    treasuryMarket?: MarketplaceClient
+    /** Event-confirmed request ID; null means the request was simulated */
+    requestId: bigint | null
+    /** Price offered in the sealed bid; what settlement pays */
+    offerPrice?: bigint
+    commitment?: OfferCommitment
+    offerSigner?: `0x${string}`
+    offerMarket?: MarketplaceClient
+    /** Commit and reveal go on-chain (request exists and the signer has gas) */
+    canBid?: boolean
+    vault?: CommitmentVault | null
+    vaultEntry?: CommitmentEntry
+    settled: boolean
+}
+
+/** The part of a run that is saved with its session (clients and secrets are rebuilt on resume) */
+type SavedAgentRun = Pick<AgentRun, 'decision' | 'serviceId' | 'providerAddress' | 'serviceStats' | 'requestId' | 'offerPrice' | 'offerSigner' | 'canBid' | 'settled' | 'asset'> & {
+    /** Provider agent that ran the negotiation */
+    providerAgent?: `0x${string}`
+}
 
-    const providerClient = createWalletClient({
-        account: providerAccount,
-        chain: skaleBiteSandbox,
-        transport: http('https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox')
-    })
+export type AgentRunSession = AgentSession<SavedAgentRun, AgentLog>
 
+function saveRun(run: AgentRun): SavedAgentRun {
+    const { decision, serviceId, providerAddress, serviceStats, requestId, offerPrice, offerSigner, canBid, settled, asset } = run
+    return { decision, serviceId, providerAddress, serviceStats, requestId, offerPrice, offerSigner, canBid, settled, asset, providerAgent: run.provider?.address }
+}
 
+const txTimeout = (ms: number) => new Promise<never>((_, reject) => setTimeout(() => reject(new Error('TX_TIMEOUT')), ms))
+
+/**
+ * `runMode` decides whether failed steps are simulated (demo) or end the run (strict).
+ */
+export function useAgent(runMode: RunMode = getRunMode()) {
+    const [snapshot, setSnapshot] = useState(() => idleSnapshot(AGENT_LIFECYCLE))
+    const state = snapshot.state
+    const [logs, setLogs] = useState<AgentLog[]>([])
+
+    // Network profile (chain, RPCs, contract addresses) - fixed for the lifetime of the hook
+    const [network] = useState(getActiveNetwork)
+    const CONTRACT = network.marketplaceAddress
+
+    // Wagmi Hooks for User Interaction (The "Requester")
+    const { address, isConnected, chainId: accountChainId } = useAccount()
+    const { switchChainAsync } = useSwitchChain()
+    const { data: walletClient } = useWalletClient({ chainId: network.chain.id })
+    const publicClient = usePublicClient({ chainId: network.chain.id })
+
+    // Every value-moving call is checked here first; the ledger persists across reloads
+    const [policy] = useState(() => new SpendingPolicyEngine(loadSpendingPolicy(), browserSpendLedger()))
+
+    // Calls above the threshold wait here for the operator
+    const [approvalConfig] = useState(loadApprovalConfig)
+    const [approvalGate] = useState(() => new ApprovalGate())
+    const [pendingApproval, setPendingApproval] = useState<ApprovalRequest | null>(null)
+
+    // Session burner, only used when the server has no agent signer configured
+    const burnerKey = useRef<Hex | null>(null)
+
+    // The running session and its context, saved whenever the state or logs change
+    const session = useRef<AgentRunSession | null>(null)
+    const activeRun = useRef<AgentRun | null>(null)
+    const sessionStore = useRef<Promise<SessionStore | null> | null>(null)
+
+    useEffect(() => {
+        const current = session.current
+        const run = activeRun.current
+        if (!current || !run || snapshot.state === 'IDLE') return
+        const finished = snapshot.state === 'COMPLETED'
+        if (finished) session.current = null
+        sessionStore.current ??= openSessionStore(message => console.warn(message))
+        sessionStore.current.then(store => {
+            if (!store) return
+            // A completed run is done with; only unfinished ones are offered for resume
+            if (finished) return store.remove(current.id)
+            return store.save({ ...current, snapshot, logs, requestId: run.requestId, context: saveRun(run) })
+        }).catch(e => console.warn('Session save failed:', e))
+    }, [snapshot, logs])
 
     // Helper to append logs to the UI terminal
-    const addLog = useCallback((type: AgentLog['type'], content: string, metadata?: any) => {
+    const addLog = useCallback((type: AgentLog['type'], content: string, metadata?: any, provenance: Provenance = 'real') => {
         setLogs(prev => {
             // Deduping logic to prevent spamming identical "Searching..." logs
             const lastLog = prev[prev.length - 1]
@@ -89,94 +190,187 @@ export function useAgent() {
                 timestamp: Date.now(),
                 type,
                 content,
-                metadata
+                metadata,
+                provenance
             }]
         })
     }, [])
 
     const reset = useCallback(() => {
-        setState('IDLE')
+        approvalGate.rejectAll()
+        setPendingApproval(null)
+        setSnapshot(idleSnapshot(AGENT_LIFECYCLE))
         setLogs([])
-    }, [])
+        session.current = null
+        activeRun.current = null
+    }, [approvalGate])
 
     /**
-     * handleAlgebraSwap - Executes a swap on Algebra Finance
-     * Swaps sFUEL -> USDC to hedge the budget.
+     * Check a spend against the policy and log the decision (it also feeds the
+     * receipt). Throws SpendingPolicyError when denied.
      */
-    const handleAlgebraSwap = useCallback(async (amountIn: bigint) => {
-        if (!walletClient || !publicClient || !address) return
+    const authorizeSpend = useCallback((intent: Omit<SpendIntent, 'agentId'>) =>
+        policy.authorize({ agentId: POLICY_AGENT_ID, ...intent }, decision =>
+            addLog(decision.allowed ? 'info' : 'error', formatDecision(decision), { policyDecision: decision })
+        ), [policy, addLog])
 
-        try {
-            // 1. Safety Guard for Placeholders
-            if (ALGEBRA_ROUTER_ADDRESS === '0x0000000000000000000000000000000000000000' ||
-                WETH_ADDRESS === '0x0000000000000000000000000000000000000000') {
-                addLog('info', `🧪 Demo Mode: Algebra Contracts not detected. Skipping on-chain swap and proceeding with logic...`)
-                return
-            }
+    /**
+     * Pause the running step in AWAITING_APPROVAL until the operator signs off on
+     * `request`. Amounts within the threshold pass straight through.
+     * Throws ApprovalDeniedError on rejection or timeout.
+     */
+    const requireApproval = useCallback(async (request: ApprovalRequest, control: StepControl<AgentState>) => {
+        const amount = formatAssetAmount(request.amount, request.asset)
+        if (!needsApproval(approvalConfig, request)) {
+            addLog('info', `🤖 [APPROVAL] ${request.functionName} (${amount}) is within the autonomy threshold.`)
+            return
+        }
+        setPendingApproval(request)
+        control.pause('AWAITING_APPROVAL')
+        addLog('action', `✋ [APPROVAL] ${request.functionName} (${amount}) needs operator sign-off. Waiting up to ${Math.round(approvalConfig.timeoutMs / 1000)}s...`)
+
+        const outcome = await approvalGate.wait(request)
+        setPendingApproval(null)
+        const approval = { id: request.id, functionName: request.functionName, amount: request.amount.toString(), outcome }
+        if (outcome !== 'approved') {
+            addLog('error', outcome === 'expired'
+                ? `⌛ [APPROVAL] No decision on ${request.functionName} in time. Aborting.`
+                : `🛑 [APPROVAL] Operator rejected ${request.functionName}. Aborting.`, { approval })
+            throw new ApprovalDeniedError(request, outcome)
+        }
+        addLog('info', `👍 [APPROVAL] Operator approved ${request.functionName}.`, { approval })
+        control.resume()
+    }, [approvalConfig, approvalGate, addLog])
 
-            addLog('action', `☑️ Swapping ${formatEther(amountIn)} sFUEL to USDC via Algebra...`)
-
-            // 1. Approve Router to spend WETH (if wrapping) or just send ETH
-            // For BITE Sandbox, we assume sFUEL is native. Algebra usually wraps automatically or uses WETH.
-            // We'll wrap first if needed, but standard router handles ETH->Token via specific calls.
-            // Using exactInputSingle for simplicity with native placeholder if supported, else WETH pattern.
-
-            // router handles ETH->Token via specific calls.
-
-            // const approvalHash = await walletClient.writeContract({
-            //     address: WETH_ADDRESS,
-            //     abi: ERC20_ABI,
-            //     functionName: 'approve',
-            //     args: [ALGEBRA_ROUTER_ADDRESS, amountIn],
-            //     chain: skaleBiteSandbox,
-            //     gas: 100000n 
-            // })
-            // await publicClient.waitForTransactionReceipt({ hash: approvalHash })
-            // addLog('tx', '✅ Approved WETH for Algebra Router', { hash: approvalHash })
-
-            const params = {
-                tokenIn: WETH_ADDRESS, // Using WETH as placeholder for Native wrapping
-                tokenOut: USDC_ADDRESS,
-                recipient: address,
-                deadline: BigInt(Math.floor(Date.now() / 1000) + 60 * 20),
-                amountIn,
-                amountOutMinimum: 0n,
-                limitSqrtPrice: 0n,
-            }
+    const approve = useCallback(() => {
+        if (pendingApproval) approvalGate.decide(pendingApproval.id, 'approved')
+    }, [approvalGate, pendingApproval])
 
-            const swapHash = await walletClient.writeContract({
-                address: ALGEBRA_ROUTER_ADDRESS,
-                abi: ALGEBRA_ROUTER_ABI,
-                functionName: 'exactInputSingle',
-                args: [params],
-                value: amountIn, // Sending native sFUEL
-                chain: skaleBiteSandbox,
-                gas: 500000n,
-                type: 'legacy'
-            })
+    const reject = useCallback(() => {
+        if (pendingApproval) approvalGate.decide(pendingApproval.id, 'rejected')
+    }, [approvalGate, pendingApproval])
+
+    /**
+     * Provider agent identity. Normally a custodial wallet held by the server
+     * signer (stable across runs, so its registered service is reused); falls
+     * back to a per-session burner key when no signer is configured or this
+     * browser is not signed in to it.
+     */
+    const resolveProvider = useCallback(async (): Promise<ProviderIdentity> => {
+        try {
+            const remote = await RemoteSigner.connect(PROVIDER_AGENT_ID, 'provider', network)
+            return { address: remote.address, wallet: remote.wallet(), agentId: remote.agentId }
+        } catch (e) {
+            if (!(e instanceof RemoteSignerError) || (e.status !== 503 && e.status !== 401)) throw e
+            addLog('info', e.status === 401
+                ? '⚠️ Not signed in to the agent signer (Treasury → Keystore). Using a session burner for the provider agent.'
+                : `⚠️ Agent signer unavailable (${e.message}). Using a session burner for the provider agent.`)
+        }
+        burnerKey.current ??= generatePrivateKey()
+        const account = privateKeyToAccount(burnerKey.current)
+        return {
+            address: account.address,
+            wallet: createWalletClient({ account, chain: network.chain, transport: networkTransport(network) }),
+            signerKey: burnerKey.current,
+        }
+    }, [network, addLog])
 
-            const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash })
-            addLog('tx', `✅ Swapped sFUEL -> USDC on Algebra`, { hash: swapHash })
-            return swapHash
+    /**
+     * handleAlgebraSwap - Hedges part of the budget into USDC on Algebra Finance.
+     * Quotes on-chain and swaps with the configured slippage tolerance; with
+     * NEXT_PUBLIC_SWAP_DRY_RUN only the quote is logged. A network without an
+     * Algebra deployment skips the hedge, in strict mode too.
+     */
+    const handleAlgebraSwap = useCallback(async (amountIn: bigint, wallet: MarketplaceWallet) => {
+        if (!publicClient) return null
+        const usdc = settlementAsset(network, 'USDC')
+        if (!network.algebra || usdc.address === zeroAddress) {
+            addLog('info', `⏭️ No Algebra deployment configured for ${network.label}. Hedge skipped, continuing with sFUEL.`)
+            return null
+        }
 
-        } catch (error: any) {
+        try {
+            const dryRun = isSwapDryRun()
+            const { router } = algebraFor(network)
+            if (!dryRun) authorizeSpend({ action: 'swap', value: amountIn, currency: 'sFUEL', to: router })
+            addLog('action', `☑️ ${dryRun ? 'Quoting' : 'Swapping'} ${formatEther(amountIn)} sFUEL to USDC via Algebra (max slippage ${getSlippageBps() / 100}%)...`)
+
+            const swap = await swapExactInput(wallet, publicClient, network, {
+                tokenIn: 'native',
+                tokenOut: usdc.address,
+                amountIn,
+                dryRun,
+                options: { gas: 500000n, gasPrice: await publicClient.getGasPrice() },
+            })
+            const { quote } = swap
+            addLog('info', `📈 Algebra ${quote.source} quote: ${formatAssetAmount(quote.amountOut, usdc)} expected, at least ${formatAssetAmount(quote.amountOutMinimum, usdc)} accepted.`)
+            if (swap.dryRun) {
+                addLog('info', '🧪 Swap dry run: nothing was sent.')
+                return null
+            }
+            if (swap.wrapHash) addLog('tx', `✅ Wrapped ${formatEther(amountIn)} sFUEL`, { hash: swap.wrapHash })
+            if (swap.approvalHash) addLog('tx', '✅ Approved the Algebra router', { hash: swap.approvalHash })
+            addLog('tx', `✅ Swapped ${formatEther(amountIn)} sFUEL -> ${formatAssetAmount(swap.amountOut ?? 0n, usdc)} on Algebra`, { hash: swap.swapHash })
+            return swap.swapHash ?? null
+        } catch (error) {
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error)
             console.warn('Swap failed:', error)
-            addLog('error', `⚠️ Swap Failed: ${error.message || 'Unknown'}. Continuing with sFUEL...`)
+            if (runMode === 'strict') throw new StrictModeError('Algebra swap', reason)
+            addLog('error', `⚠️ Swap skipped: ${reason}. Continuing with sFUEL...`)
             return null
         }
-    }, [walletClient, publicClient, address, addLog])
+    }, [publicClient, addLog, authorizeSpend, runMode, network])
+
+    /**
+     * Buy a market price check from the paid intel API. The treasury signs the
+     * x402 USDC payment once the spending policy and, above the threshold, the
+     * operator allow it; the facilitator settles it once the data is served.
+     */
+    const buyMarketIntel = async (decision: GeminiDecision, treasuryAccount: LocalAccount, control: StepControl<AgentState>) => {
+        const usdc = settlementAsset(network, 'USDC')
+        const payFetch = createPaymentFetch({
+            account: treasuryAccount,
+            network,
+            maxAmount: X402_MAX_PAYMENT,
+            beforePayment: async requirements => {
+                const value = BigInt(requirements.maxAmountRequired)
+                authorizeSpend({ action: 'transfer', currency: 'USDC', value, to: requirements.payTo })
+                await requireApproval(createPaymentApprovalRequest(requirements, usdc, approvalConfig), control)
+                addLog('action', `💵 [x402] Market intel costs ${formatAssetAmount(value, usdc)}. Signing a transferWithAuthorization...`)
+            },
+        })
+        const params = new URLSearchParams({ q: decision.searchQuery, budget: decision.maxBudget, network: network.id })
+        const { response, payment } = await payFetch(`/api/agent/market-intel?${params}`)
+        const data = await response.json()
+        if (!response.ok || !data.success) throw new Error(data.error ?? `HTTP ${response.status}`)
+
+        if (payment?.settlement?.success) {
+            addLog('tx', `✅ [x402] Paid ${formatUnits(BigInt(payment.requirements.maxAmountRequired), 6)} USDC to ${payment.requirements.payTo.slice(0, 10)}...`, {
+                hash: payment.settlement.transaction,
+                x402: { payer: payment.authorization.from, nonce: payment.authorization.nonce, network: payment.settlement.network },
+            })
+        }
+        if (!data.priceSfuel) {
+            addLog('thought', `☑️ Market Analysis: no active services match "${decision.searchQuery}" yet (${data.totalActive} active in total).`)
+            return
+        }
+        const position = data.budgetPosition
+        addLog('thought', `☑️ Market Analysis: ${data.matchingServices} matching services at ${data.priceSfuel.min}-${data.priceSfuel.max} sFUEL (median ${data.priceSfuel.median}).` +
+            (position ? ` A ${decision.maxBudget} sFUEL budget covers ${position.affordablePercent}% of them${position.vsMedianPercent !== null ? ` (${position.vsMedianPercent >= 0 ? '+' : ''}${position.vsMedianPercent}% vs median)` : ''}.` : ''))
+    }
 
     /**
      * Interface with Gemini for service parameters determination.
      */
-    const consultBrain = async (objective: string, currentState: string, metadata?: any): Promise<GeminiDecision> => {
+    const consultBrain = async (objective: string, currentState: string, metadata?: any): Promise<{ decision: GeminiDecision; provenance: Provenance }> => {
         const res = await fetch('/api/agent/decide', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ objective, currentState, metadata }),
+            body: JSON.stringify({ objective, currentState, metadata, mode: runMode }),
         })
         const data = await res.json()
-        return data.decision
+        if (!res.ok || !data.decision) throw new Error(data.error ?? `HTTP ${res.status}`)
+        return { decision: data.decision, provenance: data.provenance === 'simulated' ? 'simulated' : 'real' }
     }
 
     /**
@@ -185,144 +379,195 @@ export function useAgent() {
      * 2. Service Discovery (Read Chain)
      * 3. Negotiation (BITE V2 Commit-Reveal)
      * 4. Settlement (x402 Payment)
+     * Steps run on the shared agent lifecycle (lib/workflow/lifecycle) and are
+     * saved as a session after each one; with `resume`, the steps the session
+     * already completed are restored instead of run.
      */
-    const processRequest = useCallback(async (objective: string, treasuryKey: Hex, personaDescription?: string) => {
-        reset()
-        setState('THINKING')
+    const runSession = useCallback(async (current: AgentRunSession, treasuryAccount: LocalAccount, resume = false) => {
+        const { objective, persona: personaDescription, basePrice } = current
 
-        const treasuryAccount = privateKeyToAccount(treasuryKey)
         const treasuryClient = createWalletClient({
             account: treasuryAccount,
-            chain: skaleBiteSandbox,
-            transport: http('https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox')
+            chain: network.chain,
+            transport: networkTransport(network)
         })
 
-        // --- Step 1: Pre-flight Checks (Wallet & Network) ---
+        // --- Pre-flight Checks (Wallet & Network) ---
         if (!isConnected) {
             addLog('error', '⚠️ Wallet not connected. Please click "Connect Wallet" top right.')
-            setState('IDLE')
             return
         }
 
-        if (accountChainId !== Number(CHAIN_ID)) {
-            addLog('thought', `⚠️ Wrong Network detected (${accountChainId}). Requesting switch to SKALE BITE V2...`)
+        if (accountChainId !== network.chain.id) {
+            addLog('thought', `⚠️ Wrong Network detected (${accountChainId}). Requesting switch to ${network.label}...`)
             try {
-                await switchChainAsync({ chainId: Number(CHAIN_ID) })
+                await switchChainAsync({ chainId: network.chain.id })
                 addLog('info', '✅ Network switched successfully.')
             } catch (error: any) {
                 console.error('Failed to switch network:', error)
                 addLog('error', `❌ Failed to switch network: ${error.message || 'Unknown'}. Please switch manually in your wallet.`)
-                setState('IDLE')
                 return
             }
         }
 
-        if (!walletClient || !publicClient) {
+        if (!walletClient || !publicClient || !address) {
             const reason = !walletClient ? 'Wallet Client not ready' : 'Public Client not ready'
             console.warn(`Wallet/Public client missing: ${reason}`)
             addLog('error', `⚠️ Connection not fully ready. Please wait a moment and try again. (Detail: ${reason})`)
             return
         }
 
-        try {
-            addLog('info', `🎯 Received objective: "${objective}"`)
-            addLog('info', `🔗 Chain: BITE V2 Sandbox (${CHAIN_ID}) • Contract: ${CONTRACT.slice(0, 10)}...`)
-
-            // --- Step 2: Gemini AI Analysis ---
-            addLog('thought', '🧠 [Gemini Pro] Analyzing service requirements...')
-
-            const finalObjective = personaDescription
-                ? `[Role: ${personaDescription}] ${objective}`
-                : objective
-
-            let decision: GeminiDecision
-            try {
-                decision = await consultBrain(finalObjective, 'INITIAL_ANALYSIS')
-                addLog('thought', `🧠 [Gemini] ${decision.reasoning}`, {
-                    action: decision.action,
-                    serviceType: decision.serviceType,
-                    maxBudget: decision.maxBudget,
-                    confidence: `${(decision.confidence * 100).toFixed(0)}%`,
-                })
-            } catch {
-                // Fallback heuristic if API fails
-                decision = {
-                    action: 'SEARCH',
-                    reasoning: 'Analyzing compute requirements: prioritizing cost-efficiency and low latency providers on SKALE network.',
-                    serviceType: 'General Compute',
-                    maxBudget: '0.0001', // Lower default for real txs
-                    searchQuery: 'compute',
-                    confidence: 0.85,
-                }
-                addLog('thought', `🧠 [Gemini] ${decision.reasoning}`)
-            }
-
-            // --- Step 3: Tool Chaining (Real AgentPay Swap) ---
-            addLog('action', '⚙️ Tool Call: MarketIntelligence.verify_arbitrage()')
-            await new Promise(r => setTimeout(r, 800))
-            addLog('thought', `☑️ Market Analysis: Provider price ${decision.maxBudget} sFUEL is ${Math.floor(Math.random() * 20) + 80}% below AWS standard. Arbitrage profitable.`)
-
-            addLog('action', '⚙️ Tool Call: AlgebraFinance.swap(sFUEL -> USDC)')
-            // Execute Real Swap with Manual Gas Limit
-            const swapAmount = parseEther('0.001') // Small hedge amount
-            await handleAlgebraSwap(swapAmount)
-            // --------------------------------------------------------
-
-            // --- Step 4: Service Discovery ---
-            // Log thought
-            addLog('thought', `🔍 Querying SKALE BITE Marketplace for "${decision.searchQuery}"...`)
-            setState('NEGOTIATING')
-
-            // Fetch registered services from the contract
-            let services: Service[] = []
-            let realServiceId = -1 // Default to -1 (not found)
-            let finalProviderAddress = providerAccount.address // Track who actually owns the service
+        // Demo mode stands in for a failed step; strict mode ends the run with the cause
+        const simulate = (step: string, reason: string) => {
+            if (runMode === 'strict') throw new StrictModeError(step, reason)
+            addLog('info', `🎭 [DEMO] ${step}: ${reason}. Simulating this step.`, undefined, 'simulated')
+        }
+        const isUserRejection = (e: unknown) =>
+            e instanceof Error && (e.message.includes('User rejected') || e.message.includes('denied'))
+
+        const market = new MarketplaceClient({ address: CONTRACT, publicClient })
+        // A resumed session keeps the currency it started in
+        const run: AgentRun = { userBalance: 0n, ...current.context }
+        // The item's base price is quoted in the run's currency
+        const basePriceUnits = basePrice !== undefined ? parseAssetAmount(basePrice.toFixed(run.asset.decimals), run.asset) : undefined
+        const completedBefore = [...current.completedSteps]
+        session.current = current
+        activeRun.current = run
+        if (resume) {
+            setLogs(current.logs)
+            addLog('info', `♻️ Resuming session ${current.id.slice(0, 8)} after "${completedBefore.at(-1) ?? 'start'}"${run.requestId !== null ? ` (request #${run.requestId})` : ''}.`)
+        }
 
-            try {
-                // Get total service count
-                const totalServicesResult = await publicClient.readContract({
-                    address: MARKETPLACE_ADDRESS,
-                    abi: MARKETPLACE_ABI,
-                    functionName: 'nextServiceId',
-                }) as bigint
-                const count = Number(totalServicesResult)
-
-                // Batch scan: only check last 15 services for speed (most recent registrations)
-                const scanStart = Math.max(0, count - 15)
-                const scanPromises = []
-                for (let i = count - 1; i >= scanStart; i--) {
-                    scanPromises.push(
-                        publicClient.readContract({
-                            address: MARKETPLACE_ADDRESS,
-                            abi: MARKETPLACE_ABI,
-                            functionName: 'services',
-                            args: [BigInt(i)],
-                        }).then(svc => ({ id: i, svc: svc as [bigint, `0x${string}`, string, string, bigint, bigint, bigint, boolean] }))
-                            .catch(() => null)
-                    )
-                }
-                const results = await Promise.all(scanPromises)
+        const connectMarkets = async (run: AgentRun) => {
+            const currentGasPrice = await publicClient.getGasPrice()
+            run.txOptions = { gasPrice: currentGasPrice, gas: 500000n }
+            run.providerMarket = market.withWallet(run.provider!.wallet, run.txOptions)
+            run.treasuryMarket = market.withWallet(treasuryClient, run.txOptions)
+            run.userBalance = await publicClient.getBalance({ address })
+        }
 
-                for (const result of results) {
-                    if (!result || !result.svc || !result.svc[7]) continue // skip unregistered
-                    const provider = result.svc[1].toLowerCase()
-                    const isMatch = provider === providerAccount.address.toLowerCase()
+        const steps: WorkflowStep<AgentState, AgentRun>[] = [
+            {
+                id: 'prepare',
+                state: 'THINKING',
+                run: async run => {
+                    addLog('info', `🎯 Received objective: "${objective}"`)
+                    addLog('info', runMode === 'strict'
+                        ? '🧷 Strict mode: any failed step ends the run.'
+                        : '🎭 Demo mode: failed steps are simulated and tagged as such.')
+                    addLog('info', `🔗 Chain: ${network.label} (${network.chain.id}) • Contract: ${CONTRACT.slice(0, 10)}...`)
+                    addLog('info', isNativeAsset(run.asset)
+                        ? '💵 Settlement currency: sFUEL (native).'
+                        : `💵 Settlement currency: ${run.asset.symbol} (${run.asset.address.slice(0, 10)}..., ${run.asset.decimals} decimals).`)
+
+                    run.provider = await resolveProvider()
+                    run.providerAddress = run.provider.address
+                    addLog('info', run.provider.agentId
+                        ? `🔑 Provider agent "${run.provider.agentId}" (${run.provider.address.slice(0, 10)}...) signs via the server signer.`
+                        : `🔑 Provider agent ${run.provider.address.slice(0, 10)}... (session burner).`)
+                },
+                restore: async run => {
+                    run.provider = await resolveProvider()
+                    const saved = current.context.providerAgent
+                    if (!saved || saved.toLowerCase() === run.provider.address.toLowerCase()) return
+                    // A burner key lives only in memory; a service or offer tied to the old one is out of reach
+                    if (run.serviceId !== -1 && !completedBefore.includes('reveal')) {
+                        throw new Error(`Provider agent ${saved.slice(0, 10)}... was a session burner lost on reload; its negotiation cannot be resumed. A committed offer can still be revealed from Pending Reveals.`)
+                    }
+                    run.providerAddress ??= run.provider.address
+                },
+            },
+            // --- Gemini AI Analysis ---
+            {
+                id: 'analyze',
+                state: 'THINKING',
+                retry: READ_RETRY,
+                run: async run => {
+                    addLog('thought', '🧠 [Gemini Pro] Analyzing service requirements...')
+                    const finalObjective = personaDescription
+                        ? `[Role: ${personaDescription}] ${objective}`
+                        : objective
+                    const brain = await consultBrain(finalObjective, 'INITIAL_ANALYSIS')
+                    run.decision = brain.decision
+                    addLog('thought', `🧠 [Gemini] ${brain.decision.reasoning}`, {
+                        action: brain.decision.action,
+                        serviceType: brain.decision.serviceType,
+                        maxBudget: brain.decision.maxBudget,
+                        confidence: `${(brain.decision.confidence * 100).toFixed(0)}%`,
+                    }, brain.provenance)
+                },
+                recover: async (run, e) => {
+                    simulate('Gemini analysis', e instanceof Error ? e.message : String(e))
+                    // Fallback heuristic if API fails
+                    run.decision = {
+                        action: 'SEARCH',
+                        reasoning: 'Analyzing compute requirements: prioritizing cost-efficiency and low latency providers on SKALE network.',
+                        serviceType: 'General Compute',
+                        maxBudget: '0.0001', // Lower default for real txs
+                        searchQuery: 'compute',
+                        confidence: 0.85,
+                    }
+                    addLog('thought', `🧠 [Gemini] ${run.decision.reasoning}`, undefined, 'simulated')
+                },
+            },
+            // --- Tool Chaining (Real AgentPay Swap) ---
+            {
+                id: 'hedge',
+                state: 'THINKING',
+                run: async (run, control) => {
+                    addLog('action', '⚙️ Tool Call: MarketIntelligence.verify_arbitrage() (paid API, x402)')
+                    try {
+                        await buyMarketIntel(run.decision!, treasuryAccount, control)
+                    } catch (e) {
+                        if (e instanceof SpendingPolicyError || e instanceof ApprovalDeniedError) throw e
+                        simulate('Market intelligence', e instanceof Error ? e.message : String(e))
+                        // Illustrative only: the percentage is not measured
+                        addLog('thought', `☑️ Market Analysis: Provider price ${run.decision!.maxBudget} sFUEL is ${Math.floor(Math.random() * 20) + 80}% below AWS standard. Arbitrage profitable.`, undefined, 'simulated')
+                    }
 
-                    if (isMatch) {
-                        addLog('info', `🎯 Discovery: Found STEALTHBID Service (ID: ${result.id}, Name: ${result.svc[2]})`)
+                    addLog('action', '⚙️ Tool Call: AlgebraFinance.swap(sFUEL -> USDC)')
+                    // Small hedge, swapped by the treasury that escrows the budget
+                    const swapAmount = parseEther('0.001')
+                    await handleAlgebraSwap(swapAmount, treasuryClient)
+                },
+            },
+            // --- Service Discovery ---
+            {
+                id: 'discover',
+                state: 'DISCOVERING',
+                retry: { ...READ_RETRY, retryIf: e => !isUserRejection(e) },
+                run: async run => {
+                    const provider = run.provider!
+                    addLog('thought', `🔍 Querying SKALE BITE Marketplace for "${run.decision!.searchQuery}"...`)
+
+                    // Batch scan: only check last 15 services for speed (most recent registrations)
+                    const count = await market.nextServiceId()
+                    const scanStart = count > 15n ? count - 15n : 0n
+                    const results = await market.listServices({ fromId: scanStart, toId: count, activeOnly: true })
+
+                    const services: Service[] = []
+                    for (const svc of results) {
+                        if (svc.provider.toLowerCase() !== provider.address.toLowerCase()) continue
+                        addLog('info', `🎯 Discovery: Found STEALTHBID Service (ID: ${svc.id}, Name: ${svc.name})`)
                         services.push({
-                            id: result.id,
-                            name: result.svc[2] || 'STEALTHBID Service',
-                            description: result.svc[3] || 'Elite DeFi Agent',
-                            price: formatEther(result.svc[4]),
-                            provider: result.svc[1],
-                            active: result.svc[7]
+                            id: Number(svc.id),
+                            name: svc.name || 'STEALTHBID Service',
+                            description: svc.description || 'Elite DeFi Agent',
+                            price: formatEther(svc.pricePerUnit),
+                            provider: svc.provider,
+                            active: svc.active,
+                            rating: svc.rating,
+                            uptime: svc.uptime
                         })
                         // Don't break, find all services to evaluate
                     }
-                }
 
-                if (services.length > 0) {
+                    if (services.length === 0) {
+                        // No services found for this provider
+                        addLog('info', `✅No existing STEALTHBID service found for this agent. Will register a new one.`)
+                        return
+                    }
+
                     addLog('thought', `🧠 [Gemini] Evaluating ${services.length} active STEALTHBID services...`)
                     await new Promise(r => setTimeout(r, 400))
 
@@ -333,386 +578,476 @@ export function useAgent() {
                     )
 
                     const bestSvc = intelService || services[0]
-                    realServiceId = bestSvc.id
-                    finalProviderAddress = bestSvc.provider as `0x${string}`
-
-                    addLog('info', `✅ Service Configured: ${bestSvc.name} (ID: ${realServiceId})`)
-                } else {
-                    // No services found for this provider
-                    realServiceId = -1
-                    addLog('info', `✅No existing STEALTHBID service found for this agent. Will register a new one.`)
-                }
-            } catch (e: any) {
-                if (e.message && (e.message.includes('User rejected') || e.message.includes('denied'))) {
-                    addLog('error', '❌ Discovery Cancelled')
-                    setState('IDLE')
-                    return
-                }
-                console.warn("Discovery error:", e)
-                // Recover silently by marking as not found
-                realServiceId = -1
-                addLog('info', `✅Discovery failed. Will register new STEALTHBID service.`)
-            }
-
-            // --- Step 5: Provider Agent Setup (Burner Wallet) ---
-            const providerName = "Automated Agent GPU"
-            let useRealAgent = realServiceId !== -1;
-            const currentGasPrice = await publicClient.getGasPrice()
-            const providerBalance = await publicClient.getBalance({ address: providerAccount.address })
-            const userBalance = await publicClient.getBalance({ address: address! })
-
-            if (!useRealAgent) {
-                // If using a burner agent, calculate gas price for it
-                addLog('action', `🤖 Spawning Agent Provider: ${providerAccount.address.slice(0, 8)}...`)
-                console.log('Network Gas Price:', currentGasPrice)
-
-                // Fuel the burner wallet if it's empty (User pays for agent gas)
-
-                if (providerBalance < parseEther('0.001')) {
-                    if (userBalance > parseEther('0.006')) {
-                        try {
-                            addLog('info', `⛽ [TREASURY] Fueling Provider Agent with 0.005 sFUEL...`)
-                            const fuelHash = await treasuryClient.sendTransaction({
-                                to: providerAccount.address,
-                                value: parseEther('0.005'),
-                                gasPrice: currentGasPrice,
-                                chain: skaleBiteSandbox,
-                                gas: 500000n,
-                                type: 'legacy'
-                            })
-                            await publicClient.waitForTransactionReceipt({ hash: fuelHash })
-                            addLog('tx', `✅ Provider Fueled (Autonomous)`, { hash: fuelHash })
-                        } catch (err: any) {
-                            console.error("Real fueling failed:", err)
-                            if (err.message && (err.message.includes('User rejected') || err.message.includes('denied'))) {
-                                console.warn("User cancelled fueling.")
-                                addLog('error', '❌ Transaction Cancelled by User')
-                                setState('IDLE')
-                                return
+                    run.serviceId = bestSvc.id
+                    run.providerAddress = bestSvc.provider
+                    run.serviceStats = { rating: bestSvc.rating, uptime: bestSvc.uptime }
+
+                    addLog('info', `✅ Service Configured: ${bestSvc.name} (ID: ${run.serviceId})`)
+                },
+                recover: async (run, e) => {
+                    if (isUserRejection(e)) {
+                        addLog('error', '❌ Discovery Cancelled')
+                        throw new WorkflowCancelled('Discovery cancelled')
+                    }
+                    console.warn("Discovery error:", e)
+                    // Recover silently by marking as not found
+                    run.serviceId = -1
+                    addLog('info', `✅Discovery failed. Will register new STEALTHBID service.`)
+                },
+            },
+            {
+                id: 'connect',
+                state: 'PROVISIONING',
+                run: async run => {
+                    await connectMarkets(run)
+                    if (run.serviceId !== -1) addLog('info', `✅ Using Existing Real Agent (No Burner setup needed).`)
+                },
+                restore: connectMarkets,
+            },
+            // --- Provider Agent Setup (Burner Wallet) ---
+            {
+                id: 'provision',
+                state: 'PROVISIONING',
+                guard: run => run.serviceId === -1,
+                run: async run => {
+                    const provider = run.provider!
+                    const providerBalance = await publicClient.getBalance({ address: provider.address })
+                    addLog('action', `🤖 Spawning Agent Provider: ${provider.address.slice(0, 8)}...`)
+                    console.log('Network Gas Price:', run.txOptions!.gasPrice)
+
+                    // Fuel the burner wallet if it's empty (User pays for agent gas)
+                    if (providerBalance < parseEther('0.001')) {
+                        if (run.userBalance > parseEther('0.006')) {
+                            try {
+                                addLog('info', `⛽ [TREASURY] Fueling Provider Agent with 0.005 sFUEL...`)
+                                authorizeSpend({ action: 'transfer', value: parseEther('0.005'), currency: 'sFUEL', to: provider.address })
+                                const fuelHash = await treasuryClient.sendTransaction({
+                                    to: provider.address,
+                                    value: parseEther('0.005'),
+                                    gasPrice: run.txOptions!.gasPrice,
+                                    chain: network.chain,
+                                    gas: 500000n,
+                                    type: 'legacy'
+                                })
+                                await publicClient.waitForTransactionReceipt({ hash: fuelHash })
+                                addLog('tx', `✅ Provider Fueled (Autonomous)`, { hash: fuelHash })
+                            } catch (err) {
+                                if (err instanceof SpendingPolicyError) throw err
+                                console.error("Real fueling failed:", err)
+                                if (isUserRejection(err)) {
+                                    console.warn("User cancelled fueling.")
+                                    addLog('error', '❌ Transaction Cancelled by User')
+                                    throw new WorkflowCancelled('Fueling cancelled')
+                                }
+                                simulate('Provider fueling', err instanceof Error ? err.message : 'Network/Wallet issue')
                             }
-                            addLog('info', `⚠️ Network/Wallet Issue: Falling back to simulated fueling.`)
+                        } else {
+                            simulate('Provider fueling', 'treasury balance too low to fuel the provider agent')
                         }
+                    }
 
-                        // REFRESH BALANCE AFTER FUELING SO `isAuthorizedProvider` is TRUE
-                        try {
-                            const newBal = await publicClient.getBalance({ address: providerAccount.address })
-                            // We define a new let or just re-assign. We used const before, let's just cheat and check live below
-                        } catch { }
-                    } else {
-                        addLog('info', `⚠️ Demo Mode: Skipping gas fueling (insufficient user balance). Simulating agent actions...`)
+                    // Register the Provider Service on-chain
+                    if (run.userBalance <= parseEther('0.006')) {
+                        simulate('Provider registration', 'treasury balance too low')
+                        addLog('tx', `✅ [Simulated] Provider Agent Registered`, { hash: '0xSIMULATED_HASH_' + Date.now() }, 'simulated')
+                        return
                     }
-                }
+                    try {
+                        const regHash = await run.providerMarket!.registerService({
+                            name: 'Automated Agent GPU',
+                            description: 'Automated Response Node',
+                            pricePerUnit: parseEther(run.decision!.maxBudget),
+                            uptime: 99,
+                            rating: 50 // 50 = 5.0
+                        })
+                        addLog('tx', `✅ Provider Agent Registered on-chain`, { hash: regHash })
+                        const regReceipt = await market.waitForSuccess(regHash)
 
-                // Register the Provider Service on-chain
-                try {
-                    if (userBalance > parseEther('0.006')) {
+                        // The ID comes only from our ServiceRegistered event; a missing event is fatal
+                        run.serviceId = Number(market.getRegisteredServiceId(regReceipt, provider.address))
+                        addLog('info', `✅ Captured New Service ID: ${run.serviceId}`)
+                        run.serviceStats = { rating: 50, uptime: 99 }
+                    } catch (e) {
+                        if (e instanceof MarketplaceEventError) throw e
+                        // Non-critical: Provider might already exist or gas issue
+                        console.warn("Provider registration skipped", e)
+                        simulate('Provider registration', e instanceof Error ? e.message : String(e))
+                        addLog('tx', `✅ [Simulated/Existing] Provider Agent Registered`, { hash: '0xSIMULATED_HASH_' + Date.now() }, 'simulated')
+                    }
+                },
+            },
+            // --- Treasury Creates Request (Real Transaction) ---
+            {
+                id: 'request',
+                state: 'REQUESTING',
+                run: async (run, control) => {
+                    const asset = run.asset
+                    const native = isNativeAsset(asset)
+                    // Escrow exactly the budget the brain chose; the policy decides whether that is acceptable
+                    const budget = parseAssetAmount(run.decision!.maxBudget, asset)
+                    let requestFailure = `treasury balance too low to escrow ${formatAssetAmount(budget, asset)}`
+                    const gasReserve = parseEther('0.005')
+                    // A USDC budget comes from the treasury's USDC; sFUEL is still needed for gas
+                    const funded = native
+                        ? run.userBalance > budget + gasReserve
+                        : run.userBalance > gasReserve && await tokenBalance(publicClient, asset.address, treasuryAccount.address) >= budget
+                    // Never post against a guessed service: without a confirmed ID the request is simulated
+                    if (run.serviceId === -1) {
+                        requestFailure = 'no confirmed service ID for this run'
+                        addLog('info', `⚠️ No confirmed service ID for this run. Skipping on-chain request.`)
+                    } else if (funded) {
                         try {
-                            const regHash = await providerClient.writeContract({
-                                address: CONTRACT as Hex,
-                                abi: SERVICE_MARKETPLACE_ABI,
-                                functionName: 'registerService',
-                                args: [
-                                    providerName,
-                                    'Automated Response Node',
-                                    parseEther(decision.maxBudget),
-                                    99, // Uptime (uint8)
-                                    50  // Rating (uint8, 50 = 5.0)
-                                ],
-                                gasPrice: currentGasPrice,
-                                chain: skaleBiteSandbox,
-                                gas: 500000n,
-                                type: 'legacy'
+                            addLog('action', `📝 [TREASURY] Autonomous Request Creation (${formatAssetAmount(budget, asset)} escrow)...`)
+                            authorizeSpend({
+                                action: 'createRequest',
+                                value: budget,
+                                currency: asset.symbol,
+                                provider: run.providerAddress,
+                                serviceId: BigInt(run.serviceId),
+                                service: run.serviceStats,
+                                price: budget,
+                                basePrice: basePriceUnits,
                             })
-                            addLog('tx', `✅ Provider Agent Registered on-chain`, { hash: regHash })
-                            const regReceipt = await publicClient.waitForTransactionReceipt({ hash: regHash })
-
-                            // Parse 'NewService' event to get the ID
-                            try {
-                                const newServiceLog = regReceipt.logs.find(l => l.address.toLowerCase() === CONTRACT.toLowerCase())
-                                if (newServiceLog && newServiceLog.topics && newServiceLog.topics[1]) {
-                                    realServiceId = Number(BigInt(newServiceLog.topics[1]))
-                                    addLog('info', `✅Captured New Service ID: ${realServiceId}`)
-                                }
-                            } catch (e) {
-                                console.warn("Failed to parse Service ID from logs", e)
+                            await requireApproval(createApprovalRequest({
+                                to: CONTRACT,
+                                data: native
+                                    ? encodeFunctionData({
+                                        abi: SERVICE_MARKETPLACE_ABI,
+                                        functionName: 'createRequest',
+                                        args: [BigInt(run.serviceId), objective],
+                                    })
+                                    : encodeFunctionData({
+                                        abi: SERVICE_MARKETPLACE_ABI,
+                                        functionName: 'createTokenRequest',
+                                        args: [BigInt(run.serviceId), objective, asset.address, budget],
+                                    }),
+                                value: native ? budget : 0n,
+                                amount: budget,
+                                asset,
+                                provider: run.providerAddress,
+                                serviceId: BigInt(run.serviceId),
+                            }, approvalConfig), control)
+                            const escrow = await createEscrowedRequest(run.treasuryMarket!, network, {
+                                serviceId: BigInt(run.serviceId),
+                                objective,
+                                asset,
+                                amount: budget,
+                                options: run.txOptions,
+                            })
+                            if (escrow.approvalHash) {
+                                addLog('tx', `✅ Approved the marketplace to pull ${formatAssetAmount(budget, asset)}`, { hash: escrow.approvalHash })
+                            } else if (escrow.via === 'permit') {
+                                addLog('info', `✍️ ${asset.symbol} allowance granted by EIP-2612 permit, in the request transaction.`)
+                            }
+                            const hash = escrow.hash
+                            addLog('tx', `✅Request Created! Waiting for confirmation...`, { hash })
+                            const reqReceipt = await market.waitForSuccess(hash)
+
+                            // Only an event-confirmed ID may be used for follow-up calls; null means this run is simulated
+                            run.requestId = market.getCreatedRequestId(reqReceipt, treasuryAccount.address)
+                            addLog('info', `✅ Confirmed Request ID: ${run.requestId} (from ServiceRequestCreated)`, { requestId: run.requestId.toString() })
+                            addLog('tx', `✅Request Confirmed! Block #${reqReceipt.blockNumber}`, { hash })
+                            return
+                        } catch (err) {
+                            if (err instanceof MarketplaceEventError || err instanceof SpendingPolicyError || err instanceof ApprovalDeniedError) throw err
+                            console.error("Real request failed:", err)
+                            if (isUserRejection(err)) {
+                                addLog('error', '❌ Transaction Cancelled by User')
+                                throw new WorkflowCancelled('Request cancelled')
                             }
-                        } catch (e) {
-                            // Non-critical: Provider might already exist or gas issue
-                            console.warn("Provider registration skipped", e)
-                            addLog('tx', `✅ [Simulated/Existing] Provider Agent Registered`, { hash: '0xSIMULATED_HASH_' + Date.now() })
+                            // If real tx fails (e.g. reverts), demo mode proceeds with simulation; strict mode stops below
+                            requestFailure = err instanceof Error ? err.message : 'Unknown Error'
+                            addLog('error', `❌ Transaction Failed: ${requestFailure}`)
                         }
-                    } else {
-                        addLog('tx', `✅ [Simulated] Provider Agent Registered`, { hash: '0xSIMULATED_HASH_' + Date.now() })
                     }
-                } catch (e) {
-                    console.warn("Provider registration error", e)
-                }
-            } else {
-                addLog('info', `✅ Using Existing Real Agent (No Burner setup needed).`)
-            }
 
-            // --- Step 6: User Creates Request (Real Transaction) ---
-            addLog('action', `📝 [USER ACTION REQUIRED] Please sign 'createRequest' transaction...`)
-            await new Promise(r => setTimeout(r, 500))
-
-            // CRITICAL FIX: Fetch ID *BEFORE* transaction to avoid RPC latency issues
-            let expectedRequestId = 0n
-            try {
-                expectedRequestId = await publicClient.readContract({
-                    address: CONTRACT as Hex,
-                    abi: SERVICE_MARKETPLACE_ABI,
-                    functionName: 'nextRequestId',
-                }) as bigint
-                addLog('info', `🔢 Target Request ID: ${expectedRequestId}`)
-            } catch (e) {
-                console.warn("Failed to fetch nextRequestId", e)
-            }
+                    // Simulation Fallback
+                    simulate('Request creation', requestFailure)
+                    await new Promise(r => setTimeout(r, 1000))
+                    addLog('tx', `✅ [Simulated] Request Created!`, { hash: '0xSIMULATED_REQ_' + Date.now() }, 'simulated')
+                },
+                // The run is abandoned: give the budget back instead of leaving it locked until the deadline
+                compensate: async run => {
+                    if (run.requestId === null) return
+                    try {
+                        const release = await releaseEscrow(run.treasuryMarket!, run.requestId)
+                        addLog(release.outcome === 'refunded' ? 'tx' : 'info', describeEscrowRelease(run.requestId, release, network),
+                            release.outcome === 'refunded' ? { hash: release.hash } : undefined)
+                    } catch (err) {
+                        addLog('error', `⚠️ Escrow refund for request #${run.requestId} failed: ${err instanceof Error ? err.message.split('\n')[0] : 'Unknown'}. It is refunded automatically after its deadline.`)
+                    }
+                },
+            },
+            // --- BITE V2 Negotiation, Phase I: Submit Encrypted Offer (Commit) ---
+            {
+                id: 'commit',
+                state: 'BIDDING',
+                run: async run => {
+                    const provider = run.provider!
+                    const requestId = run.requestId
+                    addLog('thought', `🤖 Agent Autonomy: Detected new Request ${requestId ?? '(simulated)'}. Preparing Offer as STEALTHBID...`)
+                    addLog('action', '🔐 [BITE] Encrypting offer...')
+
+                    const isSelfCustody = address.toLowerCase() === provider.address.toLowerCase()
+                    run.offerSigner = isSelfCustody ? address : provider.address
+                    run.offerMarket = isSelfCustody ? market.withWallet(walletClient, run.txOptions) : run.providerMarket
+
+                    // Hashed Commitment: keccak256(price, 256-bit salt), optionally bound to request + signer
+                    const commitment = createOfferCommitment(
+                        parseAssetAmount(run.decision!.maxBudget, run.asset),
+                        requestId !== null ? { requestId, provider: run.offerSigner } : undefined
+                    )
+                    run.commitment = commitment
+                    run.offerPrice = commitment.price
+
+                    // REFRESH BALANCE: Check if the fueling succeeded so we don't skip the transaction
+                    const currentProviderBalance = await publicClient.getBalance({ address: provider.address })
+                    run.canBid = requestId !== null && run.userBalance > parseEther('0.006') &&
+                        (isSelfCustody || currentProviderBalance > parseEther('0.001'))
+
+                    if (!run.canBid || requestId === null) {
+                        simulate('Offer commit', requestId === null ? 'no on-chain request to bid on' : 'provider agent has no gas')
+                        await new Promise(r => setTimeout(r, 800))
+                        addLog('tx', `🔒 Encrypted Offer Submitted.`, { hash: '0xSIM_COMMIT_' + Date.now() }, 'simulated')
+                        return
+                    }
 
-            // Calculate next service ID to link (simple heuristic)
-            let nextSvcId = 0
-            try {
-                const count = await publicClient.readContract({
-                    address: CONTRACT as Hex,
-                    abi: SERVICE_MARKETPLACE_ABI,
-                    functionName: 'nextServiceId',
-                })
-                nextSvcId = Number(count) - 1
-            } catch { }
-
-            let reqHash = '0xSIMULATED_REQ_' as Hex
-            let requestSuccess = false
-
-            const requiredFunds = parseEther(decision.maxBudget) + parseEther('0.005')
-            let confirmedRequestId: bigint | null = null
-            // Check balance before creating request
-            if (userBalance > requiredFunds) {
-                try {
-                    addLog('action', `📝 [TREASURY] Autonomous Request Creation...`)
-                    const hash = await treasuryClient.writeContract({
-                        address: CONTRACT as Hex,
-                        abi: SERVICE_MARKETPLACE_ABI,
-                        functionName: 'createRequest',
-                        // USE REAL SERVICE ID IF AVAILABLE (NOW CAPTURED FROM REGISTRATION), OTHERWISE SIMULATED/NEW
-                        args: [BigInt(realServiceId !== -1 ? realServiceId : (nextSvcId >= 0 ? nextSvcId : 0)), objective],
-                        value: parseEther('0.05'), // Treasury hold - increased to cover jitter/variations
-                        gasPrice: currentGasPrice,
-                        chain: skaleBiteSandbox,
-                        gas: 500000n,
-                        type: 'legacy'
-                    })
-                    addLog('tx', `✅Request Created! Waiting for confirmation...`, { hash })
-                    const reqReceipt = await publicClient.waitForTransactionReceipt({ hash })
-
-                    // Parse logs to find NewRequest event (topic[0] matches signature)
-                    // event NewRequest(uint256 indexed id, address indexed requester, uint256 indexed serviceId, string input, uint256 budget);
-                    // We look for the first log from our contract. The first topic is event sig. The first indexed arg (topic[1]) is ID.
+                    // Reveal secrets go to the vault before the commit, so a closed tab can still reveal
+                    assertCommitReady(commitment, requestId, run.offerSigner)
+                    run.vault = await openCommitmentVault(message => addLog('info', message))
+                    run.vaultEntry = {
+                        chainId: network.chain.id,
+                        marketplace: CONTRACT,
+                        requestId,
+                        provider: run.offerSigner,
+                        price: commitment.price,
+                        nonce: commitment.nonce,
+                        commitHash: commitment.hash,
+                        bound: !!commitment.binding,
+                        deadline: Date.now() + DEFAULT_REVEAL_WINDOW_MS,
+                        createdAt: Date.now(),
+                        signerKey: isSelfCustody ? undefined : provider.signerKey,
+                        signerAgentId: isSelfCustody ? undefined : provider.agentId,
+                    }
+                    await run.vault?.put(run.vaultEntry)
+                    await new Promise(r => setTimeout(r, 2000)) // Delay to prevent nonce collision
                     try {
-                        const newRequestLog = reqReceipt.logs.find(l => l.address.toLowerCase() === CONTRACT.toLowerCase())
-                        if (newRequestLog && newRequestLog.topics && newRequestLog.topics[1]) {
-                            confirmedRequestId = BigInt(newRequestLog.topics[1])
-                            addLog('info', `✅Confirmed Request ID: ${confirmedRequestId} (from logs)`)
-                        }
+                        await Promise.race([
+                            (async () => {
+                                if (isSelfCustody) {
+                                    addLog('action', `🔐 [Self-Custody] Please sign 'submitEncryptedOffer' as Agent...`)
+                                }
+                                // BITE-encrypted on BITE networks; hash-commit only as a logged fallback
+                                const commit = await commitSealedOffer({
+                                    market: run.offerMarket!,
+                                    network,
+                                    requestId,
+                                    offerHash: commitment.hash,
+                                    onLog: message => addLog('info', message),
+                                })
+                                addLog('tx', commit.mode === 'bite'
+                                    ? `🔒 BITE-Encrypted Offer Submitted on-chain.`
+                                    : `🔒 Offer Hash Committed on-chain (hash-commit mode).`, { hash: commit.txHash })
+                            })(),
+                            txTimeout(45000) // Manual signing plus post-finality decryption check
+                        ])
                     } catch (e) {
-                        console.warn("Failed to parse logs for ID", e)
+                        console.warn("Provider commit failed or timed out", e)
+                        simulate('Offer commit', e instanceof Error ? e.message : 'Unknown')
+                        addLog('tx', `🔒 Encrypted Offer Submitted.`, { hash: '0xSIM_COMMIT_' + Date.now() }, 'simulated')
                     }
-
-                    if (!confirmedRequestId) {
-                        // Fallback if logs fail (rare)
-                        confirmedRequestId = expectedRequestId
-                        addLog('info', `⚠️ Using predicted Request ID: ${confirmedRequestId}`)
+                },
+                // The reveal secret comes back from the vault, where it was put before the commit
+                restore: async run => {
+                    const signer = run.offerSigner!
+                    run.offerMarket = signer.toLowerCase() === address.toLowerCase() ? market.withWallet(walletClient, run.txOptions) : run.providerMarket
+                    if (!run.canBid || run.requestId === null) return
+                    run.vault = await openCommitmentVault(message => addLog('info', message))
+                    run.vaultEntry = (await run.vault?.list(network.chain.id))?.find(e =>
+                        e.marketplace.toLowerCase() === CONTRACT.toLowerCase() &&
+                        e.requestId === run.requestId &&
+                        e.provider.toLowerCase() === signer.toLowerCase())
+                    if (run.vaultEntry) {
+                        const { price, nonce, commitHash, bound, requestId, provider } = run.vaultEntry
+                        run.commitment = { price, nonce, hash: commitHash, binding: bound ? { requestId, provider } : undefined }
                     }
-
-                    addLog('tx', `✅Request Confirmed! Block #${reqReceipt.blockNumber}`, { hash })
-                    requestSuccess = true
-                } catch (err: any) {
-                    console.error("Real request failed:", err)
-                    if (err.message && (err.message.includes('User rejected') || err.message.includes('denied'))) {
-                        addLog('error', '❌ Transaction Cancelled by User')
-                        setState('IDLE')
+                },
+            },
+            // --- Phase II: Reveal Offer (Decrypt) ---
+            {
+                id: 'reveal',
+                state: 'REVEALING',
+                run: async run => {
+                    const requestId = run.requestId
+                    const commitment = run.commitment
+                    const maxBudget = `${run.decision!.maxBudget} ${run.asset.symbol}`
+                    addLog('action', '⚡ [BITE] Revealing offer parameters...')
+                    if (!run.canBid || requestId === null || !commitment) {
+                        simulate('Offer reveal', run.canBid ? 'reveal secret missing from the commitment vault' : 'no on-chain commitment to reveal')
+                        await new Promise(r => setTimeout(r, 800))
+                        addLog('tx', `🔓 Offer Revealed: ${maxBudget}.`, { hash: '0xSIM_REVEAL_' + Date.now() }, 'simulated')
                         return
                     }
-                    // If real tx fails (e.g. reverts), we proceed with simulation for demo continuity
-                    // unless user specifically requested strict fail mode.
-                    addLog('error', `❌ Transaction Failed: ${err instanceof Error ? err.message : 'Unknown Error'}`)
-                }
-            }
-
-            if (!requestSuccess) {
-                // Simulation Fallback
-                addLog('info', `⚠️ Transaction failed or cancelled. Using simulation to proceed...`)
-                await new Promise(r => setTimeout(r, 1000))
-                addLog('tx', `✅ [Simulated] Request Created!`, { hash: reqHash + Date.now() })
-            }
-
-            // Use the confirmed ID as the definitive ID for this session
-            const requestId = Number(confirmedRequestId || expectedRequestId)
-
-            // --- Step 7: BITE V2 Negotiation (Commit-Reveal) ---
-            addLog('thought', `🤖 Agent Autonomy: Detected new Request ${requestId}. Preparing Offer as STEALTHBID...`)
-
-            const nonce = BigInt(Math.floor(Math.random() * 1000000))
-            const offerPrice = parseEther(decision.maxBudget)
-            // Hashed Commitment: keccak256(price + nonce)
-            const offerHash = keccak256(encodePacked(['uint256', 'uint256'], [offerPrice, nonce]))
-
-            addLog('action', '🔐 [BITE] Encrypting offer...')
-
-            // Phase I: Submit Encrypted Offer (Commit)
-            const isSelfCustody = address && address.toLowerCase() === providerAccount.address.toLowerCase()
-
-            // REFRESH BALANCE: Check if the fueling succeeded so we don't skip the transaction
-            const currentProviderBalance = await publicClient.getBalance({ address: providerAccount.address })
-            const isAuthorizedProvider = isSelfCustody || currentProviderBalance > parseEther('0.001')
-
-            const txTimeout = (ms: number) => new Promise((_, reject) => setTimeout(() => reject(new Error('TX_TIMEOUT')), ms))
-
-            if (userBalance > parseEther('0.006') && isAuthorizedProvider) {
-                await new Promise(r => setTimeout(r, 2000)) // Delay to prevent nonce collision
-                try {
-                    const commitResult = await Promise.race([
-                        (async () => {
-                            let commitHash: Hex
-                            if (isSelfCustody) {
-                                addLog('action', `🔐 [Self-Custody] Please sign 'submitEncryptedOffer' as Agent...`)
-                                commitHash = await walletClient.writeContract({
-                                    address: CONTRACT as Hex,
-                                    abi: SERVICE_MARKETPLACE_ABI,
-                                    functionName: 'submitEncryptedOffer',
-                                    args: [BigInt(requestId), offerHash],
-                                    gasPrice: currentGasPrice,
-                                    chain: skaleBiteSandbox,
-                                    gas: 500000n,
-                                    type: 'legacy'
-                                })
-                            } else {
-                                commitHash = await providerClient.writeContract({
-                                    address: CONTRACT as Hex,
-                                    abi: SERVICE_MARKETPLACE_ABI,
-                                    functionName: 'submitEncryptedOffer',
-                                    args: [BigInt(requestId), offerHash],
-                                    gasPrice: currentGasPrice,
-                                    chain: skaleBiteSandbox,
-                                    gas: 500000n,
-                                    type: 'legacy'
-                                })
-                            }
-                            addLog('tx', `🔒 Encrypted Offer Submitted on-chain.`, { hash: commitHash })
-                            const commitReceipt = await publicClient.waitForTransactionReceipt({ hash: commitHash })
-                            if (commitReceipt.status === 'reverted') {
-                                throw new Error('Commit transaction reverted on-chain')
-                            }
-                            return true
-                        })(),
-                        txTimeout(20000) // Increased timeout for manual signing
-                    ])
-                } catch (e: any) {
-                    console.warn("Provider commit failed or timed out", e)
-                    addLog('tx', `🔒 Encrypted Offer Submitted.`, { hash: '0xSIM_COMMIT_' + Date.now() })
-                }
-            } else {
-                await new Promise(r => setTimeout(r, 800))
-                addLog('tx', `🔒 Encrypted Offer Submitted.`, { hash: '0xSIM_COMMIT_' + Date.now() })
-            }
-
-            // Phase II: Reveal Offer (Decrypt)
-            addLog('action', '⚡ [BITE] Revealing offer parameters...')
-            if (userBalance > parseEther('0.006') && isAuthorizedProvider) {
-                await new Promise(r => setTimeout(r, 2000))
-                try {
-                    await Promise.race([
-                        (async () => {
-                            let revealHash: Hex
-                            if (isSelfCustody) {
-                                addLog('action', `⚡ [Self-Custody] Please sign 'revealOffer' as Agent...`)
-                                revealHash = await walletClient.writeContract({
-                                    address: CONTRACT as Hex,
-                                    abi: SERVICE_MARKETPLACE_ABI,
-                                    functionName: 'revealOffer',
-                                    args: [BigInt(requestId), offerPrice, nonce],
-                                    gasPrice: currentGasPrice,
-                                    chain: skaleBiteSandbox,
-                                    gas: 500000n,
-                                    type: 'legacy'
-                                })
-                            } else {
-                                revealHash = await providerClient.writeContract({
-                                    address: CONTRACT as Hex,
-                                    abi: SERVICE_MARKETPLACE_ABI,
-                                    functionName: 'revealOffer',
-                                    args: [BigInt(requestId), offerPrice, nonce],
-                                    gasPrice: currentGasPrice,
-                                    chain: skaleBiteSandbox,
-                                    gas: 500000n,
-                                    type: 'legacy'
-                                })
-                            }
-                            addLog('tx', `🔓 Offer Revealed: ${decision.maxBudget} sFUEL. Validated on-chain.`, { hash: revealHash })
-                            const revealReceipt = await publicClient.waitForTransactionReceipt({ hash: revealHash })
-                            if (revealReceipt.status === 'reverted') {
-                                throw new Error('Reveal transaction reverted on-chain')
-                            }
-                        })(),
-                        txTimeout(20000) // Increased timeout for manual signing
-                    ])
-                } catch (e: any) {
-                    console.warn("Provider reveal failed or timed out", e)
-                    addLog('tx', `🔓 Offer Revealed: ${decision.maxBudget} sFUEL.`, { hash: '0xSIM_REVEAL_' + Date.now() })
-                }
-            } else {
-                await new Promise(r => setTimeout(r, 800))
-                addLog('tx', `🔓 Offer Revealed: ${decision.maxBudget} sFUEL.`, { hash: '0xSIM_REVEAL_' + Date.now() })
-            }
-
-            addLog('info', `✅ Finalized parameters. Preparing autonomous settlement...`)
-            setState('SETTLING')
-            let settleSuccess = false
+                    await new Promise(r => setTimeout(r, 2000))
+                    try {
+                        await Promise.race([
+                            (async () => {
+                                const committed = await market.getOffer(requestId, run.offerSigner!)
+                                assertRevealMatches(committed?.offerHash, commitment)
+                                if (run.offerSigner === address) {
+                                    addLog('action', `⚡ [Self-Custody] Please sign 'revealOffer' as Agent...`)
+                                }
+                                const revealHash = await run.offerMarket!.revealOffer(requestId, commitment.price, commitment.nonce)
+                                addLog('tx', `🔓 Offer Revealed: ${maxBudget}. Validated on-chain.`, { hash: revealHash })
+                                const revealReceipt = await publicClient.waitForTransactionReceipt({ hash: revealHash })
+                                if (revealReceipt.status === 'reverted') {
+                                    throw new Error('Reveal transaction reverted on-chain')
+                                }
+                                if (run.vaultEntry) await run.vault?.remove(run.vaultEntry)
+                            })(),
+                            txTimeout(20000) // Increased timeout for manual signing
+                        ])
+                    } catch (e) {
+                        console.warn("Provider reveal failed or timed out", e)
+                        // The budget is escrowed on-chain: fail the run so the request step refunds it, even in demo mode
+                        if (runMode === 'strict') throw new StrictModeError('Offer reveal', e instanceof Error ? e.message : 'Unknown')
+                        throw e
+                    }
+                },
+            },
+            // --- Settlement (x402 Payment) ---
+            {
+                id: 'settle',
+                state: 'SETTLING',
+                run: async (run, control) => {
+                    addLog('info', `✅ Finalized parameters. Preparing autonomous settlement...`)
+                    try {
+                        const requestId = run.requestId
+                        if (requestId === null) throw new Error('No on-chain request was created for this run')
+                        addLog('action', `💳 [TREASURY] Initiating x402 Settlement...`)
+                        // Escrow already paid; this checks who gets it and at what price
+                        authorizeSpend({
+                            action: 'settlePayment',
+                            value: 0n,
+                            currency: run.asset.symbol,
+                            provider: run.providerAddress,
+                            serviceId: BigInt(run.serviceId),
+                            service: run.serviceStats,
+                            price: run.offerPrice,
+                            basePrice: basePriceUnits,
+                        })
+                        await requireApproval(createApprovalRequest({
+                            to: CONTRACT,
+                            data: encodeFunctionData({
+                                abi: SERVICE_MARKETPLACE_ABI,
+                                functionName: 'settlePayment',
+                                args: [requestId, run.providerAddress!],
+                            }),
+                            amount: run.offerPrice!,
+                            asset: run.asset,
+                            provider: run.providerAddress,
+                            serviceId: BigInt(run.serviceId),
+                            requestId,
+                        }, approvalConfig), control)
+                        const settleHash = await run.treasuryMarket!.settlePayment(requestId, run.providerAddress!)
+
+                        addLog('tx', `⏳ Settlement Hash: ${settleHash.slice(0, 10)}... waiting for SKALE confirmation.`, { hash: settleHash })
+                        const settleReceipt = await run.treasuryMarket!.waitForSuccess(settleHash)
+
+                        addLog('tx', `✅ [x402] Payment Settled: ${formatAssetAmount(run.offerPrice!, run.asset)} to the provider. Gasless Verified.`, {
+                            hash: settleHash,
+                            block: Number(settleReceipt.blockNumber),
+                            isSettlement: true,
+                            asset: run.asset,
+                        })
+                        run.settled = true
+                    } catch (e) {
+                        if (e instanceof SpendingPolicyError || e instanceof ApprovalDeniedError) throw e
+                        console.error("Settlement error:", e)
+                        const reason = e instanceof Error ? e.message : String(e)
+                        if (runMode === 'strict') throw new StrictModeError('Settlement', reason)
+                        // An escrow that was not settled must not stay locked: fail the run so the request step refunds it
+                        if (run.requestId !== null) throw e
+                        addLog('error', `❌ Settlement failed: ${reason}`)
+                    }
+                    await new Promise(r => setTimeout(r, 1000))
+                },
+            },
+        ]
+
+        const machine = new WorkflowMachine(AGENT_LIFECYCLE, steps, {
+            onTransition: setSnapshot,
+            onStepComplete: step => { current.completedSteps.push(step) },
+            onRetry: (step, attempt, e) =>
+                addLog('info', `🔁 ${step} failed (${e instanceof Error ? e.message : String(e)}). Retrying (attempt ${attempt + 1})...`),
+        })
 
-            try {
-                addLog('action', `💳 [TREASURY] Initiating x402 Settlement...`)
-                const settleHash = await treasuryClient.writeContract({
-                    address: CONTRACT as Hex,
-                    abi: SERVICE_MARKETPLACE_ABI,
-                    functionName: 'settlePayment',
-                    args: [BigInt(requestId), finalProviderAddress],
-                    gasPrice: currentGasPrice,
-                    chain: skaleBiteSandbox,
-                    gas: 500000n,
-                    type: 'legacy'
-                })
-
-                addLog('tx', `⏳ Settlement Hash: ${settleHash.slice(0, 10)}... waiting for SKALE confirmation.`, { hash: settleHash })
-                const settleReceipt = await publicClient.waitForTransactionReceipt({ hash: settleHash })
-
-                addLog('tx', `✅ [x402] Payment Settled! Gasless Verified.`, {
-                    hash: settleHash,
-                    block: Number(settleReceipt.blockNumber),
-                    isSettlement: true
-                })
-                settleSuccess = true
-            } catch (e: any) {
-                console.error("Settlement error:", e)
-                addLog('error', `❌ Settlement failed: ${e.message}`)
+        try {
+            const outcome = await machine.run(run, resume ? { completed: completedBefore } : undefined)
+            if (outcome === 'cancelled') {
+                // Nothing to come back to
+                session.current = null
+                sessionStore.current?.then(store => store?.remove(current.id))
+                return
             }
-
-            await new Promise(r => setTimeout(r, 1000))
-            setState('COMPLETED')
-            addLog('info', '🎉 Agentic commerce cycle complete. 100% Autonomous.')
-
+            addLog('info', run.settled
+                ? '🎉 Agentic commerce cycle complete. 100% Autonomous.'
+                : '🎭 Demo cycle complete. No payment was settled on-chain.')
         } catch (error) {
             console.error(error)
-            setState('ERROR')
             if ((error as any).code === 4001) {
                 addLog('error', '❌ User rejected transaction signature.')
+            } else if (error instanceof StrictModeError) {
+                addLog('error', `🧷 [STRICT] ${error.step} failed: ${error.reason}`, { failure: { step: error.step, reason: error.reason } })
             } else {
                 addLog('error', `Agent failed: ${error instanceof Error ? error.message : String(error)}`)
             }
         }
-    }, [addLog, reset, walletClient, publicClient, providerClient, providerAccount, isConnected, accountChainId, switchChain, handleAlgebraSwap])
+    }, [addLog, walletClient, publicClient, address, resolveProvider, isConnected, accountChainId, switchChainAsync, handleAlgebraSwap, authorizeSpend, requireApproval, approvalConfig, runMode, network, CONTRACT])
+
+    /**
+     * Start a new session for `objective`.
+     * `basePrice` (sFUEL) is the item's reference price for the spending policy.
+     */
+    const processRequest = useCallback(async (objective: string, treasuryAccount: LocalAccount, personaDescription?: string, basePrice?: number) => {
+        reset()
+        const now = Date.now()
+        await runSession({
+            id: newSessionId(),
+            kind: '1v1',
+            chainId: network.chain.id,
+            marketplace: CONTRACT,
+            objective,
+            runMode,
+            basePrice,
+            persona: personaDescription,
+            snapshot: idleSnapshot(AGENT_LIFECYCLE),
+            completedSteps: [],
+            requestId: null,
+            context: { serviceId: -1, requestId: null, settled: false, asset: settlementAsset(network) },
+            logs: [],
+            createdAt: now,
+            updatedAt: now,
+        }, treasuryAccount)
+    }, [reset, runSession, runMode, network, CONTRACT])
+
+    /**
+     * Continue an interrupted session after its last completed step, in the current run mode.
+     */
+    const resumeSession = useCallback(async (saved: AgentRunSession, treasuryAccount: LocalAccount) => {
+        reset()
+        await runSession({ ...saved, runMode, completedSteps: [...saved.completedSteps] }, treasuryAccount, true)
+    }, [reset, runSession, runMode])
 
     return {
         state,
+        snapshot,
         logs,
+        pendingApproval,
+        approve,
+        reject,
         processRequest,
+        resumeSession,
         reset
     }
 }
@@ -0,0 +1,145 @@
+/**
+ * Pending reveals: offers committed on-chain whose reveal never happened
+ * (tab closed, timeout, crash). Reads the commitment vault and reveals them.
+ */
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount, useWalletClient, usePublicClient } from 'wagmi'
+import { createWalletClient } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { getActiveNetwork, networkTransport } from '@/config/networks'
+import { MarketplaceClient } from '@/lib/skale/marketplace-client'
+import { CommitmentVault, commitmentId, type CommitmentEntry } from '@/lib/commitment-vault'
+import { verifyOfferCommitment } from '@/lib/skale/commitment'
+import { RemoteSigner } from '@/lib/signer/remote'
+
+export type RevealOutcome =
+    | { status: 'revealing' }
+    | { status: 'revealed'; hash: string }
+    | { status: 'dropped'; reason: string }
+    | { status: 'failed'; reason: string }
+
+export interface PendingReveal extends CommitmentEntry {
+    id: string
+    outcome?: RevealOutcome
+}
+
+export function useCommitmentVault() {
+    const [network] = useState(getActiveNetwork)
+    const [pending, setPending] = useState<PendingReveal[]>([])
+    const [isResuming, setIsResuming] = useState(false)
+
+    const { address } = useAccount()
+    const { data: walletClient } = useWalletClient({ chainId: network.chain.id })
+    const publicClient = usePublicClient({ chainId: network.chain.id })
+
+    const setOutcome = useCallback((id: string, outcome: RevealOutcome) => {
+        setPending(prev => prev.map(p => p.id === id ? { ...p, outcome } : p))
+    }, [])
+
+    const refresh = useCallback(async () => {
+        if (!CommitmentVault.isSupported()) return
+        try {
+            const vault = await CommitmentVault.open()
+            const entries = await vault.list(network.chain.id)
+            setPending(prev => {
+                const current = entries.map(e => {
+                    const id = commitmentId(e)
+                    return { ...e, id, outcome: prev.find(p => p.id === id)?.outcome }
+                })
+                // Keep just-resolved entries on screen so the outcome stays visible
+                const resolved = prev.filter(p =>
+                    (p.outcome?.status === 'revealed' || p.outcome?.status === 'dropped') &&
+                    !current.some(c => c.id === p.id))
+                return [...current, ...resolved]
+            })
+        } catch (e) {
+            console.warn('Commitment vault read failed:', e)
+        }
+    }, [network])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    /**
+     * Reveal one outstanding offer. Entries the chain says can never be
+     * revealed (no commitment, already revealed, request closed) are dropped.
+     */
+    const revealEntry = useCallback(async (vault: CommitmentVault, entry: PendingReveal) => {
+        if (!publicClient) throw new Error('Public client not ready')
+        const market = new MarketplaceClient({ address: entry.marketplace, publicClient })
+
+        const drop = async (reason: string) => {
+            await vault.remove(entry)
+            setOutcome(entry.id, { status: 'dropped', reason })
+        }
+
+        const offer = await market.getOffer(entry.requestId, entry.provider)
+        if (!offer) return drop('Commit never landed on-chain')
+        const opens = verifyOfferCommitment(offer.offerHash, {
+            price: entry.price,
+            nonce: entry.nonce,
+            binding: entry.bound ? { requestId: entry.requestId, provider: entry.provider } : undefined,
+        })
+        if (!opens) return drop('On-chain commitment does not match stored secret')
+        if (offer.revealed) return drop('Already revealed')
+        const request = await market.getRequest(entry.requestId)
+        if (!request || request.status !== 'open') return drop(`Request is ${request?.status ?? 'missing'}`)
+
+        let signer
+        if (entry.signerAgentId) {
+            signer = (await RemoteSigner.connect(entry.signerAgentId, 'provider', network)).wallet()
+        } else if (entry.signerKey) {
+            signer = createWalletClient({
+                account: privateKeyToAccount(entry.signerKey),
+                chain: network.chain,
+                transport: networkTransport(network)
+            })
+        } else if (walletClient && address?.toLowerCase() === entry.provider.toLowerCase()) {
+            signer = walletClient
+        } else {
+            throw new Error(`Connect provider wallet ${entry.provider.slice(0, 8)}... to reveal`)
+        }
+
+        setOutcome(entry.id, { status: 'revealing' })
+        const gasPrice = await publicClient.getGasPrice()
+        const hash = await market.withWallet(signer, { gasPrice, gas: 500000n })
+            .revealOffer(entry.requestId, entry.price, entry.nonce)
+        await market.waitForSuccess(hash)
+        await vault.remove(entry)
+        setOutcome(entry.id, { status: 'revealed', hash })
+    }, [publicClient, walletClient, address, network, setOutcome])
+
+    /**
+     * Reveal `ids` (default: every pending entry), one at a time.
+     */
+    const resume = useCallback(async (ids?: string[]) => {
+        if (isResuming) return
+        setIsResuming(true)
+        try {
+            const vault = await CommitmentVault.open()
+            const targets = pending.filter(p =>
+                (!ids || ids.includes(p.id)) && p.outcome?.status !== 'revealed' && p.outcome?.status !== 'dropped')
+            for (const entry of targets) {
+                try {
+                    await revealEntry(vault, entry)
+                } catch (e) {
+                    console.warn(`Resume reveal failed for request ${entry.requestId}:`, e)
+                    setOutcome(entry.id, { status: 'failed', reason: e instanceof Error ? e.message.split('\n')[0] : String(e) })
+                }
+            }
+        } finally {
+            setIsResuming(false)
+        }
+        await refresh()
+    }, [isResuming, pending, revealEntry, setOutcome, refresh])
+
+    return {
+        pending,
+        isResuming,
+        refresh,
+        resume,
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Escrow refunds: releasing the budget of requests whose run will never
+ * settle them. A deal's open request can be cancelled on demand; requests past
+ * their deadline are refunded in the background with `sweep`.
+ */
+'use client'
+
+import { useState, useCallback } from 'react'
+import { createWalletClient, type LocalAccount } from 'viem'
+import { getActiveNetwork, networkTransport } from '@/config/networks'
+import { MarketplaceClient } from '@/lib/skale/marketplace-client'
+import { releaseEscrow, type EscrowRelease } from '@/lib/skale/escrow'
+
+export function useEscrowRefunds(treasuryAccount: LocalAccount | null) {
+    const [network] = useState(getActiveNetwork)
+    const [market] = useState(() => MarketplaceClient.forNetwork(network))
+    /** Request IDs with a release in flight */
+    const [refunding, setRefunding] = useState<string[]>([])
+
+    /**
+     * Release one request's escrow with the treasury key. `expiredOnly` leaves
+     * requests before their deadline alone instead of cancelling them.
+     */
+    const release = useCallback(async (requestId: bigint, expiredOnly = false): Promise<EscrowRelease> => {
+        if (!treasuryAccount) throw new Error('Unlock the treasury to refund escrow')
+        const id = requestId.toString()
+        setRefunding(prev => [...prev, id])
+        try {
+            const treasuryClient = createWalletClient({ account: treasuryAccount, chain: network.chain, transport: networkTransport(network) })
+            const gasPrice = await market.publicClient.getGasPrice()
+            return await releaseEscrow(market.withWallet(treasuryClient, { gasPrice, gas: 500000n }), requestId, { expiredOnly })
+        } finally {
+            setRefunding(prev => prev.filter(r => r !== id))
+        }
+    }, [treasuryAccount, network, market])
+
+    /**
+     * Refund every request in `requestIds` whose deadline has passed, one at a
+     * time. Failures are logged and retried on the next sweep.
+     */
+    const sweep = useCallback(async (requestIds: bigint[]) => {
+        const results: { requestId: bigint; release: EscrowRelease }[] = []
+        for (const requestId of requestIds) {
+            try {
+                results.push({ requestId, release: await release(requestId, true) })
+            } catch (e) {
+                console.warn(`Escrow refund failed for request ${requestId}:`, e)
+            }
+        }
+        return results
+    }, [release])
+
+    return {
+        refunding,
+        release,
+        sweep,
+    }
+}
@@ -3,17 +3,27 @@
  */
 'use client'
 
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useAccount, useWalletClient, usePublicClient, useSwitchChain } from 'wagmi'
-import { createWalletClient, http, parseEther, formatEther, type Hex, keccak256, encodePacked } from 'viem'
+import { createWalletClient, parseEther, formatEther, formatUnits, type LocalAccount } from 'viem'
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-import { skaleBiteSandbox } from '@/config/chains'
-import { SERVICE_MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
+import { getActiveNetwork, networkTransport } from '@/config/networks'
+import { MarketplaceClient } from '@/lib/skale/marketplace-client'
+import { commitSealedOffer } from '@/lib/skale/sealed-offer'
+import { assertCommitReady, assertRevealMatches, createOfferCommitment, type OfferCommitment } from '@/lib/skale/commitment'
+import { describeEscrowRelease, releaseEscrow } from '@/lib/skale/escrow'
+import { formatAssetAmount, parseAssetAmount, settlementAsset, type SettlementAsset } from '@/lib/skale/assets'
+import { createEscrowedRequest } from '@/lib/skale/token-escrow'
+import { REVEAL_GAS, sweepBalance } from '@/lib/treasury'
+import { openCommitmentVault, DEFAULT_REVEAL_WINDOW_MS, type CommitmentEntry, type CommitmentVault } from '@/lib/commitment-vault'
+import { SpendingPolicyEngine, SpendingPolicyError, browserSpendLedger, formatDecision, type PolicyDecision, type SpendIntent } from '@/lib/spending-policy'
+import { loadSpendingPolicy } from '@/config/spending-policy'
+import { getRunMode, StrictModeError, type Provenance, type RunMode } from '@/lib/run-mode'
+import { WorkflowMachine, idleSnapshot, type WorkflowStep } from '@/lib/workflow/machine'
+import { AGENT_LIFECYCLE, READ_RETRY, type AgentState } from '@/lib/workflow/lifecycle'
+import { newSessionId, openSessionStore, type AgentSession, type SessionStore } from '@/lib/session-store'
 
-const CONTRACT = process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS || '0xb64100AAF149215b6CA3B1D366031e39ecb04ce3'
-const CHAIN_ID = process.env.NEXT_PUBLIC_SKALE_CHAIN_ID || '103698795'
-
-export type MultiAgentState = 'IDLE' | 'THINKING' | 'FUNDING' | 'BIDDING' | 'REVEALING' | 'SETTLING' | 'COMPLETED' | 'ERROR'
+export type MultiAgentState = AgentState
 
 export interface AgentBid {
     name: string
@@ -34,7 +44,14 @@ export interface AgentLog {
     metadata?: {
         hash?: string
         isSettlement?: boolean
+        /** Set on the settlement log: what the winner was paid in */
+        asset?: SettlementAsset
+        /** Set on the log that confirms the escrowed request */
+        requestId?: string
+        policyDecision?: PolicyDecision
     }
+    /** 'simulated' for stand-ins produced by demo mode */
+    provenance: Provenance
 }
 
 const PERSONALITIES = [
@@ -43,36 +60,132 @@ const PERSONALITIES = [
     { name: 'Gemini 1.5 (Speed)', strategy: 'diplomatic', basePrice: 0.0022 }
 ]
 
-export function useMultiAgent() {
-    const [state, setState] = useState<MultiAgentState>('IDLE')
+const POLICY_AGENT_ID = 'agent-battle'
+const AGENT_SERVICE_STATS = { rating: 50, uptime: 99 }
+
+/** What the battle steps hand each other */
+interface BattleRun {
+    /** What the request is priced, escrowed and settled in */
+    asset: SettlementAsset
+    maxBudgets: string[]
+    gasPrice: bigint
+    jitteredPrices: bigint[]
+    requestId?: bigint
+    commitments: OfferCommitment[]
+    vault?: CommitmentVault | null
+    vaultEntries?: CommitmentEntry[]
+    /** Some agent may hold an unrevealed commitment; sweeps leave reveal gas */
+    commitStarted: boolean
+    revealed: Set<number>
+    winner?: { name: string; address: `0x${string}`; price: bigint }
+}
+
+/** Saved with the session; burner keys are not, so a battle resumes only from its reveals */
+type SavedBattleRun = Pick<BattleRun, 'maxBudgets' | 'jitteredPrices' | 'requestId' | 'winner' | 'asset'>
+
+export type BattleSession = AgentSession<SavedBattleRun, AgentLog>
+
+function saveBattle({ asset, maxBudgets, jitteredPrices, requestId, winner }: BattleRun): SavedBattleRun {
+    return { asset, maxBudgets, jitteredPrices, requestId, winner }
+}
+
+/**
+ * `runMode` decides whether failed steps are simulated (demo) or end the battle (strict).
+ */
+export function useMultiAgent(runMode: RunMode = getRunMode()) {
+    const [snapshot, setSnapshot] = useState(() => idleSnapshot(AGENT_LIFECYCLE))
+    const state: MultiAgentState = snapshot.state
     const [bids, setBids] = useState<AgentBid[]>([])
     const [logs, setLogs] = useState<AgentLog[]>([])
 
+    const [network] = useState(getActiveNetwork)
+    const CONTRACT = network.marketplaceAddress
+
     const { address, isConnected } = useAccount()
-    const { data: walletClient } = useWalletClient({ chainId: Number(CHAIN_ID) })
-    const publicClient = usePublicClient({ chainId: Number(CHAIN_ID) })
+    const { data: walletClient } = useWalletClient({ chainId: network.chain.id })
+    const publicClient = usePublicClient({ chainId: network.chain.id })
+    const [policy] = useState(() => new SpendingPolicyEngine(loadSpendingPolicy(), browserSpendLedger()))
 
-    const addLog = useCallback((type: AgentLog['type'], content: string, metadata?: AgentLog['metadata']) => {
+    const addLog = useCallback((type: AgentLog['type'], content: string, metadata?: AgentLog['metadata'], provenance: Provenance = 'real') => {
         setLogs(prev => [...prev.slice(-49), {
             id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             type,
             content,
             timestamp: Date.now(),
-            metadata
+            metadata,
+            provenance
         }])
     }, [])
 
-    const startBattle = useCallback(async (objective: string, treasuryKey: Hex, selectedCount: number = 3) => {
+    const authorizeSpend = useCallback((intent: Omit<SpendIntent, 'agentId'>) =>
+        policy.authorize({ agentId: POLICY_AGENT_ID, ...intent }, decision =>
+            addLog(decision.allowed ? 'info' : 'error', formatDecision(decision), { policyDecision: decision })
+        ), [policy, addLog])
+
+    // The running battle, saved whenever its state, logs or bids change
+    const session = useRef<BattleSession | null>(null)
+    const activeRun = useRef<BattleRun | null>(null)
+    const sessionStore = useRef<Promise<SessionStore | null> | null>(null)
+
+    useEffect(() => {
+        const current = session.current
+        const run = activeRun.current
+        if (!current || !run || snapshot.state === 'IDLE') return
+        const finished = snapshot.state === 'COMPLETED'
+        if (finished) session.current = null
+        sessionStore.current ??= openSessionStore(message => console.warn(message))
+        sessionStore.current.then(store => {
+            if (!store) return
+            if (finished) return store.remove(current.id)
+            return store.save({ ...current, snapshot, logs, bids, requestId: run.requestId ?? null, context: saveBattle(run) })
+        }).catch(e => console.warn('Session save failed:', e))
+    }, [snapshot, logs, bids])
+
+    /**
+     * Pay the winner from escrow. Shared by fresh and resumed battles.
+     */
+    const settleStep = useCallback((treasury: () => MarketplaceClient, basePriceUnits?: bigint): WorkflowStep<AgentState, BattleRun> => ({
+        id: 'settle',
+        state: 'SETTLING',
+        run: async run => {
+            const winner = run.winner!
+            try {
+                await new Promise(r => setTimeout(r, 1000))
+                authorizeSpend({
+                    action: 'settlePayment',
+                    value: 0n,
+                    currency: run.asset.symbol,
+                    provider: winner.address,
+                    service: AGENT_SERVICE_STATS,
+                    price: winner.price,
+                    basePrice: basePriceUnits,
+                })
+                const treasuryMarket = treasury()
+                const settleHash = await treasuryMarket.settlePayment(run.requestId!, winner.address)
+                addLog('tx', `⏳ Settlement Hash: ${settleHash.slice(0, 10)}... waiting for SKALE confirmation.`, { hash: settleHash })
+                await treasuryMarket.waitForSuccess(settleHash)
+                addLog('tx', `✅ [x402] Autonomous Settlement Confirmed: ${formatAssetAmount(winner.price, run.asset)} to ${winner.name}.`, { hash: settleHash, isSettlement: true, asset: run.asset })
+            } catch (err) {
+                if (err instanceof SpendingPolicyError) throw err
+                if (runMode === 'strict') throw new StrictModeError('Settlement', err instanceof Error ? err.message : 'Unknown')
+                addLog('error', `⚠️ Settlement Failed: ${err instanceof Error ? err.message : 'Unknown'}`)
+            }
+            await new Promise(r => setTimeout(r, 1000))
+        },
+    }), [addLog, authorizeSpend, runMode])
+
+    /**
+     * `basePrice` (sFUEL) is the item's reference price for the spending policy.
+     */
+    const startBattle = useCallback(async (objective: string, treasuryAccount: LocalAccount, selectedCount: number = 3, basePrice?: number) => {
         if (!isConnected || !walletClient || !publicClient) return
 
-        const treasuryAccount = privateKeyToAccount(treasuryKey)
         const treasuryClient = createWalletClient({
             account: treasuryAccount,
-            chain: skaleBiteSandbox,
-            transport: http('https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox')
+            chain: network.chain,
+            transport: networkTransport(network)
         })
 
-        setState('THINKING')
         setLogs([])
         addLog('info', `⚔️ Initializing Battle Royale for "${objective}"`)
 
@@ -86,8 +199,8 @@ export function useMultiAgent() {
                 privateKey: pk,
                 client: createWalletClient({
                     account: acc,
-                    chain: skaleBiteSandbox,
-                    transport: http('https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox')
+                    chain: network.chain,
+                    transport: networkTransport(network)
                 })
             }
         })
@@ -101,175 +214,386 @@ export function useMultiAgent() {
             score: 0
         })))
 
-        // 2. Parallel AI Consult
-        addLog('info', `🧠 Calling Gemini Brain for parallel analysis...`)
-        const thoughts = await Promise.all(participants.map(p =>
-            fetch('/api/agent/decide', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ objective: `[Strategy: ${p.strategy}] ${objective}`, currentState: 'INITIAL_ANALYSIS' }),
-            }).then(r => r.json()).catch(() => ({ decision: { maxBudget: '0.001', reasoning: 'Standard bid.' } }))
-        ))
-
-        setBids(prev => prev.map((b, i) => ({ ...b, status: 'funding' })))
-        setState('FUNDING')
-        addLog('info', `🏦 Treasury: Batch-funding ${participants.length} agent wallets...`)
-
-        // 3. Sequential Funding
-        const gasPrice = await publicClient.getGasPrice()
-        try {
-            for (const p of participants) {
-                const tx = await treasuryClient.sendTransaction({
-                    to: p.account.address,
-                    value: parseEther('0.005'),
-                    chain: skaleBiteSandbox,
-                    gasPrice,
-                    gas: 500000n,
-                    type: 'legacy'
-                })
-                addLog('tx', `💸 Real Tx: 0.005 sFUEL -> ${p.name.split(' ')[0]}`, { hash: tx })
-                await publicClient.waitForTransactionReceipt({ hash: tx })
+        const market = new MarketplaceClient({ address: CONTRACT, publicClient })
+        const asset = settlementAsset(network)
+        // The item's base price is quoted in the battle's currency
+        const basePriceUnits = basePrice !== undefined ? parseAssetAmount(basePrice.toFixed(asset.decimals), asset) : undefined
+        const run: BattleRun = { asset, maxBudgets: [], gasPrice: 0n, jitteredPrices: [], commitments: [], commitStarted: false, revealed: new Set() }
+        const current: BattleSession = {
+            id: newSessionId(),
+            kind: 'battle',
+            chainId: network.chain.id,
+            marketplace: CONTRACT,
+            objective,
+            runMode,
+            basePrice,
+            snapshot: idleSnapshot(AGENT_LIFECYCLE),
+            completedSteps: [],
+            requestId: null,
+            context: saveBattle(run),
+            logs: [],
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+        }
+        session.current = current
+        activeRun.current = run
+        const txOptions = () => ({ gasPrice: run.gasPrice, gas: 500000n })
+
+        // Burners are swept back to the treasury however the battle ends. Agents with an
+        // unrevealed commitment keep enough gas to reveal from the Pending Reveals panel.
+        const sweepAgents = async () => {
+            let recovered = 0n
+            for (const [i, p] of participants.entries()) {
+                try {
+                    const reserve = run.commitStarted && !run.revealed.has(i) ? run.gasPrice * REVEAL_GAS : 0n
+                    const sweep = await sweepBalance({ publicClient, wallet: p.client, to: treasuryAccount.address, reserve })
+                    if (!sweep) continue
+                    recovered += sweep.amount
+                    addLog('tx', `♻️ Swept ${formatEther(sweep.amount)} sFUEL from ${p.name.split(' ')[0]} back to Treasury`, { hash: sweep.hash })
+                } catch (err) {
+                    addLog('error', `⚠️ Sweep failed for ${p.name}: ${err instanceof Error ? err.message : 'Unknown'}`)
+                }
             }
-        } catch (err) {
-            addLog('error', `⚠️ Funding Issue: ${err instanceof Error ? err.message : 'Unknown'}`)
+            if (recovered > 0n) addLog('info', `🏦 Treasury recovered ${formatEther(recovered)} sFUEL from agent wallets.`)
         }
 
-        // 4. Parallel Bidding
-        setState('BIDDING')
-        addLog('info', `🔐 BITE V2: Agents submitting encrypted commitments...`)
+        const steps: WorkflowStep<AgentState, BattleRun>[] = [
+            // 2. Parallel AI Consult
+            {
+                id: 'analyze',
+                state: 'THINKING',
+                retry: READ_RETRY,
+                run: async run => {
+                    addLog('info', `🧠 Calling Gemini Brain for parallel analysis...`)
+                    run.maxBudgets = await Promise.all(participants.map(async p => {
+                        const res = await fetch('/api/agent/decide', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({ objective: `[Strategy: ${p.strategy}] ${objective}`, currentState: 'INITIAL_ANALYSIS', mode: runMode }),
+                        })
+                        const data = await res.json().catch(() => ({}))
+                        if (!res.ok || !data.decision) throw new Error(data.error ?? `HTTP ${res.status}`)
+                        if (data.provenance === 'simulated') {
+                            addLog('info', `🎭 [DEMO] ${p.name} is bidding on a canned decision (Gemini unavailable).`, undefined, 'simulated')
+                        }
+                        return String(data.decision.maxBudget)
+                    }))
+                },
+                recover: async (run, err) => {
+                    const reason = err instanceof Error ? err.message : 'Unknown'
+                    if (runMode === 'strict') throw new StrictModeError('Gemini analysis', reason)
+                    addLog('info', `🎭 [DEMO] Gemini analysis failed (${reason}). Using standard bids.`, undefined, 'simulated')
+                    run.maxBudgets = participants.map(() => '0.001')
+                },
+            },
+            // 3. Sequential Funding
+            {
+                id: 'fund',
+                state: 'PROVISIONING',
+                run: async run => {
+                    setBids(prev => prev.map(b => ({ ...b, status: 'funding' })))
+                    addLog('info', `🏦 Treasury: Batch-funding ${participants.length} agent wallets...`)
+                    run.gasPrice = await publicClient.getGasPrice()
+                    try {
+                        for (const p of participants) {
+                            authorizeSpend({ action: 'transfer', value: parseEther('0.005'), currency: 'sFUEL', to: p.account.address })
+                            const tx = await treasuryClient.sendTransaction({
+                                to: p.account.address,
+                                value: parseEther('0.005'),
+                                chain: network.chain,
+                                gasPrice: run.gasPrice,
+                                gas: 500000n,
+                                type: 'legacy'
+                            })
+                            addLog('tx', `💸 Real Tx: 0.005 sFUEL -> ${p.name.split(' ')[0]}`, { hash: tx })
+                            await publicClient.waitForTransactionReceipt({ hash: tx })
+                        }
+                    } catch (err) {
+                        // A policy denial is already logged; strict mode stops on any funding failure
+                        if (err instanceof SpendingPolicyError) throw err
+                        const reason = err instanceof Error ? err.message : 'Unknown'
+                        if (runMode === 'strict') throw new StrictModeError('Agent funding', reason)
+                        addLog('error', `⚠️ Funding Issue: ${reason}`)
+                    }
+                },
+                // Anything funded so far goes back to the treasury
+                compensate: sweepAgents,
+            },
+            // Service Registration + Request. IDs come only from the emitted events:
+            // a missing ServiceRegistered / ServiceRequestCreated aborts the battle.
+            {
+                id: 'request',
+                state: 'REQUESTING',
+                run: async run => {
+                    run.jitteredPrices = run.maxBudgets.map(maxBudget => {
+                        const base = Number(maxBudget)
+                        const jitter = 0.92 + (Math.random() * 0.16)
+                        return parseAssetAmount((base * jitter).toFixed(6), run.asset)
+                    })
+                    // Escrow only what the highest bid could cost
+                    const budget = run.jitteredPrices.reduce((max, price) => price > max ? price : max, 0n)
+                    const treasuryMarket = market.withWallet(treasuryClient, txOptions())
+                    try {
+                        const serviceIds = await Promise.all(participants.map(async (p, i) => {
+                            const agentMarket = market.withWallet(p.client, txOptions())
+                            let receipt
+                            try {
+                                const reg = await agentMarket.registerService({
+                                    name: p.name,
+                                    description: p.strategy,
+                                    pricePerUnit: parseEther(run.maxBudgets[i]),
+                                    uptime: 99,
+                                    rating: 50
+                                })
+                                receipt = await agentMarket.waitForSuccess(reg)
+                            } catch (err) {
+                                const reason = err instanceof Error ? err.message : 'Unknown'
+                                if (runMode === 'strict') throw new StrictModeError(`${p.name} registration`, reason)
+                                addLog('error', `⚠️ ${p.name} registration failed: ${reason}`)
+                                return null
+                            }
+                            return agentMarket.getRegisteredServiceId(receipt, p.account.address)
+                        }))
+                        const serviceId = serviceIds.find((id): id is bigint => id !== null)
+                        if (serviceId === undefined) throw new Error('No agent service was registered on-chain')
 
-        // Service Registration
-        const serviceIds = await Promise.all(participants.map(async (p, i) => {
-            try {
-                const reg = await p.client.writeContract({
-                    address: CONTRACT as Hex,
-                    abi: SERVICE_MARKETPLACE_ABI,
-                    functionName: 'registerService',
-                    args: [p.name, p.strategy, parseEther(thoughts[i].decision.maxBudget), 99, 50],
-                    gasPrice,
-                    gas: 500000n,
-                    type: 'legacy'
-                })
-                const receipt = await publicClient.waitForTransactionReceipt({ hash: reg })
-                const log = receipt.logs.find(l => l.address.toLowerCase() === CONTRACT.toLowerCase())
-                return log && log.topics[1] ? Number(BigInt(log.topics[1])) : 0
-            } catch { return i } // Fallback ID
-        }))
-
-        // Create the user Request
-        addLog('action', `📝 [TREASURY] Autonomous Request Creation...`)
-        const reqTx = await treasuryClient.writeContract({
-            address: CONTRACT as Hex,
-            abi: SERVICE_MARKETPLACE_ABI,
-            functionName: 'createRequest',
-            args: [BigInt(serviceIds[0]), objective],
-            value: parseEther('0.05'), // Treasury hold
-            gasPrice,
-            gas: 500000n,
-            type: 'legacy'
-        })
-        const reqReceipt = await publicClient.waitForTransactionReceipt({ hash: reqTx })
-        const requestId = reqReceipt.logs[0]?.topics[1] ? BigInt(reqReceipt.logs[0].topics[1]) : 0n
-        addLog('tx', `🔢 Request ${requestId} confirmed on-chain.`, { hash: reqTx })
-
-        // Agents commit
-        const nonces = participants.map(() => BigInt(Math.floor(Math.random() * 1000000)))
-        const jitteredPrices = thoughts.map((t, i) => {
-            const base = Number(t.decision.maxBudget)
-            const jitter = 0.92 + (Math.random() * 0.16)
-            return parseEther((base * jitter).toFixed(6))
-        })
+                        // Create the user Request
+                        addLog('action', `📝 [TREASURY] Autonomous Request Creation (${formatAssetAmount(budget, run.asset)} escrow)...`)
+                        authorizeSpend({
+                            action: 'createRequest',
+                            value: budget,
+                            currency: run.asset.symbol,
+                            serviceId,
+                            service: AGENT_SERVICE_STATS,
+                            price: budget,
+                            basePrice: basePriceUnits,
+                        })
+                        const escrow = await createEscrowedRequest(treasuryMarket, network, {
+                            serviceId,
+                            objective,
+                            asset: run.asset,
+                            amount: budget,
+                            options: txOptions(),
+                        })
+                        if (escrow.approvalHash) {
+                            addLog('tx', `✅ Approved the marketplace to pull ${formatAssetAmount(budget, run.asset)}`, { hash: escrow.approvalHash })
+                        }
+                        const reqTx = escrow.hash
+                        const reqReceipt = await treasuryMarket.waitForSuccess(reqTx)
+                        run.requestId = treasuryMarket.getCreatedRequestId(reqReceipt, treasuryAccount.address)
+                        addLog('tx', `🔢 Request ${run.requestId} confirmed on-chain.`, { hash: reqTx, requestId: run.requestId.toString() })
+                    } catch (err) {
+                        if (err instanceof SpendingPolicyError || err instanceof StrictModeError) throw err
+                        throw new Error(`Request setup failed: ${err instanceof Error ? err.message : 'Unknown'}`)
+                    }
+                },
+                // The battle is abandoned: give the budget back instead of leaving it locked until the deadline
+                compensate: async run => {
+                    if (run.requestId === undefined) return
+                    try {
+                        const release = await releaseEscrow(market.withWallet(treasuryClient, txOptions()), run.requestId)
+                        addLog(release.outcome === 'refunded' ? 'tx' : 'info', describeEscrowRelease(run.requestId, release, network),
+                            release.outcome === 'refunded' ? { hash: release.hash } : undefined)
+                    } catch (err) {
+                        addLog('error', `⚠️ Escrow refund for request #${run.requestId} failed: ${err instanceof Error ? err.message.split('\n')[0] : 'Unknown'}. It is refunded automatically after its deadline.`)
+                    }
+                },
+            },
+            // 4. Parallel Bidding
+            {
+                id: 'commit',
+                state: 'BIDDING',
+                run: async run => {
+                    const requestId = run.requestId!
+                    addLog('info', `🔐 BITE V2: Agents submitting encrypted commitments...`)
 
-        await Promise.all(participants.map(async (p, i) => {
-            const price = jitteredPrices[i]
-            const commitment = keccak256(encodePacked(['uint256', 'uint256'], [price, nonces[i]]))
-            const tx = await p.client.writeContract({
-                address: CONTRACT as Hex,
-                abi: SERVICE_MARKETPLACE_ABI,
-                functionName: 'submitEncryptedOffer',
-                args: [requestId, commitment],
-                gasPrice,
-                gas: 500000n,
-                type: 'legacy'
-            })
-            setBids(prev => {
-                const nb = [...prev];
-                nb[i] = { ...nb[i], status: 'bidding', hash: tx };
-                return nb;
-            })
-            addLog('tx', `🔒 ${p.name} submitted encrypted bid: ${tx.slice(0, 10)}...`, { hash: tx })
-            // CRITICAL: Wait for commit receipt before reveal
-            await publicClient.waitForTransactionReceipt({ hash: tx })
-            return tx
-        }))
-        addLog('info', `🔒 ${participants.length} encrypted commitments verified.`)
-
-        // 5. Parallel Reveal
-        setState('REVEALING')
-        addLog('info', `🔓 Agents revealing bid parameters...`)
-        await Promise.all(participants.map(async (p, i) => {
-            const price = jitteredPrices[i]
-            const tx = await p.client.writeContract({
-                address: CONTRACT as Hex,
-                abi: SERVICE_MARKETPLACE_ABI,
-                functionName: 'revealOffer',
-                args: [requestId, price, nonces[i]],
-                gasPrice,
-                gas: 500000n,
-                type: 'legacy'
-            })
-            setBids(prev => {
-                const nb = [...prev];
-                nb[i] = { ...nb[i], status: 'revealed', revealHash: tx, price: Number(formatEther(price)) };
-                return nb;
-            })
-            addLog('tx', `🔓 ${p.name} revealed bid price: ${formatEther(price)} sFUEL`, { hash: tx })
-            await publicClient.waitForTransactionReceipt({ hash: tx })
-            await new Promise(r => setTimeout(r, 600))
-            return tx
-        }))
-
-        // 6. Finalize Winner
-        await new Promise(r => setTimeout(r, 1200))
-        const winnerIdx = jitteredPrices.reduce((acc, curr, idx) =>
-            curr < jitteredPrices[acc] ? idx : acc, 0)
-
-        setBids(prev => prev.map((b, i) => ({
-            ...b,
-            status: i === winnerIdx ? 'won' : 'lost'
-        })))
+                    // Agents commit: 256-bit CSPRNG salt per bid, optionally bound to request + agent
+                    run.commitments = participants.map((p, i) =>
+                        createOfferCommitment(run.jitteredPrices[i], { requestId, provider: p.account.address }))
+
+                    // Burner keys and reveal secrets are vaulted first: a reload mid-battle can still reveal
+                    run.vault = await openCommitmentVault(message => addLog('info', message))
+                    run.vaultEntries = participants.map((p, i) => ({
+                        chainId: network.chain.id,
+                        marketplace: CONTRACT,
+                        requestId,
+                        provider: p.account.address,
+                        price: run.commitments[i].price,
+                        nonce: run.commitments[i].nonce,
+                        commitHash: run.commitments[i].hash,
+                        bound: !!run.commitments[i].binding,
+                        deadline: Date.now() + DEFAULT_REVEAL_WINDOW_MS,
+                        createdAt: Date.now(),
+                        signerKey: p.privateKey,
+                    }))
+                    for (const entry of run.vaultEntries) await run.vault?.put(entry)
+                    run.commitStarted = true
 
-        // 7. Settlement (x402)
-        await new Promise(r => setTimeout(r, 1000))
-        addLog('action', `🏆 Winner: ${participants[winnerIdx].name}. Processing autonomous payment...`)
-        setState('SETTLING')
+                    await Promise.all(participants.map(async (p, i) => {
+                        assertCommitReady(run.commitments[i], requestId, p.account.address)
+                        // Resolves only once the commitment is final (and, for BITE, decrypted and verified)
+                        const { mode, txHash: tx } = await commitSealedOffer({
+                            market: market.withWallet(p.client, txOptions()),
+                            network,
+                            requestId,
+                            offerHash: run.commitments[i].hash,
+                            onLog: message => addLog('info', `${p.name}: ${message}`),
+                        })
+                        setBids(prev => {
+                            const nb = [...prev];
+                            nb[i] = { ...nb[i], status: 'bidding', hash: tx };
+                            return nb;
+                        })
+                        addLog('tx', mode === 'bite'
+                            ? `🔒 ${p.name} submitted BITE-encrypted bid: ${tx.slice(0, 10)}...`
+                            : `🔒 ${p.name} committed bid hash (hash-commit mode): ${tx.slice(0, 10)}...`, { hash: tx })
+                        return tx
+                    }))
+                    addLog('info', `🔒 ${participants.length} encrypted commitments verified.`)
+                },
+            },
+            // 5. Parallel Reveal
+            {
+                id: 'reveal',
+                state: 'REVEALING',
+                run: async run => {
+                    const requestId = run.requestId!
+                    addLog('info', `🔓 Agents revealing bid parameters...`)
+                    await Promise.all(participants.map(async (p, i) => {
+                        const { price, nonce } = run.commitments[i]
+                        const agentMarket = market.withWallet(p.client, txOptions())
+                        assertRevealMatches((await agentMarket.getOffer(requestId, p.account.address))?.offerHash, run.commitments[i])
+                        const tx = await agentMarket.revealOffer(requestId, price, nonce)
+                        setBids(prev => {
+                            const nb = [...prev];
+                            nb[i] = { ...nb[i], status: 'revealed', revealHash: tx, price: Number(formatUnits(price, run.asset.decimals)) };
+                            return nb;
+                        })
+                        addLog('tx', `🔓 ${p.name} revealed bid price: ${formatAssetAmount(price, run.asset)}`, { hash: tx })
+                        const receipt = await publicClient.waitForTransactionReceipt({ hash: tx })
+                        if (receipt.status === 'success') {
+                            run.revealed.add(i)
+                            await run.vault?.remove(run.vaultEntries![i])
+                        }
+                        await new Promise(r => setTimeout(r, 600))
+                        return tx
+                    }))
+
+                    // 6. Finalize Winner
+                    await new Promise(r => setTimeout(r, 1200))
+                    const winnerIdx = run.jitteredPrices.reduce((acc, curr, idx) =>
+                        curr < run.jitteredPrices[acc] ? idx : acc, 0)
+                    const winner = participants[winnerIdx]
+                    run.winner = { name: winner.name, address: winner.account.address, price: run.jitteredPrices[winnerIdx] }
+
+                    setBids(prev => prev.map((b, i) => ({
+                        ...b,
+                        status: i === winnerIdx ? 'won' : 'lost'
+                    })))
+                    await new Promise(r => setTimeout(r, 1000))
+                    addLog('action', `🏆 Winner: ${winner.name}. Processing autonomous payment...`)
+                },
+            },
+            // 7. Settlement (x402)
+            settleStep(() => market.withWallet(treasuryClient, txOptions()), basePriceUnits),
+            {
+                id: 'sweep',
+                state: 'SETTLING',
+                run: sweepAgents,
+            },
+        ]
+
+        const machine = new WorkflowMachine(AGENT_LIFECYCLE, steps, {
+            onTransition: setSnapshot,
+            onStepComplete: step => { current.completedSteps.push(step) },
+            onRetry: (step, attempt, err) =>
+                addLog('info', `🔁 ${step} failed (${err instanceof Error ? err.message : 'Unknown'}). Retrying (attempt ${attempt + 1})...`),
+        })
         try {
-            await new Promise(r => setTimeout(r, 1000))
-            const settleHash = await treasuryClient.writeContract({
-                address: CONTRACT as Hex,
-                abi: SERVICE_MARKETPLACE_ABI,
-                functionName: 'settlePayment',
-                args: [requestId, participants[winnerIdx].account.address],
-                gasPrice,
-                gas: 500000n,
-                type: 'legacy'
-            })
-            addLog('tx', `✅ [x402] Autonomous Settlement Confirmed!`, { hash: settleHash, isSettlement: true })
-            await publicClient.waitForTransactionReceipt({ hash: settleHash })
+            await machine.run(run)
+            addLog('info', `🎉 Battle Royale Complete. Results verified on SKALE.`)
         } catch (err) {
-            addLog('error', `⚠️ Settlement Failed: ${err instanceof Error ? err.message : 'Unknown'}`)
+            // Policy denials are logged by the policy itself
+            if (err instanceof SpendingPolicyError) return
+            addLog('error', err instanceof StrictModeError
+                ? `🧷 [STRICT] ${err.step} failed: ${err.reason}`
+                : `❌ Battle failed: ${err instanceof Error ? err.message : 'Unknown'}`)
         }
 
-        await new Promise(r => setTimeout(r, 1000))
-        setState('COMPLETED')
-        addLog('info', `🎉 Battle Royale Complete. Results verified on SKALE.`)
+    }, [isConnected, walletClient, publicClient, addLog, authorizeSpend, settleStep, runMode, network, CONTRACT])
+
+    /**
+     * Finish an interrupted battle. The agents' burner keys did not survive the
+     * reload, so the winner is read from the revealed offers on-chain and paid;
+     * unrevealed bids must be revealed from Pending Reveals first.
+     */
+    const resumeBattle = useCallback(async (saved: BattleSession, treasuryAccount: LocalAccount) => {
+        if (!publicClient || saved.requestId === null) return
+        const requestId = saved.requestId
 
-    }, [isConnected, walletClient, publicClient, addLog])
+        const treasuryClient = createWalletClient({
+            account: treasuryAccount,
+            chain: network.chain,
+            transport: networkTransport(network)
+        })
+        const market = new MarketplaceClient({ address: saved.marketplace, publicClient })
+        const gasPrice = await publicClient.getGasPrice()
+        const savedBids = (saved.bids ?? []) as AgentBid[]
+
+        const run: BattleRun = { ...saved.context, gasPrice, commitments: [], commitStarted: true, revealed: new Set() }
+        const basePriceUnits = saved.basePrice !== undefined ? parseAssetAmount(saved.basePrice.toFixed(run.asset.decimals), run.asset) : undefined
+        const current: BattleSession = { ...saved, runMode, completedSteps: [...saved.completedSteps] }
+        session.current = current
+        activeRun.current = run
+        setLogs(saved.logs)
+        setBids(savedBids)
+        addLog('info', `♻️ Resuming battle ${saved.id.slice(0, 8)} on request #${requestId}.`)
+
+        const steps: WorkflowStep<AgentState, BattleRun>[] = [
+            {
+                id: 'reveal',
+                state: 'REVEALING',
+                retry: READ_RETRY,
+                run: async run => {
+                    const bidders = await market.getRequestBidders(requestId)
+                    const offers = await Promise.all(bidders.map(b => market.getOffer(requestId, b)))
+                    const revealedOffers = offers.filter((o): o is NonNullable<typeof o> => !!o?.revealed)
+                    if (revealedOffers.length < bidders.length) {
+                        addLog('info', `🔑 ${bidders.length - revealedOffers.length} bid(s) still sealed. Reveal them from Pending Reveals to let them compete.`)
+                    }
+                    if (revealedOffers.length === 0) throw new Error(`No bid on request #${requestId} is revealed yet`)
+
+                    const best = revealedOffers.reduce((min, o) => o.revealedPrice < min.revealedPrice ? o : min)
+                    const name = savedBids.find(b => b.address.toLowerCase() === best.provider.toLowerCase())?.name ?? `Agent ${best.provider.slice(0, 8)}`
+                    run.winner = { name, address: best.provider, price: best.revealedPrice }
+                    setBids(prev => prev.map(b => ({ ...b, status: b.address.toLowerCase() === best.provider.toLowerCase() ? 'won' : 'lost' })))
+                    addLog('action', `🏆 Winner: ${name} at ${formatAssetAmount(best.revealedPrice, run.asset)}. Processing autonomous payment...`)
+                },
+            },
+            settleStep(() => market.withWallet(treasuryClient, { gasPrice, gas: 500000n }), basePriceUnits),
+        ]
+
+        const machine = new WorkflowMachine(AGENT_LIFECYCLE, steps, {
+            onTransition: setSnapshot,
+            onStepComplete: step => { current.completedSteps.push(step) },
+        })
+        try {
+            await machine.run(run, { completed: saved.completedSteps, from: 'BIDDING' })
+            addLog('info', `🎉 Battle Royale Complete. Results verified on SKALE.`)
+        } catch (err) {
+            if (err instanceof SpendingPolicyError) return
+            addLog('error', err instanceof StrictModeError
+                ? `🧷 [STRICT] ${err.step} failed: ${err.reason}`
+                : `❌ Battle failed: ${err instanceof Error ? err.message : 'Unknown'}`)
+        }
+    }, [publicClient, addLog, settleStep, runMode, network])
 
     const resetBattle = useCallback(() => {
-        setState('IDLE')
+        setSnapshot(idleSnapshot(AGENT_LIFECYCLE))
         setBids([])
         setLogs([])
+        session.current = null
+        activeRun.current = null
     }, [])
 
     return {
@@ -277,6 +601,7 @@ export function useMultiAgent() {
         bids,
         logs,
         startBattle,
+        resumeBattle,
         resetBattle
     }
 }
@@ -0,0 +1,78 @@
+/**
+ * Interrupted sessions: runs saved to the session store that never completed
+ * (reload, closed tab, failed step). Each is reconciled against its request
+ * on-chain so the dashboard can offer to resume or discard it.
+ */
+'use client'
+
+import { useState, useCallback } from 'react'
+import { usePublicClient } from 'wagmi'
+import type { PublicClient } from 'viem'
+import { getActiveNetwork } from '@/config/networks'
+import { MarketplaceClient } from '@/lib/skale/marketplace-client'
+import { SessionStore, reconcileSession, type AgentSession, type SessionReconciliation } from '@/lib/session-store'
+
+export interface InterruptedSession {
+    session: AgentSession
+    reconciliation?: SessionReconciliation
+    /** Reconciliation could not read the chain */
+    error?: string
+}
+
+/** Reconcile one saved session; sessions settled on-chain are removed and yield null */
+async function inspect(store: SessionStore, session: AgentSession, publicClient: PublicClient): Promise<InterruptedSession | null> {
+    try {
+        const market = new MarketplaceClient({ address: session.marketplace, publicClient })
+        const reconciliation = await reconcileSession(session, market)
+        if (reconciliation.request === 'settled') {
+            await store.remove(session.id)
+            return null
+        }
+        return { session, reconciliation }
+    } catch (e) {
+        return { session, error: e instanceof Error ? e.message.split('\n')[0] : String(e) }
+    }
+}
+
+export function useSessionRecovery() {
+    const [network] = useState(getActiveNetwork)
+    const [sessions, setSessions] = useState<InterruptedSession[]>([])
+    const publicClient = usePublicClient({ chainId: network.chain.id })
+
+    /**
+     * Reload unfinished sessions. Ones whose request was settled on-chain
+     * finished before the reload and are dropped from the store. Callers
+     * refresh on mount and whenever a run ends.
+     */
+    const refresh = useCallback(async () => {
+        if (!SessionStore.isSupported() || !publicClient) return
+        try {
+            const store = await SessionStore.open()
+            const unfinished = await store.listUnfinished(network.chain.id)
+            const results: InterruptedSession[] = []
+            for (const session of unfinished) {
+                const result = await inspect(store, session, publicClient)
+                if (result) results.push(result)
+            }
+            setSessions(results)
+        } catch (e) {
+            console.warn('Session store read failed:', e)
+        }
+    }, [network, publicClient])
+
+    /** Forget a session (its escrow, if any, stays on-chain) */
+    const discard = useCallback(async (id: string) => {
+        try {
+            await (await SessionStore.open()).remove(id)
+        } catch (e) {
+            console.warn('Session discard failed:', e)
+        }
+        setSessions(prev => prev.filter(s => s.session.id !== id))
+    }, [])
+
+    return {
+        sessions,
+        refresh,
+        discard,
+    }
+}
@@ -0,0 +1,192 @@
+/**
+ * Treasury key lifecycle for the dashboard: create, lock/unlock (with idle
+ * auto-lock), encrypted export/import, and rotation to a fresh key.
+ * The decrypted account lives only in memory while unlocked.
+ */
+'use client'
+
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { createWalletClient, zeroAddress, type PublicClient } from 'viem'
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { getActiveNetwork, networkTransport } from '@/config/networks'
+import {
+    KeystoreError,
+    createPasskeySecret,
+    createPassphraseSecret,
+    decryptKeystore,
+    encryptKeystore,
+    keystoreStorage,
+    parseKeystore,
+    serializeKeystore,
+    unlockKeystore,
+    type KeystoreSecret,
+    type TreasuryKeystore,
+} from '@/lib/keystore'
+import { sweepBalance, sweepToken, type TreasuryTransfer } from '@/lib/treasury'
+
+export type KeystoreStatus = 'loading' | 'none' | 'legacy' | 'locked' | 'unlocked'
+
+export type KeystoreCredential = { passphrase: string } | { passkey: true }
+
+/** What a rotation moved to the new key; null where the old key held nothing */
+export interface TreasuryRotation {
+    native: TreasuryTransfer | null
+    usdc: TreasuryTransfer | null
+}
+
+const DEFAULT_IDLE_MS = 10 * 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'touchstart'] as const
+
+function idleTimeoutMs(): number {
+    const ms = Number(process.env.NEXT_PUBLIC_KEYSTORE_IDLE_MS)
+    return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_IDLE_MS
+}
+
+export function useTreasuryKeystore() {
+    const [network] = useState(getActiveNetwork)
+    const [account, setAccount] = useState<PrivateKeyAccount | null>(null)
+    // Wrapping key of the unlocked keystore; reused to encrypt a rotated key
+    const secretRef = useRef<KeystoreSecret | null>(null)
+
+    // Stored keystores; null during SSR / before hydration
+    const snapshot = useSyncExternalStore(keystoreStorage.subscribe, keystoreStorage.snapshot, () => null)
+    const stored = useMemo(() => snapshot === null ? null : {
+        keystore: keystoreStorage.load(),
+        pending: keystoreStorage.loadPending(),
+        hasLegacyKey: !!keystoreStorage.loadLegacyKey(),
+    }, [snapshot])
+    const keystore = stored?.keystore ?? null
+
+    const status: KeystoreStatus = !stored ? 'loading'
+        : account ? 'unlocked'
+            : keystore ? 'locked'
+                : stored.hasLegacyKey ? 'legacy' : 'none'
+
+    const lock = useCallback(() => {
+        secretRef.current = null
+        setAccount(null)
+    }, [])
+
+    // Idle auto-lock: any user activity pushes the deadline back
+    useEffect(() => {
+        if (!account) return
+        let timer = setTimeout(lock, idleTimeoutMs())
+        const touch = () => {
+            clearTimeout(timer)
+            timer = setTimeout(lock, idleTimeoutMs())
+        }
+        ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, touch, { passive: true }))
+        return () => {
+            clearTimeout(timer)
+            ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, touch))
+        }
+    }, [account, lock])
+
+    const activate = useCallback((next: TreasuryKeystore, privateKey: `0x${string}`, secret: KeystoreSecret) => {
+        keystoreStorage.save(next)
+        secretRef.current = secret
+        setAccount(privateKeyToAccount(privateKey))
+    }, [])
+
+    const deriveSecret = useCallback((credential: KeystoreCredential, label: string) =>
+        'passphrase' in credential ? createPassphraseSecret(credential.passphrase) : createPasskeySecret(label), [])
+
+    /**
+     * First-time setup. Encrypts the legacy plaintext key if one exists
+     * (then deletes it), otherwise a freshly generated key.
+     */
+    const create = useCallback(async (credential: KeystoreCredential) => {
+        if (keystore) throw new KeystoreError('A treasury keystore already exists')
+        const privateKey = keystoreStorage.loadLegacyKey() ?? generatePrivateKey()
+        const secret = await deriveSecret(credential, `Treasury ${privateKeyToAccount(privateKey).address.slice(0, 10)}`)
+        activate(await encryptKeystore(privateKey, secret), privateKey, secret)
+        keystoreStorage.clearLegacyKey()
+    }, [keystore, deriveSecret, activate])
+
+    /** Passphrase keystores need `passphrase`; passkey keystores prompt instead. */
+    const unlock = useCallback(async (passphrase?: string) => {
+        if (!keystore) throw new KeystoreError('No treasury keystore to unlock')
+        const { privateKey, secret } = await unlockKeystore(keystore, passphrase)
+        secretRef.current = secret
+        setAccount(privateKeyToAccount(privateKey))
+    }, [keystore])
+
+    /**
+     * Portable encrypted JSON. Passkey keystores are re-encrypted under
+     * `passphrase`, since a passkey cannot follow the file to another device.
+     */
+    const exportKeystore = useCallback(async (passphrase?: string): Promise<string> => {
+        if (!keystore) throw new KeystoreError('No treasury keystore to export')
+        if (keystore.kdf.name === 'pbkdf2') return serializeKeystore(keystore)
+        if (!account || !secretRef.current) throw new KeystoreError('Unlock the treasury to export it')
+        if (!passphrase) throw new KeystoreError('Choose a passphrase for the exported file')
+        const privateKey = await decryptKeystore(keystore, secretRef.current)
+        return serializeKeystore(await encryptKeystore(privateKey, await createPassphraseSecret(passphrase)))
+    }, [keystore, account])
+
+    /**
+     * Replace the treasury with an exported keystore. `passphrase` opens the
+     * file; `credential` protects it locally (defaults to the same passphrase).
+     * Funds on the current key are NOT moved; withdraw or rotate first.
+     */
+    const importKeystore = useCallback(async (json: string, passphrase: string, credential?: KeystoreCredential) => {
+        const imported = parseKeystore(json)
+        const { privateKey, secret } = await unlockKeystore(imported, passphrase)
+        const local = credential ? await deriveSecret(credential, `Treasury ${imported.address.slice(0, 10)}`) : secret
+        activate(local === secret ? imported : await encryptKeystore(privateKey, local), privateKey, local)
+    }, [deriveSecret, activate])
+
+    /**
+     * Move the treasury to a fresh key: the new key is stored (encrypted) as
+     * pending first, funds are swept to it (USDC first, while sFUEL is left
+     * for its gas), then it becomes active. An interrupted rotation resumes
+     * with the same pending key.
+     */
+    const rotate = useCallback(async (publicClient: PublicClient): Promise<TreasuryRotation> => {
+        const secret = secretRef.current
+        if (!account || !secret) throw new KeystoreError('Unlock the treasury to rotate its key')
+
+        const pending = keystoreStorage.loadPending()
+        let nextKey: `0x${string}`
+        let nextKeystore: TreasuryKeystore
+        if (pending) {
+            // Never overwrite a pending key: funds may already have been swept to it
+            if (pending.kdf.salt !== secret.kdf.salt) {
+                throw new KeystoreError(`An interrupted rotation to ${pending.address} was encrypted with another credential`)
+            }
+            nextKey = await decryptKeystore(pending, secret)
+            nextKeystore = pending
+        } else {
+            nextKey = generatePrivateKey()
+            nextKeystore = await encryptKeystore(nextKey, secret)
+            keystoreStorage.savePending(nextKeystore)
+        }
+
+        const wallet = createWalletClient({ account, chain: network.chain, transport: networkTransport(network) })
+        const usdc = network.usdcAddress === zeroAddress
+            ? null
+            : await sweepToken({ publicClient, wallet, token: network.usdcAddress, to: nextKeystore.address })
+        const native = await sweepBalance({ publicClient, wallet, to: nextKeystore.address })
+
+        activate(nextKeystore, nextKey, secret)
+        keystoreStorage.clearPending()
+        return { native, usdc }
+    }, [account, network, activate])
+
+    return {
+        status,
+        /** Treasury address, known even while locked */
+        address: account?.address ?? keystore?.address ?? null,
+        /** Signing account; null unless unlocked */
+        account,
+        kdf: keystore?.kdf.name ?? null,
+        /** Target of an interrupted rotation; `rotate` resumes it */
+        pendingRotation: stored?.pending?.address ?? null,
+        create,
+        unlock,
+        lock,
+        exportKeystore,
+        importKeystore,
+        rotate,
+    }
+}
@@ -1,7 +1,7 @@
 /**
  * Agent Engine - Core Arbitration Logic
  * 
- * Executes the full agent-to-agent commerce flow on SKALE BITE V2 Sandbox.
+ * Executes the full agent-to-agent commerce flow on the active network profile (BITE V2 Sandbox by default).
  * Handles the 5-step lifecycle:
  * 1. Service Registration
  * 2. Request Creation
@@ -12,39 +12,36 @@
 import {
     createPublicClient,
     createWalletClient,
-    http,
-    parseEther,
-    keccak256,
-    encodePacked,
-    type Address,
     type Hash,
 } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
-import { skaleBiteSandbox } from '@/config/chains'
-import { SERVICE_MARKETPLACE_ABI } from './skale/marketplace-abi'
-import { BiteService } from './bite-service'
-import { USDC_ADDRESS, KOBARU_FACILITATOR_URL, SANDBOX_CHAIN_ID } from './skale/x402'
-
-// Contract address on BITE V2 Sandbox
-const MARKETPLACE_ADDRESS = (process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS || '0x0000000000000000000000000000000000000000') as Address
-
-const SANDBOX_RPC = 'https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox'
+import { getActiveNetwork, networkTransport, type NetworkProfile } from '@/config/networks'
+import { MarketplaceClient } from './skale/marketplace-client'
+import { commitSealedOffer } from './skale/sealed-offer'
+import { describeEscrowRelease, releaseEscrow } from './skale/escrow'
+import { formatAssetAmount, getSettlementCurrency, parseAssetAmount, settlementAsset, type SettlementCurrency } from './skale/assets'
+import { createEscrowedRequest } from './skale/token-escrow'
+import { assertCommitReady, assertRevealMatches, createOfferCommitment, type OfferCommitment } from './skale/commitment'
+import { MemorySpendLedger, SpendingPolicyEngine, SpendingPolicyError, formatDecision, type SpendIntent } from './spending-policy'
+import { loadSpendingPolicy } from '@/config/spending-policy'
+import { WorkflowMachine, type WorkflowSnapshot, type WorkflowStep } from './workflow/machine'
+import { AGENT_LIFECYCLE, type AgentState } from './workflow/lifecycle'
 
 // ─────────────── Clients ───────────────
 
-export function getPublicClient() {
+export function getPublicClient(network: NetworkProfile = getActiveNetwork()) {
     return createPublicClient({
-        chain: skaleBiteSandbox,
-        transport: http(SANDBOX_RPC),
+        chain: network.chain,
+        transport: networkTransport(network),
     })
 }
 
-export function getWalletClient(privateKey: `0x${string}`) {
+export function getWalletClient(privateKey: `0x${string}`, network: NetworkProfile = getActiveNetwork()) {
     const account = privateKeyToAccount(privateKey)
     return createWalletClient({
         account,
-        chain: skaleBiteSandbox,
-        transport: http(SANDBOX_RPC),
+        chain: network.chain,
+        transport: networkTransport(network),
     })
 }
 
@@ -56,126 +53,259 @@ export type AgentEngineLog = {
     txHash?: Hash
 }
 
+export interface AgentEngineOptions {
+    /** Network to run against. Defaults to the active profile. */
+    network?: NetworkProfile
+    /** Spending policy for the requester. Defaults to the configured policy with a per-run ledger. */
+    policy?: SpendingPolicyEngine
+    /** What the request is priced and settled in. Defaults to NEXT_PUBLIC_SETTLEMENT_CURRENCY. */
+    currency?: SettlementCurrency
+    /** Called on every lifecycle state change */
+    onTransition?: (snapshot: WorkflowSnapshot<AgentState>) => void
+}
+
+const POLICY_AGENT_ID = 'agent-headless'
+
+/**
+ * Raised when a lifecycle step fails (reverted tx, RPC error).
+ * Carries the step name so callers can report where the flow stopped.
+ */
+export class AgentEngineError extends Error {
+    constructor(public readonly step: string, message: string, public readonly txHash?: Hash) {
+        super(message)
+        this.name = 'AgentEngineError'
+    }
+}
+
+async function waitForSuccess(
+    publicClient: ReturnType<typeof getPublicClient>,
+    hash: Hash,
+    step: string
+) {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') {
+        throw new AgentEngineError(step, `Transaction reverted on-chain (block #${receipt.blockNumber})`, hash)
+    }
+    return receipt
+}
+
+/**
+ * Check `intent` against the requester's spending policy, reporting a denial as a failure of `step`.
+ */
+function authorize(
+    policy: SpendingPolicyEngine,
+    step: string,
+    intent: Omit<SpendIntent, 'agentId'>,
+    onLog: (log: AgentEngineLog) => void
+) {
+    try {
+        policy.authorize({ agentId: POLICY_AGENT_ID, ...intent }, decision => onLog({ step, detail: formatDecision(decision) }))
+    } catch (e) {
+        if (e instanceof SpendingPolicyError) throw new AgentEngineError(step, e.message)
+        throw e
+    }
+}
+
+/**
+ * Read an ID from a receipt event, reporting a missing event as a failure of `step`.
+ */
+function decodeId(step: string, hash: Hash, decode: () => bigint): bigint {
+    try {
+        return decode()
+    } catch (e) {
+        throw new AgentEngineError(step, e instanceof Error ? e.message : String(e), hash)
+    }
+}
+
+/** Everything the headless steps share during one run */
+interface EngineRun {
+    objective: string
+    serviceId?: bigint
+    requestId?: bigint
+    commitment?: OfferCommitment
+    /** Set once the reveal is sent, so a retry polls it instead of revealing twice */
+    revealHash?: Hash
+}
+
+const SERVICE = { rating: 5, uptime: 99 }
+/** In the run's settlement currency */
+const PRICE = '0.01'
+const BUDGET = '0.05'
+
 /**
- * Full Agent Arbitrage Flow on BITE V2 Sandbox:
+ * Full Agent Arbitrage Flow (BITE V2 Sandbox unless `options.network` says otherwise):
  * 1. Provider registers a service
  * 2. Requester creates a request (with budget)
  * 3. Provider submits encrypted offer via BITE V2
  * 4. Provider reveals offer (threshold decryption)
  * 5. Requester settles payment via x402 (Kobaru facilitator)
+ *
+ * Steps run on the shared agent lifecycle; step IDs double as log steps.
  */
 export async function runAgentArbitrageFlow(
     requesterKey: `0x${string}`,
     providerKey: `0x${string}`,
     objective: string,
-    onLog: (log: AgentEngineLog) => void
+    onLog: (log: AgentEngineLog) => void,
+    options: AgentEngineOptions = {}
 ): Promise<void> {
-    const publicClient = getPublicClient()
-    const requesterWallet = getWalletClient(requesterKey)
-    const providerWallet = getWalletClient(providerKey)
+    const network = options.network ?? getActiveNetwork()
+    const marketplaceAddress = network.marketplaceAddress
+    const publicClient = getPublicClient(network)
+    const requesterWallet = getWalletClient(requesterKey, network)
+    const providerWallet = getWalletClient(providerKey, network)
+    const requesterMarket = new MarketplaceClient({ address: marketplaceAddress, publicClient, walletClient: requesterWallet })
+    const providerMarket = requesterMarket.withWallet(providerWallet)
+    const policy = options.policy ?? new SpendingPolicyEngine(loadSpendingPolicy(), new MemorySpendLedger())
+    const asset = settlementAsset(network, options.currency ?? getSettlementCurrency())
+    const price = parseAssetAmount(PRICE, asset)
+    const budget = parseAssetAmount(BUDGET, asset)
 
     const requesterAddress = requesterWallet.account.address
     const providerAddress = providerWallet.account.address
 
-    onLog({ step: 'INIT', detail: `🔗 Connected to BITE V2 Sandbox (Chain: ${SANDBOX_CHAIN_ID})` })
-    onLog({ step: 'INIT', detail: `📋 Contract: ${MARKETPLACE_ADDRESS.slice(0, 10)}...` })
-    onLog({ step: 'INIT', detail: `💰 x402 Facilitator: ${KOBARU_FACILITATOR_URL}` })
-
-    // ── Step 1: Provider registers a service ──
-    onLog({ step: 'REGISTER', detail: `Provider ${providerAddress.slice(0, 8)}... registering service` })
+    onLog({ step: 'INIT', detail: `🔗 Connected to ${network.label} (Chain: ${network.chain.id})` })
+    onLog({ step: 'INIT', detail: `📋 Contract: ${marketplaceAddress.slice(0, 10)}...` })
+    onLog({ step: 'INIT', detail: `💰 x402 Facilitator: ${network.facilitatorUrl}` })
+    onLog({ step: 'INIT', detail: `💵 Settlement currency: ${asset.symbol}${asset.symbol === 'USDC' ? ` (${asset.address.slice(0, 10)}...)` : ''}` })
 
-    const registerHash = await providerWallet.writeContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'registerService',
-        args: ['GPU Compute', 'High-performance GPU processing for AI workloads', parseEther('0.01'), 99, 5],
-    })
-    await publicClient.waitForTransactionReceipt({ hash: registerHash })
-    onLog({ step: 'REGISTER', detail: '✅ Service registered on-chain', txHash: registerHash })
-
-    // Read the service ID
-    const serviceId = await publicClient.readContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'nextServiceId',
-    })
-    const currentServiceId = Number(serviceId) - 1
-
-    // ── Step 2: Requester creates request with budget ──
-    onLog({ step: 'REQUEST', detail: `Requester posting job: "${objective}" with 0.05 sFUEL budget` })
-
-    const requestHash = await requesterWallet.writeContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'createRequest',
-        args: [BigInt(currentServiceId), objective],
-        value: parseEther('0.05'),
-    })
-    await publicClient.waitForTransactionReceipt({ hash: requestHash })
-    onLog({ step: 'REQUEST', detail: '✅ Service request created on-chain', txHash: requestHash })
-
-    const requestId = await publicClient.readContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'nextRequestId',
-    })
-    const currentRequestId = Number(requestId) - 1
+    const steps: WorkflowStep<AgentState, EngineRun>[] = [
+        // ── Step 1: Provider registers a service ──
+        {
+            id: 'REGISTER',
+            state: 'PROVISIONING',
+            run: async run => {
+                onLog({ step: 'REGISTER', detail: `Provider ${providerAddress.slice(0, 8)}... registering service` })
+                const registerHash = await providerMarket.registerService({
+                    name: 'GPU Compute',
+                    description: 'High-performance GPU processing for AI workloads',
+                    pricePerUnit: price,
+                    ...SERVICE,
+                })
+                const registerReceipt = await waitForSuccess(publicClient, registerHash, 'REGISTER')
+                run.serviceId = decodeId('REGISTER', registerHash, () =>
+                    providerMarket.getRegisteredServiceId(registerReceipt, providerAddress))
+                onLog({ step: 'REGISTER', detail: `✅ Service #${run.serviceId} registered on-chain`, txHash: registerHash })
+            },
+        },
+        // ── Step 2: Requester creates request with budget ──
+        {
+            id: 'REQUEST',
+            state: 'REQUESTING',
+            run: async run => {
+                const serviceId = run.serviceId!
+                onLog({ step: 'REQUEST', detail: `Requester posting job: "${run.objective}" with ${formatAssetAmount(budget, asset)} budget` })
+                authorize(policy, 'REQUEST', { action: 'createRequest', value: budget, currency: asset.symbol, serviceId, provider: providerAddress, service: SERVICE, price: budget }, onLog)
+                const escrow = await createEscrowedRequest(requesterMarket, network, { serviceId, objective: run.objective, asset, amount: budget })
+                if (escrow.approvalHash) {
+                    onLog({ step: 'REQUEST', detail: `✅ Approved the marketplace to pull ${formatAssetAmount(budget, asset)}`, txHash: escrow.approvalHash })
+                } else if (escrow.via === 'permit') {
+                    onLog({ step: 'REQUEST', detail: `✍️ ${asset.symbol} allowance granted by EIP-2612 permit` })
+                }
+                const requestHash = escrow.hash
+                const requestReceipt = await waitForSuccess(publicClient, requestHash, 'REQUEST')
+                run.requestId = decodeId('REQUEST', requestHash, () =>
+                    requesterMarket.getCreatedRequestId(requestReceipt, requesterAddress))
+                onLog({ step: 'REQUEST', detail: `✅ Service request #${run.requestId} created on-chain`, txHash: requestHash })
+            },
+            // The run is abandoned: give the budget back instead of leaving it locked until the deadline
+            compensate: async run => {
+                if (run.requestId === undefined) return
+                const release = await releaseEscrow(requesterMarket, run.requestId)
+                onLog({ step: 'REQUEST', detail: describeEscrowRelease(run.requestId, release, network), txHash: release.outcome === 'refunded' ? release.hash : undefined })
+            },
+        },
+        // ── Step 3: Provider submits BITE V2 encrypted offer ──
+        {
+            id: 'BITE_COMMIT',
+            state: 'BIDDING',
+            run: async run => {
+                const requestId = run.requestId!
+                const commitment = createOfferCommitment(price, { requestId, provider: providerAddress })
+                assertCommitReady(commitment, requestId, providerAddress)
+                run.commitment = commitment
 
-    // ── Step 3: Provider submits BITE V2 encrypted offer ──
-    const offerPrice = parseEther('0.01')
-    const nonce = BigInt(Math.floor(Math.random() * 1000000))
-    const offerHash = keccak256(encodePacked(['uint256', 'uint256'], [offerPrice, nonce]))
+                onLog({ step: 'BITE_ENCRYPT', detail: '🔐 BITE V2: Encrypting offer with threshold key...' })
+                let commit
+                try {
+                    commit = await commitSealedOffer({
+                        market: providerMarket,
+                        network,
+                        requestId,
+                        offerHash: commitment.hash,
+                        onLog: detail => onLog({ step: 'BITE_ENCRYPT', detail }),
+                    })
+                } catch (e) {
+                    throw new AgentEngineError('BITE_COMMIT', e instanceof Error ? e.message : String(e))
+                }
+                onLog({
+                    step: 'BITE_COMMIT',
+                    detail: commit.mode === 'bite'
+                        ? '🔒 Threshold-encrypted offer committed on-chain (hidden from MEV/frontrunners)'
+                        : `🔒 Offer hash committed on-chain (hash-commit mode, hash: ${commitment.hash.slice(0, 16)}...)`,
+                    txHash: commit.txHash,
+                })
+            },
+        },
+        // ── Step 4: Provider reveals the offer ──
+        {
+            id: 'BITE_REVEAL',
+            state: 'REVEALING',
+            // RPC hiccups are retried; a mismatch or revert is final. Once the
+            // reveal is sent, a retry only waits for it: a second reveal would revert
+            retry: { attempts: 2, delayMs: 2000, retryIf: e => !(e instanceof AgentEngineError) },
+            run: async run => {
+                const requestId = run.requestId!
+                const commitment = run.commitment!
+                if (!run.revealHash) {
+                    onLog({ step: 'BITE_REVEAL', detail: '🔓 BITE V2: Threshold decryption — revealing offer price...' })
+                    const committed = await providerMarket.getOffer(requestId, providerAddress)
+                    try {
+                        assertRevealMatches(committed?.offerHash, commitment)
+                    } catch (e) {
+                        throw new AgentEngineError('BITE_REVEAL', e instanceof Error ? e.message : String(e))
+                    }
+                    run.revealHash = await providerMarket.revealOffer(requestId, commitment.price, commitment.nonce)
+                }
+                await waitForSuccess(publicClient, run.revealHash, 'BITE_REVEAL')
+                onLog({ step: 'BITE_REVEAL', detail: `✅ Offer revealed: ${formatAssetAmount(commitment.price, asset)}. Hash verified on-chain. MEV-protected.`, txHash: run.revealHash })
+            },
+        },
+        // ── Step 5: Requester settles payment via x402 (Kobaru) ──
+        {
+            id: 'X402_SETTLE',
+            state: 'SETTLING',
+            run: async run => {
+                onLog({ step: 'X402_SETTLE', detail: `💳 x402: Settling payment via Kobaru (${network.facilitatorUrl})...` })
+                authorize(policy, 'X402_SETTLE', {
+                    action: 'settlePayment',
+                    value: 0n,
+                    currency: asset.symbol,
+                    serviceId: run.serviceId,
+                    provider: providerAddress,
+                    service: SERVICE,
+                    price: run.commitment!.price,
+                    basePrice: price,
+                }, onLog)
+                const settleHash = await requesterMarket.settlePayment(run.requestId!, providerAddress)
+                await waitForSuccess(publicClient, settleHash, 'X402_SETTLE')
+                onLog({
+                    step: 'X402_SETTLE',
+                    detail: `✅ Payment settled via x402. ${formatAssetAmount(run.commitment!.price, asset)} → provider. Gasless on SKALE.`,
+                    txHash: settleHash,
+                })
+            },
+        },
+    ]
 
-    onLog({ step: 'BITE_ENCRYPT', detail: '🔐 BITE V2: Encrypting offer with threshold key...' })
-
-    // Try real BITE V2 encryption, fall back to hash-commit if SDK fails
-    let usedRealBite = false
-    try {
-        const biteInfo = await BiteService.getCommitteeInfo()
-        onLog({ step: 'BITE_ENCRYPT', detail: `🔑 BITE committee active — ${JSON.stringify(biteInfo).slice(0, 60)}...` })
-        usedRealBite = true
-    } catch (e) {
-        onLog({ step: 'BITE_ENCRYPT', detail: '⚠️ BITE committee info unavailable — using hash-commit scheme' })
-    }
-
-    onLog({ step: 'BITE_COMMIT', detail: `Provider submitting encrypted offer (hash: ${offerHash.slice(0, 16)}...)` })
-
-    const commitHash = await providerWallet.writeContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'submitEncryptedOffer',
-        args: [BigInt(currentRequestId), offerHash],
-    })
-    await publicClient.waitForTransactionReceipt({ hash: commitHash })
-    onLog({ step: 'BITE_COMMIT', detail: '🔒 Encrypted offer committed on-chain (hidden from MEV/frontrunners)', txHash: commitHash })
-
-    // ── Step 4: Provider reveals the offer ──
-    onLog({ step: 'BITE_REVEAL', detail: '🔓 BITE V2: Threshold decryption — revealing offer price...' })
-
-    const revealHash = await providerWallet.writeContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'revealOffer',
-        args: [BigInt(currentRequestId), offerPrice, nonce],
-    })
-    await publicClient.waitForTransactionReceipt({ hash: revealHash })
-    onLog({ step: 'BITE_REVEAL', detail: '✅ Offer revealed: 0.01 sFUEL. Hash verified on-chain. MEV-protected.', txHash: revealHash })
-
-    // ── Step 5: Requester settles payment via x402 (Kobaru) ──
-    onLog({ step: 'X402_SETTLE', detail: `💳 x402: Settling payment via Kobaru (${KOBARU_FACILITATOR_URL})...` })
-
-    const settleHash = await requesterWallet.writeContract({
-        address: MARKETPLACE_ADDRESS,
-        abi: SERVICE_MARKETPLACE_ABI,
-        functionName: 'settlePayment',
-        args: [BigInt(currentRequestId), providerAddress],
-    })
-    await publicClient.waitForTransactionReceipt({ hash: settleHash })
-    onLog({
-        step: 'X402_SETTLE',
-        detail: `✅ Payment settled via x402. 0.01 sFUEL → provider. Gasless on SKALE. USDC: ${USDC_ADDRESS.slice(0, 10)}...`,
-        txHash: settleHash,
+    const machine = new WorkflowMachine(AGENT_LIFECYCLE, steps, {
+        onTransition: options.onTransition,
+        onRetry: (step, attempt, error) => onLog({
+            step,
+            detail: `🔁 ${step} failed (${error instanceof Error ? error.message : String(error)}). Retrying (attempt ${attempt + 1})...`,
+        }),
     })
+    await machine.run({ objective })
 
-    onLog({ step: 'COMPLETE', detail: '🎉 Full agentic commerce flow completed on BITE V2 Sandbox!' })
+    onLog({ step: 'COMPLETE', detail: `🎉 Full agentic commerce flow completed on ${network.label}!` })
 }
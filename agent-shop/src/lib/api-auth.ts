@@ -0,0 +1,18 @@
+/**
+ * Shared-secret checks for server routes that act on the server's behalf
+ * (agent signer, payment request admin). Secrets are server-only env vars;
+ * comparisons are constant-time.
+ */
+import { timingSafeEqual } from 'node:crypto'
+import type { NextRequest } from 'next/server'
+
+export function secretsMatch(given: string, expected: string): boolean {
+    const a = Buffer.from(given)
+    const b = Buffer.from(expected)
+    return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/** The `Authorization: Bearer` token of `req`, if any */
+export function bearerToken(req: NextRequest): string | undefined {
+    return req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+}
@@ -0,0 +1,198 @@
+/**
+ * Operator Approval - human sign-off for high-value agent actions
+ *
+ * Marketplace calls and x402 payments that move at most the autonomy
+ * threshold run unattended. Larger ones pause the agent until the operator
+ * approves or rejects the decoded call, or until the request times out, which
+ * counts as a rejection.
+ */
+import { decodeFunctionData, parseUnits, type Address, type Hex } from 'viem'
+import { SERVICE_MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
+import { CURRENCY_DECIMALS, NATIVE_ASSET, formatAssetAmount, type SettlementAsset, type SettlementCurrency } from '@/lib/skale/assets'
+import type { MarketplaceWriteFunction } from '@/lib/signer/policy'
+import type { PaymentRequirements } from '@/lib/x402/protocol'
+
+// ─────────────── Types ───────────────
+
+export interface ApprovalConfig {
+    /** Amounts above this need sign-off, per settlement currency; null turns approval mode off */
+    thresholds: Record<SettlementCurrency, bigint | null>
+    timeoutMs: number
+}
+
+export interface DecodedArg {
+    name: string
+    type: string
+    value: string
+}
+
+export interface ApprovalRequest {
+    id: string
+    /** A marketplace call, or an x402 payment (signed, never sent by the agent) */
+    functionName: MarketplaceWriteFunction | 'transferWithAuthorization'
+    to: Address
+    /** Calldata; `0x` for an x402 payment, which is a signature */
+    data: Hex
+    args: DecodedArg[]
+    /** Native value attached to the call */
+    value: bigint
+    /** What the call puts at stake (escrow or payout), compared against the threshold */
+    amount: bigint
+    /** What `amount` is denominated in */
+    asset: SettlementAsset
+    provider?: Address
+    serviceId?: bigint
+    requestId?: bigint
+    createdAt: number
+    expiresAt: number
+}
+
+export type ApprovalOutcome = 'approved' | 'rejected' | 'expired'
+
+/** The operator rejected the action, or let it time out. The run must abort. */
+export class ApprovalDeniedError extends Error {
+    constructor(public readonly request: ApprovalRequest, public readonly outcome: Exclude<ApprovalOutcome, 'approved'>) {
+        super(outcome === 'expired'
+            ? `Approval for ${request.functionName} (${formatAssetAmount(request.amount, request.asset)}) timed out`
+            : `Operator rejected ${request.functionName} (${formatAssetAmount(request.amount, request.asset)})`)
+        this.name = 'ApprovalDeniedError'
+    }
+}
+
+// ─────────────── Config ───────────────
+
+export const DEFAULT_APPROVAL_THRESHOLD = '0.1'
+export const DEFAULT_APPROVAL_THRESHOLD_USDC = '25'
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 2 * 60_000
+
+/**
+ * NEXT_PUBLIC_APPROVAL_THRESHOLD (sFUEL, or `off`), NEXT_PUBLIC_APPROVAL_THRESHOLD_USDC
+ * (USDC, or `off`) and NEXT_PUBLIC_APPROVAL_TIMEOUT_MS.
+ */
+export function loadApprovalConfig(): ApprovalConfig {
+    const threshold = process.env.NEXT_PUBLIC_APPROVAL_THRESHOLD || DEFAULT_APPROVAL_THRESHOLD
+    const thresholdUsdc = process.env.NEXT_PUBLIC_APPROVAL_THRESHOLD_USDC || DEFAULT_APPROVAL_THRESHOLD_USDC
+    const timeoutMs = Number(process.env.NEXT_PUBLIC_APPROVAL_TIMEOUT_MS)
+    const parse = (value: string, currency: SettlementCurrency) => value === 'off' ? null : parseUnits(value, CURRENCY_DECIMALS[currency])
+    return {
+        thresholds: { sFUEL: parse(threshold, 'sFUEL'), USDC: parse(thresholdUsdc, 'USDC') },
+        timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_APPROVAL_TIMEOUT_MS,
+    }
+}
+
+export function needsApproval(config: ApprovalConfig, request: Pick<ApprovalRequest, 'amount' | 'asset'>): boolean {
+    const threshold = config.thresholds[request.asset.symbol]
+    return threshold !== null && request.amount > threshold
+}
+
+// ─────────────── Requests ───────────────
+
+/**
+ * Decode marketplace calldata into named, display-ready arguments.
+ */
+export function decodeMarketplaceCall(data: Hex): { functionName: MarketplaceWriteFunction; args: DecodedArg[] } {
+    const { functionName, args } = decodeFunctionData({ abi: SERVICE_MARKETPLACE_ABI, data })
+    const item = SERVICE_MARKETPLACE_ABI.find(i => i.type === 'function' && i.name === functionName)
+    const inputs = item?.type === 'function' ? item.inputs : []
+    return {
+        functionName: functionName as MarketplaceWriteFunction,
+        args: inputs.map((input, i) => ({
+            name: input.name.replace(/^_/, ''),
+            type: input.type,
+            value: String((args as readonly unknown[] | undefined)?.[i]),
+        })),
+    }
+}
+
+/**
+ * Describe the call the agent is about to sign. Arguments are decoded from
+ * `data` itself, so the card shows exactly what will be sent.
+ */
+export function createApprovalRequest(params: {
+    to: Address
+    data: Hex
+    value?: bigint
+    amount: bigint
+    /** Defaults to native sFUEL */
+    asset?: SettlementAsset
+    provider?: Address
+    serviceId?: bigint
+    requestId?: bigint
+}, config: ApprovalConfig, now = Date.now()): ApprovalRequest {
+    const { functionName, args } = decodeMarketplaceCall(params.data)
+    return {
+        id: crypto.randomUUID(),
+        functionName,
+        args,
+        to: params.to,
+        data: params.data,
+        value: params.value ?? 0n,
+        amount: params.amount,
+        asset: params.asset ?? NATIVE_ASSET,
+        provider: params.provider,
+        serviceId: params.serviceId,
+        requestId: params.requestId,
+        createdAt: now,
+        expiresAt: now + config.timeoutMs,
+    }
+}
+
+/**
+ * Describe an x402 payment the agent is about to sign: a USDC
+ * `transferWithAuthorization` of `maxAmountRequired` to `payTo`.
+ */
+export function createPaymentApprovalRequest(
+    requirements: PaymentRequirements,
+    asset: SettlementAsset,
+    config: ApprovalConfig,
+    now = Date.now(),
+): ApprovalRequest {
+    return {
+        id: crypto.randomUUID(),
+        functionName: 'transferWithAuthorization',
+        args: [
+            { name: 'to', type: 'address', value: requirements.payTo },
+            { name: 'value', type: 'uint256', value: requirements.maxAmountRequired },
+            { name: 'resource', type: 'string', value: requirements.resource },
+        ],
+        to: requirements.asset,
+        data: '0x',
+        value: 0n,
+        amount: BigInt(requirements.maxAmountRequired),
+        asset,
+        createdAt: now,
+        expiresAt: now + config.timeoutMs,
+    }
+}
+
+/**
+ * Pending operator decisions. `wait` settles with the operator's answer or
+ * 'expired' at the request's deadline; `decide` answers it.
+ */
+export class ApprovalGate {
+    private readonly pending = new Map<string, (outcome: ApprovalOutcome) => void>()
+
+    wait(request: ApprovalRequest): Promise<ApprovalOutcome> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.decide(request.id, 'expired'), Math.max(0, request.expiresAt - Date.now()))
+            this.pending.set(request.id, outcome => {
+                clearTimeout(timer)
+                resolve(outcome)
+            })
+        })
+    }
+
+    /** False if the request was already decided or never asked */
+    decide(id: string, outcome: ApprovalOutcome): boolean {
+        const settle = this.pending.get(id)
+        if (!settle) return false
+        this.pending.delete(id)
+        settle(outcome)
+        return true
+    }
+
+    /** Reject everything outstanding, e.g. when the run is reset */
+    rejectAll() {
+        for (const id of [...this.pending.keys()]) this.decide(id, 'rejected')
+    }
+}
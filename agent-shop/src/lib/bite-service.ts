@@ -1,17 +1,27 @@
 // SKALE BITE V2 (Blockchain Integrated Threshold Encryption) Service
-// Uses the real @skalenetwork/bite SDK for encrypted transactions on the BITE V2 Sandbox
+// Uses the real @skalenetwork/bite SDK for encrypted transactions on BITE-enabled networks
 import { BITE } from '@skalenetwork/bite'
+import type { Address, Hex } from 'viem'
+import { getActiveNetwork, type NetworkProfile } from '@/config/networks'
 
-const SANDBOX_RPC = 'https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox'
+export interface BiteTransaction {
+    to: Address
+    data: Hex
+    /** Required for encrypted txs: estimateGas cannot see through the ciphertext */
+    gasLimit?: string
+}
 
-// Singleton BITE instance
-let biteInstance: BITE | null = null
+// One BITE instance per RPC endpoint
+const biteInstances = new Map<string, BITE>()
 
-function getBite(): BITE {
-    if (!biteInstance) {
-        biteInstance = new BITE(SANDBOX_RPC)
+function getBite(network: NetworkProfile): BITE {
+    const rpcUrl = network.rpcUrls[0]
+    let bite = biteInstances.get(rpcUrl)
+    if (!bite) {
+        bite = new BITE(rpcUrl)
+        biteInstances.set(rpcUrl, bite)
     }
-    return biteInstance
+    return bite
 }
 
 export class BiteService {
@@ -19,34 +29,36 @@ export class BiteService {
      * Encrypts a transaction using BITE V2 threshold encryption.
      * The `to` and `data` fields are encrypted so validators can't see them
      * until after block finality when the threshold key is reconstructed.
+     * The returned `to` is the BITE magic address; send the tx there as-is.
      */
-    static async encryptTransaction(tx: { to: string; data: string; value?: string }): Promise<any> {
+    static async encryptTransaction(tx: BiteTransaction, network: NetworkProfile = getActiveNetwork()): Promise<BiteTransaction> {
         console.log('BITE V2: Encrypting transaction with distributed threshold key...')
-        const bite = getBite()
+        const bite = getBite(network)
         const encryptedTx = await bite.encryptTransaction(tx)
         console.log('BITE V2: Transaction encrypted — to/data fields hidden until block finality')
-        return encryptedTx
+        return encryptedTx as BiteTransaction
     }
 
     /**
      * Retrieves the decrypted transaction data after block finality.
      * The threshold decryption happens automatically once the block is finalized.
      */
-    static async getDecryptedData(txHash: string): Promise<{ to: string; data: string }> {
+    static async getDecryptedData(txHash: string, network: NetworkProfile = getActiveNetwork()): Promise<{ to: string; data: string }> {
         console.log('BITE V2: Fetching decrypted transaction data post-finality...')
-        const bite = getBite()
-        const result = await bite.getDecryptedTransactionData(txHash)
+        const bite = getBite(network)
+        const result: unknown = await bite.getDecryptedTransactionData(txHash)
         console.log('BITE V2: Transaction decrypted — original to/data revealed')
-        return result as unknown as { to: string; data: string }
+        // The SDK types this as a string, but the RPC returns a { to, data } object
+        return (typeof result === 'string' ? JSON.parse(result) : result) as { to: string; data: string }
     }
 
     /**
      * Encrypts an arbitrary message using BITE threshold encryption.
      * Useful for encrypting offer details, bids, etc.
      */
-    static async encryptMessage(message: string): Promise<string> {
+    static async encryptMessage(message: string, network: NetworkProfile = getActiveNetwork()): Promise<string> {
         console.log('BITE V2: Encrypting message with threshold key...')
-        const bite = getBite()
+        const bite = getBite(network)
         const encrypted = await bite.encryptMessage(message)
         return encrypted
     }
@@ -54,8 +66,8 @@ export class BiteService {
     /**
      * Gets info about the current BITE committee (validators participating in threshold encryption).
      */
-    static async getCommitteeInfo(): Promise<any> {
-        const bite = getBite()
+    static async getCommitteeInfo(network: NetworkProfile = getActiveNetwork()): Promise<any> {
+        const bite = getBite(network)
         return await bite.getCommitteesInfo()
     }
 
@@ -0,0 +1,147 @@
+/**
+ * Commitment Vault - reveal secrets that survive a closed tab
+ *
+ * A sealed offer can only be revealed with the exact (price, nonce) that went
+ * into its commit hash. The vault writes those secrets to IndexedDB *before*
+ * the commit is sent and deletes them once the offer is revealed (or can no
+ * longer be), so an interrupted run can be resumed from the dashboard.
+ *
+ * Entries are encrypted with AES-GCM under a non-extractable Web Crypto key
+ * held in the same database, so scripts on the page can use the key but not
+ * export it. This is not protection at rest: the browser writes the key
+ * material into the profile's IndexedDB files next to the entries, and
+ * anyone who can copy the profile can decrypt them.
+ */
+import type { Address, Hex } from 'viem'
+import { openDatabase, request } from '@/lib/idb'
+
+// ─────────────── Types ───────────────
+
+export interface CommitmentEntry {
+    chainId: number
+    marketplace: Address
+    requestId: bigint
+    provider: Address
+    price: bigint
+    nonce: bigint
+    commitHash: Hex
+    /** Hash also binds requestId + provider (see `skale/commitment`) */
+    bound?: boolean
+    /** Unix ms. Reveal by then; the request may be settled without us afterwards */
+    deadline: number
+    createdAt: number
+    /** Burner key of the provider agent, when the provider is not the connected wallet */
+    signerKey?: Hex
+    /** Custodial signer agent that owns `provider` (reveals go through /api/signer) */
+    signerAgentId?: string
+}
+
+interface StoredEntry {
+    id: string
+    chainId: number
+    iv: ArrayBuffer
+    ciphertext: ArrayBuffer
+}
+
+/** How long a committed offer is expected to stay revealable */
+export const DEFAULT_REVEAL_WINDOW_MS = 60 * 60 * 1000
+
+const DB_NAME = 'stealthbid-vault'
+const DB_VERSION = 1
+const KEY_STORE = 'keys'
+const ENTRY_STORE = 'commitments'
+const VAULT_KEY_ID = 'commitment-vault-v1'
+
+export function commitmentId(entry: Pick<CommitmentEntry, 'chainId' | 'marketplace' | 'requestId' | 'provider'>): string {
+    return `${entry.chainId}:${entry.marketplace.toLowerCase()}:${entry.requestId}:${entry.provider.toLowerCase()}`
+}
+
+// ─────────────── IndexedDB ───────────────
+
+function openVaultDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, { [KEY_STORE]: undefined, [ENTRY_STORE]: { keyPath: 'id' } })
+}
+
+// ─────────────── Vault ───────────────
+
+export class CommitmentVault {
+    private constructor(private readonly db: IDBDatabase, private readonly key: CryptoKey) { }
+
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle
+    }
+
+    /**
+     * Open the vault, creating its encryption key on first use.
+     */
+    static async open(): Promise<CommitmentVault> {
+        if (!CommitmentVault.isSupported()) throw new Error('Commitment vault needs IndexedDB and Web Crypto')
+        const db = await openVaultDatabase()
+        let key = await request(db.transaction(KEY_STORE).objectStore(KEY_STORE).get(VAULT_KEY_ID)) as CryptoKey | undefined
+        if (!key) {
+            key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+            await request(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(key, VAULT_KEY_ID))
+        }
+        return new CommitmentVault(db, key)
+    }
+
+    /**
+     * Store the secrets for a commitment. Call before sending the commit tx.
+     */
+    async put(entry: CommitmentEntry): Promise<void> {
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const plaintext = new TextEncoder().encode(JSON.stringify(entry, (_, v) => typeof v === 'bigint' ? v.toString() : v))
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, plaintext)
+        const stored: StoredEntry = { id: commitmentId(entry), chainId: entry.chainId, iv: iv.buffer, ciphertext }
+        await request(this.db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE).put(stored))
+    }
+
+    /**
+     * All outstanding commitments, optionally for one chain, soonest deadline first.
+     * Entries that fail to decrypt (e.g. key store was cleared) are skipped.
+     */
+    async list(chainId?: number): Promise<CommitmentEntry[]> {
+        const stored = await request(this.db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()) as StoredEntry[]
+        const entries: CommitmentEntry[] = []
+        for (const item of stored) {
+            if (chainId !== undefined && item.chainId !== chainId) continue
+            try {
+                entries.push(await this.decrypt(item))
+            } catch (e) {
+                console.warn(`Commitment vault: cannot decrypt ${item.id}`, e)
+            }
+        }
+        return entries.sort((a, b) => a.deadline - b.deadline)
+    }
+
+    /**
+     * Forget a commitment once it is revealed or can no longer be revealed.
+     */
+    async remove(entry: Pick<CommitmentEntry, 'chainId' | 'marketplace' | 'requestId' | 'provider'>): Promise<void> {
+        await request(this.db.transaction(ENTRY_STORE, 'readwrite').objectStore(ENTRY_STORE).delete(commitmentId(entry)))
+    }
+
+    private async decrypt(item: StoredEntry): Promise<CommitmentEntry> {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: item.iv }, this.key, item.ciphertext)
+        const raw = JSON.parse(new TextDecoder().decode(plaintext))
+        return {
+            ...raw,
+            requestId: BigInt(raw.requestId),
+            price: BigInt(raw.price),
+            nonce: BigInt(raw.nonce),
+        }
+    }
+}
+
+/**
+ * Best-effort vault access for the agent flows: a browser without IndexedDB
+ * still runs, it just cannot resume after a reload.
+ */
+export async function openCommitmentVault(onWarn?: (message: string) => void): Promise<CommitmentVault | null> {
+    try {
+        return await CommitmentVault.open()
+    } catch (e) {
+        onWarn?.(`⚠️ Commitment vault unavailable (${e instanceof Error ? e.message : String(e)}). Reveals cannot be resumed if this tab closes.`)
+        return null
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * IndexedDB helpers shared by the browser stores (commitment vault, sessions)
+ */
+
+/** Resolve with `req`'s result, reject with its error */
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+/**
+ * Open database `name` at `version`, creating any of `stores` (name →
+ * object store options) it does not have yet.
+ */
+export function openDatabase(name: string, version: number, stores: Record<string, IDBObjectStoreParameters | undefined>): Promise<IDBDatabase> {
+    const req = indexedDB.open(name, version)
+    req.onupgradeneeded = () => {
+        const db = req.result
+        for (const [store, options] of Object.entries(stores)) {
+            if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, options)
+        }
+    }
+    return request(req)
+}
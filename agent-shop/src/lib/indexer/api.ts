@@ -0,0 +1,186 @@
+/**
+ * Shared plumbing for the index-backed query routes (/api/requests,
+ * /api/providers, /api/settlements): network resolution, query-string
+ * parsing, opening the SQLite index and JSON shaping.
+ *
+ * Amounts are decimal strings in the request's `currency` (sFUEL or USDC),
+ * next to its `token`; for a token this app does not know they are atomic
+ * units and `currency` is null. Service prices are always sFUEL.
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { formatUnits, getAddress, isAddress, type Address } from 'viem'
+import { getActiveNetwork, getNetworkProfile, type NetworkProfile } from '@/config/networks'
+import { assetOfToken } from '@/lib/skale/assets'
+import { defaultIndexerDbPath } from './indexer'
+import {
+    IndexerStore,
+    type IndexedOffer,
+    type IndexedRequest,
+    type IndexedRequestStatus,
+    type IndexedSettlement,
+    type IndexPage,
+    type IndexQueryFilter,
+} from './store'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+const INDEXED_STATUSES: IndexedRequestStatus[] = ['open', 'settled', 'cancelled']
+
+/** A malformed query parameter; routes answer 400 with its message. */
+export class QueryParamError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'QueryParamError'
+    }
+}
+
+export function jsonError(status: number, error: string) {
+    return NextResponse.json({ success: false, error }, { status })
+}
+
+/**
+ * `?network=` if present, else the active profile. Throws QueryParamError on unknown IDs.
+ */
+export function resolveNetwork(req: NextRequest): NetworkProfile {
+    const networkId = req.nextUrl.searchParams.get('network')
+    if (!networkId) return getActiveNetwork()
+    try {
+        return getNetworkProfile(networkId)
+    } catch (e) {
+        throw new QueryParamError(e instanceof Error ? e.message : String(e))
+    }
+}
+
+// One read-only handle per database file for the lifetime of the server process
+const stores = new Map<string, IndexerStore>()
+
+/**
+ * The index for `network`, or null when the indexer has not populated it yet
+ * (or the file belongs to another deployment).
+ */
+export function openIndex(network: NetworkProfile): IndexerStore | null {
+    const file = defaultIndexerDbPath(network)
+    let store = stores.get(file)
+    if (!store) {
+        const opened = IndexerStore.openReadonly(file)
+        if (!opened) return null
+        store = opened
+        stores.set(file, store)
+    }
+    return store.isDeployment(network.chain.id, network.marketplaceAddress) ? store : null
+}
+
+export function indexUnavailable(network: NetworkProfile) {
+    return jsonError(503, `No event index for ${network.label}. Start it with \`npm run indexer -- --network ${network.id}\`.`)
+}
+
+// ─────────────── Query Parsing ───────────────
+
+export function parseAddressParam(value: string | null, name: string): Address | undefined {
+    if (!value) return undefined
+    if (!isAddress(value, { strict: false })) throw new QueryParamError(`${name} must be a 0x-prefixed address`)
+    return getAddress(value)
+}
+
+export function parseIdParam(value: string | null, name: string): bigint | undefined {
+    if (value === null || value === '') return undefined
+    if (!/^\d+$/.test(value)) throw new QueryParamError(`${name} must be a non-negative integer`)
+    return BigInt(value)
+}
+
+export function parsePage(params: URLSearchParams): IndexPage {
+    const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+    const offset = Number(params.get('offset') ?? 0)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new QueryParamError(`limit must be an integer between 1 and ${MAX_LIMIT}`)
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw new QueryParamError('offset must be a non-negative integer')
+    }
+    return { limit, offset }
+}
+
+/**
+ * `requester`, `provider`, `service` and `status` filters shared by the list routes.
+ */
+export function parseFilter(params: URLSearchParams): IndexQueryFilter {
+    const status = params.get('status')
+    if (status && !INDEXED_STATUSES.includes(status as IndexedRequestStatus)) {
+        throw new QueryParamError(`status must be one of: ${INDEXED_STATUSES.join(', ')}`)
+    }
+    return {
+        requester: parseAddressParam(params.get('requester'), 'requester'),
+        provider: parseAddressParam(params.get('provider'), 'provider'),
+        serviceId: parseIdParam(params.get('service'), 'service'),
+        status: (status as IndexedRequestStatus) || undefined,
+    }
+}
+
+export function pagination(page: IndexPage, total: number) {
+    const next = page.offset + page.limit
+    return { limit: page.limit, offset: page.offset, total, nextOffset: next < total ? next : null }
+}
+
+// ─────────────── Serialization ───────────────
+
+const timestamp = (t: bigint | null) => (t === null ? null : Number(t))
+
+/**
+ * Formatter for amounts in `token`, and the currency it names.
+ */
+export function tokenAmounts(network: NetworkProfile, token: Address) {
+    const asset = assetOfToken(network, token)
+    return {
+        token: getAddress(token),
+        currency: asset?.symbol ?? null,
+        format: (value: bigint) => asset ? formatUnits(value, asset.decimals) : value.toString(),
+    }
+}
+
+export function serializeRequest(r: IndexedRequest, network: NetworkProfile) {
+    const { token, currency, format } = tokenAmounts(network, r.token)
+    return {
+        id: Number(r.requestId),
+        requester: getAddress(r.requester),
+        serviceId: Number(r.serviceId),
+        budget: format(r.budget),
+        token,
+        currency,
+        status: r.status,
+        bidCount: r.bidCount,
+        block: Number(r.blockNumber),
+        timestamp: timestamp(r.timestamp),
+        txHash: r.txHash,
+    }
+}
+
+export function serializeOffer(o: IndexedOffer, network: NetworkProfile) {
+    const { format } = tokenAmounts(network, o.token)
+    return {
+        requestId: Number(o.requestId),
+        provider: getAddress(o.provider),
+        offerHash: o.offerHash,
+        commitBlock: Number(o.commitBlock),
+        commitTx: o.commitTx,
+        revealedPrice: o.revealedPrice === null ? null : format(o.revealedPrice),
+        revealBlock: o.revealBlock === null ? null : Number(o.revealBlock),
+        revealTx: o.revealTx,
+    }
+}
+
+export function serializeSettlement(s: IndexedSettlement, network: NetworkProfile) {
+    const { token, currency, format } = tokenAmounts(network, s.token)
+    return {
+        requestId: Number(s.requestId),
+        provider: getAddress(s.provider),
+        requester: s.requester && getAddress(s.requester),
+        serviceId: s.serviceId === null ? null : Number(s.serviceId),
+        amount: format(s.amount),
+        token,
+        currency,
+        protocol: s.protocol,
+        block: Number(s.blockNumber),
+        timestamp: timestamp(s.timestamp),
+        txHash: s.txHash,
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Marketplace Indexer
+ *
+ * Follows ServiceMarketplace events from a start block into an IndexerStore:
+ * ServiceRegistered, ServiceRequestCreated, EncryptedOfferSubmitted,
+ * OfferRevealed, PaymentSettled, RequestCancelled and RequestTokenEscrowed.
+ * Progress is checkpointed after every range so a restart resumes where it
+ * stopped.
+ *
+ * Reorgs: before each range the checkpoint block hash is compared with the
+ * chain. On mismatch the indexer walks back through the stored block hashes
+ * to the newest one still canonical, deletes everything above it and re-syncs.
+ */
+import path from 'node:path'
+import { BlockNotFoundError, type Log } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+import { MarketplaceClient, type MarketplaceEvent } from '@/lib/skale/marketplace-client'
+import type { IndexedBlock, IndexedEvent, IndexerStore } from './store'
+
+export interface IndexerConfig {
+    network: NetworkProfile
+    store: IndexerStore
+    /** First block to scan on an empty index (usually the deployment block). */
+    startBlock?: bigint
+    /** Max blocks per eth_getLogs call. */
+    batchSize?: bigint
+    /** Stay this many blocks behind head. SKALE has instant finality, so 0 is safe there. */
+    confirmations?: bigint
+    /** How far back block hashes are kept for reorg detection. */
+    reorgDepth?: number
+    pollIntervalMs?: number
+    onLog?: (message: string) => void
+}
+
+export interface SyncResult {
+    fromBlock: bigint
+    toBlock: bigint
+    events: number
+    /** Block the index was rolled back to, when a reorg was detected. */
+    reorgedTo?: bigint | null
+    caughtUp: boolean
+}
+
+/**
+ * Default database location: `INDEXER_DB_PATH`, else `data/indexer-<network>.db`.
+ */
+export function defaultIndexerDbPath(network: NetworkProfile): string {
+    return process.env.INDEXER_DB_PATH || path.join(process.cwd(), 'data', `indexer-${network.id}.db`)
+}
+
+export class MarketplaceIndexer {
+    private readonly market: MarketplaceClient
+    private readonly store: IndexerStore
+    private readonly startBlock: bigint
+    private readonly batchSize: bigint
+    private readonly confirmations: bigint
+    private readonly reorgDepth: number
+    private readonly pollIntervalMs: number
+    private readonly log: (message: string) => void
+
+    constructor(config: IndexerConfig) {
+        this.market = MarketplaceClient.forNetwork(config.network)
+        this.store = config.store
+        this.startBlock = config.startBlock ?? 0n
+        this.batchSize = config.batchSize ?? 2000n
+        this.confirmations = config.confirmations ?? 0n
+        this.reorgDepth = config.reorgDepth ?? 128
+        this.pollIntervalMs = config.pollIntervalMs ?? 5000
+        this.log = config.onLog ?? (() => { })
+
+        this.store.assertDeployment(config.network.chain.id, config.network.marketplaceAddress)
+    }
+
+    /**
+     * Index the next range (at most `batchSize` blocks). Call repeatedly until `caughtUp`.
+     */
+    async syncOnce(): Promise<SyncResult> {
+        const client = this.market.publicClient
+        const reorgedTo = await this.checkReorg()
+
+        const head = (await client.getBlockNumber()) - this.confirmations
+        const checkpoint = this.store.getCheckpoint()
+        const fromBlock = checkpoint ? checkpoint.blockNumber + 1n : this.startBlock
+        if (fromBlock > head) {
+            return { fromBlock, toBlock: head, events: 0, reorgedTo, caughtUp: true }
+        }
+        const toBlock = fromBlock + this.batchSize - 1n < head ? fromBlock + this.batchSize - 1n : head
+
+        const logs = await client.getLogs({ address: this.market.address, fromBlock, toBlock })
+        const events = this.market.decodeEvents(logs as Log[])
+            .map(toIndexedEvent)
+            .filter((e): e is IndexedEvent => e !== null)
+
+        const blockNumbers = [...new Set(events.map(e => e.blockNumber))]
+        const blocks = await Promise.all(blockNumbers.map(n => this.fetchBlock(n)))
+        for (const e of events) {
+            const block = blocks.find(b => b.number === e.blockNumber)
+            if (block && block.hash !== e.blockHash) {
+                // Chain moved under us between getLogs and getBlock; retry the range on the next pass
+                throw new Error(`Block #${e.blockNumber} changed while indexing (reorg in progress)`)
+            }
+        }
+        const tip = await this.fetchBlock(toBlock)
+
+        this.store.commitRange(events, blocks, tip, this.reorgDepth)
+        if (events.length > 0) {
+            this.log(`📥 Indexed ${events.length} events in blocks ${fromBlock}-${toBlock}`)
+        }
+        return { fromBlock, toBlock, events: events.length, reorgedTo, caughtUp: toBlock >= head }
+    }
+
+    /**
+     * Sync until aborted, polling for new blocks once caught up. RPC errors are
+     * logged and retried after one poll interval.
+     */
+    async run(signal?: AbortSignal) {
+        this.log(`🔎 Indexer following ${this.market.address} from block ${this.store.getCheckpoint()?.blockNumber ?? this.startBlock}`)
+        while (!signal?.aborted) {
+            let caughtUp = true
+            try {
+                caughtUp = (await this.syncOnce()).caughtUp
+            } catch (e) {
+                this.log(`⚠️ Sync failed: ${e instanceof Error ? e.message.split('\n')[0] : String(e)}`)
+            }
+            if (caughtUp) await sleep(this.pollIntervalMs, signal)
+        }
+        this.log('🛑 Indexer stopped')
+    }
+
+    // ─────────────── Internals ───────────────
+
+    /**
+     * Compare the checkpoint with the chain and roll back to the fork point if it
+     * is no longer canonical. Returns the rollback target, or undefined if none.
+     * Only a block the chain returns with another hash (or no longer has) counts
+     * as forked; RPC errors propagate so an outage never rolls the index back.
+     */
+    private async checkReorg(): Promise<bigint | null | undefined> {
+        const checkpoint = this.store.getCheckpoint()
+        if (!checkpoint) return undefined
+
+        const current = await this.canonicalBlock(checkpoint.blockNumber)
+        if (current?.hash === checkpoint.blockHash) return undefined
+
+        this.log(`⚠️ Reorg detected at block #${checkpoint.blockNumber}, locating fork point...`)
+        for (const known of this.store.recentBlocks(this.reorgDepth)) {
+            const onChain = await this.canonicalBlock(known.number)
+            if (onChain?.hash === known.hash) {
+                this.store.rollbackTo(known)
+                this.log(`↩️ Rolled back to block #${known.number}`)
+                return known.number
+            }
+        }
+
+        // Fork is deeper than anything we kept: rebuild from the start block
+        this.store.rollbackTo(null)
+        this.log(`↩️ Fork point older than ${this.reorgDepth} tracked blocks. Re-indexing from #${this.startBlock}`)
+        return null
+    }
+
+    /** The chain's block at `blockNumber`, or null when the chain is shorter (rewound by a reorg) */
+    private async canonicalBlock(blockNumber: bigint): Promise<IndexedBlock | null> {
+        try {
+            return await this.fetchBlock(blockNumber)
+        } catch (e) {
+            if (e instanceof BlockNotFoundError) return null
+            throw e
+        }
+    }
+
+    private async fetchBlock(blockNumber: bigint): Promise<IndexedBlock> {
+        const block = await this.market.publicClient.getBlock({ blockNumber })
+        return { number: block.number, hash: block.hash, timestamp: block.timestamp }
+    }
+}
+
+function toIndexedEvent(event: MarketplaceEvent): IndexedEvent | null {
+    const base = {
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        blockHash: event.blockHash,
+        txHash: event.transactionHash,
+    }
+    switch (event.eventName) {
+        case 'ServiceRegistered':
+            return { ...base, event: event.eventName, serviceId: event.args.serviceId, provider: event.args.provider, amount: event.args.price, label: event.args.name }
+        case 'ServiceRequestCreated':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, requester: event.args.requester, serviceId: event.args.serviceId, amount: event.args.budget }
+        case 'EncryptedOfferSubmitted':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, provider: event.args.provider, offerHash: event.args.offerHash }
+        case 'OfferRevealed':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, provider: event.args.provider, amount: event.args.price }
+        case 'PaymentSettled':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, provider: event.args.provider, amount: event.args.amount, label: event.args.protocol }
+        case 'RequestCancelled':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, requester: event.args.requester, amount: event.args.refund, label: event.args.expired ? 'expired' : 'cancelled' }
+        case 'RequestTokenEscrowed':
+            return { ...base, event: event.eventName, requestId: event.args.requestId, token: event.args.token, amount: event.args.amount }
+        default:
+            return null
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            resolve()
+        }, { once: true })
+    })
+}
@@ -0,0 +1,536 @@
+/**
+ * Indexer Store - SQLite persistence for marketplace events
+ *
+ * Every decoded log is stored once in `events`, keyed by (block, logIndex).
+ * Services, requests, offers and settlements are SQL views over that table,
+ * so rolling back a reorg is a single DELETE above the fork point and no
+ * derived row can drift from the log it came from.
+ *
+ * Server-only: better-sqlite3 is a native module.
+ */
+import fs from 'node:fs'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import type { Address, Hash } from 'viem'
+
+// ─────────────── Types ───────────────
+
+export type IndexedEventName =
+    | 'ServiceRegistered'
+    | 'ServiceRequestCreated'
+    | 'EncryptedOfferSubmitted'
+    | 'OfferRevealed'
+    | 'PaymentSettled'
+    | 'RequestCancelled'
+    | 'RequestTokenEscrowed'
+
+/** One decoded log, flattened to the columns the views need. Amounts are wei. */
+export interface IndexedEvent {
+    blockNumber: bigint
+    logIndex: number
+    blockHash: Hash
+    txHash: Hash
+    event: IndexedEventName
+    serviceId?: bigint
+    requestId?: bigint
+    /** Service provider / bidder / payee */
+    provider?: Address
+    requester?: Address
+    /** price (ServiceRegistered, OfferRevealed), budget (ServiceRequestCreated), amount (PaymentSettled), refund (RequestCancelled) */
+    amount?: bigint
+    /** Escrowed ERC-20 (RequestTokenEscrowed) */
+    token?: Address
+    offerHash?: Hash
+    /** Service name (ServiceRegistered) or protocol (PaymentSettled) */
+    label?: string
+}
+
+export interface IndexedBlock {
+    number: bigint
+    hash: Hash
+    timestamp: bigint
+}
+
+export interface IndexerCheckpoint {
+    blockNumber: bigint
+    blockHash: Hash
+}
+
+export type IndexedRequestStatus = 'open' | 'settled' | 'cancelled'
+
+export interface IndexedService {
+    serviceId: bigint
+    provider: Address
+    name: string
+    pricePerUnit: bigint
+    blockNumber: bigint
+    timestamp: bigint | null
+    txHash: Hash
+}
+
+export interface IndexedRequest {
+    requestId: bigint
+    requester: Address
+    serviceId: bigint
+    budget: bigint
+    /** Escrowed token; the zero address for sFUEL */
+    token: Address
+    status: IndexedRequestStatus
+    bidCount: number
+    blockNumber: bigint
+    timestamp: bigint | null
+    txHash: Hash
+}
+
+export interface IndexedOffer {
+    requestId: bigint
+    provider: Address
+    offerHash: Hash
+    commitBlock: bigint
+    commitTx: Hash
+    /** The request's token, which the revealed price is in */
+    token: Address
+    revealedPrice: bigint | null
+    revealBlock: bigint | null
+    revealTx: Hash | null
+}
+
+export interface IndexedSettlement {
+    requestId: bigint
+    provider: Address
+    requester: Address | null
+    serviceId: bigint | null
+    amount: bigint
+    /** The request's token; the zero address for sFUEL */
+    token: Address
+    protocol: string
+    blockNumber: bigint
+    timestamp: bigint | null
+    txHash: Hash
+}
+
+export interface IndexQueryFilter {
+    requester?: Address
+    provider?: Address
+    serviceId?: bigint
+    status?: IndexedRequestStatus
+}
+
+export interface IndexPage {
+    limit: number
+    offset: number
+}
+
+export interface IndexPageResult<T> {
+    items: T[]
+    total: number
+}
+
+// ─────────────── Schema ───────────────
+
+const SCHEMA_VERSION = 1
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000'
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+-- Blocks that carried events, plus every checkpoint. Used for reorg detection and timestamps.
+CREATE TABLE IF NOT EXISTS blocks (
+    number    INTEGER PRIMARY KEY,
+    hash      TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index    INTEGER NOT NULL,
+    block_hash   TEXT NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    event        TEXT NOT NULL,
+    service_id   INTEGER,
+    request_id   INTEGER,
+    provider     TEXT,
+    requester    TEXT,
+    amount       TEXT,
+    offer_hash   TEXT,
+    label        TEXT,
+    token        TEXT,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_request ON events (request_id, event);
+CREATE INDEX IF NOT EXISTS events_provider ON events (provider, event);
+CREATE INDEX IF NOT EXISTS events_requester ON events (requester, event);
+
+CREATE VIEW IF NOT EXISTS indexed_services AS
+    SELECT e.service_id, e.provider, e.label AS name, e.amount AS price_per_unit,
+           e.block_number, b.timestamp, e.tx_hash
+    FROM events e LEFT JOIN blocks b ON b.number = e.block_number
+    WHERE e.event = 'ServiceRegistered';
+
+-- A request's token, from its RequestTokenEscrowed log; sFUEL when it has none
+CREATE VIEW IF NOT EXISTS request_tokens AS
+    SELECT r.request_id, COALESCE(t.token, '${NATIVE_TOKEN}') AS token
+    FROM events r
+    LEFT JOIN events t ON t.event = 'RequestTokenEscrowed' AND t.request_id = r.request_id
+    WHERE r.event = 'ServiceRequestCreated';
+
+CREATE VIEW IF NOT EXISTS indexed_requests AS
+    SELECT e.request_id, e.requester, e.service_id, e.amount AS budget, rt.token,
+           CASE WHEN s.request_id IS NOT NULL THEN 'settled'
+                WHEN c.request_id IS NOT NULL THEN 'cancelled'
+                ELSE 'open' END AS status,
+           e.block_number, b.timestamp, e.tx_hash
+    FROM events e
+    LEFT JOIN blocks b ON b.number = e.block_number
+    LEFT JOIN request_tokens rt ON rt.request_id = e.request_id
+    LEFT JOIN events s ON s.event = 'PaymentSettled' AND s.request_id = e.request_id
+    LEFT JOIN events c ON c.event = 'RequestCancelled' AND c.request_id = e.request_id
+    WHERE e.event = 'ServiceRequestCreated';
+
+CREATE VIEW IF NOT EXISTS indexed_offers AS
+    SELECT c.request_id, c.provider, c.offer_hash,
+           c.block_number AS commit_block, c.tx_hash AS commit_tx, COALESCE(rt.token, '${NATIVE_TOKEN}') AS token,
+           r.amount AS revealed_price, r.block_number AS reveal_block, r.tx_hash AS reveal_tx
+    FROM events c
+    LEFT JOIN request_tokens rt ON rt.request_id = c.request_id
+    LEFT JOIN events r ON r.event = 'OfferRevealed' AND r.request_id = c.request_id AND r.provider = c.provider
+    WHERE c.event = 'EncryptedOfferSubmitted';
+
+CREATE VIEW IF NOT EXISTS indexed_settlements AS
+    SELECT e.request_id, e.provider, e.amount, COALESCE(rt.token, '${NATIVE_TOKEN}') AS token, e.label AS protocol,
+           e.block_number, b.timestamp, e.tx_hash
+    FROM events e
+    LEFT JOIN blocks b ON b.number = e.block_number
+    LEFT JOIN request_tokens rt ON rt.request_id = e.request_id
+    WHERE e.event = 'PaymentSettled';
+`
+
+// ─────────────── Store ───────────────
+
+export class IndexerStore {
+    readonly db: Database.Database
+
+    private constructor(db: Database.Database) {
+        this.db = db
+        if (db.readonly) return
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+        this.setMeta('schemaVersion', String(SCHEMA_VERSION))
+    }
+
+    /**
+     * Open (or create) a database file. Parent directories are created as needed.
+     * Pass ':memory:' for a throwaway store.
+     */
+    static open(file: string): IndexerStore {
+        if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true })
+        return new IndexerStore(new Database(file))
+    }
+
+    /**
+     * Open an existing index for queries only (API routes). Returns null when
+     * the indexer has not created the file yet.
+     */
+    static openReadonly(file: string): IndexerStore | null {
+        if (!fs.existsSync(file)) return null
+        return new IndexerStore(new Database(file, { readonly: true, fileMustExist: true }))
+    }
+
+    close() {
+        this.db.close()
+    }
+
+    /**
+     * Bind the store to one deployment. Throws if the file was created for a
+     * different chain or contract, so two networks never share an index.
+     */
+    assertDeployment(chainId: number, contract: Address) {
+        const key = deploymentKey(chainId, contract)
+        const existing = this.getMeta('deployment')
+        if (existing && existing !== key) {
+            throw new Error(`Index belongs to deployment ${existing}, not ${key}. Use a separate database file.`)
+        }
+        if (!existing) this.setMeta('deployment', key)
+    }
+
+    isDeployment(chainId: number, contract: Address): boolean {
+        return this.getMeta('deployment') === deploymentKey(chainId, contract)
+    }
+
+    // ─────────────── Checkpoint ───────────────
+
+    getCheckpoint(): IndexerCheckpoint | null {
+        const number = this.getMeta('checkpointBlock')
+        const hash = this.getMeta('checkpointHash')
+        return number && hash ? { blockNumber: BigInt(number), blockHash: hash as Hash } : null
+    }
+
+    /**
+     * Recent known blocks, newest first. The indexer walks these back to find
+     * the fork point after a reorg.
+     */
+    recentBlocks(limit: number): IndexedBlock[] {
+        const rows = this.db.prepare('SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?')
+            .all(limit) as { number: number; hash: Hash; timestamp: number }[]
+        return rows.map(r => ({ number: BigInt(r.number), hash: r.hash, timestamp: BigInt(r.timestamp) }))
+    }
+
+    /**
+     * Persist one synced range atomically: its events, the blocks they sit in,
+     * and the new checkpoint. Blocks older than `retainBlocks` below the
+     * checkpoint are pruned unless they still carry events.
+     */
+    commitRange(events: IndexedEvent[], blocks: IndexedBlock[], checkpoint: IndexedBlock, retainBlocks: number) {
+        const insertEvent = this.db.prepare(`
+            INSERT OR REPLACE INTO events
+                (block_number, log_index, block_hash, tx_hash, event, service_id, request_id, provider, requester, amount, offer_hash, label, token)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        const insertBlock = this.db.prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)')
+
+        this.db.transaction(() => {
+            for (const e of events) {
+                insertEvent.run(
+                    Number(e.blockNumber), e.logIndex, e.blockHash, e.txHash, e.event,
+                    e.serviceId !== undefined ? Number(e.serviceId) : null,
+                    e.requestId !== undefined ? Number(e.requestId) : null,
+                    e.provider?.toLowerCase() ?? null,
+                    e.requester?.toLowerCase() ?? null,
+                    e.amount !== undefined ? e.amount.toString() : null,
+                    e.offerHash ?? null,
+                    e.label ?? null,
+                    e.token?.toLowerCase() ?? null,
+                )
+            }
+            for (const b of [...blocks, checkpoint]) {
+                insertBlock.run(Number(b.number), b.hash, Number(b.timestamp))
+            }
+            this.db.prepare(`
+                DELETE FROM blocks
+                WHERE number < ? AND number NOT IN (SELECT DISTINCT block_number FROM events)
+            `).run(Number(checkpoint.number) - retainBlocks)
+            this.setMeta('checkpointBlock', checkpoint.number.toString())
+            this.setMeta('checkpointHash', checkpoint.hash)
+        })()
+    }
+
+    /**
+     * Drop everything above `block` (the last block still on the canonical chain)
+     * and move the checkpoint back to it. `null` rewinds to an empty index.
+     */
+    rollbackTo(block: IndexedBlock | null) {
+        const above = block ? Number(block.number) : -1
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM events WHERE block_number > ?').run(above)
+            this.db.prepare('DELETE FROM blocks WHERE number > ?').run(above)
+            if (block) {
+                this.db.prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)')
+                    .run(Number(block.number), block.hash, Number(block.timestamp))
+                this.setMeta('checkpointBlock', block.number.toString())
+                this.setMeta('checkpointHash', block.hash)
+            } else {
+                this.db.prepare(`DELETE FROM meta WHERE key IN ('checkpointBlock', 'checkpointHash')`).run()
+            }
+        })()
+    }
+
+    // ─────────────── Queries ───────────────
+
+    listServices(filter: { provider?: Address } = {}): IndexedService[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM indexed_services
+            WHERE (@provider IS NULL OR provider = @provider)
+            ORDER BY service_id DESC
+        `).all({ provider: filter.provider?.toLowerCase() ?? null }) as Row[]
+        return rows.map(toService)
+    }
+
+    /**
+     * Requests newest first. `provider` matches requests that provider bid on or was paid for.
+     */
+    listRequests(filter: IndexQueryFilter, page: IndexPage): IndexPageResult<IndexedRequest> {
+        const where = `
+            WHERE (@requester IS NULL OR r.requester = @requester)
+              AND (@serviceId IS NULL OR r.service_id = @serviceId)
+              AND (@status IS NULL OR r.status = @status)
+              AND (@provider IS NULL OR EXISTS (
+                    SELECT 1 FROM events x
+                    WHERE x.request_id = r.request_id AND x.provider = @provider
+                      AND x.event IN ('EncryptedOfferSubmitted', 'PaymentSettled')))
+        `
+        const params = filterParams(filter)
+        const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM indexed_requests r ${where}`).get(params) as { n: number }).n
+        const rows = this.db.prepare(`
+            SELECT r.*, (SELECT COUNT(*) FROM indexed_offers o WHERE o.request_id = r.request_id) AS bid_count
+            FROM indexed_requests r ${where}
+            ORDER BY r.request_id DESC
+            LIMIT @limit OFFSET @offset
+        `).all({ ...params, ...page }) as Row[]
+        return { items: rows.map(toRequest), total }
+    }
+
+    getRequest(requestId: bigint): IndexedRequest | null {
+        const row = this.db.prepare(`
+            SELECT r.*, (SELECT COUNT(*) FROM indexed_offers o WHERE o.request_id = r.request_id) AS bid_count
+            FROM indexed_requests r WHERE r.request_id = ?
+        `).get(Number(requestId)) as Row | undefined
+        return row ? toRequest(row) : null
+    }
+
+    listOffers(filter: { requestId?: bigint; provider?: Address }): IndexedOffer[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM indexed_offers
+            WHERE (@requestId IS NULL OR request_id = @requestId)
+              AND (@provider IS NULL OR provider = @provider)
+            ORDER BY commit_block DESC
+        `).all({
+            requestId: filter.requestId !== undefined ? Number(filter.requestId) : null,
+            provider: filter.provider?.toLowerCase() ?? null,
+        }) as Row[]
+        return rows.map(toOffer)
+    }
+
+    listSettlements(filter: Omit<IndexQueryFilter, 'status'>, page: IndexPage): IndexPageResult<IndexedSettlement> {
+        const from = `
+            FROM indexed_settlements s
+            LEFT JOIN indexed_requests r ON r.request_id = s.request_id
+            WHERE (@requester IS NULL OR r.requester = @requester)
+              AND (@provider IS NULL OR s.provider = @provider)
+              AND (@serviceId IS NULL OR r.service_id = @serviceId)
+        `
+        const params = filterParams(filter)
+        const total = (this.db.prepare(`SELECT COUNT(*) AS n ${from}`).get(params) as { n: number }).n
+        const rows = this.db.prepare(`
+            SELECT s.*, r.requester, r.service_id ${from}
+            ORDER BY s.block_number DESC
+            LIMIT @limit OFFSET @offset
+        `).all({ ...params, ...page }) as Row[]
+        return { items: rows.map(toSettlement), total }
+    }
+
+    getSettlement(requestId: bigint): IndexedSettlement | null {
+        const row = this.db.prepare(`
+            SELECT s.*, r.requester, r.service_id
+            FROM indexed_settlements s LEFT JOIN indexed_requests r ON r.request_id = s.request_id
+            WHERE s.request_id = ?
+        `).get(Number(requestId)) as Row | undefined
+        return row ? toSettlement(row) : null
+    }
+
+    /**
+     * Lifetime counters for one provider. Earnings are summed per token as
+     * bigint, not in SQL, to keep wei precision.
+     */
+    providerStats(provider: Address): { services: number; bids: number; reveals: number; wins: number; earned: Map<Address, bigint> } {
+        const counts = this.db.prepare(`
+            SELECT
+                SUM(event = 'ServiceRegistered') AS services,
+                SUM(event = 'EncryptedOfferSubmitted') AS bids,
+                SUM(event = 'OfferRevealed') AS reveals,
+                SUM(event = 'PaymentSettled') AS wins
+            FROM events WHERE provider = ?
+        `).get(provider.toLowerCase()) as Record<string, number | null>
+        const amounts = this.db.prepare(`SELECT amount, token FROM indexed_settlements WHERE provider = ?`)
+            .all(provider.toLowerCase()) as { amount: string; token: Address }[]
+        const earned = new Map<Address, bigint>()
+        for (const r of amounts) earned.set(r.token, (earned.get(r.token) ?? 0n) + BigInt(r.amount))
+        return {
+            services: counts.services ?? 0,
+            bids: counts.bids ?? 0,
+            reveals: counts.reveals ?? 0,
+            wins: counts.wins ?? 0,
+            earned,
+        }
+    }
+
+    // ─────────────── Internals ───────────────
+
+    private getMeta(key: string): string | undefined {
+        const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined
+        return row?.value
+    }
+
+    private setMeta(key: string, value: string) {
+        this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value)
+    }
+}
+
+// ─────────────── Row Mapping ───────────────
+
+type Row = Record<string, string | number | null>
+
+function deploymentKey(chainId: number, contract: Address) {
+    return `${chainId}:${contract.toLowerCase()}`
+}
+
+function filterParams(filter: IndexQueryFilter) {
+    return {
+        requester: filter.requester?.toLowerCase() ?? null,
+        provider: filter.provider?.toLowerCase() ?? null,
+        serviceId: filter.serviceId !== undefined ? Number(filter.serviceId) : null,
+        status: filter.status ?? null,
+    }
+}
+
+const big = (v: string | number | null) => BigInt(v as string | number)
+const bigOrNull = (v: string | number | null) => (v === null ? null : BigInt(v))
+
+function toService(r: Row): IndexedService {
+    return {
+        serviceId: big(r.service_id),
+        provider: r.provider as Address,
+        name: r.name as string,
+        pricePerUnit: big(r.price_per_unit),
+        blockNumber: big(r.block_number),
+        timestamp: bigOrNull(r.timestamp),
+        txHash: r.tx_hash as Hash,
+    }
+}
+
+function toRequest(r: Row): IndexedRequest {
+    return {
+        requestId: big(r.request_id),
+        requester: r.requester as Address,
+        serviceId: big(r.service_id),
+        budget: big(r.budget),
+        token: r.token as Address,
+        status: r.status as IndexedRequestStatus,
+        bidCount: Number(r.bid_count ?? 0),
+        blockNumber: big(r.block_number),
+        timestamp: bigOrNull(r.timestamp),
+        txHash: r.tx_hash as Hash,
+    }
+}
+
+function toOffer(r: Row): IndexedOffer {
+    return {
+        requestId: big(r.request_id),
+        provider: r.provider as Address,
+        offerHash: r.offer_hash as Hash,
+        commitBlock: big(r.commit_block),
+        commitTx: r.commit_tx as Hash,
+        token: r.token as Address,
+        revealedPrice: bigOrNull(r.revealed_price),
+        revealBlock: bigOrNull(r.reveal_block),
+        revealTx: r.reveal_tx as Hash | null,
+    }
+}
+
+function toSettlement(r: Row): IndexedSettlement {
+    return {
+        requestId: big(r.request_id),
+        provider: r.provider as Address,
+        requester: r.requester as Address | null,
+        serviceId: bigOrNull(r.service_id),
+        amount: big(r.amount),
+        token: r.token as Address,
+        protocol: r.protocol as string,
+        blockNumber: big(r.block_number),
+        timestamp: bigOrNull(r.timestamp),
+        txHash: r.tx_hash as Hash,
+    }
+}
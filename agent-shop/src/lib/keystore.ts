@@ -0,0 +1,250 @@
+/**
+ * Treasury Keystore - the agent treasury key, encrypted at rest
+ *
+ * The private key is stored only as AES-256-GCM ciphertext. The wrapping key
+ * is derived with Web Crypto from either a passphrase (PBKDF2-SHA256) or a
+ * passkey (WebAuthn PRF extension + HKDF), and is never persisted. Keystores
+ * are plain JSON, so the same format is used for localStorage and for
+ * export/import; exports are always passphrase-based so they are portable.
+ */
+import { bytesToHex, hexToBytes, isAddress, isHex, type Address, type Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+// ─────────────── Types ───────────────
+
+export type KeystoreKdf =
+    | { name: 'pbkdf2'; hash: 'SHA-256'; iterations: number; salt: Hex }
+    | { name: 'webauthn-prf'; credentialId: Hex; salt: Hex }
+
+export interface TreasuryKeystore {
+    version: 1
+    address: Address
+    kdf: KeystoreKdf
+    cipher: { name: 'aes-256-gcm'; iv: Hex; ciphertext: Hex }
+    createdAt: number
+}
+
+/** A derived wrapping key plus the parameters that reproduce it */
+export interface KeystoreSecret {
+    key: CryptoKey
+    kdf: KeystoreKdf
+}
+
+export class KeystoreError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'KeystoreError'
+    }
+}
+
+const PBKDF2_ITERATIONS = 600_000
+const STORAGE_KEY = 'agentTreasuryKeystore'
+/** Next key of an interrupted rotation (funds may already sit there) */
+const PENDING_STORAGE_KEY = 'agentTreasuryKeystore.pending'
+/** Plaintext key written by older builds; migrated on first unlock */
+const LEGACY_STORAGE_KEY = 'agentTreasuryKey'
+
+// ─────────────── Key Derivation ───────────────
+
+function randomHex(bytes: number): Hex {
+    return bytesToHex(crypto.getRandomValues(new Uint8Array(bytes)))
+}
+
+async function derivePassphraseKey(passphrase: string, kdf: Extract<KeystoreKdf, { name: 'pbkdf2' }>): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: hexToBytes(kdf.salt) },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    )
+}
+
+export async function createPassphraseSecret(passphrase: string): Promise<KeystoreSecret> {
+    if (passphrase.length < 8) throw new KeystoreError('Passphrase must be at least 8 characters')
+    const kdf = { name: 'pbkdf2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: randomHex(32) } as const
+    return { key: await derivePassphraseKey(passphrase, kdf), kdf }
+}
+
+/** PRF extension shapes (not yet in every TS DOM lib) */
+interface PrfExtensionInputs {
+    prf: { eval: { first: BufferSource } }
+}
+interface PrfExtensionOutputs {
+    prf?: { enabled?: boolean; results?: { first?: ArrayBuffer } }
+}
+
+export function passkeysSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+}
+
+async function derivePasskeyKey(kdf: Extract<KeystoreKdf, { name: 'webauthn-prf' }>): Promise<CryptoKey> {
+    const extensions: PrfExtensionInputs = { prf: { eval: { first: hexToBytes(kdf.salt) } } }
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            challenge: crypto.getRandomValues(new Uint8Array(32)),
+            allowCredentials: [{ type: 'public-key', id: hexToBytes(kdf.credentialId) }],
+            userVerification: 'required',
+            extensions: extensions as AuthenticationExtensionsClientInputs,
+        },
+    }) as PublicKeyCredential | null
+    const prf = (credential?.getClientExtensionResults() as PrfExtensionOutputs | undefined)?.prf?.results?.first
+    if (!prf) throw new KeystoreError('This passkey does not support the PRF extension')
+    const material = await crypto.subtle.importKey('raw', prf, 'HKDF', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('stealthbid-treasury-keystore') },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    )
+}
+
+/**
+ * Register a passkey for this treasury and derive its wrapping key.
+ */
+export async function createPasskeySecret(label: string): Promise<KeystoreSecret> {
+    if (!passkeysSupported()) throw new KeystoreError('Passkeys are not available in this browser')
+    const extensions: PrfExtensionInputs = { prf: { eval: { first: crypto.getRandomValues(new Uint8Array(32)) } } }
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            challenge: crypto.getRandomValues(new Uint8Array(32)),
+            rp: { name: 'STEALTHBID' },
+            user: { id: crypto.getRandomValues(new Uint8Array(16)), name: label, displayName: label },
+            pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+            authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+            extensions: extensions as AuthenticationExtensionsClientInputs,
+        },
+    }) as PublicKeyCredential | null
+    if (!credential) throw new KeystoreError('Passkey registration was cancelled')
+    const outputs = credential.getClientExtensionResults() as PrfExtensionOutputs
+    if (!outputs.prf?.enabled) throw new KeystoreError('This passkey does not support the PRF extension')
+
+    const kdf = { name: 'webauthn-prf', credentialId: bytesToHex(new Uint8Array(credential.rawId)), salt: randomHex(32) } as const
+    return { key: await derivePasskeyKey(kdf), kdf }
+}
+
+// ─────────────── Encrypt / Decrypt ───────────────
+
+export async function encryptKeystore(privateKey: Hex, secret: KeystoreSecret): Promise<TreasuryKeystore> {
+    const iv = randomHex(12)
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: hexToBytes(iv) }, secret.key, hexToBytes(privateKey))
+    return {
+        version: 1,
+        address: privateKeyToAccount(privateKey).address,
+        kdf: secret.kdf,
+        cipher: { name: 'aes-256-gcm', iv, ciphertext: bytesToHex(new Uint8Array(ciphertext)) },
+        createdAt: Date.now(),
+    }
+}
+
+async function decryptWith(keystore: TreasuryKeystore, key: CryptoKey): Promise<Hex> {
+    let plaintext: ArrayBuffer
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: hexToBytes(keystore.cipher.iv) },
+            key,
+            hexToBytes(keystore.cipher.ciphertext)
+        )
+    } catch {
+        throw new KeystoreError('Wrong passphrase or passkey')
+    }
+    const privateKey = bytesToHex(new Uint8Array(plaintext))
+    if (privateKeyToAccount(privateKey).address.toLowerCase() !== keystore.address.toLowerCase()) {
+        throw new KeystoreError('Keystore address does not match its decrypted key')
+    }
+    return privateKey
+}
+
+/**
+ * Decrypt `keystore`. Passphrase keystores need `passphrase`; passkey
+ * keystores prompt for the passkey.
+ */
+export async function unlockKeystore(keystore: TreasuryKeystore, passphrase?: string): Promise<{ privateKey: Hex; secret: KeystoreSecret }> {
+    let key: CryptoKey
+    if (keystore.kdf.name === 'pbkdf2') {
+        if (!passphrase) throw new KeystoreError('Passphrase required')
+        key = await derivePassphraseKey(passphrase, keystore.kdf)
+    } else {
+        key = await derivePasskeyKey(keystore.kdf)
+    }
+    return { privateKey: await decryptWith(keystore, key), secret: { key, kdf: keystore.kdf } }
+}
+
+/**
+ * Decrypt with an already-derived secret (same KDF parameters).
+ */
+export function decryptKeystore(keystore: TreasuryKeystore, secret: KeystoreSecret): Promise<Hex> {
+    return decryptWith(keystore, secret.key)
+}
+
+// ─────────────── JSON / Storage ───────────────
+
+export function parseKeystore(json: string): TreasuryKeystore {
+    let raw: { version?: unknown; address?: unknown; kdf?: Record<string, unknown>; cipher?: Record<string, unknown> } | null
+    try {
+        raw = JSON.parse(json)
+    } catch {
+        throw new KeystoreError('Keystore is not valid JSON')
+    }
+    const kdf = raw?.kdf
+    const kdfOk = kdf?.name === 'pbkdf2'
+        ? kdf.hash === 'SHA-256' && Number.isInteger(kdf.iterations) && isHex(kdf.salt)
+        : kdf?.name === 'webauthn-prf' && isHex(kdf.credentialId) && isHex(kdf.salt)
+    if (raw?.version !== 1 || typeof raw.address !== 'string' || !isAddress(raw.address, { strict: false }) || !kdfOk ||
+        raw.cipher?.name !== 'aes-256-gcm' || !isHex(raw.cipher.iv) || !isHex(raw.cipher.ciphertext)) {
+        throw new KeystoreError('Unsupported keystore format')
+    }
+    return raw as TreasuryKeystore
+}
+
+export function serializeKeystore(keystore: TreasuryKeystore): string {
+    return JSON.stringify(keystore, null, 2)
+}
+
+function read(key: string): TreasuryKeystore | null {
+    const json = window.localStorage.getItem(key)
+    if (!json) return null
+    try {
+        return parseKeystore(json)
+    } catch (e) {
+        console.warn(`Ignoring unreadable keystore in ${key}:`, e)
+        return null
+    }
+}
+
+const listeners = new Set<() => void>()
+
+function write(key: string, value: string | null) {
+    if (value === null) window.localStorage.removeItem(key)
+    else window.localStorage.setItem(key, value)
+    listeners.forEach(listener => listener())
+}
+
+/**
+ * localStorage slots for the keystore. `subscribe`/`snapshot` follow the
+ * useSyncExternalStore contract (changes from other tabs included).
+ */
+export const keystoreStorage = {
+    load: () => read(STORAGE_KEY),
+    save: (keystore: TreasuryKeystore) => write(STORAGE_KEY, serializeKeystore(keystore)),
+    loadPending: () => read(PENDING_STORAGE_KEY),
+    savePending: (keystore: TreasuryKeystore) => write(PENDING_STORAGE_KEY, serializeKeystore(keystore)),
+    clearPending: () => write(PENDING_STORAGE_KEY, null),
+    loadLegacyKey: (): Hex | null => {
+        const key = window.localStorage.getItem(LEGACY_STORAGE_KEY)
+        return key && isHex(key) && key.length === 66 ? key : null
+    },
+    clearLegacyKey: () => write(LEGACY_STORAGE_KEY, null),
+    subscribe: (listener: () => void) => {
+        listeners.add(listener)
+        window.addEventListener('storage', listener)
+        return () => {
+            listeners.delete(listener)
+            window.removeEventListener('storage', listener)
+        }
+    },
+    snapshot: () => [STORAGE_KEY, PENDING_STORAGE_KEY, LEGACY_STORAGE_KEY]
+        .map(key => window.localStorage.getItem(key) ?? '').join('\n'),
+}
@@ -0,0 +1,40 @@
+/**
+ * Run Mode - whether a failed step may be papered over
+ *
+ * `demo` keeps the flow moving when a step fails (no funds, reverted tx, no
+ * Gemini key) by simulating it; `strict` stops the run in ERROR instead.
+ * In both modes every log line and receipt says whether it is real or simulated.
+ */
+
+export const RUN_MODES = ['strict', 'demo'] as const
+export type RunMode = typeof RUN_MODES[number]
+
+/** Whether a log line, API answer or receipt reflects something that actually happened */
+export type Provenance = 'real' | 'simulated'
+
+export function isRunMode(value: unknown): value is RunMode {
+    return typeof value === 'string' && (RUN_MODES as readonly string[]).includes(value)
+}
+
+/**
+ * The configured default (NEXT_PUBLIC_RUN_MODE, `demo` unless set).
+ */
+export function getRunMode(): RunMode {
+    const mode = process.env.NEXT_PUBLIC_RUN_MODE
+    return isRunMode(mode) ? mode : 'demo'
+}
+
+/**
+ * Mode requested by an API caller, falling back to the configured default.
+ */
+export function parseRunMode(value: unknown): RunMode {
+    return isRunMode(value) ? value : getRunMode()
+}
+
+/** A step failed in strict mode, where it would otherwise have been simulated. */
+export class StrictModeError extends Error {
+    constructor(public readonly step: string, public readonly reason: string) {
+        super(`${step} failed in strict mode: ${reason}`)
+        this.name = 'StrictModeError'
+    }
+}
@@ -0,0 +1,178 @@
+/**
+ * Session Store - agent runs that survive a reload
+ *
+ * Every 1v1 or battle run is a session, saved to IndexedDB under its session
+ * ID whenever its state, logs or bids change. Unfinished sessions are
+ * reconciled on load against the request they escrowed on-chain and can be
+ * resumed after their last completed step. Completed deals (receipts) live
+ * here too, so the history panel survives a reload.
+ *
+ * Nothing secret is stored: reveal secrets and burner keys stay in the
+ * encrypted commitment vault.
+ */
+import type { Address } from 'viem'
+import { openDatabase, request } from '@/lib/idb'
+import { isRequestExpired, type MarketplaceClient, type RequestStatus } from '@/lib/skale/marketplace-client'
+import type { WorkflowSnapshot } from '@/lib/workflow/machine'
+import type { AgentState } from '@/lib/workflow/lifecycle'
+import type { RunMode } from '@/lib/run-mode'
+
+// ─────────────── Types ───────────────
+
+export type SessionKind = '1v1' | 'battle'
+
+export interface AgentSession<C = unknown, L = unknown> {
+    id: string
+    kind: SessionKind
+    chainId: number
+    marketplace: Address
+    objective: string
+    runMode: RunMode
+    /** Item reference price (sFUEL) the run was started with, for the spending policy */
+    basePrice?: number
+    /** 1v1 persona prompt */
+    persona?: string
+    snapshot: WorkflowSnapshot<AgentState>
+    /** Steps finished so far, in run order */
+    completedSteps: string[]
+    /** Event-confirmed request, once one is escrowed */
+    requestId: bigint | null
+    /** The serializable part of the run context */
+    context: C
+    logs: L[]
+    /** Battle bids as last shown */
+    bids?: unknown[]
+    createdAt: number
+    updatedAt: number
+}
+
+export interface SessionReconciliation {
+    /** Status of the session's request on-chain; 'none' if it never escrowed one */
+    request: RequestStatus | 'missing' | 'none'
+    resumable: boolean
+    note: string
+}
+
+const DB_NAME = 'stealthbid-sessions'
+const DB_VERSION = 1
+const SESSION_STORE = 'sessions'
+const DEAL_STORE = 'deals'
+
+// ─────────────── IndexedDB ───────────────
+
+function openSessionDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, { [SESSION_STORE]: { keyPath: 'id' }, [DEAL_STORE]: { keyPath: 'id' } })
+}
+
+// ─────────────── Store ───────────────
+
+/**
+ * Values are stored by structured clone, so bigints and nested objects
+ * round-trip as-is; functions and clients must not be put in a session.
+ */
+export class SessionStore {
+    private constructor(private readonly db: IDBDatabase) { }
+
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined'
+    }
+
+    static async open(): Promise<SessionStore> {
+        if (!SessionStore.isSupported()) throw new Error('Session store needs IndexedDB')
+        return new SessionStore(await openSessionDatabase())
+    }
+
+    async save(session: AgentSession): Promise<void> {
+        await request(this.db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE)
+            .put({ ...session, updatedAt: Date.now() }))
+    }
+
+    async get(id: string): Promise<AgentSession | null> {
+        return (await request(this.db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id)) as AgentSession | undefined) ?? null
+    }
+
+    /**
+     * Sessions that did not complete, optionally for one chain, newest first.
+     */
+    async listUnfinished(chainId?: number): Promise<AgentSession[]> {
+        const all = await request(this.db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()) as AgentSession[]
+        return all
+            .filter(s => (chainId === undefined || s.chainId === chainId) && s.snapshot.state !== 'COMPLETED' && s.snapshot.state !== 'IDLE')
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+    }
+
+    async remove(id: string): Promise<void> {
+        await request(this.db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE).delete(id))
+    }
+
+    async saveDeal<T extends { id: string }>(deal: T): Promise<void> {
+        await request(this.db.transaction(DEAL_STORE, 'readwrite').objectStore(DEAL_STORE).put(deal))
+    }
+
+    /** Completed deals, newest first (by their ISO `timestamp`) */
+    async listDeals<T extends { id: string; timestamp: string }>(): Promise<T[]> {
+        const deals = await request(this.db.transaction(DEAL_STORE).objectStore(DEAL_STORE).getAll()) as T[]
+        return deals.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    }
+}
+
+/**
+ * Best-effort store access for the agent flows: without IndexedDB a run still
+ * works, it just cannot be resumed after a reload.
+ */
+export async function openSessionStore(onWarn?: (message: string) => void): Promise<SessionStore | null> {
+    try {
+        return await SessionStore.open()
+    } catch (e) {
+        onWarn?.(`⚠️ Session store unavailable (${e instanceof Error ? e.message : String(e)}). This run cannot be resumed after a reload.`)
+        return null
+    }
+}
+
+export function newSessionId(): string {
+    return crypto.randomUUID()
+}
+
+// ─────────────── Reconciliation ───────────────
+
+/**
+ * Compare a saved session with its request on-chain. A settled request means
+ * the run finished before the reload; a cancelled or unknown one cannot be
+ * resumed, and neither can one past its deadline. Battles need their agents'
+ * commitments on-chain to resume, since the agents' burner keys are gone after
+ * a reload.
+ */
+export async function reconcileSession(session: AgentSession, market: MarketplaceClient): Promise<SessionReconciliation> {
+    const after = session.completedSteps.at(-1)
+    const resumePoint = after ? `resumes after "${after}"` : 'restarts from the beginning'
+    if (session.requestId === null) {
+        if (session.kind === 'battle' && session.completedSteps.includes('fund')) {
+            return { request: 'none', resumable: false, note: 'No request was escrowed. Agent wallets from this battle cannot be recovered.' }
+        }
+        return { request: 'none', resumable: true, note: `Nothing escrowed yet; ${resumePoint}.` }
+    }
+
+    const onChain = await market.getRequest(session.requestId)
+    if (!onChain) return { request: 'missing', resumable: false, note: `Request #${session.requestId} not found on this chain.` }
+    switch (onChain.status) {
+        case 'settled':
+            return { request: 'settled', resumable: false, note: `Request #${session.requestId} was settled on-chain.` }
+        case 'cancelled':
+            return { request: 'cancelled', resumable: false, note: `Request #${session.requestId} was cancelled; escrow returned.` }
+    }
+    if (isRequestExpired(onChain)) {
+        return {
+            request: onChain.status,
+            resumable: false,
+            note: `Request #${session.requestId} passed its deadline and takes no more offers; its escrow is refunded automatically.`,
+        }
+    }
+    if (session.kind === 'battle' && !session.completedSteps.includes('commit')) {
+        return {
+            request: onChain.status,
+            resumable: false,
+            note: `Escrow locked on request #${session.requestId}, but the battle agents never committed their bids.`,
+        }
+    }
+    return { request: onChain.status, resumable: true, note: `Escrow locked on request #${session.requestId}; ${resumePoint}.` }
+}
@@ -0,0 +1,86 @@
+/**
+ * Shared plumbing for the /api/signer routes: caller authentication, error
+ * mapping and JSON shaping. Amounts are returned as decimal wei strings.
+ */
+import { createHmac } from 'node:crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { bearerToken, secretsMatch } from '@/lib/api-auth'
+import { jsonError } from '@/lib/indexer/api'
+import { SignerPolicyError, serializePolicy } from './policy'
+import { SignerRequestError } from './service'
+import { SignerConfigError, type AgentRecord, type SendRecord } from './store'
+
+// ─────────────── Authentication ───────────────
+
+export const SIGNER_SESSION_COOKIE = 'agent_signer_session'
+/** Dashboard sessions last a working day */
+export const SIGNER_SESSION_MAX_AGE_SECONDS = 12 * 60 * 60
+
+function signerApiToken(): string | undefined {
+    return process.env.SIGNER_API_TOKEN || undefined
+}
+
+/** Cookie value for a session: a MAC of the token, so the token itself never sits in the browser */
+export function signerSessionValue(token: string): string {
+    return createHmac('sha256', token).update(SIGNER_SESSION_COOKIE).digest('hex')
+}
+
+/**
+ * Whether `token` is the server's SIGNER_API_TOKEN. False when none is set.
+ */
+export function isSignerApiToken(token: unknown): boolean {
+    const expected = signerApiToken()
+    return !!expected && typeof token === 'string' && secretsMatch(token, expected)
+}
+
+/**
+ * Gate for every /api/signer route, checked before the signer is touched.
+ * Callers prove they hold SIGNER_API_TOKEN with `Authorization: Bearer`
+ * (scripts, CLI) or the session cookie set by /api/signer/session
+ * (dashboard). Answers 503 when no token is configured, so the API stays
+ * closed by default, and 401 otherwise; null means the caller may proceed.
+ */
+export function requireSignerAuth(req: NextRequest): NextResponse | null {
+    const token = signerApiToken()
+    if (!token) return jsonError(503, 'Agent signer API is disabled: set SIGNER_API_TOKEN on the server')
+
+    const bearer = bearerToken(req)
+    if (bearer && secretsMatch(bearer, token)) return null
+    const session = req.cookies.get(SIGNER_SESSION_COOKIE)?.value
+    if (session && secretsMatch(session, signerSessionValue(token))) return null
+    return jsonError(401, 'Agent signer API requires SIGNER_API_TOKEN (Bearer header or signer session)')
+}
+
+// ─────────────── Responses ───────────────
+
+/**
+ * Map signer errors to HTTP: 503 unconfigured, 403 policy, 4xx bad request, else 502.
+ */
+export function signerErrorResponse(error: unknown, label: string): NextResponse {
+    if (error instanceof SignerConfigError) return jsonError(503, error.message)
+    if (error instanceof SignerPolicyError) return jsonError(403, error.message)
+    if (error instanceof SignerRequestError) return jsonError(error.status, error.message)
+    console.error(`${label} Error:`, error)
+    return jsonError(502, `${label} failed: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+}
+
+export function serializeAgent(agent: AgentRecord) {
+    return {
+        id: agent.id,
+        role: agent.role,
+        address: agent.address,
+        policy: serializePolicy(agent.policy),
+        createdAt: agent.createdAt,
+    }
+}
+
+export function serializeSend(send: SendRecord) {
+    return {
+        chainId: send.chainId,
+        txHash: send.txHash,
+        functionName: send.functionName,
+        value: send.value.toString(),
+        encrypted: send.encrypted,
+        createdAt: send.createdAt,
+    }
+}
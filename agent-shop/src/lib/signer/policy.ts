@@ -0,0 +1,117 @@
+/**
+ * Signer Policy - what a custodial agent key may be used for
+ *
+ * Every sign-and-send request is decoded against the marketplace ABI and
+ * checked against the agent's policy before the key is touched: only listed
+ * marketplace functions, bounded value, token amount and gas, and a rate
+ * limit. Policies are stored per agent (seeded from its role) and serialized
+ * with amounts as decimal strings in the smallest unit.
+ */
+import type { ContractFunctionName } from 'viem'
+import { SERVICE_MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
+
+// ─────────────── Types ───────────────
+
+export type MarketplaceWriteFunction = ContractFunctionName<typeof SERVICE_MARKETPLACE_ABI, 'nonpayable' | 'payable'>
+
+export const AGENT_ROLES = ['provider', 'requester'] as const
+export type AgentRole = typeof AGENT_ROLES[number]
+
+export interface AgentPolicy {
+    allowedFunctions: MarketplaceWriteFunction[]
+    /** Native value attached to a single call, in wei */
+    maxValuePerTx: bigint
+    /** USDC approved or escrowed by a single call, in 6-decimal units */
+    maxTokenAmountPerTx: bigint
+    maxGasPerTx: bigint
+    maxTxPerHour: number
+}
+
+export interface SignerCall {
+    functionName: string
+    value: bigint
+    /** USDC amount the call approves or escrows, if it moves any */
+    tokenAmount?: bigint
+    gas: bigint
+}
+
+/** A request the policy refused; routes answer 403 with its message. */
+export class SignerPolicyError extends Error {
+    constructor(public readonly agentId: string, reason: string) {
+        super(`Policy for agent "${agentId}" denies this call: ${reason}`)
+        this.name = 'SignerPolicyError'
+    }
+}
+
+// ─────────────── Defaults ───────────────
+
+export const DEFAULT_POLICIES: Record<AgentRole, AgentPolicy> = {
+    // Providers bid; they never move value
+    provider: {
+        allowedFunctions: ['registerService', 'submitEncryptedOffer', 'revealOffer'],
+        maxValuePerTx: 0n,
+        maxTokenAmountPerTx: 0n,
+        maxGasPerTx: 1_000_000n,
+        maxTxPerHour: 60,
+    },
+    // Requesters escrow budgets and settle them
+    requester: {
+        allowedFunctions: ['createRequest', 'createTokenRequest', 'createTokenRequestWithPermit', 'settlePayment', 'rateService'],
+        maxValuePerTx: 50_000_000_000_000_000n, // 0.05 sFUEL
+        maxTokenAmountPerTx: 25_000_000n, // 25 USDC
+        maxGasPerTx: 1_000_000n,
+        maxTxPerHour: 30,
+    },
+}
+
+export function isAgentRole(role: unknown): role is AgentRole {
+    return typeof role === 'string' && (AGENT_ROLES as readonly string[]).includes(role)
+}
+
+// ─────────────── Checks ───────────────
+
+/**
+ * Throws SignerPolicyError unless `call` is allowed. `sentLastHour` is the
+ * agent's send count over the trailing hour.
+ */
+export function checkPolicy(agentId: string, policy: AgentPolicy, call: SignerCall, sentLastHour: number) {
+    if (!(policy.allowedFunctions as string[]).includes(call.functionName)) {
+        throw new SignerPolicyError(agentId, `${call.functionName} is not an allowed function`)
+    }
+    if (call.value > policy.maxValuePerTx) {
+        throw new SignerPolicyError(agentId, `value ${call.value} wei exceeds the ${policy.maxValuePerTx} wei per-tx limit`)
+    }
+    if (call.tokenAmount !== undefined && call.tokenAmount > policy.maxTokenAmountPerTx) {
+        throw new SignerPolicyError(agentId, `token amount ${call.tokenAmount} exceeds the ${policy.maxTokenAmountPerTx} per-tx limit`)
+    }
+    if (call.gas > policy.maxGasPerTx) {
+        throw new SignerPolicyError(agentId, `gas ${call.gas} exceeds the ${policy.maxGasPerTx} per-tx limit`)
+    }
+    if (sentLastHour >= policy.maxTxPerHour) {
+        throw new SignerPolicyError(agentId, `rate limit of ${policy.maxTxPerHour} tx/hour reached`)
+    }
+}
+
+// ─────────────── Serialization ───────────────
+
+export function serializePolicy(policy: AgentPolicy) {
+    return {
+        allowedFunctions: policy.allowedFunctions,
+        maxValuePerTx: policy.maxValuePerTx.toString(),
+        maxTokenAmountPerTx: policy.maxTokenAmountPerTx.toString(),
+        maxGasPerTx: policy.maxGasPerTx.toString(),
+        maxTxPerHour: policy.maxTxPerHour,
+    }
+}
+
+export type SerializedPolicy = ReturnType<typeof serializePolicy>
+
+export function parsePolicy(raw: SerializedPolicy): AgentPolicy {
+    return {
+        allowedFunctions: raw.allowedFunctions,
+        maxValuePerTx: BigInt(raw.maxValuePerTx),
+        maxTokenAmountPerTx: BigInt(raw.maxTokenAmountPerTx),
+        maxGasPerTx: BigInt(raw.maxGasPerTx),
+        maxTxPerHour: raw.maxTxPerHour,
+    }
+}
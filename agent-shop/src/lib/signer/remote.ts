@@ -0,0 +1,143 @@
+/**
+ * Remote Signer - browser/CLI side of the custodial agent signer
+ *
+ * `RemoteSigner.wallet()` is a regular viem wallet client for the agent's
+ * address whose `eth_sendTransaction` goes to /api/signer/agents/:id/send;
+ * every other RPC method goes to the network's nodes. It can be handed to
+ * MarketplaceClient.withWallet like any local wallet. The key never leaves
+ * the server.
+ *
+ * The signer API only answers authenticated callers: in the browser through
+ * the session cookie from /api/signer/session, elsewhere with
+ * SIGNER_API_TOKEN as a Bearer token.
+ */
+import { createWalletClient, custom, type Address, type Hash, type Hex } from 'viem'
+import { networkTransport, type NetworkProfile } from '@/config/networks'
+import type { MarketplaceWallet } from '@/lib/skale/marketplace-client'
+import type { AgentRole } from './policy'
+
+export interface RemoteSendParams {
+    to: Address
+    data: Hex
+    value?: bigint
+    gas?: bigint
+    gasPrice?: bigint
+    /** Have the signer BITE-encrypt the call before signing */
+    encrypt?: boolean
+}
+
+/** A failed signer API call. `status` 503 means the server has no signer configured, 401 that the caller is not signed in. */
+export class RemoteSignerError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message)
+        this.name = 'RemoteSignerError'
+    }
+}
+
+// Wallets built by RemoteSigner.wallet(), so callers can find the signer behind one
+const signersByWallet = new WeakMap<object, RemoteSigner>()
+
+async function callSigner<T>(url: string, token: string | undefined, init?: RequestInit): Promise<T> {
+    const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}), ...init?.headers },
+    })
+    const body = await res.json().catch(() => ({ error: `HTTP ${res.status}` }))
+    if (!res.ok || !body.success) throw new RemoteSignerError(res.status, body.error ?? `HTTP ${res.status}`)
+    return body as T
+}
+
+export class RemoteSigner {
+    readonly agentId: string
+    readonly role: AgentRole
+    readonly address: Address
+    readonly network: NetworkProfile
+    private readonly baseUrl: string
+    private readonly token?: string
+    private walletClient?: MarketplaceWallet
+
+    private constructor(agentId: string, role: AgentRole, address: Address, network: NetworkProfile, baseUrl: string, token?: string) {
+        this.agentId = agentId
+        this.role = role
+        this.address = address
+        this.network = network
+        this.baseUrl = baseUrl
+        this.token = token
+    }
+
+    /**
+     * Get (or create on first use) the agent `agentId`. `baseUrl` and
+     * `token` (SIGNER_API_TOKEN unless given) are only needed outside the
+     * browser, which authenticates with its session cookie instead.
+     */
+    static async connect(
+        agentId: string,
+        role: AgentRole,
+        network: NetworkProfile,
+        baseUrl = '',
+        token = process.env.SIGNER_API_TOKEN,
+    ): Promise<RemoteSigner> {
+        const { agent } = await callSigner<{ agent: { address: Address } }>(`${baseUrl}/api/signer/agents`, token, {
+            method: 'POST',
+            body: JSON.stringify({ id: agentId, role }),
+        })
+        return new RemoteSigner(agentId, role, agent.address, network, baseUrl, token)
+    }
+
+    /**
+     * The signer behind a wallet built by `wallet()`, if any.
+     */
+    static of(wallet: MarketplaceWallet | undefined): RemoteSigner | undefined {
+        return wallet ? signersByWallet.get(wallet) : undefined
+    }
+
+    /**
+     * Policy-checked sign-and-send. Resolves with the hash once broadcast.
+     */
+    async send(params: RemoteSendParams): Promise<Hash> {
+        const { hash } = await callSigner<{ hash: Hash }>(
+            `${this.baseUrl}/api/signer/agents/${encodeURIComponent(this.agentId)}/send`,
+            this.token,
+            {
+                method: 'POST',
+                body: JSON.stringify({
+                    network: this.network.id,
+                    to: params.to,
+                    data: params.data,
+                    value: params.value?.toString(),
+                    gas: params.gas?.toString(),
+                    gasPrice: params.gasPrice?.toString(),
+                    encrypt: params.encrypt,
+                }),
+            }
+        )
+        return hash
+    }
+
+    wallet(): MarketplaceWallet {
+        if (this.walletClient) return this.walletClient
+        const rpc = networkTransport(this.network)({ chain: this.network.chain })
+        const wallet = createWalletClient({
+            account: this.address,
+            chain: this.network.chain,
+            transport: custom({
+                request: async ({ method, params }) => {
+                    if (method === 'eth_accounts' || method === 'eth_requestAccounts') return [this.address]
+                    if (method !== 'eth_sendTransaction') return rpc.request({ method, params })
+                    const [tx] = params as [{ to?: Address; data?: Hex; value?: Hex; gas?: Hex; gasPrice?: Hex }]
+                    if (!tx.to || !tx.data) throw new RemoteSignerError(400, 'The agent signer only sends contract calls')
+                    return this.send({
+                        to: tx.to,
+                        data: tx.data,
+                        value: tx.value ? BigInt(tx.value) : undefined,
+                        gas: tx.gas ? BigInt(tx.gas) : undefined,
+                        gasPrice: tx.gasPrice ? BigInt(tx.gasPrice) : undefined,
+                    })
+                },
+            }),
+        })
+        signersByWallet.set(wallet, this)
+        this.walletClient = wallet
+        return wallet
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * Agent Signer - server-side sign-and-send for custodial agent wallets
+ *
+ * The only thing an agent key can do is call the marketplace of the chosen
+ * network: the calldata is decoded against the marketplace ABI and checked
+ * against the agent's policy, then signed and broadcast here. The one
+ * exception is approving the marketplace to pull the network's USDC, which
+ * a requester allowed to open token requests needs to fund them. For sealed
+ * offers the plain call is BITE-encrypted server-side, so the policy check
+ * always sees the real function rather than ciphertext.
+ *
+ * Server-only: keys come from the SignerStore.
+ */
+import {
+    createPublicClient,
+    createWalletClient,
+    decodeFunctionData,
+    type Address,
+    type Hash,
+    type Hex,
+} from 'viem'
+import { networkTransport, type NetworkProfile } from '@/config/networks'
+import { BiteService } from '@/lib/bite-service'
+import { SERVICE_MARKETPLACE_ABI } from '@/lib/skale/marketplace-abi'
+import { ERC20_ABI } from '@/lib/skale/erc20-abi'
+import { DEFAULT_POLICIES, SignerPolicyError, checkPolicy, type AgentRole } from './policy'
+import { SignerStore, defaultSignerDbPath, signerMasterKey, type AgentRecord } from './store'
+
+// ─────────────── Types ───────────────
+
+export interface SignAndSendRequest {
+    agentId: string
+    network: NetworkProfile
+    to: Address
+    data: Hex
+    value?: bigint
+    gas?: bigint
+    gasPrice?: bigint
+    /** BITE-encrypt the call before signing (BITE networks only) */
+    encrypt?: boolean
+}
+
+export interface SignAndSendResult {
+    hash: Hash
+    functionName: string
+    encrypted: boolean
+}
+
+/** A malformed or conflicting signer request; routes answer with `status`. */
+export class SignerRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message)
+        this.name = 'SignerRequestError'
+    }
+}
+
+const DEFAULT_GAS = 500000n
+const RATE_WINDOW_MS = 60 * 60 * 1000
+const AGENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/
+const DEFAULT_MAX_AGENTS = 100
+
+// ─────────────── Signer ───────────────
+
+export class AgentSigner {
+    readonly store: SignerStore
+    // Sends are serialized per agent so concurrent requests never race for a nonce
+    private readonly queues = new Map<string, Promise<unknown>>()
+
+    constructor(store: SignerStore) {
+        this.store = store
+    }
+
+    /**
+     * Get an agent, creating it with its role's default policy on first use.
+     * An existing ID must keep its role.
+     */
+    ensureAgent(id: string, role: AgentRole): AgentRecord {
+        if (!AGENT_ID_PATTERN.test(id)) {
+            throw new SignerRequestError(400, 'Agent IDs are 1-64 lowercase letters, digits or dashes')
+        }
+        const existing = this.store.getAgent(id)
+        if (existing) {
+            if (existing.role !== role) throw new SignerRequestError(409, `Agent "${id}" exists with role ${existing.role}`)
+            return existing
+        }
+        const maxAgents = Number(process.env.SIGNER_MAX_AGENTS) || DEFAULT_MAX_AGENTS
+        if (this.store.countAgents() >= maxAgents) {
+            throw new SignerRequestError(429, `Agent limit (${maxAgents}) reached`)
+        }
+        const agent = this.store.createAgent(id, role, DEFAULT_POLICIES[role])
+        console.log(`🔑 Signer: created ${role} agent "${id}" (${agent.address})`)
+        return agent
+    }
+
+    /**
+     * Check `req` against the agent's policy, then sign and broadcast it.
+     * Resolves with the tx hash once the node accepted it (not mined).
+     */
+    async signAndSend(req: SignAndSendRequest): Promise<SignAndSendResult> {
+        const previous = this.queues.get(req.agentId) ?? Promise.resolve()
+        const next = previous.catch(() => { }).then(() => this.send(req))
+        this.queues.set(req.agentId, next)
+        try {
+            return await next
+        } finally {
+            if (this.queues.get(req.agentId) === next) this.queues.delete(req.agentId)
+        }
+    }
+
+    private async send(req: SignAndSendRequest): Promise<SignAndSendResult> {
+        const { agentId, network } = req
+        const agent = this.store.getAgent(agentId)
+        if (!agent) throw new SignerRequestError(404, `Unknown agent "${agentId}"`)
+
+        const { functionName, policyFunction, tokenAmount } = decodeAllowedCall(agentId, network, req.to, req.data)
+        const value = req.value ?? 0n
+        const gas = req.gas ?? DEFAULT_GAS
+        checkPolicy(agentId, agent.policy, { functionName: policyFunction, value, tokenAmount, gas }, this.store.countSendsSince(agentId, Date.now() - RATE_WINDOW_MS))
+
+        let tx = { to: req.to, data: req.data }
+        if (req.encrypt) {
+            if (!network.bite) throw new SignerRequestError(400, `${network.label} has no BITE committee`)
+            tx = await BiteService.encryptTransaction({ ...tx, gasLimit: `0x${gas.toString(16)}` }, network)
+        }
+
+        const transport = networkTransport(network)
+        const publicClient = createPublicClient({ chain: network.chain, transport })
+        const wallet = createWalletClient({ account: this.store.loadAccount(agentId), chain: network.chain, transport })
+        const hash = await wallet.sendTransaction({
+            to: tx.to,
+            data: tx.data,
+            value,
+            gas,
+            gasPrice: req.gasPrice ?? await publicClient.getGasPrice(),
+            type: 'legacy',
+        })
+
+        this.store.recordSend({
+            agentId,
+            chainId: network.chain.id,
+            txHash: hash,
+            functionName,
+            value,
+            encrypted: !!req.encrypt,
+            createdAt: Date.now(),
+        })
+        console.log(`✍️ Signer: ${agentId} → ${functionName}${req.encrypt ? ' (BITE)' : ''} ${hash}`)
+        return { hash, functionName, encrypted: !!req.encrypt }
+    }
+}
+
+/**
+ * The function `data` calls, the marketplace function the policy checks it
+ * as, and the USDC amount it moves: a USDC `approve` of the marketplace is
+ * only good for funding token requests, so it needs `createTokenRequest`.
+ * Token requests may only escrow the network's USDC.
+ */
+function decodeAllowedCall(agentId: string, network: NetworkProfile, to: Address, data: Hex): { functionName: string; policyFunction: string; tokenAmount?: bigint } {
+    if (to.toLowerCase() === network.usdcAddress.toLowerCase()) {
+        let call
+        try {
+            call = decodeFunctionData({ abi: ERC20_ABI, data })
+        } catch {
+            throw new SignerPolicyError(agentId, 'calldata is not a USDC call')
+        }
+        if (call.functionName !== 'approve' || call.args[0].toLowerCase() !== network.marketplaceAddress.toLowerCase()) {
+            throw new SignerPolicyError(agentId, `USDC ${call.functionName} is only allowed as an approve of the ${network.label} marketplace`)
+        }
+        return { functionName: 'approve', policyFunction: 'createTokenRequest', tokenAmount: call.args[1] }
+    }
+    if (to.toLowerCase() !== network.marketplaceAddress.toLowerCase()) {
+        throw new SignerPolicyError(agentId, `target ${to} is not the ${network.label} marketplace`)
+    }
+    let call
+    try {
+        call = decodeFunctionData({ abi: SERVICE_MARKETPLACE_ABI, data })
+    } catch {
+        throw new SignerPolicyError(agentId, 'calldata is not a marketplace call')
+    }
+    if (call.functionName === 'createTokenRequest' || call.functionName === 'createTokenRequestWithPermit') {
+        const [, , token, amount] = call.args
+        if (token.toLowerCase() !== network.usdcAddress.toLowerCase()) {
+            throw new SignerPolicyError(agentId, `token requests may only escrow ${network.label} USDC, not ${token}`)
+        }
+        return { functionName: call.functionName, policyFunction: call.functionName, tokenAmount: amount }
+    }
+    return { functionName: call.functionName, policyFunction: call.functionName }
+}
+
+// One signer (and key database handle) for the lifetime of the server process
+let instance: AgentSigner | null = null
+
+/**
+ * The process-wide signer. Throws SignerConfigError when SIGNER_MASTER_KEY is unset.
+ */
+export function getAgentSigner(): AgentSigner {
+    if (!instance) instance = new AgentSigner(SignerStore.open(defaultSignerDbPath(), signerMasterKey()))
+    return instance
+}
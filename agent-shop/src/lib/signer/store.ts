@@ -0,0 +1,234 @@
+/**
+ * Signer Store - SQLite persistence for custodial agent keys
+ *
+ * Agent private keys are stored AES-256-GCM encrypted under SIGNER_MASTER_KEY
+ * (32 bytes, hex), with the agent ID as associated data so a ciphertext
+ * cannot be moved to another row. Every broadcast is appended to `sends`,
+ * which doubles as the audit log and the rate-limit window.
+ *
+ * Server-only: better-sqlite3 and node:crypto.
+ */
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import type { Address, Hash, Hex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { parsePolicy, serializePolicy, type AgentPolicy, type AgentRole } from './policy'
+
+// ─────────────── Types ───────────────
+
+export interface AgentRecord {
+    id: string
+    role: AgentRole
+    address: Address
+    policy: AgentPolicy
+    createdAt: number
+}
+
+export interface SendRecord {
+    agentId: string
+    chainId: number
+    txHash: Hash
+    functionName: string
+    value: bigint
+    /** Sent BITE-encrypted */
+    encrypted: boolean
+    createdAt: number
+}
+
+/** SIGNER_MASTER_KEY is missing or malformed; routes answer 503. */
+export class SignerConfigError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SignerConfigError'
+    }
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS agents (
+        id             TEXT PRIMARY KEY,
+        role           TEXT NOT NULL,
+        address        TEXT NOT NULL,
+        key_iv         TEXT NOT NULL,
+        key_ciphertext TEXT NOT NULL,
+        policy         TEXT NOT NULL,
+        created_at     INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sends (
+        id            INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id      TEXT NOT NULL REFERENCES agents(id),
+        chain_id      INTEGER NOT NULL,
+        tx_hash       TEXT NOT NULL,
+        function_name TEXT NOT NULL,
+        value         TEXT NOT NULL,
+        encrypted     INTEGER NOT NULL,
+        created_at    INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sends_agent_time ON sends (agent_id, created_at);
+`
+
+interface AgentRow {
+    id: string
+    role: AgentRole
+    address: Address
+    key_iv: string
+    key_ciphertext: string
+    policy: string
+    created_at: number
+}
+
+interface SendRow {
+    agent_id: string
+    chain_id: number
+    tx_hash: Hash
+    function_name: string
+    value: string
+    encrypted: number
+    created_at: number
+}
+
+export function defaultSignerDbPath(): string {
+    return process.env.SIGNER_DB_PATH || path.join(process.cwd(), 'data', 'signer.db')
+}
+
+/**
+ * The 32-byte master key from SIGNER_MASTER_KEY. Throws SignerConfigError when unset.
+ */
+export function signerMasterKey(): Buffer {
+    const hex = process.env.SIGNER_MASTER_KEY?.replace(/^0x/, '')
+    if (!hex) throw new SignerConfigError('Signer not configured: set SIGNER_MASTER_KEY (32 bytes, hex)')
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) throw new SignerConfigError('SIGNER_MASTER_KEY must be 32 bytes of hex')
+    return Buffer.from(hex, 'hex')
+}
+
+// ─────────────── Store ───────────────
+
+export class SignerStore {
+    readonly db: Database.Database
+    private readonly masterKey: Buffer
+
+    private constructor(db: Database.Database, masterKey: Buffer) {
+        this.db = db
+        this.masterKey = masterKey
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    /**
+     * Open (or create) the key database. Parent directories are created as needed.
+     */
+    static open(file: string, masterKey: Buffer): SignerStore {
+        if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true })
+        return new SignerStore(new Database(file), masterKey)
+    }
+
+    close() {
+        this.db.close()
+    }
+
+    // ─────────────── Agents ───────────────
+
+    getAgent(id: string): AgentRecord | null {
+        const row = this.db.prepare('SELECT * FROM agents WHERE id = ?').get(id) as AgentRow | undefined
+        return row ? toAgent(row) : null
+    }
+
+    listAgents(): AgentRecord[] {
+        const rows = this.db.prepare('SELECT * FROM agents ORDER BY created_at').all() as AgentRow[]
+        return rows.map(toAgent)
+    }
+
+    countAgents(): number {
+        return (this.db.prepare('SELECT COUNT(*) AS n FROM agents').get() as { n: number }).n
+    }
+
+    /**
+     * Store a new agent with a freshly generated key (or `privateKey` when
+     * importing one). Fails if the ID is taken.
+     */
+    createAgent(id: string, role: AgentRole, policy: AgentPolicy, privateKey: Hex = generatePrivateKey()): AgentRecord {
+        const iv = crypto.randomBytes(12)
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv)
+        cipher.setAAD(Buffer.from(id))
+        const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final(), cipher.getAuthTag()])
+        const row: AgentRow = {
+            id,
+            role,
+            address: privateKeyToAccount(privateKey).address,
+            key_iv: iv.toString('hex'),
+            key_ciphertext: ciphertext.toString('hex'),
+            policy: JSON.stringify(serializePolicy(policy)),
+            created_at: Date.now(),
+        }
+        this.db.prepare(`
+            INSERT INTO agents (id, role, address, key_iv, key_ciphertext, policy, created_at)
+            VALUES (@id, @role, @address, @key_iv, @key_ciphertext, @policy, @created_at)
+        `).run(row)
+        return toAgent(row)
+    }
+
+    setPolicy(id: string, policy: AgentPolicy) {
+        this.db.prepare('UPDATE agents SET policy = ? WHERE id = ?').run(JSON.stringify(serializePolicy(policy)), id)
+    }
+
+    /**
+     * Decrypt an agent's key into a signing account. Keep the result scoped to
+     * one request; it is never cached.
+     */
+    loadAccount(id: string): PrivateKeyAccount {
+        const row = this.db.prepare('SELECT * FROM agents WHERE id = ?').get(id) as AgentRow | undefined
+        if (!row) throw new Error(`Unknown agent "${id}"`)
+        const data = Buffer.from(row.key_ciphertext, 'hex')
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, Buffer.from(row.key_iv, 'hex'))
+        decipher.setAAD(Buffer.from(id))
+        decipher.setAuthTag(data.subarray(data.length - 16))
+        let key: Buffer
+        try {
+            key = Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()])
+        } catch {
+            throw new SignerConfigError(`Cannot decrypt key of agent "${id}": SIGNER_MASTER_KEY changed?`)
+        }
+        const account = privateKeyToAccount(`0x${key.toString('hex')}`)
+        if (account.address !== row.address) throw new Error(`Key of agent "${id}" does not match its address`)
+        return account
+    }
+
+    // ─────────────── Sends ───────────────
+
+    recordSend(send: SendRecord) {
+        this.db.prepare(`
+            INSERT INTO sends (agent_id, chain_id, tx_hash, function_name, value, encrypted, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(send.agentId, send.chainId, send.txHash, send.functionName, send.value.toString(), send.encrypted ? 1 : 0, send.createdAt)
+    }
+
+    countSendsSince(agentId: string, since: number): number {
+        return (this.db.prepare('SELECT COUNT(*) AS n FROM sends WHERE agent_id = ? AND created_at >= ?')
+            .get(agentId, since) as { n: number }).n
+    }
+
+    recentSends(agentId: string, limit: number): SendRecord[] {
+        const rows = this.db.prepare('SELECT * FROM sends WHERE agent_id = ? ORDER BY created_at DESC LIMIT ?')
+            .all(agentId, limit) as SendRow[]
+        return rows.map(r => ({
+            agentId: r.agent_id,
+            chainId: r.chain_id,
+            txHash: r.tx_hash,
+            functionName: r.function_name,
+            value: BigInt(r.value),
+            encrypted: r.encrypted === 1,
+            createdAt: r.created_at,
+        }))
+    }
+}
+
+function toAgent(row: AgentRow): AgentRecord {
+    return {
+        id: row.id,
+        role: row.role,
+        address: row.address,
+        policy: parsePolicy(JSON.parse(row.policy)),
+        createdAt: row.created_at,
+    }
+}
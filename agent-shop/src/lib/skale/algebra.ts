@@ -1,11 +1,21 @@
-import { parseEther, type Address } from 'viem'
+/**
+ * Algebra Swaps - hedging sFUEL budgets into USDC on the Algebra DEX
+ *
+ * Contracts come from the network profile (`algebra`: router, quoter,
+ * WNATIVE, pool); a network without them cannot swap. Every swap is quoted
+ * on-chain first (the quoter, or the pool's spot price minus its fee) and
+ * sent with `amountOutMinimum` = quote less the slippage tolerance, so a
+ * moved price reverts the swap instead of filling it badly. Native sFUEL is
+ * wrapped into WNATIVE first and the router approved only when its
+ * allowance is short. A dry run stops after the quote.
+ */
+import { parseEventLogs, type Address, type Hash, type PublicClient } from 'viem'
+import type { AlgebraDeployment, NetworkProfile } from '@/config/networks'
+import { ERC20_ABI } from './erc20-abi'
+import type { MarketplaceTxOptions, MarketplaceWallet } from './marketplace-client'
+import { ensureAllowance } from './token-escrow'
 
-// ─────────────── Constants ───────────────
-
-// ⚠️ PLACEHOLDERS - To be verified by User/Wispy
-export const ALGEBRA_ROUTER_ADDRESS = '0x0000000000000000000000000000000000000000' as Address
-export const WETH_ADDRESS = '0x0000000000000000000000000000000000000000' as Address
-export const USDC_ADDRESS = (process.env.NEXT_PUBLIC_USDC_ADDRESS || '0xc4083B1E81ceb461Ccef3FDa8A9F24F0d764B6D8') as Address
+// ─────────────── ABIs ───────────────
 
 export const ALGEBRA_ROUTER_ABI = [
     {
@@ -31,25 +41,258 @@ export const ALGEBRA_ROUTER_ABI = [
     },
 ] as const
 
-export const ERC20_ABI = [
+export const ALGEBRA_QUOTER_ABI = [
     {
-        name: 'approve',
+        name: 'quoteExactInputSingle',
         type: 'function',
+        // Non-view: the quoter simulates the swap and reverts; call it with eth_call only
         stateMutability: 'nonpayable',
         inputs: [
-            { name: 'spender', type: 'address' },
-            { name: 'amount', type: 'uint256' },
+            { type: 'address', name: 'tokenIn' },
+            { type: 'address', name: 'tokenOut' },
+            { type: 'uint256', name: 'amountIn' },
+            { type: 'uint160', name: 'limitSqrtPrice' },
+        ],
+        outputs: [
+            { type: 'uint256', name: 'amountOut' },
+            { type: 'uint16', name: 'fee' },
         ],
-        outputs: [{ name: '', type: 'bool' }],
     },
+] as const
+
+/** The leading `globalState` fields, which every Algebra pool version shares */
+export const ALGEBRA_POOL_ABI = [
     {
-        name: 'allowance',
+        name: 'globalState',
         type: 'function',
         stateMutability: 'view',
-        inputs: [
-            { name: 'owner', type: 'address' },
-            { name: 'spender', type: 'address' },
+        inputs: [],
+        outputs: [
+            { type: 'uint160', name: 'price' },
+            { type: 'int24', name: 'tick' },
+            { type: 'uint16', name: 'fee' },
         ],
-        outputs: [{ name: '', type: 'uint256' }],
     },
+    { name: 'token0', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'address', name: '' }] },
+    { name: 'token1', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'address', name: '' }] },
+] as const
+
+export const WNATIVE_ABI = [
+    { name: 'deposit', type: 'function', stateMutability: 'payable', inputs: [], outputs: [] },
 ] as const
+
+// ─────────────── Settings ───────────────
+
+export const DEFAULT_SLIPPAGE_BPS = 50
+/** Refuse tolerances that would make the minimum meaningless */
+export const MAX_SLIPPAGE_BPS = 1_000
+const SWAP_DEADLINE_SECONDS = 20n * 60n
+const FEE_DENOMINATOR = 1_000_000n
+const Q192 = 2n ** 192n
+
+/** No Algebra deployment, no liquidity, or a tolerance out of range */
+export class SwapError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SwapError'
+    }
+}
+
+/**
+ * Slippage tolerance in basis points (NEXT_PUBLIC_SWAP_SLIPPAGE_BPS, 50 = 0.5% unless set).
+ */
+export function getSlippageBps(): number {
+    const raw = process.env.NEXT_PUBLIC_SWAP_SLIPPAGE_BPS
+    const bps = raw ? Number(raw) : DEFAULT_SLIPPAGE_BPS
+    return Number.isInteger(bps) && bps >= 0 && bps <= MAX_SLIPPAGE_BPS ? bps : DEFAULT_SLIPPAGE_BPS
+}
+
+/**
+ * Whether swaps only quote (NEXT_PUBLIC_SWAP_DRY_RUN=true).
+ */
+export function isSwapDryRun(): boolean {
+    return process.env.NEXT_PUBLIC_SWAP_DRY_RUN === 'true'
+}
+
+/**
+ * The network's Algebra contracts. Throws SwapError when none are configured.
+ */
+export function algebraFor(network: NetworkProfile): AlgebraDeployment {
+    if (!network.algebra) {
+        throw new SwapError(`No Algebra deployment configured for ${network.label} (router and WNATIVE addresses)`)
+    }
+    return network.algebra
+}
+
+/** `amount` less `slippageBps` */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+        throw new SwapError(`Slippage must be 0-${MAX_SLIPPAGE_BPS} bps, got ${slippageBps}`)
+    }
+    return amount * BigInt(10_000 - slippageBps) / 10_000n
+}
+
+// ─────────────── Quotes ───────────────
+
+export interface SwapQuote {
+    tokenIn: Address
+    tokenOut: Address
+    amountIn: bigint
+    /** Expected output at the current price */
+    amountOut: bigint
+    /** What the swap accepts at worst: `amountOut` less the slippage tolerance */
+    amountOutMinimum: bigint
+    slippageBps: number
+    /** Pool fee in millionths, when known */
+    fee?: number
+    source: 'quoter' | 'pool'
+}
+
+/**
+ * Quote `amountIn` of `tokenIn` → `tokenOut` on-chain: through the quoter
+ * when configured (exact, includes price impact), else from the pool's
+ * spot price less its fee (ignores price impact; keep hedges small).
+ */
+export async function quoteExactInput(
+    publicClient: PublicClient,
+    algebra: AlgebraDeployment,
+    params: { tokenIn: Address; tokenOut: Address; amountIn: bigint; slippageBps?: number },
+): Promise<SwapQuote> {
+    const { tokenIn, tokenOut, amountIn } = params
+    const slippageBps = params.slippageBps ?? getSlippageBps()
+    let amountOut: bigint
+    let fee: number | undefined
+    let source: SwapQuote['source']
+
+    if (algebra.quoter) {
+        const { result } = await publicClient.simulateContract({
+            address: algebra.quoter,
+            abi: ALGEBRA_QUOTER_ABI,
+            functionName: 'quoteExactInputSingle',
+            args: [tokenIn, tokenOut, amountIn, 0n],
+        })
+        ;[amountOut, fee] = result
+        source = 'quoter'
+    } else if (algebra.pool) {
+        const [[price, , poolFee], token0, token1] = await Promise.all([
+            publicClient.readContract({ address: algebra.pool, abi: ALGEBRA_POOL_ABI, functionName: 'globalState' }),
+            publicClient.readContract({ address: algebra.pool, abi: ALGEBRA_POOL_ABI, functionName: 'token0' }),
+            publicClient.readContract({ address: algebra.pool, abi: ALGEBRA_POOL_ABI, functionName: 'token1' }),
+        ])
+        const pair = [token0.toLowerCase(), token1.toLowerCase()]
+        if (!pair.includes(tokenIn.toLowerCase()) || !pair.includes(tokenOut.toLowerCase())) {
+            throw new SwapError(`Pool ${algebra.pool} does not trade ${tokenIn} for ${tokenOut}`)
+        }
+        if (price === 0n) throw new SwapError(`Pool ${algebra.pool} is not initialized`)
+        // price is sqrt(token1/token0) in Q64.96
+        const afterFee = amountIn * (FEE_DENOMINATOR - BigInt(poolFee)) / FEE_DENOMINATOR
+        amountOut = tokenIn.toLowerCase() === pair[0]
+            ? afterFee * price * price / Q192
+            : afterFee * Q192 / (price * price)
+        fee = poolFee
+        source = 'pool'
+    } else {
+        throw new SwapError('Quoting needs an Algebra quoter or pool address')
+    }
+
+    if (amountOut === 0n) throw new SwapError(`No liquidity for ${amountIn} of ${tokenIn}`)
+    return { tokenIn, tokenOut, amountIn, amountOut, amountOutMinimum: applySlippage(amountOut, slippageBps), slippageBps, fee, source }
+}
+
+// ─────────────── Swaps ───────────────
+
+export interface SwapParams {
+    /** 'native' wraps sFUEL into WNATIVE first */
+    tokenIn: Address | 'native'
+    tokenOut: Address
+    amountIn: bigint
+    slippageBps?: number
+    /** Quote only; nothing is sent */
+    dryRun?: boolean
+    /** Receives the output; the wallet's own address by default */
+    recipient?: Address
+    options?: MarketplaceTxOptions
+}
+
+export interface SwapResult {
+    quote: SwapQuote
+    dryRun: boolean
+    wrapHash?: Hash
+    approvalHash?: Hash
+    swapHash?: Hash
+    /** Output actually received, from the swap's Transfer logs */
+    amountOut?: bigint
+}
+
+function txParams(wallet: MarketplaceWallet, options: MarketplaceTxOptions = {}) {
+    return {
+        account: wallet.account,
+        chain: wallet.chain,
+        gas: options.gas,
+        ...(options.gasPrice !== undefined ? { gasPrice: options.gasPrice, type: 'legacy' as const } : {}),
+    }
+}
+
+async function confirm(publicClient: PublicClient, hash: Hash, label: string) {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new SwapError(`${label} ${hash} reverted on-chain`)
+    return receipt
+}
+
+/**
+ * Swap exactly `amountIn` through the network's Algebra router with
+ * slippage protection: quote, wrap (native input), approve if needed, swap.
+ * Each transaction is awaited before the next, so nonces come from the chain.
+ */
+export async function swapExactInput(
+    wallet: MarketplaceWallet,
+    publicClient: PublicClient,
+    network: NetworkProfile,
+    params: SwapParams,
+): Promise<SwapResult> {
+    const algebra = algebraFor(network)
+    const native = params.tokenIn === 'native'
+    const tokenIn = native ? algebra.wnative : params.tokenIn as Address
+    const recipient = params.recipient ?? wallet.account.address
+
+    const quote = await quoteExactInput(publicClient, algebra, {
+        tokenIn, tokenOut: params.tokenOut, amountIn: params.amountIn, slippageBps: params.slippageBps,
+    })
+    if (params.dryRun) return { quote, dryRun: true }
+
+    const result: SwapResult = { quote, dryRun: false }
+    if (native) {
+        result.wrapHash = await wallet.writeContract({
+            ...txParams(wallet, params.options),
+            address: algebra.wnative,
+            abi: WNATIVE_ABI,
+            functionName: 'deposit',
+            value: params.amountIn,
+        })
+        await confirm(publicClient, result.wrapHash, 'Wrap')
+    }
+    result.approvalHash = await ensureAllowance(wallet, publicClient, tokenIn, algebra.router, params.amountIn, params.options) ?? undefined
+
+    const block = await publicClient.getBlock()
+    result.swapHash = await wallet.writeContract({
+        ...txParams(wallet, params.options),
+        address: algebra.router,
+        abi: ALGEBRA_ROUTER_ABI,
+        functionName: 'exactInputSingle',
+        args: [{
+            tokenIn,
+            tokenOut: params.tokenOut,
+            recipient,
+            // From chain time, so a skewed local clock cannot expire the swap early
+            deadline: block.timestamp + SWAP_DEADLINE_SECONDS,
+            amountIn: params.amountIn,
+            amountOutMinimum: quote.amountOutMinimum,
+            limitSqrtPrice: 0n,
+        }],
+    })
+    const receipt = await confirm(publicClient, result.swapHash, 'Swap')
+    result.amountOut = parseEventLogs({ abi: ERC20_ABI, eventName: 'Transfer', logs: receipt.logs })
+        .filter(log => log.address.toLowerCase() === params.tokenOut.toLowerCase() && log.args.to.toLowerCase() === recipient.toLowerCase())
+        .reduce((sum, log) => sum + log.args.value, 0n)
+    return result
+}
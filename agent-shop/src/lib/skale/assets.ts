@@ -0,0 +1,68 @@
+/**
+ * Settlement Assets - what a request's budget is denominated in
+ *
+ * Requests escrow either native sFUEL or USDC. Amounts travel as bigints in
+ * the asset's smallest unit (wei, or 6-decimal USDC units); an asset says how
+ * to parse and print them, and receipts record it so a price is never read
+ * with the wrong decimals.
+ */
+import { formatUnits, parseUnits, zeroAddress, type Address } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+
+export const SETTLEMENT_CURRENCIES = ['sFUEL', 'USDC'] as const
+export type SettlementCurrency = typeof SETTLEMENT_CURRENCIES[number]
+
+export interface SettlementAsset {
+    symbol: SettlementCurrency
+    /** ERC-20 contract; the zero address for native sFUEL */
+    address: Address
+    decimals: number
+}
+
+export const USDC_DECIMALS = 6
+
+export const CURRENCY_DECIMALS: Record<SettlementCurrency, number> = { sFUEL: 18, USDC: USDC_DECIMALS }
+
+/** Native sFUEL; the same on every network */
+export const NATIVE_ASSET: SettlementAsset = { symbol: 'sFUEL', address: zeroAddress, decimals: CURRENCY_DECIMALS.sFUEL }
+
+export function isSettlementCurrency(value: unknown): value is SettlementCurrency {
+    return typeof value === 'string' && (SETTLEMENT_CURRENCIES as readonly string[]).includes(value)
+}
+
+/**
+ * The configured currency (NEXT_PUBLIC_SETTLEMENT_CURRENCY, `sFUEL` unless set).
+ */
+export function getSettlementCurrency(): SettlementCurrency {
+    const currency = process.env.NEXT_PUBLIC_SETTLEMENT_CURRENCY
+    return isSettlementCurrency(currency) ? currency : 'sFUEL'
+}
+
+export function settlementAsset(network: NetworkProfile, currency: SettlementCurrency = getSettlementCurrency()): SettlementAsset {
+    return currency === 'USDC'
+        ? { symbol: 'USDC', address: network.usdcAddress, decimals: USDC_DECIMALS }
+        : NATIVE_ASSET
+}
+
+/**
+ * The asset of an on-chain request's `token`. Null for a token this app does not know.
+ */
+export function assetOfToken(network: NetworkProfile, token: Address): SettlementAsset | null {
+    if (token === zeroAddress) return settlementAsset(network, 'sFUEL')
+    if (token.toLowerCase() === network.usdcAddress.toLowerCase()) return settlementAsset(network, 'USDC')
+    return null
+}
+
+export function isNativeAsset(asset: SettlementAsset): boolean {
+    return asset.address === zeroAddress
+}
+
+/** Decimal string (e.g. a Gemini budget) to the asset's smallest unit */
+export function parseAssetAmount(amount: string, asset: SettlementAsset): bigint {
+    return parseUnits(amount, asset.decimals)
+}
+
+/** e.g. `0.05 USDC` */
+export function formatAssetAmount(amount: bigint, asset: SettlementAsset): string {
+    return `${formatUnits(amount, asset.decimals)} ${asset.symbol}`
+}
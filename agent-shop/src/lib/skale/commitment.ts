@@ -0,0 +1,96 @@
+/**
+ * Offer Commitments - sealed-bid hashes shared by every flow
+ *
+ * A commitment is keccak256(price, salt) where the salt is 256 bits from the
+ * platform CSPRNG, so a revealed-price guess cannot be brute-forced against the
+ * public offerHash. Optionally the hash also binds the request ID and provider
+ * address (keccak256(price, salt, requestId, provider)), so a commitment copied
+ * onto another offer never verifies. Both forms are accepted by
+ * `ServiceMarketplace.revealOffer`; binding is opt-in because older deployments
+ * only check the unbound form.
+ */
+import { bytesToBigInt, encodePacked, keccak256, type Address, type Hex } from 'viem'
+
+export interface CommitmentBinding {
+    requestId: bigint
+    provider: Address
+}
+
+export interface OfferCommitment {
+    price: bigint
+    /** 256-bit salt, passed to `revealOffer` as `_nonce` */
+    nonce: bigint
+    hash: Hex
+    binding?: CommitmentBinding
+}
+
+/**
+ * Whether new commitments bind requestId + provider. Requires a marketplace
+ * deployment whose `revealOffer` accepts the bound form.
+ */
+export function commitmentBindingEnabled(): boolean {
+    return process.env.NEXT_PUBLIC_BIND_COMMITMENTS === 'true'
+}
+
+/**
+ * 32 bytes from the CSPRNG (Web Crypto; also available as a global in Node 20).
+ */
+export function generateSalt(): bigint {
+    return bytesToBigInt(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+export function computeOfferHash(price: bigint, nonce: bigint, binding?: CommitmentBinding): Hex {
+    return binding
+        ? keccak256(encodePacked(['uint256', 'uint256', 'uint256', 'address'], [price, nonce, binding.requestId, binding.provider]))
+        : keccak256(encodePacked(['uint256', 'uint256'], [price, nonce]))
+}
+
+/**
+ * Fresh commitment to `price`. Pass `binding` to tie it to one request and
+ * provider; it is used only when binding is enabled (or `bind` forces it).
+ */
+export function createOfferCommitment(
+    price: bigint,
+    binding?: CommitmentBinding,
+    bind = commitmentBindingEnabled()
+): OfferCommitment {
+    if (price < 0n) throw new Error('Offer price must be non-negative')
+    const nonce = generateSalt()
+    const bound = bind ? binding : undefined
+    return { price, nonce, hash: computeOfferHash(price, nonce, bound), binding: bound }
+}
+
+/**
+ * Does (price, nonce[, binding]) open `hash`? Checks the bound form when a
+ * binding is given, the plain form otherwise.
+ */
+export function verifyOfferCommitment(hash: Hex, commitment: Omit<OfferCommitment, 'hash'>): boolean {
+    return computeOfferHash(commitment.price, commitment.nonce, commitment.binding).toLowerCase() === hash.toLowerCase()
+}
+
+/**
+ * Check before committing that the hash about to be sent is the one the
+ * secrets open, and that a binding (if any) names the request and signer.
+ */
+export function assertCommitReady(commitment: OfferCommitment, requestId: bigint, provider: Address) {
+    if (!verifyOfferCommitment(commitment.hash, commitment)) {
+        throw new Error('Offer commitment does not match its price and nonce')
+    }
+    if (commitment.binding && (
+        commitment.binding.requestId !== requestId ||
+        commitment.binding.provider.toLowerCase() !== provider.toLowerCase()
+    )) {
+        throw new Error(`Offer commitment is bound to request ${commitment.binding.requestId}, not ${requestId}`)
+    }
+}
+
+/**
+ * Check before revealing that the on-chain offerHash opens with these secrets,
+ * so a mismatch fails locally instead of as a reverted tx.
+ */
+export function assertRevealMatches(onChainHash: Hex | undefined, commitment: Omit<OfferCommitment, 'hash'>) {
+    if (!onChainHash) throw new Error('No committed offer found on-chain to reveal')
+    if (!verifyOfferCommitment(onChainHash, commitment)) {
+        throw new Error(`Reveal would not match on-chain commitment ${onChainHash.slice(0, 10)}...`)
+    }
+}
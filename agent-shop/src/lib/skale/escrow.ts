@@ -0,0 +1,76 @@
+/**
+ * Escrow Release - getting a request's budget back when its run is abandoned
+ *
+ * `createRequest` locks the budget in the marketplace until the request is
+ * settled. The requester can cancel an open request at any time; once its
+ * deadline passes anyone can refund it. Either way the whole budget goes back
+ * to the requester, in the token it was escrowed in.
+ */
+import type { Address, Hash } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+import { assetOfToken, formatAssetAmount } from './assets'
+import { isRequestExpired, type MarketplaceClient, type MarketplaceTxOptions } from './marketplace-client'
+
+export type EscrowRelease =
+    /** `refund` is in units of `token` (the zero address for sFUEL) */
+    | { outcome: 'refunded'; hash: Hash; refund: bigint; expired: boolean; token: Address }
+    /** Nothing left to release */
+    | { outcome: 'closed'; status: 'settled' | 'cancelled' | 'missing' }
+    /** Still open, and this signer may not release it yet */
+    | { outcome: 'locked'; deadline: bigint; reason: string }
+
+export interface ReleaseEscrowOptions extends MarketplaceTxOptions {
+    /** Only refund past the deadline, even when the signer is the requester (background sweeps) */
+    expiredOnly?: boolean
+}
+
+/**
+ * Release the escrow of `requestId` with `market`'s signer: `refundExpired`
+ * past the deadline, else `cancelRequest` if the signer is the requester.
+ * Waits for the transaction and reads the refund from its RequestCancelled event.
+ */
+export async function releaseEscrow(market: MarketplaceClient, requestId: bigint, options: ReleaseEscrowOptions = {}): Promise<EscrowRelease> {
+    const { expiredOnly = false, ...txOptions } = options
+    const signer = market.walletClient?.account.address
+    if (!signer) throw new Error('releaseEscrow: a wallet client is required')
+
+    const request = await market.getRequest(requestId)
+    if (!request) return { outcome: 'closed', status: 'missing' }
+    if (request.status === 'settled' || request.status === 'cancelled') return { outcome: 'closed', status: request.status }
+
+    const expired = isRequestExpired(request)
+    const isRequester = request.requester.toLowerCase() === signer.toLowerCase()
+    if (!expired && (expiredOnly || !isRequester)) {
+        const until = new Date(Number(request.deadline) * 1000).toLocaleTimeString()
+        return {
+            outcome: 'locked',
+            deadline: request.deadline,
+            reason: isRequester ? `refundable after its deadline (${until})` : `only the requester can cancel before ${until}`,
+        }
+    }
+
+    const hash = expired
+        ? await market.refundExpired(requestId, txOptions)
+        : await market.cancelRequest(requestId, txOptions)
+    const receipt = await market.waitForSuccess(hash)
+    return { outcome: 'refunded', hash, token: request.token, ...market.getCancellation(receipt, requestId) }
+}
+
+/**
+ * One log line for a release, in the agent flows' log style.
+ */
+export function describeEscrowRelease(requestId: bigint, release: EscrowRelease, network: NetworkProfile): string {
+    switch (release.outcome) {
+        case 'refunded': {
+            const asset = assetOfToken(network, release.token)
+            const amount = asset ? formatAssetAmount(release.refund, asset) : `${release.refund} units of ${release.token}`
+            return `↩️ Request #${requestId} ${release.expired ? 'expired' : 'cancelled'}: ${amount} escrow refunded to the requester.`
+        }
+        case 'closed':
+            return release.status === 'missing'
+                ? `⚠️ Request #${requestId} not found on-chain; no escrow to refund.`
+                : `ℹ️ Request #${requestId} is already ${release.status}; no escrow to refund.`
+        case 'locked':
+            return `🔒 Escrow stays locked on request #${requestId}: ${release.reason}.`
+    }
+}
@@ -1,5 +1,7 @@
-// ABI for ServiceMarketplace contract (auto-generated from Foundry build output)
-// Only includes the functions we call from the frontend agent engine.
+// Canonical ABI for contracts/ServiceMarketplace.sol.
+// This is the ONLY copy in the codebase: hooks, routes and scripts must import it
+// (or go through MarketplaceClient) instead of declaring their own fragments.
+// Public struct getters return fields in Solidity declaration order.
 
 export const SERVICE_MARKETPLACE_ABI = [
     // Service Registry
@@ -26,7 +28,68 @@ export const SERVICE_MARKETPLACE_ABI = [
         outputs: [{ name: "requestId", type: "uint256" }],
         stateMutability: "payable",
     },
-    // BITE Commit-Reveal
+    // ERC-20 (USDC) escrow
+    {
+        type: "function",
+        name: "createTokenRequest",
+        inputs: [
+            { name: "_serviceId", type: "uint256" },
+            { name: "_objective", type: "string" },
+            { name: "_token", type: "address" },
+            { name: "_amount", type: "uint256" },
+        ],
+        outputs: [{ name: "requestId", type: "uint256" }],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "createTokenRequestWithPermit",
+        inputs: [
+            { name: "_serviceId", type: "uint256" },
+            { name: "_objective", type: "string" },
+            { name: "_token", type: "address" },
+            { name: "_amount", type: "uint256" },
+            { name: "_permitDeadline", type: "uint256" },
+            { name: "_v", type: "uint8" },
+            { name: "_r", type: "bytes32" },
+            { name: "_s", type: "bytes32" },
+        ],
+        outputs: [{ name: "requestId", type: "uint256" }],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "requestTokens",
+        inputs: [{ name: "", type: "uint256" }],
+        outputs: [{ name: "", type: "address" }],
+        stateMutability: "view",
+    },
+    // Escrow refunds
+    {
+        type: "function",
+        name: "cancelRequest",
+        inputs: [{ name: "_requestId", type: "uint256" }],
+        outputs: [],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "refundExpired",
+        inputs: [{ name: "_requestId", type: "uint256" }],
+        outputs: [],
+        stateMutability: "nonpayable",
+    },
+    {
+        type: "function",
+        name: "rateService",
+        inputs: [
+            { name: "_serviceId", type: "uint256" },
+            { name: "_rating", type: "uint8" },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable",
+    },
+    // BITE Phase I: Commit-Reveal
     {
         type: "function",
         name: "submitEncryptedOffer",
@@ -48,6 +111,17 @@ export const SERVICE_MARKETPLACE_ABI = [
         outputs: [],
         stateMutability: "nonpayable",
     },
+    // BITE Phase II: Conditional Transactions
+    {
+        type: "function",
+        name: "submitCTXOffer",
+        inputs: [
+            { name: "_requestId", type: "uint256" },
+            { name: "_encryptedPrice", type: "bytes" },
+        ],
+        outputs: [],
+        stateMutability: "payable",
+    },
     // x402 Payment Settlement
     {
         type: "function",
@@ -62,14 +136,14 @@ export const SERVICE_MARKETPLACE_ABI = [
     // View
     {
         type: "function",
-        name: "getRequestBidders",
-        inputs: [{ name: "_requestId", type: "uint256" }],
-        outputs: [{ name: "", type: "address[]" }],
+        name: "nextServiceId",
+        inputs: [],
+        outputs: [{ name: "", type: "uint256" }],
         stateMutability: "view",
     },
     {
         type: "function",
-        name: "nextServiceId",
+        name: "nextRequestId",
         inputs: [],
         outputs: [{ name: "", type: "uint256" }],
         stateMutability: "view",
@@ -79,24 +153,83 @@ export const SERVICE_MARKETPLACE_ABI = [
         name: "services",
         inputs: [{ name: "", type: "uint256" }],
         outputs: [
-            { name: "id", type: "uint256" },
             { name: "provider", type: "address" },
-            { name: "name", type: "bytes32" },
-            { name: "description", type: "bytes32" },
+            { name: "active", type: "bool" },
+            { name: "uptime", type: "uint8" },
+            { name: "rating", type: "uint8" },
+            { name: "name", type: "string" },
+            { name: "description", type: "string" },
             { name: "pricePerUnit", type: "uint256" },
-            { name: "uptime", type: "uint256" },
-            { name: "rating", type: "uint256" },
-            { name: "isRegistered", type: "bool" },
+            { name: "ratingCount", type: "uint256" },
         ],
         stateMutability: "view",
     },
     {
         type: "function",
-        name: "nextRequestId",
+        name: "requests",
+        inputs: [{ name: "", type: "uint256" }],
+        outputs: [
+            { name: "requester", type: "address" },
+            { name: "serviceId", type: "uint256" },
+            { name: "objective", type: "string" },
+            { name: "budget", type: "uint256" },
+            { name: "status", type: "uint8" },
+        ],
+        stateMutability: "view",
+    },
+    {
+        type: "function",
+        name: "requestDeadlines",
+        inputs: [{ name: "", type: "uint256" }],
+        outputs: [{ name: "", type: "uint256" }],
+        stateMutability: "view",
+    },
+    {
+        type: "function",
+        name: "REQUEST_TTL",
         inputs: [],
         outputs: [{ name: "", type: "uint256" }],
         stateMutability: "view",
     },
+    {
+        type: "function",
+        name: "getRequestBidders",
+        inputs: [{ name: "_requestId", type: "uint256" }],
+        outputs: [{ name: "", type: "address[]" }],
+        stateMutability: "view",
+    },
+    {
+        type: "function",
+        name: "getOffer",
+        inputs: [
+            { name: "_requestId", type: "uint256" },
+            { name: "_provider", type: "address" },
+        ],
+        outputs: [
+            {
+                name: "",
+                type: "tuple",
+                components: [
+                    { name: "provider", type: "address" },
+                    { name: "offerHash", type: "bytes32" },
+                    { name: "revealedPrice", type: "uint256" },
+                    { name: "revealed", type: "bool" },
+                    { name: "accepted", type: "bool" },
+                ],
+            },
+        ],
+        stateMutability: "view",
+    },
+    {
+        type: "function",
+        name: "getCTXInfo",
+        inputs: [{ name: "_callbackSender", type: "address" }],
+        outputs: [
+            { name: "requestId", type: "uint256" },
+            { name: "provider", type: "address" },
+        ],
+        stateMutability: "view",
+    },
     // Events
     {
         type: "event",
@@ -146,4 +279,50 @@ export const SERVICE_MARKETPLACE_ABI = [
             { name: "protocol", type: "string", indexed: false },
         ],
     },
+    {
+        type: "event",
+        name: "RequestCancelled",
+        inputs: [
+            { name: "requestId", type: "uint256", indexed: true },
+            { name: "requester", type: "address", indexed: true },
+            { name: "refund", type: "uint256", indexed: false },
+            { name: "expired", type: "bool", indexed: false },
+        ],
+    },
+    {
+        type: "event",
+        name: "RequestTokenEscrowed",
+        inputs: [
+            { name: "requestId", type: "uint256", indexed: true },
+            { name: "token", type: "address", indexed: true },
+            { name: "amount", type: "uint256", indexed: false },
+        ],
+    },
+    {
+        type: "event",
+        name: "ServiceRated",
+        inputs: [
+            { name: "serviceId", type: "uint256", indexed: true },
+            { name: "rater", type: "address", indexed: true },
+            { name: "rating", type: "uint8", indexed: false },
+        ],
+    },
+    {
+        type: "event",
+        name: "CTXOfferSubmitted",
+        inputs: [
+            { name: "requestId", type: "uint256", indexed: true },
+            { name: "provider", type: "address", indexed: true },
+            { name: "callbackSender", type: "address", indexed: false },
+        ],
+    },
+    {
+        type: "event",
+        name: "CTXOfferDecrypted",
+        inputs: [
+            { name: "requestId", type: "uint256", indexed: true },
+            { name: "provider", type: "address", indexed: true },
+            { name: "decryptedPrice", type: "uint256", indexed: false },
+        ],
+    },
 ] as const;
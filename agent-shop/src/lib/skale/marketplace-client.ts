@@ -0,0 +1,489 @@
+/**
+ * MarketplaceClient - Typed access to ServiceMarketplace.sol
+ *
+ * Wraps the canonical ABI so callers work with named objects instead of
+ * positional tuples (`svc[7]`), and so every read/write goes through the same
+ * decoding path. Reads need only a public client; writes need a wallet client
+ * with an attached account.
+ */
+import {
+    createPublicClient,
+    parseEventLogs,
+    type Account,
+    type Address,
+    type Chain,
+    type Hash,
+    type Hex,
+    type Log,
+    type PublicClient,
+    type TransactionReceipt,
+    type Transport,
+    type WalletClient,
+} from 'viem'
+import { networkTransport, type NetworkProfile } from '@/config/networks'
+import { SERVICE_MARKETPLACE_ABI } from './marketplace-abi'
+
+// ─────────────── Types ───────────────
+
+export type MarketplaceWallet = WalletClient<Transport, Chain, Account>
+
+export interface MarketplaceService {
+    id: bigint
+    provider: Address
+    active: boolean
+    uptime: number
+    rating: number
+    name: string
+    description: string
+    pricePerUnit: bigint
+    ratingCount: bigint
+}
+
+// Mirrors `enum RequestStatus { Open, Matched, Settled, Cancelled }`
+export const REQUEST_STATUSES = ['open', 'matched', 'settled', 'cancelled'] as const
+export type RequestStatus = typeof REQUEST_STATUSES[number]
+
+export interface MarketplaceRequest {
+    id: bigint
+    requester: Address
+    serviceId: bigint
+    objective: string
+    budget: bigint
+    status: RequestStatus
+    /** Unix seconds after which anyone may refund the escrow while the request is open */
+    deadline: bigint
+    /** ERC-20 the budget is escrowed in; the zero address for native sFUEL */
+    token: Address
+}
+
+/** EIP-2612 permit signature letting the marketplace pull a token budget */
+export interface TokenPermit {
+    deadline: bigint
+    v: number
+    r: Hex
+    s: Hex
+}
+
+export interface MarketplaceOffer {
+    provider: Address
+    offerHash: Hex
+    revealedPrice: bigint
+    revealed: boolean
+    accepted: boolean
+}
+
+export interface RegisterServiceParams {
+    name: string
+    description: string
+    pricePerUnit: bigint
+    /** Percentage, 0-100 */
+    uptime: number
+    /** 0-50 (50 = 5.0 stars) */
+    rating: number
+}
+
+/** Per-call overrides. SKALE needs legacy txs with an explicit gas limit. */
+export interface MarketplaceTxOptions {
+    gas?: bigint
+    gasPrice?: bigint
+    nonce?: number
+}
+
+export type MarketplaceEvent = ReturnType<typeof parseEventLogs<typeof SERVICE_MARKETPLACE_ABI>>[number]
+export type MarketplaceEventName = MarketplaceEvent['eventName']
+
+/**
+ * Raised when a receipt does not contain the event a write was expected to emit.
+ * Callers must treat this as fatal: guessing the ID instead can bind a
+ * follow-up call to another user's service or request.
+ */
+export class MarketplaceEventError extends Error {
+    constructor(public readonly eventName: MarketplaceEventName, public readonly txHash: Hash) {
+        super(`Expected ${eventName} event in transaction ${txHash} but none was emitted by the marketplace`)
+        this.name = 'MarketplaceEventError'
+    }
+}
+
+export interface MarketplaceClientConfig {
+    address: Address
+    publicClient: PublicClient
+    walletClient?: MarketplaceWallet
+    txDefaults?: MarketplaceTxOptions
+    /** Multicall3 address for batched reads; omit to fan out individual calls. */
+    multicallAddress?: Address
+}
+
+// ─────────────── Client ───────────────
+
+export class MarketplaceClient {
+    readonly address: Address
+    readonly publicClient: PublicClient
+    readonly walletClient?: MarketplaceWallet
+    readonly multicallAddress?: Address
+    private readonly txDefaults: MarketplaceTxOptions
+
+    constructor({ address, publicClient, walletClient, txDefaults = {}, multicallAddress }: MarketplaceClientConfig) {
+        this.address = address
+        this.publicClient = publicClient
+        this.walletClient = walletClient
+        this.txDefaults = txDefaults
+        this.multicallAddress = multicallAddress
+    }
+
+    /**
+     * Build a read-only client (plus optional signer) for a network profile.
+     */
+    static forNetwork(network: NetworkProfile, walletClient?: MarketplaceWallet, txDefaults?: MarketplaceTxOptions) {
+        const publicClient = createPublicClient({ chain: network.chain, transport: networkTransport(network, { batch: true }) })
+        return new MarketplaceClient({
+            address: network.marketplaceAddress,
+            publicClient,
+            walletClient,
+            txDefaults,
+            multicallAddress: network.multicallAddress,
+        })
+    }
+
+    /**
+     * Same contract and read client, different signer.
+     */
+    withWallet(walletClient: MarketplaceWallet, txDefaults: MarketplaceTxOptions = this.txDefaults) {
+        return new MarketplaceClient({
+            address: this.address,
+            publicClient: this.publicClient,
+            walletClient,
+            txDefaults,
+            multicallAddress: this.multicallAddress,
+        })
+    }
+
+    // ─────────────── Reads ───────────────
+
+    async nextServiceId(): Promise<bigint> {
+        return this.publicClient.readContract({
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'nextServiceId',
+        })
+    }
+
+    async nextRequestId(): Promise<bigint> {
+        return this.publicClient.readContract({
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'nextRequestId',
+        })
+    }
+
+    /**
+     * Read one service. Returns null for IDs that were never registered.
+     */
+    async getService(id: bigint): Promise<MarketplaceService | null> {
+        const result = await this.publicClient.readContract({
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'services',
+            args: [id],
+        })
+        return toService(id, result)
+    }
+
+    /**
+     * Read a contiguous ID range (newest first). Defaults to every registered service.
+     * Unregistered IDs and failed reads are skipped. Uses Multicall3 when
+     * configured, otherwise one call per ID (batched by the transport).
+     */
+    async listServices(options: { fromId?: bigint; toId?: bigint; activeOnly?: boolean } = {}): Promise<MarketplaceService[]> {
+        const fromId = options.fromId ?? 0n
+        const toId = options.toId ?? await this.nextServiceId()
+        const ids: bigint[] = []
+        for (let id = toId - 1n; id >= fromId; id--) ids.push(id)
+
+        let results: (MarketplaceService | null)[]
+        if (this.multicallAddress) {
+            const calls = await this.publicClient.multicall({
+                multicallAddress: this.multicallAddress,
+                allowFailure: true,
+                contracts: ids.map(id => ({
+                    address: this.address,
+                    abi: SERVICE_MARKETPLACE_ABI,
+                    functionName: 'services',
+                    args: [id],
+                } as const)),
+            })
+            results = calls.map((call, i) => call.status === 'success' ? toService(ids[i], call.result) : null)
+        } else {
+            results = await Promise.all(ids.map(id => this.getService(id).catch(() => null)))
+        }
+        return results.filter((svc): svc is MarketplaceService =>
+            !!svc && (!options.activeOnly || svc.active))
+    }
+
+    async getRequest(id: bigint): Promise<MarketplaceRequest | null> {
+        const [[requester, serviceId, objective, budget, status], deadline, token] = await Promise.all([
+            this.publicClient.readContract({
+                address: this.address,
+                abi: SERVICE_MARKETPLACE_ABI,
+                functionName: 'requests',
+                args: [id],
+            }),
+            this.publicClient.readContract({
+                address: this.address,
+                abi: SERVICE_MARKETPLACE_ABI,
+                functionName: 'requestDeadlines',
+                args: [id],
+            }),
+            this.publicClient.readContract({
+                address: this.address,
+                abi: SERVICE_MARKETPLACE_ABI,
+                functionName: 'requestTokens',
+                args: [id],
+            }),
+        ])
+        if (requester === '0x0000000000000000000000000000000000000000') return null
+        return { id, requester, serviceId, objective, budget, status: REQUEST_STATUSES[status] ?? 'open', deadline, token }
+    }
+
+    async getOffer(requestId: bigint, provider: Address): Promise<MarketplaceOffer | null> {
+        const offer = await this.publicClient.readContract({
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'getOffer',
+            args: [requestId, provider],
+        })
+        return offer.provider === '0x0000000000000000000000000000000000000000' ? null : { ...offer }
+    }
+
+    async getRequestBidders(requestId: bigint): Promise<readonly Address[]> {
+        return this.publicClient.readContract({
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'getRequestBidders',
+            args: [requestId],
+        })
+    }
+
+    // ─────────────── Writes ───────────────
+
+    async registerService(params: RegisterServiceParams, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'registerService',
+            args: [params.name, params.description, params.pricePerUnit, params.uptime, params.rating],
+        })
+    }
+
+    /**
+     * Post a request, escrowing `budget` (native token) in the contract.
+     */
+    async createRequest(serviceId: bigint, objective: string, budget: bigint, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'createRequest',
+            args: [serviceId, objective],
+            value: budget,
+        })
+    }
+
+    /**
+     * Post a request, escrowing `amount` of an ERC-20 `token`. The marketplace
+     * pulls the budget with `transferFrom`: either approve it beforehand or pass
+     * an EIP-2612 `permit` to approve it in the same transaction.
+     */
+    async createTokenRequest(serviceId: bigint, objective: string, token: Address, amount: bigint, permit?: TokenPermit, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        if (permit) {
+            return wallet.writeContract({
+                ...this.txParams(wallet, options),
+                address: this.address,
+                abi: SERVICE_MARKETPLACE_ABI,
+                functionName: 'createTokenRequestWithPermit',
+                args: [serviceId, objective, token, amount, permit.deadline, permit.v, permit.r, permit.s],
+            })
+        }
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'createTokenRequest',
+            args: [serviceId, objective, token, amount],
+        })
+    }
+
+    /**
+     * Cancel an open request and refund its whole budget. Requester only.
+     */
+    async cancelRequest(requestId: bigint, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'cancelRequest',
+            args: [requestId],
+        })
+    }
+
+    /**
+     * Refund an open request past its deadline to its requester. Any signer may call this.
+     */
+    async refundExpired(requestId: bigint, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'refundExpired',
+            args: [requestId],
+        })
+    }
+
+    async submitEncryptedOffer(requestId: bigint, offerHash: Hex, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'submitEncryptedOffer',
+            args: [requestId, offerHash],
+        })
+    }
+
+    async revealOffer(requestId: bigint, price: bigint, nonce: bigint, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'revealOffer',
+            args: [requestId, price, nonce],
+        })
+    }
+
+    async settlePayment(requestId: bigint, provider: Address, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.writeContract({
+            ...this.txParams(wallet, options),
+            address: this.address,
+            abi: SERVICE_MARKETPLACE_ABI,
+            functionName: 'settlePayment',
+            args: [requestId, provider],
+        })
+    }
+
+    /**
+     * Send a pre-built (e.g. BITE-encrypted) transaction with this client's
+     * signer and tx defaults. `to`/`data` are passed through untouched.
+     */
+    async sendEncryptedTransaction(tx: { to: Address; data: Hex }, options?: MarketplaceTxOptions): Promise<Hash> {
+        const wallet = this.requireWallet()
+        return wallet.sendTransaction({
+            ...this.txParams(wallet, options),
+            to: tx.to,
+            data: tx.data,
+        })
+    }
+
+    /**
+     * Wait for a receipt and throw if the transaction reverted.
+     */
+    async waitForSuccess(hash: Hash) {
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+        if (receipt.status !== 'success') {
+            throw new Error(`Transaction ${hash} reverted on-chain (block #${receipt.blockNumber})`)
+        }
+        return receipt
+    }
+
+    // ─────────────── Events ───────────────
+
+    /**
+     * Decode every marketplace event in `logs`, ignoring logs from other contracts.
+     */
+    decodeEvents(logs: Log[]): MarketplaceEvent[] {
+        const ours = logs.filter(l => l.address.toLowerCase() === this.address.toLowerCase())
+        return parseEventLogs({ abi: SERVICE_MARKETPLACE_ABI, logs: ours })
+    }
+
+    /**
+     * First event named `eventName` in the receipt that satisfies `match`.
+     * Throws MarketplaceEventError when there is none.
+     */
+    findEvent<N extends MarketplaceEventName>(
+        receipt: TransactionReceipt,
+        eventName: N,
+        match: (event: Extract<MarketplaceEvent, { eventName: N }>) => boolean = () => true
+    ): Extract<MarketplaceEvent, { eventName: N }> {
+        const event = this.decodeEvents(receipt.logs)
+            .filter((e): e is Extract<MarketplaceEvent, { eventName: N }> => e.eventName === eventName)
+            .find(match)
+        if (!event) throw new MarketplaceEventError(eventName, receipt.transactionHash)
+        return event
+    }
+
+    /**
+     * Service ID from a `registerService` receipt, optionally checking the provider.
+     */
+    getRegisteredServiceId(receipt: TransactionReceipt, provider?: Address): bigint {
+        return this.findEvent(receipt, 'ServiceRegistered', e =>
+            !provider || e.args.provider.toLowerCase() === provider.toLowerCase()
+        ).args.serviceId
+    }
+
+    /**
+     * Request ID from a `createRequest` receipt, optionally checking the requester.
+     */
+    getCreatedRequestId(receipt: TransactionReceipt, requester?: Address): bigint {
+        return this.findEvent(receipt, 'ServiceRequestCreated', e =>
+            !requester || e.args.requester.toLowerCase() === requester.toLowerCase()
+        ).args.requestId
+    }
+
+    /**
+     * Refund recorded by a `cancelRequest` / `refundExpired` receipt.
+     */
+    getCancellation(receipt: TransactionReceipt, requestId: bigint): { refund: bigint; expired: boolean } {
+        const { refund, expired } = this.findEvent(receipt, 'RequestCancelled', e => e.args.requestId === requestId).args
+        return { refund, expired }
+    }
+
+    // ─────────────── Internals ───────────────
+
+    private requireWallet(): MarketplaceWallet {
+        if (!this.walletClient) {
+            throw new Error('MarketplaceClient: a wallet client is required for write calls')
+        }
+        return this.walletClient
+    }
+
+    private txParams(wallet: MarketplaceWallet, options: MarketplaceTxOptions = {}) {
+        const { gas, gasPrice, nonce } = { ...this.txDefaults, ...options }
+        return {
+            account: wallet.account,
+            chain: wallet.chain,
+            gas,
+            nonce,
+            ...(gasPrice !== undefined ? { gasPrice, type: 'legacy' as const } : {}),
+        }
+    }
+}
+
+/**
+ * Whether an open request's deadline has passed, so anyone may refund it.
+ */
+export function isRequestExpired(request: MarketplaceRequest, nowSeconds = BigInt(Math.floor(Date.now() / 1000))): boolean {
+    return request.status === 'open' && request.deadline > 0n && nowSeconds > request.deadline
+}
+
+type ServiceTuple = readonly [Address, boolean, number, number, string, string, bigint, bigint]
+
+function toService(id: bigint, [provider, active, uptime, rating, name, description, pricePerUnit, ratingCount]: ServiceTuple): MarketplaceService | null {
+    if (provider === '0x0000000000000000000000000000000000000000') return null
+    return { id, provider, active, uptime, rating, name, description, pricePerUnit, ratingCount }
+}
@@ -0,0 +1,164 @@
+/**
+ * Sealed Offers - BITE-encrypted commit phase
+ *
+ * On BITE networks the `submitEncryptedOffer` call itself is threshold-encrypted:
+ * validators see only ciphertext sent to the BITE magic address until the block
+ * is final, so neither the request being bid on nor the commitment leaks to the
+ * mempool. After finality the decrypted payload is read back with
+ * `getDecryptedData` and checked against what we signed.
+ *
+ * The plain hash-commit (`keccak256(price, nonce)` sent in the clear) is kept
+ * as an explicit mode: used on networks without a BITE committee, when
+ * NEXT_PUBLIC_OFFER_PRIVACY=hash-commit, or — only with
+ * NEXT_PUBLIC_BITE_FALLBACK=true — when encryption fails. Every downgrade is logged.
+ */
+import { encodeFunctionData, type Hash, type Hex } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+import { BiteService } from '@/lib/bite-service'
+import { RemoteSigner } from '@/lib/signer/remote'
+import { SERVICE_MARKETPLACE_ABI } from './marketplace-abi'
+import type { MarketplaceClient, MarketplaceTxOptions } from './marketplace-client'
+
+export type OfferPrivacyMode = 'bite' | 'hash-commit'
+
+export interface OfferPrivacy {
+    mode: OfferPrivacyMode
+    /** Downgrade to hash-commit if BITE encryption fails instead of erroring */
+    allowFallback: boolean
+    /** Why hash-commit was chosen up front, if it was */
+    reason?: string
+}
+
+export interface SealedOfferCommit {
+    mode: OfferPrivacyMode
+    txHash: Hash
+    /** Set when BITE was expected but the offer went out as a plain hash-commit */
+    fallbackReason?: string
+}
+
+const BITE_GAS_LIMIT = 500000n
+const DECRYPT_POLL_ATTEMPTS = 5
+const DECRYPT_POLL_MS = 1500
+
+/**
+ * Commit-phase privacy for `network`, from the profile and env overrides.
+ */
+export function resolveOfferPrivacy(network: NetworkProfile): OfferPrivacy {
+    const allowFallback = process.env.NEXT_PUBLIC_BITE_FALLBACK === 'true'
+    if (process.env.NEXT_PUBLIC_OFFER_PRIVACY === 'hash-commit') {
+        return { mode: 'hash-commit', allowFallback, reason: 'NEXT_PUBLIC_OFFER_PRIVACY=hash-commit' }
+    }
+    if (!network.bite) {
+        return { mode: 'hash-commit', allowFallback, reason: `${network.label} has no BITE committee` }
+    }
+    return { mode: 'bite', allowFallback }
+}
+
+/**
+ * Submit `offerHash` for `requestId` using `market`'s signer, encrypted with BITE
+ * when the network supports it. Resolves once the commitment is on-chain and,
+ * for BITE, once the decrypted payload has been verified.
+ */
+export async function commitSealedOffer(params: {
+    market: MarketplaceClient
+    network: NetworkProfile
+    requestId: bigint
+    offerHash: Hex
+    options?: MarketplaceTxOptions
+    onLog?: (message: string) => void
+}): Promise<SealedOfferCommit> {
+    const { market, network, requestId, offerHash, options } = params
+    const log = params.onLog ?? (() => { })
+    const privacy = resolveOfferPrivacy(network)
+
+    const hashCommit = async (reason: string): Promise<SealedOfferCommit> => {
+        log(`⚠️ Hash-commit fallback: ${reason}. Offer hash is public; only price and nonce stay hidden until reveal.`)
+        const txHash = await market.submitEncryptedOffer(requestId, offerHash, options)
+        await market.waitForSuccess(txHash)
+        return { mode: 'hash-commit', txHash, fallbackReason: reason }
+    }
+
+    if (privacy.mode === 'hash-commit') return hashCommit(privacy.reason!)
+
+    const data = encodeFunctionData({
+        abi: SERVICE_MARKETPLACE_ABI,
+        functionName: 'submitEncryptedOffer',
+        args: [requestId, offerHash],
+    })
+    const gas = options?.gas ?? BITE_GAS_LIMIT
+
+    const encryptionFailed = (e: unknown) => {
+        const reason = `BITE encryption failed (${e instanceof Error ? e.message : String(e)})`
+        if (!privacy.allowFallback) throw new Error(`${reason}. Set NEXT_PUBLIC_BITE_FALLBACK=true to allow hash-commit.`)
+        return hashCommit(reason)
+    }
+
+    let txHash: Hash
+    // Custodial agents: the signer encrypts server-side so its policy sees the plain call
+    const remote = RemoteSigner.of(market.walletClient)
+    if (remote) {
+        try {
+            txHash = await remote.send({ to: market.address, data, gas, gasPrice: options?.gasPrice, encrypt: true })
+        } catch (e) {
+            return encryptionFailed(e)
+        }
+        log(`🔐 BITE V2: Offer encrypted and sent by agent signer "${remote.agentId}"`)
+    } else {
+        let encrypted
+        try {
+            encrypted = await BiteService.encryptTransaction(
+                { to: market.address, data, gasLimit: `0x${gas.toString(16)}` },
+                network,
+            )
+        } catch (e) {
+            return encryptionFailed(e)
+        }
+        log(`🔐 BITE V2: Offer encrypted (${encrypted.data.length / 2 - 1} bytes ciphertext → ${encrypted.to.slice(0, 10)}...)`)
+        txHash = await market.sendEncryptedTransaction(encrypted, { ...options, gas })
+    }
+    await market.waitForSuccess(txHash)
+
+    await verifyDecryptedOffer({ market, network, txHash, expectedData: data })
+    log('🔓 BITE V2: Decrypted payload matches the signed offer')
+
+    // The decrypted call must actually have recorded our commitment
+    const provider = market.walletClient!.account.address
+    const offer = await market.getOffer(requestId, provider)
+    if (!offer || offer.offerHash.toLowerCase() !== offerHash.toLowerCase()) {
+        throw new Error(`Encrypted offer tx ${txHash} finalized but no matching commitment is stored for request ${requestId}`)
+    }
+    return { mode: 'bite', txHash }
+}
+
+/**
+ * Read the threshold-decrypted payload of `txHash` and check it is the call we
+ * encrypted. Decryption lands right after finality, so a few retries are allowed.
+ */
+export async function verifyDecryptedOffer(params: {
+    market: MarketplaceClient
+    network: NetworkProfile
+    txHash: Hash
+    expectedData: Hex
+}) {
+    const { market, network, txHash, expectedData } = params
+    let decrypted: { to: string; data: string } | undefined
+    let lastError: unknown
+    for (let attempt = 0; attempt < DECRYPT_POLL_ATTEMPTS && !decrypted; attempt++) {
+        try {
+            decrypted = await BiteService.getDecryptedData(txHash, network)
+        } catch (e) {
+            lastError = e
+            await new Promise(r => setTimeout(r, DECRYPT_POLL_MS))
+        }
+    }
+    if (!decrypted) {
+        throw new Error(`Could not read BITE decryption of ${txHash}: ${lastError instanceof Error ? lastError.message : String(lastError)}`)
+    }
+    if (decrypted.to.toLowerCase() !== market.address.toLowerCase()) {
+        throw new Error(`Decrypted target ${decrypted.to} of ${txHash} is not the marketplace`)
+    }
+    if (decrypted.data.toLowerCase() !== expectedData.toLowerCase()) {
+        throw new Error(`Decrypted calldata of ${txHash} does not match the signed offer`)
+    }
+    return decrypted
+}
@@ -0,0 +1,169 @@
+/**
+ * Service Directory - cached, queryable view of registered services
+ *
+ * Backs GET /api/agent/services. The full registry is read once per TTL
+ * (Multicall3 or batched JSON-RPC via MarketplaceClient), then filtered,
+ * sorted and paged in memory so repeated discovery calls never hit the RPC.
+ */
+import { createHash } from 'node:crypto'
+import { formatEther, type Address } from 'viem'
+import type { NetworkId, NetworkProfile } from '@/config/networks'
+import { MarketplaceClient, type MarketplaceService } from './marketplace-client'
+
+export type ServiceSource = 'chain' | 'mock'
+
+export const SERVICE_SORTS = ['newest', 'oldest', 'price_asc', 'price_desc', 'rating', 'uptime'] as const
+export type ServiceSort = typeof SERVICE_SORTS[number]
+
+export interface ServiceQuery {
+    /** Case-insensitive match on name or description */
+    q?: string
+    /** Stars, 0-5 */
+    minRating?: number
+    /** Wei */
+    maxPrice?: bigint
+    /** Percent, 0-100 */
+    minUptime?: number
+    provider?: Address
+    sort: ServiceSort
+    offset: number
+    limit: number
+}
+
+export interface ServiceSnapshot {
+    source: ServiceSource
+    services: MarketplaceService[]
+    totalRegistered: number
+    fetchedAt: number
+}
+
+export interface ServicePage {
+    services: ReturnType<typeof serializeService>[]
+    total: number
+    nextOffset: number | null
+}
+
+const DEFAULT_TTL_MS = 15_000
+
+export function serviceCacheTtlMs(): number {
+    const ttl = Number(process.env.SERVICES_CACHE_TTL_MS)
+    return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_MS
+}
+
+// ─────────────── Snapshot Cache ───────────────
+
+const snapshots = new Map<NetworkId, ServiceSnapshot>()
+const inflight = new Map<NetworkId, Promise<ServiceSnapshot>>()
+
+/**
+ * Every registered active service on `network`, at most `ttlMs` old.
+ * Concurrent callers share one refresh.
+ */
+export async function getServiceSnapshot(network: NetworkProfile, ttlMs = serviceCacheTtlMs()): Promise<ServiceSnapshot> {
+    const cached = snapshots.get(network.id)
+    if (cached && Date.now() - cached.fetchedAt < ttlMs) return cached
+
+    let pending = inflight.get(network.id)
+    if (!pending) {
+        pending = (async () => {
+            const market = MarketplaceClient.forNetwork(network)
+            const nextId = await market.nextServiceId()
+            const services = await market.listServices({ toId: nextId, activeOnly: true })
+            const snapshot: ServiceSnapshot = { source: 'chain', services, totalRegistered: Number(nextId), fetchedAt: Date.now() }
+            snapshots.set(network.id, snapshot)
+            return snapshot
+        })().finally(() => inflight.delete(network.id))
+        inflight.set(network.id, pending)
+    }
+    return pending
+}
+
+/**
+ * Demo catalogue, served only when the mock flag is set and the chain is unreachable.
+ */
+export function mockServiceSnapshot(): ServiceSnapshot {
+    return {
+        source: 'mock',
+        services: [{
+            id: 0n,
+            provider: '0x0000000000000000000000000000000000000000',
+            active: true,
+            uptime: 99,
+            rating: 48,
+            name: 'GPU Compute Node (Mock)',
+            description: 'High-performance GPU processing (Fallback)',
+            pricePerUnit: 10_000_000_000_000_000n,
+            ratingCount: 0n,
+        }],
+        totalRegistered: 1,
+        fetchedAt: Date.now(),
+    }
+}
+
+export function mockServicesEnabled(): boolean {
+    return process.env.SERVICES_MOCK_FALLBACK === 'true'
+}
+
+// ─────────────── Query ───────────────
+
+const byPrice = (a: MarketplaceService, b: MarketplaceService) =>
+    a.pricePerUnit === b.pricePerUnit ? 0 : a.pricePerUnit < b.pricePerUnit ? -1 : 1
+
+const COMPARATORS: Record<ServiceSort, (a: MarketplaceService, b: MarketplaceService) => number> = {
+    newest: (a, b) => Number(b.id - a.id),
+    oldest: (a, b) => Number(a.id - b.id),
+    price_asc: byPrice,
+    price_desc: (a, b) => byPrice(b, a),
+    rating: (a, b) => b.rating - a.rating || Number(b.ratingCount - a.ratingCount),
+    uptime: (a, b) => b.uptime - a.uptime,
+}
+
+export function queryServices(snapshot: ServiceSnapshot, query: ServiceQuery): ServicePage {
+    const needle = query.q?.toLowerCase()
+    const matches = snapshot.services
+        .filter(svc =>
+            (!needle || svc.name.toLowerCase().includes(needle) || svc.description.toLowerCase().includes(needle)) &&
+            (query.minRating === undefined || svc.rating / 10 >= query.minRating) &&
+            (query.maxPrice === undefined || svc.pricePerUnit <= query.maxPrice) &&
+            (query.minUptime === undefined || svc.uptime >= query.minUptime) &&
+            (!query.provider || svc.provider.toLowerCase() === query.provider.toLowerCase()))
+        .sort(COMPARATORS[query.sort])
+
+    const end = query.offset + query.limit
+    return {
+        services: matches.slice(query.offset, end).map(serializeService),
+        total: matches.length,
+        nextOffset: end < matches.length ? end : null,
+    }
+}
+
+export function serializeService(svc: MarketplaceService) {
+    return {
+        id: Number(svc.id),
+        provider: svc.provider,
+        name: svc.name,
+        description: svc.description,
+        price: formatEther(svc.pricePerUnit),
+        active: svc.active,
+        uptime: svc.uptime,
+        /** Stars, 0-5 (stored on-chain as 0-50) */
+        rating: svc.rating / 10,
+        ratingCount: Number(svc.ratingCount),
+    }
+}
+
+// ─────────────── Cursor / ETag ───────────────
+
+/** Opaque page cursor; currently an encoded offset into the sorted result. */
+export function encodeCursor(offset: number): string {
+    return Buffer.from(`o:${offset}`).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): number | null {
+    const match = /^o:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString())
+    return match ? Number(match[1]) : null
+}
+
+export function computeEtag(body: unknown): string {
+    return `W/"${createHash('sha1').update(JSON.stringify(body)).digest('base64url')}"`
+}
@@ -0,0 +1,148 @@
+/**
+ * Token Escrow - funding requests and paying in USDC
+ *
+ * A USDC request needs the marketplace to be allowed to pull the budget. With
+ * a signer that can produce EIP-712 signatures the allowance comes from an
+ * EIP-2612 permit inside the `createTokenRequestWithPermit` transaction;
+ * otherwise an `approve` is sent first (only when the current allowance is
+ * short). Native requests go through `createRequest` unchanged.
+ */
+import { parseSignature, type Address, type Hash, type PublicClient } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+import { ERC20_ABI } from './erc20-abi'
+import { isNativeAsset, type SettlementAsset } from './assets'
+import type { MarketplaceClient, MarketplaceTxOptions, MarketplaceWallet, TokenPermit } from './marketplace-client'
+
+/** How long a permit signed for a request stays usable */
+const PERMIT_TTL_SECONDS = 20n * 60n
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+} as const
+
+export interface EscrowedRequest {
+    hash: Hash
+    /** How the token budget was authorized; 'native' for sFUEL */
+    via: 'native' | 'permit' | 'approve'
+    /** Set when an `approve` transaction was needed first */
+    approvalHash?: Hash
+}
+
+function tokenTxParams(wallet: MarketplaceWallet, options: MarketplaceTxOptions = {}) {
+    return {
+        account: wallet.account,
+        chain: wallet.chain,
+        gas: options.gas,
+        nonce: options.nonce,
+        ...(options.gasPrice !== undefined ? { gasPrice: options.gasPrice, type: 'legacy' as const } : {}),
+    }
+}
+
+export async function tokenBalance(publicClient: PublicClient, token: Address, owner: Address): Promise<bigint> {
+    return publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] })
+}
+
+/**
+ * EIP-2612 permit for `spender` to pull `value` of the network's USDC from the wallet's account.
+ */
+export async function signUsdcPermit(
+    wallet: MarketplaceWallet,
+    publicClient: PublicClient,
+    network: NetworkProfile,
+    spender: Address,
+    value: bigint,
+): Promise<TokenPermit> {
+    const owner = wallet.account.address
+    const nonce = await publicClient.readContract({ address: network.usdcAddress, abi: ERC20_ABI, functionName: 'nonces', args: [owner] })
+    const deadline = BigInt(Math.floor(Date.now() / 1000)) + PERMIT_TTL_SECONDS
+    const signature = await wallet.signTypedData({
+        account: wallet.account,
+        domain: { ...network.usdcDomain, chainId: network.chain.id, verifyingContract: network.usdcAddress },
+        types: PERMIT_TYPES,
+        primaryType: 'Permit',
+        message: { owner, spender, value, nonce, deadline },
+    })
+    const { r, s, v, yParity } = parseSignature(signature)
+    return { deadline, r, s, v: v !== undefined ? Number(v) : yParity + 27 }
+}
+
+/**
+ * Make sure `spender` may pull `amount` of `token`; sends `approve` (and waits
+ * for it) only when the allowance is short. Returns the approval hash, if any.
+ */
+export async function ensureAllowance(
+    wallet: MarketplaceWallet,
+    publicClient: PublicClient,
+    token: Address,
+    spender: Address,
+    amount: bigint,
+    options?: MarketplaceTxOptions,
+): Promise<Hash | null> {
+    const allowance = await publicClient.readContract({
+        address: token, abi: ERC20_ABI, functionName: 'allowance', args: [wallet.account.address, spender],
+    })
+    if (allowance >= amount) return null
+    const hash = await wallet.writeContract({
+        ...tokenTxParams(wallet, options),
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [spender, amount],
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new Error(`Approval ${hash} reverted on-chain`)
+    return hash
+}
+
+/**
+ * Post a request escrowing `amount` of `asset` with `market`'s signer. Does
+ * not wait for the request transaction itself.
+ */
+export async function createEscrowedRequest(
+    market: MarketplaceClient,
+    network: NetworkProfile,
+    params: { serviceId: bigint; objective: string; asset: SettlementAsset; amount: bigint; options?: MarketplaceTxOptions },
+): Promise<EscrowedRequest> {
+    const { serviceId, objective, asset, amount, options } = params
+    if (isNativeAsset(asset)) {
+        return { hash: await market.createRequest(serviceId, objective, amount, options), via: 'native' }
+    }
+    const wallet = market.walletClient
+    if (!wallet) throw new Error('createEscrowedRequest: a wallet client is required')
+
+    let permit: TokenPermit | null = null
+    try {
+        permit = await signUsdcPermit(wallet, market.publicClient, network, market.address, amount)
+    } catch (e) {
+        // Remote signers may not sign typed data, and some tokens lack EIP-2612: fall back to approve
+        console.warn('USDC permit unavailable, approving instead:', e instanceof Error ? e.message.split('\n')[0] : e)
+    }
+    if (permit) {
+        return { hash: await market.createTokenRequest(serviceId, objective, asset.address, amount, permit, options), via: 'permit' }
+    }
+    const approvalHash = await ensureAllowance(wallet, market.publicClient, asset.address, market.address, amount, options)
+    return {
+        hash: await market.createTokenRequest(serviceId, objective, asset.address, amount, undefined, options),
+        via: 'approve',
+        approvalHash: approvalHash ?? undefined,
+    }
+}
+
+/**
+ * Direct ERC-20 transfer, for payments that bypass the marketplace escrow.
+ */
+export async function transferToken(wallet: MarketplaceWallet, token: Address, to: Address, amount: bigint, options?: MarketplaceTxOptions): Promise<Hash> {
+    return wallet.writeContract({
+        ...tokenTxParams(wallet, options),
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'transfer',
+        args: [to, amount],
+    })
+}
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+    TransactionReceiptNotFoundError,
+    encodeAbiParameters,
+    encodeEventTopics,
+    type Address,
+    type Hash,
+    type PublicClient,
+    type TransactionReceipt,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { ERC20_ABI } from './erc20-abi'
+import {
+    MemoryPaymentReplayGuard,
+    paymentProofMessage,
+    verifyPayment,
+    type PaymentFailureReason,
+    type X402PaymentProof,
+    type X402PaymentRequest,
+} from './x402'
+
+const CHAIN_ID = 1
+const payer = privateKeyToAccount(`0x${'1'.repeat(64)}`)
+const other = privateKeyToAccount(`0x${'2'.repeat(64)}`)
+const USDC: Address = '0x00000000000000000000000000000000000000bb'
+const OTHER_TOKEN: Address = '0x00000000000000000000000000000000000000dd'
+const RECIPIENT: Address = '0x00000000000000000000000000000000000000cc'
+const MARKETPLACE: Address = '0x00000000000000000000000000000000000000ee'
+const TX = `0x${'a'.repeat(64)}` as Hash
+const NOW = 1_700_000_000_000
+
+type Log = TransactionReceipt['logs'][number]
+
+const request: X402PaymentRequest = {
+    id: 'req_1',
+    amount: '1',
+    currency: 'USDC',
+    tokenAddress: USDC,
+    recipient: RECIPIENT,
+    createdAt: NOW,
+    deadline: NOW + 60_000,
+    facilitator: 'local',
+    chainId: CHAIN_ID,
+}
+
+function transferLog(token: Address, from: Address, to: Address, value: bigint): Log {
+    return {
+        address: token,
+        topics: encodeEventTopics({ abi: ERC20_ABI, eventName: 'Transfer', args: { from, to } }),
+        data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+    } as unknown as Log
+}
+
+interface ChainState {
+    chainId?: number
+    /** Absent: the transaction is not mined */
+    receipt?: Partial<TransactionReceipt>
+    /** Block time, ms */
+    minedAt?: number
+}
+
+/** Just the reads verifyPayment makes */
+function fakeClient(state: ChainState): PublicClient {
+    return {
+        getChainId: async () => state.chainId ?? CHAIN_ID,
+        getTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+            if (!state.receipt) throw new TransactionReceiptNotFoundError({ hash })
+            return { status: 'success', blockNumber: 10n, transactionHash: TX, from: payer.address, to: null, logs: [], ...state.receipt }
+        },
+        getBlock: async () => ({ timestamp: BigInt(Math.floor((state.minedAt ?? NOW + 1_000) / 1000)) }),
+    } as unknown as PublicClient
+}
+
+const paid = (logs: Log[]): ChainState => ({ receipt: { logs } })
+const usdcTransfer = (value = 1_000_000n, from: Address = payer.address) => transferLog(USDC, from, RECIPIENT, value)
+
+async function proof(overrides: Partial<X402PaymentProof> = {}, signer = payer): Promise<X402PaymentProof> {
+    return {
+        requestId: request.id,
+        transactionHash: TX,
+        payer: payer.address,
+        signature: await signer.signMessage({ message: paymentProofMessage(request.id, TX, CHAIN_ID) }),
+        timestamp: NOW,
+        facilitator: 'local',
+        ...overrides,
+    }
+}
+
+async function verify(state: ChainState, proofOverrides?: Partial<X402PaymentProof>, signer = payer) {
+    return verifyPayment(request, await proof(proofOverrides, signer), fakeClient(state), {
+        replayGuard: new MemoryPaymentReplayGuard(),
+        marketplaceAddress: MARKETPLACE,
+    })
+}
+
+async function assertRejected(reason: PaymentFailureReason, state: ChainState, proofOverrides?: Partial<X402PaymentProof>, signer = payer) {
+    const result = await verify(state, proofOverrides, signer)
+    assert.equal(result.valid, false)
+    if (!result.valid) assert.equal(result.reason, reason, result.message)
+}
+
+describe('verifyPayment', () => {
+    it('accepts a USDC transfer from the payer to the recipient', async () => {
+        const result = await verify(paid([usdcTransfer()]))
+        assert.equal(result.valid, true)
+        if (result.valid) {
+            assert.equal(result.amount, 1_000_000n)
+            assert.equal(result.via, 'transfer')
+            assert.equal(result.blockNumber, 10n)
+        }
+    })
+
+    it('rejects a proof for another request', () => assertRejected('proof_mismatch', paid([usdcTransfer()]), { requestId: 'req_2' }))
+
+    it('rejects a proof the payer did not sign', () => assertRejected('unauthorized_payer', paid([usdcTransfer()]), undefined, other))
+
+    it('rejects a client on another chain', () => assertRejected('wrong_chain', { ...paid([usdcTransfer()]), chainId: 2 }))
+
+    it('rejects a transaction that is not mined', () => assertRejected('tx_not_found', {}))
+
+    it('rejects a reverted transaction', () => assertRejected('tx_reverted', { receipt: { status: 'reverted', logs: [usdcTransfer()] } }))
+
+    it('rejects a payment mined before the request', () =>
+        assertRejected('before_request', { ...paid([usdcTransfer()]), minedAt: NOW - 60_000 }))
+
+    it('rejects a payment mined after the deadline', () =>
+        assertRejected('expired', { ...paid([usdcTransfer()]), minedAt: request.deadline + 1_000 }))
+
+    it('rejects a transaction that moved nothing', () => assertRejected('no_transfer', paid([])))
+
+    it('rejects a payment to someone else', () =>
+        assertRejected('wrong_recipient', paid([transferLog(USDC, payer.address, other.address, 1_000_000n)])))
+
+    it('rejects a payment in another token', () =>
+        assertRejected('wrong_token', paid([transferLog(OTHER_TOKEN, payer.address, RECIPIENT, 1_000_000n)])))
+
+    it('rejects a payment from someone else', () => assertRejected('wrong_payer', paid([usdcTransfer(1_000_000n, other.address)])))
+
+    it('rejects too little', () => assertRejected('insufficient_amount', paid([usdcTransfer(999_999n)])))
+
+    it('rejects a replayed proof', async () => {
+        const replayGuard = new MemoryPaymentReplayGuard()
+        const client = fakeClient(paid([usdcTransfer()]))
+        const options = { replayGuard, marketplaceAddress: MARKETPLACE }
+        assert.equal((await verifyPayment(request, await proof(), client, options)).valid, true)
+        const replay = await verifyPayment(request, await proof(), client, options)
+        assert.equal(replay.valid, false)
+        if (!replay.valid) assert.equal(replay.reason, 'already_used')
+    })
+})
@@ -1,4 +1,20 @@
-import { parseEther, parseUnits, type Address, type Hash } from 'viem'
+import {
+    TransactionReceiptNotFoundError,
+    formatUnits,
+    parseEventLogs,
+    parseUnits,
+    verifyMessage,
+    zeroAddress,
+    type Address,
+    type Hash,
+    type Hex,
+    type PublicClient,
+    type TransactionReceipt,
+} from 'viem'
+import { NETWORK_PROFILES, getActiveNetwork, type NetworkProfile } from '@/config/networks'
+import { CURRENCY_DECIMALS } from './assets'
+import { ERC20_ABI } from './erc20-abi'
+import { SERVICE_MARKETPLACE_ABI } from './marketplace-abi'
 
 // ─────────────── x402 Payment Types ───────────────
 
@@ -8,7 +24,8 @@ export interface X402PaymentRequest {
     currency: 'USDC' | 'sFUEL'
     tokenAddress?: Address   // USDC contract address
     recipient: Address
-    deadline: number
+    createdAt: number        // ms since epoch
+    deadline: number         // ms since epoch
     facilitator: string      // Kobaru facilitator URL
     chainId: number
     metadata?: string
@@ -18,20 +35,25 @@ export interface X402PaymentProof {
     requestId: string
     transactionHash: Hash
     payer: Address
+    /** The payer's personal_sign over `paymentProofMessage`, proving the transfer is theirs to claim */
+    signature: Hex
     timestamp: number
     facilitator: string
 }
 
 // ─────────────── Constants ───────────────
 
+// Sandbox defaults, kept for existing imports. New code should read the active NetworkProfile.
+const SANDBOX = NETWORK_PROFILES['bite-sandbox']
+
 // Kobaru x402 Facilitator (official for SKALE hackathon)
-export const KOBARU_FACILITATOR_URL = process.env.NEXT_PUBLIC_KOBARU_FACILITATOR_URL || 'https://gateway.kobaru.io'
+export const KOBARU_FACILITATOR_URL = SANDBOX.facilitatorUrl
 
 // USDC on BITE V2 Sandbox (deployed by SKALE team)
-export const USDC_ADDRESS = (process.env.NEXT_PUBLIC_USDC_ADDRESS || '0xc4083B1E81ceb461Ccef3FDa8A9F24F0d764B6D8') as Address
+export const USDC_ADDRESS = SANDBOX.usdcAddress
 
 // Sandbox Chain ID
-export const SANDBOX_CHAIN_ID = 103698795
+export const SANDBOX_CHAIN_ID = SANDBOX.chain.id
 
 // ─────────────── Helpers ───────────────
 
@@ -41,50 +63,255 @@ export function generatePaymentRequestId(): string {
 
 /**
  * Create an x402-compliant payment request.
- * Uses USDC on the BITE V2 Sandbox via Kobaru facilitator.
+ * Uses USDC and the facilitator of the given network (BITE V2 Sandbox / Kobaru by default).
  */
 export function createPaymentRequest(
     recipient: Address,
     amountUSDC: string,
-    metadata: Record<string, any> = {}
+    metadata: Record<string, any> = {},
+    network: NetworkProfile = getActiveNetwork()
 ): X402PaymentRequest {
+    const now = Date.now()
     return {
         id: generatePaymentRequestId(),
         amount: amountUSDC,
         currency: 'USDC',
-        tokenAddress: USDC_ADDRESS,
+        tokenAddress: network.usdcAddress,
         recipient,
-        deadline: Date.now() + 3600 * 1000, // 1hr expiry
-        facilitator: KOBARU_FACILITATOR_URL,
-        chainId: SANDBOX_CHAIN_ID,
+        createdAt: now,
+        deadline: now + 3600 * 1000, // 1hr expiry
+        facilitator: network.facilitatorUrl,
+        chainId: network.chain.id,
         metadata: JSON.stringify(metadata),
     }
 }
 
 /**
- * Verify a payment on-chain via the public client.
+ * What the payer signs to claim `transactionHash` as payment for request
+ * `requestId`. Binding both stops anyone else from presenting the payer's
+ * transfer, and the payer from presenting it for another request.
+ */
+export function paymentProofMessage(requestId: string, transactionHash: Hash, chainId: number): string {
+    return `x402 payment proof\nRequest: ${requestId}\nTransaction: ${transactionHash.toLowerCase()}\nChain: ${chainId}`
+}
+
+// ─────────────── Verification ───────────────
+
+export type PaymentFailureReason =
+    | 'invalid_request'
+    | 'proof_mismatch'
+    | 'wrong_chain'
+    | 'unauthorized_payer'
+    | 'already_used'
+    | 'tx_not_found'
+    | 'tx_reverted'
+    | 'before_request'
+    | 'expired'
+    | 'no_transfer'
+    | 'wrong_recipient'
+    | 'wrong_token'
+    | 'wrong_payer'
+    | 'insufficient_amount'
+
+export type PaymentVerification =
+    | {
+        valid: true
+        requestId: string
+        transactionHash: Hash
+        payer: Address
+        recipient: Address
+        /** The zero address for sFUEL */
+        token: Address
+        amount: bigint
+        decimals: number
+        /** How the funds moved: an ERC-20 transfer, a marketplace settlement, or a plain sFUEL transfer */
+        via: 'transfer' | 'marketplace' | 'native'
+        blockNumber: bigint
+        /** Block time, ms */
+        paidAt: number
+    }
+    | { valid: false; reason: PaymentFailureReason; message: string }
+
+/**
+ * Remembers which payment requests (and transactions) already paid for
+ * something, so one transfer cannot be presented twice.
+ */
+export interface PaymentReplayGuard {
+    isUsed(requestId: string, transactionHash: Hash): boolean | Promise<boolean>
+    markUsed(requestId: string, transactionHash: Hash): void | Promise<void>
+}
+
+export class MemoryPaymentReplayGuard implements PaymentReplayGuard {
+    private requestIds = new Set<string>()
+    private hashes = new Set<string>()
+
+    isUsed(requestId: string, transactionHash: Hash) {
+        return this.requestIds.has(requestId) || this.hashes.has(transactionHash.toLowerCase())
+    }
+
+    markUsed(requestId: string, transactionHash: Hash) {
+        this.requestIds.add(requestId)
+        this.hashes.add(transactionHash.toLowerCase())
+    }
+}
+
+// Process-wide unless the caller brings its own (e.g. a persistent store)
+const defaultReplayGuard = new MemoryPaymentReplayGuard()
+
+export interface VerifyPaymentOptions {
+    replayGuard?: PaymentReplayGuard
+    /** Marketplace whose `PaymentSettled` counts as payment. Defaults to the profile of `request.chainId`. */
+    marketplaceAddress?: Address
+}
+
+/** A movement of funds found in the payment transaction */
+interface Movement {
+    token: Address
+    from: Address
+    to: Address
+    amount: bigint
+    via: 'transfer' | 'marketplace' | 'native'
+}
+
+const fail = (reason: PaymentFailureReason, message: string): PaymentVerification => ({ valid: false, reason, message })
+const sameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase()
+
+/**
+ * Everything the transaction paid out: ERC-20 `Transfer`s, marketplace
+ * settlements (paid by the requester who sent the transaction) and the
+ * transaction's own sFUEL value.
+ */
+async function paymentMovements(publicClient: PublicClient, receipt: TransactionReceipt, marketplace: Address | undefined): Promise<Movement[]> {
+    const movements: Movement[] = []
+    for (const log of parseEventLogs({ abi: ERC20_ABI, eventName: 'Transfer', logs: receipt.logs })) {
+        // Escrow payouts count through PaymentSettled only; a marketplace refund is not a payment
+        if (marketplace && sameAddress(log.args.from, marketplace)) continue
+        movements.push({ token: log.address, from: log.args.from, to: log.args.to, amount: log.args.value, via: 'transfer' })
+    }
+
+    if (marketplace) {
+        const settlements = parseEventLogs({ abi: SERVICE_MARKETPLACE_ABI, eventName: 'PaymentSettled', logs: receipt.logs })
+            .filter(log => sameAddress(log.address, marketplace))
+        for (const log of settlements) {
+            let token: Address = zeroAddress
+            try {
+                token = await publicClient.readContract({
+                    address: marketplace,
+                    abi: SERVICE_MARKETPLACE_ABI,
+                    functionName: 'requestTokens',
+                    args: [log.args.requestId],
+                    blockNumber: receipt.blockNumber,
+                })
+            } catch {
+                // Deployments without token requests only escrow sFUEL
+            }
+            movements.push({ token, from: receipt.from, to: log.args.provider, amount: log.args.amount, via: 'marketplace' })
+        }
+    }
+
+    if (receipt.to) {
+        const tx = await publicClient.getTransaction({ hash: receipt.transactionHash })
+        if (tx.value > 0n) movements.push({ token: zeroAddress, from: tx.from, to: receipt.to, amount: tx.value, via: 'native' })
+    }
+    return movements
+}
+
+/**
+ * Verify on-chain that `proof` pays `request`: the payer signed the proof,
+ * and the transaction succeeded on the request's chain between the request's
+ * creation and its deadline, moving at least the requested amount of the
+ * requested token from the payer to the recipient. A valid payment is marked
+ * used, so the same request ID or transaction is rejected next time.
  */
 export async function verifyPayment(
     request: X402PaymentRequest,
-    txHash: Hash,
-    provider: any // PublicClient
-): Promise<boolean> {
-    if (!txHash) return false
-
+    proof: X402PaymentProof,
+    publicClient: PublicClient,
+    options: VerifyPaymentOptions = {}
+): Promise<PaymentVerification> {
+    const replayGuard = options.replayGuard ?? defaultReplayGuard
+    const token = request.currency === 'USDC' ? request.tokenAddress : zeroAddress
+    if (!token) return fail('invalid_request', 'USDC payment request has no tokenAddress')
+    const decimals = CURRENCY_DECIMALS[request.currency]
+    let amount: bigint
     try {
-        const receipt = await provider.getTransactionReceipt({ hash: txHash })
-        if (receipt.status !== 'success') return false
+        amount = parseUnits(request.amount, decimals)
+    } catch {
+        return fail('invalid_request', `Amount "${request.amount}" is not a decimal ${request.currency} amount`)
+    }
 
-        // For USDC: check Transfer event logs
-        const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
-        const hasTransfer = receipt.logs.some(
-            (log: any) => log.topics[0] === transferTopic
-        )
+    if (proof.requestId !== request.id) {
+        return fail('proof_mismatch', `Proof is for request ${proof.requestId}, not ${request.id}`)
+    }
+    const signed = await verifyMessage({
+        address: proof.payer,
+        message: paymentProofMessage(request.id, proof.transactionHash, request.chainId),
+        signature: proof.signature,
+    }).catch(() => false)
+    if (!signed) return fail('unauthorized_payer', `Proof is not signed by ${proof.payer}`)
+    const chainId = await publicClient.getChainId()
+    if (chainId !== request.chainId) {
+        return fail('wrong_chain', `Client is on chain ${chainId}, payment is due on ${request.chainId}`)
+    }
+    if (await replayGuard.isUsed(request.id, proof.transactionHash)) {
+        return fail('already_used', `Request ${request.id} or transaction ${proof.transactionHash} already paid for something`)
+    }
 
-        return hasTransfer || receipt.status === 'success'
+    let receipt: TransactionReceipt
+    try {
+        receipt = await publicClient.getTransactionReceipt({ hash: proof.transactionHash })
     } catch (e) {
-        console.error('x402: Payment verification failed', e)
-        return false
+        if (e instanceof TransactionReceiptNotFoundError) {
+            return fail('tx_not_found', `Transaction ${proof.transactionHash} is not mined on chain ${chainId}`)
+        }
+        throw e
+    }
+    if (receipt.status !== 'success') return fail('tx_reverted', `Transaction ${proof.transactionHash} reverted`)
+
+    const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber })
+    const paidAt = Number(block.timestamp) * 1000
+    // Block time has whole seconds; a transfer in the request's own second still counts
+    if (paidAt < Math.floor(request.createdAt / 1000) * 1000) {
+        return fail('before_request', `Paid at ${new Date(paidAt).toISOString()}, before the request was issued ${new Date(request.createdAt).toISOString()}`)
+    }
+    if (paidAt > request.deadline) {
+        return fail('expired', `Paid at ${new Date(paidAt).toISOString()}, after the deadline ${new Date(request.deadline).toISOString()}`)
+    }
+
+    const marketplace = options.marketplaceAddress
+        ?? Object.values(NETWORK_PROFILES).find(p => p.chain.id === request.chainId)?.marketplaceAddress
+    const movements = await paymentMovements(publicClient, receipt, marketplace)
+    if (movements.length === 0) return fail('no_transfer', `Transaction ${proof.transactionHash} moved no funds`)
+
+    // Narrow down one requirement at a time so the reason names the first mismatch
+    const toRecipient = movements.filter(m => sameAddress(m.to, request.recipient))
+    if (toRecipient.length === 0) return fail('wrong_recipient', `Nothing in the transaction was paid to ${request.recipient}`)
+    const inToken = toRecipient.filter(m => sameAddress(m.token, token))
+    if (inToken.length === 0) return fail('wrong_token', `Payment to ${request.recipient} was not in ${request.currency}`)
+    const fromPayer = inToken.filter(m => sameAddress(m.from, proof.payer))
+    if (fromPayer.length === 0) return fail('wrong_payer', `${request.currency} payment to ${request.recipient} did not come from ${proof.payer}`)
+    const best = fromPayer.reduce((max, m) => m.amount > max.amount ? m : max)
+    if (best.amount < amount) {
+        return fail('insufficient_amount', `Paid ${formatUnits(best.amount, decimals)} ${request.currency}, ${request.amount} required`)
+    }
+
+    // Checked again: a concurrent verification of the same proof may have won while this one read the chain
+    if (await replayGuard.isUsed(request.id, proof.transactionHash)) {
+        return fail('already_used', `Request ${request.id} or transaction ${proof.transactionHash} already paid for something`)
+    }
+    await replayGuard.markUsed(request.id, proof.transactionHash)
+    return {
+        valid: true,
+        requestId: request.id,
+        transactionHash: proof.transactionHash,
+        payer: proof.payer,
+        recipient: request.recipient,
+        token,
+        amount: best.amount,
+        decimals,
+        via: best.via,
+        blockNumber: receipt.blockNumber,
+        paidAt,
     }
 }
 
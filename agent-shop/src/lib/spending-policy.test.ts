@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseEther, parseUnits } from 'viem'
+import { DEFAULT_SPENDING_POLICY } from '@/config/spending-policy'
+import {
+    SpendingPolicyConfigError,
+    SpendingPolicyEngine,
+    SpendingPolicyError,
+    parseSpendingPolicy,
+    type SpendIntent,
+} from './spending-policy'
+
+const AGENT = 'treasury'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const sfuel = (amount: string): SpendIntent => ({ agentId: AGENT, action: 'createRequest', value: parseEther(amount), currency: 'sFUEL' })
+const usdc = (amount: string): SpendIntent => ({ agentId: AGENT, action: 'createRequest', value: parseUnits(amount, 6), currency: 'USDC' })
+
+describe('SpendingPolicyEngine', () => {
+    it('denies a value over the per-tx cap', () => {
+        const engine = new SpendingPolicyEngine(DEFAULT_SPENDING_POLICY)
+        assert.equal(engine.evaluate(sfuel('0.5')).allowed, true)
+        const denied = engine.evaluate(sfuel('0.6'))
+        assert.equal(denied.allowed, false)
+        assert.match(denied.reasons[0], /per-tx cap 0.5 sFUEL/)
+    })
+
+    it('throws on a denied intent and books nothing', () => {
+        const engine = new SpendingPolicyEngine(DEFAULT_SPENDING_POLICY)
+        assert.throws(() => engine.authorize(sfuel('1')), SpendingPolicyError)
+        assert.equal(engine.evaluate(sfuel('0.5')).allowed, true)
+    })
+
+    it('adds authorized spend up against the daily cap', () => {
+        const engine = new SpendingPolicyEngine(DEFAULT_SPENDING_POLICY)
+        for (let i = 0; i < 4; i++) engine.authorize(sfuel('0.5'))
+        const denied = engine.evaluate(sfuel('0.1'))
+        assert.equal(denied.allowed, false)
+        assert.match(denied.reasons.join(), /daily spend 2.1 > daily cap 2 sFUEL/)
+        // Outside the daily window, only the weekly cap still counts it
+        assert.equal(engine.evaluate(sfuel('0.1'), Date.now() + DAY_MS + 1).allowed, true)
+    })
+
+    it('keeps each currency under its own caps and ledger', () => {
+        const engine = new SpendingPolicyEngine(DEFAULT_SPENDING_POLICY)
+        for (let i = 0; i < 4; i++) engine.authorize(sfuel('0.5'))
+        const allowed = engine.evaluate(usdc('25'))
+        assert.equal(allowed.allowed, true)
+        assert.equal(allowed.checks.find(c => c.rule === 'perTxCap')?.detail, 'value 25 ≤ per-tx cap 25 USDC')
+        assert.equal(engine.evaluate(usdc('25.01')).allowed, false)
+    })
+
+    it('holds the price to the base price', () => {
+        const engine = new SpendingPolicyEngine(DEFAULT_SPENDING_POLICY)
+        const intent = { ...sfuel('0.1'), price: parseEther('0.11'), basePrice: parseEther('0.1') }
+        assert.equal(engine.evaluate(intent).allowed, false)
+        assert.equal(engine.evaluate({ ...intent, price: parseEther('0.1') }).allowed, true)
+    })
+})
+
+describe('parseSpendingPolicy', () => {
+    it('rejects a cap in an unknown currency', () => {
+        const json = JSON.stringify({ id: 'p', defaults: [{ kind: 'perTxCap', max: '1', currency: 'ETH' }] })
+        assert.throws(() => parseSpendingPolicy(json), SpendingPolicyConfigError)
+    })
+})
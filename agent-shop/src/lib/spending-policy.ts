@@ -0,0 +1,336 @@
+/**
+ * Spending Policy - hard limits on what an agent may spend
+ *
+ * A policy is plain data: a list of rules per agent (per-tx / daily / weekly
+ * caps, allowed providers and services, max price vs. the item's base price,
+ * minimum service rating and uptime). Every value-moving call is described
+ * as a SpendIntent and evaluated before it is signed; the structured
+ * decision is logged and ends up in the receipt, so an LLM-chosen budget can
+ * never exceed what the policy allows.
+ *
+ * Rules that need a field the intent does not carry (e.g. `allowedProviders`
+ * for a plain transfer) do not apply. Rating/uptime rules apply to every
+ * intent naming a service and fail when the service's stats are unknown.
+ *
+ * Caps are per settlement currency: an sFUEL cap never limits USDC spend and
+ * vice versa, and each currency has its own ledger.
+ */
+import { formatUnits, getAddress, isAddress, keccak256, parseUnits, stringToHex, type Address } from 'viem'
+import { CURRENCY_DECIMALS, isSettlementCurrency, type SettlementCurrency } from './skale/assets'
+
+// ─────────────── Types ───────────────
+
+/** Amounts are decimal strings in the cap's currency (sFUEL unless set), so configs stay readable */
+export type PolicyRule =
+    | { kind: 'perTxCap'; max: string; currency?: SettlementCurrency }
+    | { kind: 'dailyCap'; max: string; currency?: SettlementCurrency }
+    | { kind: 'weeklyCap'; max: string; currency?: SettlementCurrency }
+    | { kind: 'allowedProviders'; providers: Address[] }
+    | { kind: 'allowedServices'; serviceIds: number[] }
+    /** Price may be at most `ratio` × the item's base price */
+    | { kind: 'maxPriceOverBase'; ratio: number }
+    /** 0-50 (50 = 5.0 stars), as stored by the marketplace */
+    | { kind: 'minRating'; min: number }
+    /** Percentage, 0-100 */
+    | { kind: 'minUptime'; min: number }
+
+export type PolicyRuleKind = PolicyRule['kind']
+
+export interface SpendingPolicyConfig {
+    id: string
+    /** Rules for agents without their own entry */
+    defaults: PolicyRule[]
+    agents?: Record<string, PolicyRule[]>
+}
+
+export interface SpendIntent {
+    agentId: string
+    /** Marketplace function name, or 'transfer' / 'swap' */
+    action: string
+    /** Value leaving the agent's wallet, in the smallest unit of `currency` */
+    value: bigint
+    /** What `value` and the prices are denominated in */
+    currency: SettlementCurrency
+    to?: Address
+    provider?: Address
+    serviceId?: bigint
+    service?: { rating: number; uptime: number }
+    /** Offered or settled price, in units of `currency` */
+    price?: bigint
+    /** Reference price of the item being bought, in units of `currency` */
+    basePrice?: bigint
+}
+
+export interface RuleCheck {
+    rule: PolicyRuleKind
+    passed: boolean
+    detail: string
+}
+
+export interface PolicyDecision {
+    allowed: boolean
+    policyId: string
+    agentId: string
+    action: string
+    /** Smallest units of `currency`, as a decimal string */
+    value: string
+    currency: SettlementCurrency
+    checks: RuleCheck[]
+    /** Details of the failed checks */
+    reasons: string[]
+    decidedAt: number
+    /** Digest of the decision, quoted as the receipt's authorization token */
+    token: string
+}
+
+/** A denied intent. Callers must abort the spend, never fall back to another path. */
+export class SpendingPolicyError extends Error {
+    constructor(public readonly decision: PolicyDecision) {
+        super(`Spending policy ${decision.policyId} denied ${decision.action}: ${decision.reasons.join('; ')}`)
+        this.name = 'SpendingPolicyError'
+    }
+}
+
+// ─────────────── Ledger ───────────────
+
+/** Authorized spend per agent, for the rolling daily/weekly caps */
+export interface SpendLedger {
+    spentSince(agentId: string, since: number): bigint
+    record(agentId: string, amount: bigint, at: number): void
+}
+
+interface LedgerEntry {
+    agentId: string
+    amount: bigint
+    at: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+const LEDGER_STORAGE_KEY = 'agentSpendLedger'
+
+function sumSince(entries: LedgerEntry[], agentId: string, since: number): bigint {
+    return entries.reduce((sum, e) => e.agentId === agentId && e.at >= since ? sum + e.amount : sum, 0n)
+}
+
+export class MemorySpendLedger implements SpendLedger {
+    private entries: LedgerEntry[] = []
+
+    spentSince(agentId: string, since: number): bigint {
+        return sumSince(this.entries, agentId, since)
+    }
+
+    record(agentId: string, amount: bigint, at: number) {
+        this.entries = [...this.entries.filter(e => e.at >= at - WEEK_MS), { agentId, amount, at }]
+    }
+}
+
+/**
+ * Ledger persisted in localStorage so caps hold across reloads. Falls back to
+ * memory outside the browser (SSR).
+ */
+export function browserSpendLedger(): SpendLedger {
+    const memory = new MemorySpendLedger()
+    const load = (): LedgerEntry[] => {
+        try {
+            const raw = JSON.parse(window.localStorage.getItem(LEDGER_STORAGE_KEY) ?? '[]') as { agentId: string; amount: string; at: number }[]
+            return raw.map(e => ({ agentId: e.agentId, amount: BigInt(e.amount), at: e.at }))
+        } catch {
+            return []
+        }
+    }
+    return {
+        spentSince(agentId, since) {
+            if (typeof window === 'undefined') return memory.spentSince(agentId, since)
+            return sumSince(load(), agentId, since)
+        },
+        record(agentId, amount, at) {
+            if (typeof window === 'undefined') return memory.record(agentId, amount, at)
+            const entries = [...load().filter(e => e.at >= at - WEEK_MS), { agentId, amount, at }]
+            window.localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries.map(e => ({ ...e, amount: e.amount.toString() }))))
+        },
+    }
+}
+
+function ledgerKey(agentId: string, currency: SettlementCurrency): string {
+    return `${agentId}:${currency}`
+}
+
+// ─────────────── Engine ───────────────
+
+export class SpendingPolicyEngine {
+    readonly config: SpendingPolicyConfig
+    private readonly ledger: SpendLedger
+
+    constructor(config: SpendingPolicyConfig, ledger: SpendLedger = new MemorySpendLedger()) {
+        this.config = config
+        this.ledger = ledger
+    }
+
+    rulesFor(agentId: string): PolicyRule[] {
+        return this.config.agents?.[agentId] ?? this.config.defaults
+    }
+
+    /**
+     * Evaluate `intent` against the agent's rules. Pure apart from reading the ledger.
+     */
+    evaluate(intent: SpendIntent, now = Date.now()): PolicyDecision {
+        const checks = this.rulesFor(intent.agentId)
+            .map(rule => this.check(rule, intent, now))
+            .filter((c): c is RuleCheck => c !== null)
+        const reasons = checks.filter(c => !c.passed).map(c => c.detail)
+        const body = {
+            allowed: reasons.length === 0,
+            policyId: this.config.id,
+            agentId: intent.agentId,
+            action: intent.action,
+            value: intent.value.toString(),
+            currency: intent.currency,
+            checks,
+            reasons,
+            decidedAt: now,
+        }
+        const digest = keccak256(stringToHex(JSON.stringify(body)))
+        return { ...body, token: `${body.policyId}:${body.allowed ? 'allow' : 'deny'}:${digest.slice(2, 18)}` }
+    }
+
+    /**
+     * Evaluate, report the decision, then either throw SpendingPolicyError or
+     * book the value against the caps. Spend is booked before broadcast, so a
+     * failed transaction errs on the side of the cap.
+     */
+    authorize(intent: SpendIntent, onDecision?: (decision: PolicyDecision) => void): PolicyDecision {
+        const decision = this.evaluate(intent)
+        onDecision?.(decision)
+        if (!decision.allowed) throw new SpendingPolicyError(decision)
+        if (intent.value > 0n) this.ledger.record(ledgerKey(intent.agentId, decision.currency), intent.value, decision.decidedAt)
+        return decision
+    }
+
+    private check(rule: PolicyRule, intent: SpendIntent, now: number): RuleCheck | null {
+        const result = (passed: boolean, detail: string): RuleCheck => ({ rule: rule.kind, passed, detail })
+        const currency = intent.currency
+        const format = (amount: bigint) => formatUnits(amount, CURRENCY_DECIMALS[currency])
+        switch (rule.kind) {
+            case 'perTxCap': {
+                if ((rule.currency ?? 'sFUEL') !== currency) return null
+                const max = parseUnits(rule.max, CURRENCY_DECIMALS[currency])
+                return result(intent.value <= max, `value ${format(intent.value)} ${intent.value <= max ? '≤' : '>'} per-tx cap ${rule.max} ${currency}`)
+            }
+            case 'dailyCap':
+            case 'weeklyCap': {
+                if ((rule.currency ?? 'sFUEL') !== currency) return null
+                const max = parseUnits(rule.max, CURRENCY_DECIMALS[currency])
+                const span = rule.kind === 'dailyCap' ? DAY_MS : WEEK_MS
+                const total = this.ledger.spentSince(ledgerKey(intent.agentId, currency), now - span) + intent.value
+                const label = rule.kind === 'dailyCap' ? 'daily' : 'weekly'
+                return result(total <= max, `${label} spend ${format(total)} ${total <= max ? '≤' : '>'} ${label} cap ${rule.max} ${currency}`)
+            }
+            case 'allowedProviders': {
+                if (!intent.provider) return null
+                const ok = rule.providers.some(p => p.toLowerCase() === intent.provider!.toLowerCase())
+                return result(ok, `provider ${intent.provider} ${ok ? 'is' : 'is not'} allow-listed`)
+            }
+            case 'allowedServices': {
+                if (intent.serviceId === undefined) return null
+                const ok = rule.serviceIds.some(id => BigInt(id) === intent.serviceId)
+                return result(ok, `service #${intent.serviceId} ${ok ? 'is' : 'is not'} allow-listed`)
+            }
+            case 'maxPriceOverBase': {
+                if (intent.price === undefined || intent.basePrice === undefined) return null
+                // Compare in basis points to stay in bigint
+                const limit = intent.basePrice * BigInt(Math.round(rule.ratio * 10_000)) / 10_000n
+                const ok = intent.price <= limit
+                return result(ok, `price ${format(intent.price)} ${ok ? '≤' : '>'} ${rule.ratio}× base price ${format(intent.basePrice)}`)
+            }
+            case 'minRating':
+            case 'minUptime': {
+                if (intent.serviceId === undefined) return null
+                const label = rule.kind === 'minRating' ? 'rating' : 'uptime'
+                const actual = intent.service?.[label]
+                if (actual === undefined) return result(false, `service #${intent.serviceId} ${label} is unknown`)
+                return result(actual >= rule.min, `service #${intent.serviceId} ${label} ${actual} ${actual >= rule.min ? '≥' : '<'} ${rule.min}`)
+            }
+        }
+    }
+}
+
+// ─────────────── Config ───────────────
+
+/** Thrown for a malformed policy document. */
+export class SpendingPolicyConfigError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SpendingPolicyConfigError'
+    }
+}
+
+function parseRule(raw: unknown, where: string): PolicyRule {
+    const rule = raw as Record<string, unknown> | null
+    const amount = (v: unknown) => {
+        if (typeof v !== 'string' || !/^\d+(\.\d+)?$/.test(v)) throw new SpendingPolicyConfigError(`${where}: max must be a decimal string`)
+        return v
+    }
+    const number = (v: unknown, name: string) => {
+        if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) throw new SpendingPolicyConfigError(`${where}: ${name} must be a non-negative number`)
+        return v
+    }
+    switch (rule?.kind) {
+        case 'perTxCap':
+        case 'dailyCap':
+        case 'weeklyCap':
+            if (rule.currency !== undefined && !isSettlementCurrency(rule.currency)) {
+                throw new SpendingPolicyConfigError(`${where}: currency must be sFUEL or USDC`)
+            }
+            return { kind: rule.kind, max: amount(rule.max), ...(rule.currency ? { currency: rule.currency } : {}) }
+        case 'allowedProviders':
+            if (!Array.isArray(rule.providers) || !rule.providers.every(p => typeof p === 'string' && isAddress(p, { strict: false }))) {
+                throw new SpendingPolicyConfigError(`${where}: providers must be addresses`)
+            }
+            return { kind: 'allowedProviders', providers: rule.providers.map(p => getAddress(p as string)) }
+        case 'allowedServices':
+            if (!Array.isArray(rule.serviceIds) || !rule.serviceIds.every(id => Number.isInteger(id) && id >= 0)) {
+                throw new SpendingPolicyConfigError(`${where}: serviceIds must be non-negative integers`)
+            }
+            return { kind: 'allowedServices', serviceIds: rule.serviceIds as number[] }
+        case 'maxPriceOverBase':
+            return { kind: 'maxPriceOverBase', ratio: number(rule.ratio, 'ratio') }
+        case 'minRating':
+        case 'minUptime':
+            return { kind: rule.kind, min: number(rule.min, 'min') }
+        default:
+            throw new SpendingPolicyConfigError(`${where}: unknown rule kind ${JSON.stringify(rule?.kind)}`)
+    }
+}
+
+/**
+ * Validate a policy document (e.g. from env). Throws SpendingPolicyConfigError.
+ */
+export function parseSpendingPolicy(json: string): SpendingPolicyConfig {
+    let raw: { id?: unknown; defaults?: unknown; agents?: unknown }
+    try {
+        raw = JSON.parse(json)
+    } catch {
+        throw new SpendingPolicyConfigError('Spending policy is not valid JSON')
+    }
+    if (typeof raw?.id !== 'string' || !Array.isArray(raw.defaults)) {
+        throw new SpendingPolicyConfigError('Spending policy needs an id and a defaults rule list')
+    }
+    const agents: Record<string, PolicyRule[]> = {}
+    for (const [agentId, rules] of Object.entries((raw.agents ?? {}) as Record<string, unknown>)) {
+        if (!Array.isArray(rules)) throw new SpendingPolicyConfigError(`agents.${agentId} must be a rule list`)
+        agents[agentId] = rules.map((r, i) => parseRule(r, `agents.${agentId}[${i}]`))
+    }
+    return { id: raw.id, defaults: raw.defaults.map((r, i) => parseRule(r, `defaults[${i}]`)), agents }
+}
+
+/**
+ * One log line for a decision: every check on allow, the failures on deny.
+ */
+export function formatDecision(decision: PolicyDecision): string {
+    const amount = `${formatUnits(BigInt(decision.value), CURRENCY_DECIMALS[decision.currency])} ${decision.currency}`
+    if (!decision.allowed) {
+        return `⛔ Policy ${decision.policyId} DENIED ${decision.action} (${amount}): ${decision.reasons.join('; ')}`
+    }
+    return `🛡️ Policy ${decision.policyId} allowed ${decision.action} (${amount}): ${decision.checks.map(c => c.detail).join(', ')}`
+}
@@ -0,0 +1,107 @@
+/**
+ * Treasury transfers - moving native sFUEL (and the USDC held for escrow)
+ * between the agent treasury, burner agent wallets and the user's connected
+ * wallet.
+ *
+ * Every sFUEL transfer here is a plain value send to an EOA, so it costs
+ * exactly TRANSFER_GAS; "max" amounts leave precisely that much behind for
+ * the fee. Token transfers pay their gas in sFUEL, so move tokens first.
+ */
+import type { Account, Address, Chain, Hash, PublicClient, Transport, WalletClient } from 'viem'
+import { tokenBalance, transferToken } from '@/lib/skale/token-escrow'
+
+/** Gas used by a value transfer to an EOA */
+export const TRANSFER_GAS = 21000n
+
+/** Gas reserved for a pending `revealOffer` (matches the marketplace tx default) */
+export const REVEAL_GAS = 500000n
+
+export interface TreasuryTransfer {
+    hash: Hash
+    amount: bigint
+}
+
+/**
+ * Largest amount `balance` can send after paying for the transfer itself
+ * and keeping `reserve` behind. Zero when nothing is left.
+ */
+export function maxTransferable(balance: bigint, gasPrice: bigint, reserve = 0n): bigint {
+    const spendable = balance - gasPrice * TRANSFER_GAS - reserve
+    return spendable > 0n ? spendable : 0n
+}
+
+/**
+ * Send `amount` from `wallet` to `to` and wait for it to land.
+ */
+export async function transferNative(params: {
+    publicClient: PublicClient
+    wallet: WalletClient<Transport, Chain, Account>
+    to: Address
+    amount: bigint
+    gasPrice?: bigint
+}): Promise<TreasuryTransfer> {
+    const { publicClient, wallet, to, amount } = params
+    const gasPrice = params.gasPrice ?? await publicClient.getGasPrice()
+    const hash = await wallet.sendTransaction({
+        to,
+        value: amount,
+        chain: wallet.chain,
+        gas: TRANSFER_GAS,
+        gasPrice,
+        type: 'legacy'
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new Error(`Transfer ${hash} reverted on-chain`)
+    return { hash, amount }
+}
+
+/**
+ * Move everything `wallet` holds (minus gas and `reserve`) to `to`.
+ * Returns null when the balance does not cover the fee.
+ */
+export async function sweepBalance(params: {
+    publicClient: PublicClient
+    wallet: WalletClient<Transport, Chain, Account>
+    to: Address
+    reserve?: bigint
+}): Promise<TreasuryTransfer | null> {
+    const { publicClient, wallet, to } = params
+    const [balance, gasPrice] = await Promise.all([
+        publicClient.getBalance({ address: wallet.account.address }),
+        publicClient.getGasPrice(),
+    ])
+    const amount = maxTransferable(balance, gasPrice, params.reserve)
+    if (amount === 0n) return null
+    return transferNative({ publicClient, wallet, to, amount, gasPrice })
+}
+
+/**
+ * Send `amount` of ERC-20 `token` from `wallet` to `to` and wait for it to land.
+ */
+export async function transferTokenAmount(params: {
+    publicClient: PublicClient
+    wallet: WalletClient<Transport, Chain, Account>
+    token: Address
+    to: Address
+    amount: bigint
+}): Promise<TreasuryTransfer> {
+    const { publicClient, wallet, token, to, amount } = params
+    const hash = await transferToken(wallet, token, to, amount, { gasPrice: await publicClient.getGasPrice() })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new Error(`Token transfer ${hash} reverted on-chain`)
+    return { hash, amount }
+}
+
+/**
+ * Move all of `wallet`'s `token` to `to`. Returns null when it holds none.
+ */
+export async function sweepToken(params: {
+    publicClient: PublicClient
+    wallet: WalletClient<Transport, Chain, Account>
+    token: Address
+    to: Address
+}): Promise<TreasuryTransfer | null> {
+    const amount = await tokenBalance(params.publicClient, params.token, params.wallet.account.address)
+    if (amount === 0n) return null
+    return transferTokenAmount({ ...params, amount })
+}
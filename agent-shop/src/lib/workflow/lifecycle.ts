@@ -0,0 +1,59 @@
+/**
+ * Agent Lifecycle - the states every marketplace flow moves through
+ *
+ * Shared by the 1v1 agent (useAgent), the battle (useMultiAgent) and the
+ * headless engine (runAgentArbitrageFlow). Each flow supplies its own steps;
+ * the states, allowed transitions and timeline phases live here.
+ */
+import { defineWorkflow, type RetryPolicy } from './machine'
+
+export const AGENT_STATES = [
+    'IDLE',
+    'THINKING',
+    'DISCOVERING',
+    'PROVISIONING',
+    'REQUESTING',
+    'BIDDING',
+    'REVEALING',
+    'AWAITING_APPROVAL',
+    'SETTLING',
+    'COMPLETED',
+    'ERROR',
+] as const
+export type AgentState = typeof AGENT_STATES[number]
+
+export const AGENT_LIFECYCLE = defineWorkflow<AgentState>({
+    id: 'agent-lifecycle',
+    initial: 'IDLE',
+    completed: 'COMPLETED',
+    failed: 'ERROR',
+    transitions: {
+        IDLE: ['THINKING', 'PROVISIONING'],
+        THINKING: ['DISCOVERING', 'PROVISIONING'],
+        DISCOVERING: ['PROVISIONING'],
+        PROVISIONING: ['REQUESTING'],
+        REQUESTING: ['AWAITING_APPROVAL', 'BIDDING'],
+        BIDDING: ['REVEALING'],
+        REVEALING: ['SETTLING'],
+        // Pauses return to the step that asked for sign-off
+        AWAITING_APPROVAL: ['REQUESTING', 'SETTLING'],
+        SETTLING: ['AWAITING_APPROVAL', 'COMPLETED'],
+        COMPLETED: [],
+        ERROR: [],
+    },
+    phases: [
+        { id: 'analysis', label: 'Analysis', states: ['THINKING', 'DISCOVERING'] },
+        { id: 'escrow', label: 'Escrow', states: ['PROVISIONING', 'REQUESTING'] },
+        { id: 'negotiation', label: 'Negotiation', states: ['BIDDING', 'REVEALING'] },
+        { id: 'settlement', label: 'Settlement', states: ['SETTLING'] },
+        { id: 'done', label: 'Done', states: ['COMPLETED'] },
+    ],
+})
+
+/** True while a run is in flight (including a pause for approval) */
+export function isActiveState(state: AgentState): boolean {
+    return state !== 'IDLE' && state !== 'COMPLETED' && state !== 'ERROR'
+}
+
+/** Chain reads and AI calls: safe to repeat */
+export const READ_RETRY: RetryPolicy = { attempts: 2, delayMs: 1500 }
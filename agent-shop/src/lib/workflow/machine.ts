@@ -0,0 +1,245 @@
+/**
+ * Workflow Machine - declarative runner for multi-step agent flows
+ *
+ * A definition lists the states and the transitions allowed between them; a
+ * run is an ordered list of steps, each executed in one of those states.
+ * Steps may be skipped by a guard, retried by their retry policy, recovered
+ * (demo-mode stand-ins) once retries run out, and undone by a compensation
+ * when a later step fails. A run interrupted by a reload can be resumed after
+ * its last completed step.
+ */
+
+// ─────────────── Types ───────────────
+
+export interface WorkflowPhase<S extends string> {
+    id: string
+    label: string
+    /** States shown as this phase on the timeline */
+    states: readonly S[]
+}
+
+export interface WorkflowDefinition<S extends string> {
+    id: string
+    initial: S
+    completed: S
+    failed: S
+    /** Allowed moves out of each state. `initial` and `failed` are reachable from anywhere. */
+    transitions: Record<S, readonly S[]>
+    /** Timeline phases in order. A state in no phase (a pause) shows as the phase of the running step. */
+    phases: readonly WorkflowPhase<S>[]
+}
+
+export interface RetryPolicy {
+    /** Total tries, including the first */
+    attempts: number
+    /** Wait before the second try; doubled for each try after that */
+    delayMs: number
+    /** Errors worth another try. Defaults to all. */
+    retryIf?: (error: unknown) => boolean
+}
+
+export const NO_RETRY: RetryPolicy = { attempts: 1, delayMs: 0 }
+
+/** Handed to a running step so it can pause the machine (e.g. for operator approval) */
+export interface StepControl<S extends string> {
+    attempt: number
+    pause(state: S): void
+    resume(): void
+}
+
+export interface WorkflowStep<S extends string, C> {
+    id: string
+    /** State the machine is in while this step runs */
+    state: S
+    /** Skip the step when this returns false */
+    guard?: (ctx: C) => boolean
+    run: (ctx: C, control: StepControl<S>) => Promise<void>
+    retry?: RetryPolicy
+    /** Runs after the last failed try. Returning counts as success; throwing fails the run. */
+    recover?: (ctx: C, error: unknown) => Promise<void>
+    /** Undoes this (completed) step when a later one fails. Runs in reverse step order. */
+    compensate?: (ctx: C, error: unknown) => Promise<void>
+    /** On resume, rebuilds what this already-completed step left in memory (clients, secrets) */
+    restore?: (ctx: C) => Promise<void>
+}
+
+export interface WorkflowSnapshot<S extends string> {
+    state: S
+    /** Running (or failed) step, null before the first and after completion */
+    step: string | null
+    /** State of that step; differs from `state` while the step is paused */
+    stepState: S | null
+    attempt: number
+}
+
+export interface WorkflowHooks<S extends string> {
+    onTransition?: (snapshot: WorkflowSnapshot<S>) => void
+    /** After each step finishes (including recovered steps); the place to persist progress */
+    onStepComplete?: (step: string, snapshot: WorkflowSnapshot<S>) => void
+    onRetry?: (step: string, attempt: number, error: unknown) => void
+    onCompensationError?: (step: string, error: unknown) => void
+}
+
+export type WorkflowOutcome = 'completed' | 'cancelled'
+
+export interface WorkflowResume<S extends string> {
+    /** IDs of steps that finished in the interrupted run */
+    completed: readonly string[]
+    /** State to pick up in when none of `completed` is among this run's steps */
+    from?: S
+}
+
+// ─────────────── Errors ───────────────
+
+/** A step or pause moved the machine along a transition the definition does not allow */
+export class WorkflowTransitionError extends Error {
+    constructor(public readonly workflow: string, public readonly from: string, public readonly to: string) {
+        super(`${workflow}: no transition ${from} → ${to}`)
+        this.name = 'WorkflowTransitionError'
+    }
+}
+
+/**
+ * Thrown by a step to stop the run without failing it (the user backed out).
+ * Completed steps are compensated and the machine returns to `initial`.
+ */
+export class WorkflowCancelled extends Error {
+    constructor(reason: string) {
+        super(reason)
+        this.name = 'WorkflowCancelled'
+    }
+}
+
+// ─────────────── Definition helpers ───────────────
+
+export function defineWorkflow<S extends string>(definition: WorkflowDefinition<S>): WorkflowDefinition<S> {
+    return definition
+}
+
+export function canTransition<S extends string>(definition: WorkflowDefinition<S>, from: S, to: S): boolean {
+    return from === to || to === definition.initial || to === definition.failed || definition.transitions[from].includes(to)
+}
+
+export function idleSnapshot<S extends string>(definition: WorkflowDefinition<S>): WorkflowSnapshot<S> {
+    return { state: definition.initial, step: null, stepState: null, attempt: 0 }
+}
+
+/**
+ * Timeline position of `snapshot`: its state's phase, or the running step's
+ * phase while paused. -1 when neither belongs to a phase (idle, failed).
+ */
+export function phaseIndex<S extends string>(definition: WorkflowDefinition<S>, snapshot: WorkflowSnapshot<S>): number {
+    const find = (state: S | null) => state === null ? -1 : definition.phases.findIndex(p => p.states.includes(state))
+    const own = find(snapshot.state)
+    if (own !== -1 || snapshot.state === definition.failed) return own
+    return find(snapshot.stepState)
+}
+
+// ─────────────── Machine ───────────────
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+/**
+ * One run of `steps` against `definition`. Create a fresh machine per run.
+ */
+export class WorkflowMachine<S extends string, C> {
+    private current: WorkflowSnapshot<S>
+
+    constructor(
+        readonly definition: WorkflowDefinition<S>,
+        readonly steps: readonly WorkflowStep<S, C>[],
+        private readonly hooks: WorkflowHooks<S> = {}
+    ) {
+        for (const step of steps) {
+            if (!(step.state in definition.transitions)) {
+                throw new Error(`${definition.id}: step "${step.id}" runs in unknown state ${step.state}`)
+            }
+        }
+        this.current = idleSnapshot(definition)
+    }
+
+    get snapshot(): WorkflowSnapshot<S> {
+        return this.current
+    }
+
+    /**
+     * Execute the steps in order. Resolves 'completed' or 'cancelled'; any other
+     * failure compensates the completed steps, moves to `failed` and rethrows.
+     *
+     * With `resume`, steps listed as completed are restored instead of run and
+     * the machine picks up in the state of the last of them.
+     */
+    async run(ctx: C, resume?: WorkflowResume<S>): Promise<WorkflowOutcome> {
+        const done: WorkflowStep<S, C>[] = []
+        try {
+            if (resume) {
+                for (const step of this.steps) {
+                    if (!resume.completed.includes(step.id)) continue
+                    await step.restore?.(ctx)
+                    done.push(step)
+                }
+                const from = done.at(-1)?.state ?? resume.from
+                if (from) this.current = { state: from, step: null, stepState: null, attempt: 0 }
+            }
+            for (const step of this.steps) {
+                if (done.includes(step)) continue
+                if (step.guard && !step.guard(ctx)) continue
+                await this.execute(step, ctx)
+                done.push(step)
+                this.hooks.onStepComplete?.(step.id, this.current)
+            }
+            this.move(this.definition.completed, { step: null, stepState: null, attempt: 0 })
+            return 'completed'
+        } catch (error) {
+            for (const step of done.reverse()) {
+                if (!step.compensate) continue
+                try {
+                    await step.compensate(ctx, error)
+                } catch (e) {
+                    if (this.hooks.onCompensationError) this.hooks.onCompensationError(step.id, e)
+                    else console.warn(`${this.definition.id}: compensation for ${step.id} failed`, e)
+                }
+            }
+            if (error instanceof WorkflowCancelled) {
+                this.move(this.definition.initial, { step: null, stepState: null, attempt: 0 })
+                return 'cancelled'
+            }
+            this.move(this.definition.failed, {})
+            throw error
+        }
+    }
+
+    private async execute(step: WorkflowStep<S, C>, ctx: C) {
+        const { attempts, delayMs, retryIf } = step.retry ?? NO_RETRY
+        for (let attempt = 1; ; attempt++) {
+            this.move(step.state, { step: step.id, stepState: step.state, attempt })
+            try {
+                await step.run(ctx, {
+                    attempt,
+                    pause: state => this.move(state, {}),
+                    resume: () => this.move(step.state, {}),
+                })
+                return
+            } catch (error) {
+                if (error instanceof WorkflowCancelled) throw error
+                const retryable = attempt < attempts && (!retryIf || retryIf(error))
+                if (retryable) {
+                    this.hooks.onRetry?.(step.id, attempt, error)
+                    await sleep(delayMs * 2 ** (attempt - 1))
+                    continue
+                }
+                if (!step.recover) throw error
+                await step.recover(ctx, error)
+                return
+            }
+        }
+    }
+
+    private move(to: S, patch: Partial<Omit<WorkflowSnapshot<S>, 'state'>>) {
+        if (!canTransition(this.definition, this.current.state, to)) {
+            throw new WorkflowTransitionError(this.definition.id, this.current.state, to)
+        }
+        this.current = { ...this.current, ...patch, state: to }
+        this.hooks.onTransition?.(this.current)
+    }
+}
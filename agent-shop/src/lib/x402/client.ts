@@ -0,0 +1,140 @@
+/**
+ * x402 Client - paying for HTTP resources
+ *
+ * `createPaymentFetch` wraps `fetch`: when a resource answers 402 it picks the
+ * USDC requirement for the active network, signs an EIP-3009 authorization
+ * with the agent's key and retries with the `X-PAYMENT` header. The signature
+ * moves no funds by itself; the server's facilitator submits it on-chain.
+ */
+import { toHex, type LocalAccount } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+import {
+    X402_VERSION,
+    PAYMENT_HEADER,
+    PAYMENT_RESPONSE_HEADER,
+    X402ProtocolError,
+    authorizationTypedData,
+    decodePaymentResponseHeader,
+    encodePaymentHeader,
+    type Eip3009Authorization,
+    type PaymentPayload,
+    type PaymentRequiredResponse,
+    type PaymentRequirements,
+    type SettleResponse,
+} from './protocol'
+
+/** Authorizations are backdated to tolerate clock skew between client and chain */
+const VALID_AFTER_SKEW_SECONDS = 600
+
+export interface PaymentFetchOptions {
+    account: LocalAccount
+    network: NetworkProfile
+    /** Most the wrapper will pay for one request, in atomic USDC units */
+    maxAmount: bigint
+    /** Called before signing; throw to refuse the payment (spending policy, approvals) */
+    beforePayment?: (requirements: PaymentRequirements) => void | Promise<void>
+    fetchImpl?: typeof fetch
+}
+
+/** A paid response and what was paid for it */
+export interface PaidResponse {
+    response: Response
+    /** Absent when the resource did not ask for payment */
+    payment?: {
+        requirements: PaymentRequirements
+        authorization: Eip3009Authorization
+        /** Settlement reported by the server; absent when the server sent none */
+        settlement?: SettleResponse
+    }
+}
+
+/** The resource asked for a payment this client will not or cannot make */
+export class PaymentRefusedError extends Error {
+    constructor(message: string, public readonly requirements?: PaymentRequirements) {
+        super(message)
+        this.name = 'PaymentRefusedError'
+    }
+}
+
+function randomNonce() {
+    return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * The requirement this client can pay: the `exact` scheme, on its network,
+ * in its USDC.
+ */
+export function selectRequirements(body: PaymentRequiredResponse, network: NetworkProfile): PaymentRequirements | undefined {
+    return body.accepts?.find(r =>
+        r.scheme === 'exact' &&
+        r.network === network.x402Network &&
+        r.asset.toLowerCase() === network.usdcAddress.toLowerCase()
+    )
+}
+
+/**
+ * Sign an `exact` payment for `requirements`.
+ */
+export async function signPayment(account: LocalAccount, network: NetworkProfile, requirements: PaymentRequirements): Promise<PaymentPayload> {
+    const now = Math.floor(Date.now() / 1000)
+    const authorization: Eip3009Authorization = {
+        from: account.address,
+        to: requirements.payTo,
+        value: requirements.maxAmountRequired,
+        validAfter: String(now - VALID_AFTER_SKEW_SECONDS),
+        validBefore: String(now + requirements.maxTimeoutSeconds),
+        nonce: randomNonce(),
+    }
+    const signature = await account.signTypedData(authorizationTypedData(requirements, network.chain.id, authorization))
+    return {
+        x402Version: X402_VERSION,
+        scheme: 'exact',
+        network: requirements.network,
+        payload: { signature, authorization },
+    }
+}
+
+/**
+ * A `fetch` that pays for 402 responses.
+ */
+export function createPaymentFetch(options: PaymentFetchOptions) {
+    const { account, network, maxAmount, beforePayment } = options
+    const fetchImpl = options.fetchImpl ?? fetch
+
+    return async (input: string | URL, init: RequestInit = {}): Promise<PaidResponse> => {
+        const first = await fetchImpl(input, init)
+        if (first.status !== 402) return { response: first }
+
+        const body = await first.json().catch(() => null) as PaymentRequiredResponse | null
+        if (!body || !Array.isArray(body.accepts)) throw new X402ProtocolError('402 response has no payment requirements')
+
+        const requirements = selectRequirements(body, network)
+        if (!requirements) {
+            throw new PaymentRefusedError(`No payment option for USDC on ${network.x402Network} (${body.error ?? 'no reason given'})`)
+        }
+        const amount = BigInt(requirements.maxAmountRequired)
+        if (amount > maxAmount) {
+            throw new PaymentRefusedError(`Price ${amount} exceeds the cap of ${maxAmount} atomic USDC`, requirements)
+        }
+        await beforePayment?.(requirements)
+
+        const payload = await signPayment(account, network, requirements)
+        const headers = new Headers(init.headers)
+        headers.set(PAYMENT_HEADER, encodePaymentHeader(payload))
+        const response = await fetchImpl(input, { ...init, headers })
+
+        if (response.status === 402) {
+            const rejection = await response.json().catch(() => null) as PaymentRequiredResponse | null
+            throw new PaymentRefusedError(`Payment rejected: ${rejection?.error ?? 'no reason given'}`, requirements)
+        }
+        const settlementHeader = response.headers.get(PAYMENT_RESPONSE_HEADER)
+        return {
+            response,
+            payment: {
+                requirements,
+                authorization: payload.payload.authorization,
+                settlement: settlementHeader ? decodePaymentResponseHeader(settlementHeader) : undefined,
+            },
+        }
+    }
+}
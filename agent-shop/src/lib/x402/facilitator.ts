@@ -0,0 +1,122 @@
+/**
+ * x402 Facilitator - verification and settlement of x402 payments
+ *
+ * A resource server does not touch the chain itself: it hands the client's
+ * payment payload and its own requirements to a facilitator, which checks
+ * the signed authorization (`verify`) and later submits it on-chain
+ * (`settle`). Facilitators speak the standard x402 REST API:
+ * `POST /verify` and `POST /settle` with
+ * `{ x402Version, paymentPayload, paymentRequirements }`, and
+ * `GET /supported` listing the networks they serve.
+ *
+ * Implementations: `HttpFacilitator` for any facilitator behind that API,
+ * `KobaruFacilitator` for the hosted SKALE gateway, and `LocalFacilitator`
+ * (local-facilitator.ts, served at /api/facilitator) for local chains and CI.
+ */
+import type { NetworkProfile } from '@/config/networks'
+import {
+    X402_VERSION,
+    type PaymentPayload,
+    type PaymentRequirements,
+    type SettleResponse,
+    type SupportedResponse,
+    type VerifyResponse,
+} from './protocol'
+
+export interface X402Facilitator {
+    /** Where this facilitator lives, for logs */
+    readonly url: string
+    verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>
+    settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>
+    supported(): Promise<SupportedResponse>
+}
+
+/** The facilitator could not be reached or answered with something other than a verdict */
+export class FacilitatorError extends Error {
+    constructor(public readonly url: string, message: string, public readonly status?: number) {
+        super(`Facilitator ${url}: ${message}`)
+        this.name = 'FacilitatorError'
+    }
+}
+
+/**
+ * Facilitator behind the standard x402 REST API.
+ */
+export class HttpFacilitator implements X402Facilitator {
+    constructor(readonly url: string, private readonly timeoutMs = 30_000) { }
+
+    verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+        return this.post<VerifyResponse>('verify', payload, requirements)
+    }
+
+    settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+        return this.post<SettleResponse>('settle', payload, requirements)
+    }
+
+    supported(): Promise<SupportedResponse> {
+        return this.request<SupportedResponse>('supported', { method: 'GET' })
+    }
+
+    /** Extra headers for every call (credentials, for facilitators that need them) */
+    protected headers(): Record<string, string> {
+        return {}
+    }
+
+    private post<T>(path: string, paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements): Promise<T> {
+        return this.request<T>(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ x402Version: X402_VERSION, paymentPayload, paymentRequirements }),
+        })
+    }
+
+    private async request<T>(path: string, init: RequestInit): Promise<T> {
+        let res: Response
+        try {
+            res = await fetch(`${this.url.replace(/\/$/, '')}/${path}`, {
+                ...init,
+                headers: { ...init.headers, ...this.headers() },
+                signal: AbortSignal.timeout(this.timeoutMs),
+            })
+        } catch (e) {
+            throw new FacilitatorError(this.url, `${path} unreachable (${e instanceof Error ? e.message : String(e)})`)
+        }
+        const body = await res.json().catch(() => null)
+        if (!res.ok || !body) {
+            throw new FacilitatorError(this.url, `${path} answered HTTP ${res.status}${body?.error ? `: ${body.error}` : ''}`, res.status)
+        }
+        return body as T
+    }
+}
+
+/**
+ * Kobaru, the hosted facilitator for SKALE. It speaks the standard REST API;
+ * calls carry `KOBARU_API_KEY` as a bearer token when one is set.
+ */
+export class KobaruFacilitator extends HttpFacilitator {
+    constructor(url: string, private readonly apiKey = process.env.KOBARU_API_KEY, timeoutMs?: number) {
+        super(url, timeoutMs)
+    }
+
+    protected headers(): Record<string, string> {
+        return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+    }
+}
+
+function isKobaruUrl(url: string) {
+    try {
+        return new URL(url).hostname.endsWith('kobaru.io')
+    } catch {
+        return false
+    }
+}
+
+/**
+ * The facilitator configured for `network`. Local networks point at this
+ * app's own /api/facilitator, which runs a LocalFacilitator.
+ */
+export function facilitatorFor(network: NetworkProfile): X402Facilitator {
+    return isKobaruUrl(network.facilitatorUrl)
+        ? new KobaruFacilitator(network.facilitatorUrl)
+        : new HttpFacilitator(network.facilitatorUrl)
+}
@@ -0,0 +1,211 @@
+/**
+ * Local x402 Facilitator - verify and settle without a hosted gateway
+ *
+ * Checks `exact` payments itself: network, asset (the network's USDC only),
+ * recipient, the exact amount, validity window, the EIP-3009 signature and
+ * nonce reuse. With a settler key it also reads the payer's balance and the
+ * token's nonce state, and settles by submitting `transferWithAuthorization`
+ * to the local chain. Without one it runs offline: nothing is read or sent,
+ * used nonces are remembered in memory and the settlement "transaction" is
+ * the hash of the signature, so CI can exercise the whole payment path
+ * deterministically. No funds move offline.
+ *
+ * Served over the standard REST API at /api/facilitator (X402_FACILITATOR_KEY).
+ */
+import {
+    createPublicClient,
+    createWalletClient,
+    keccak256,
+    parseSignature,
+    verifyTypedData,
+    type Address,
+    type LocalAccount,
+    type PublicClient,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { NETWORK_PROFILES, networkTransport, type NetworkProfile } from '@/config/networks'
+import { ERC20_ABI } from '@/lib/skale/erc20-abi'
+import type { X402Facilitator } from './facilitator'
+import {
+    X402_VERSION,
+    authorizationTypedData,
+    type PaymentPayload,
+    type PaymentRequirements,
+    type SettleResponse,
+    type SupportedResponse,
+    type VerifyResponse,
+} from './protocol'
+
+/** Settling takes a block or two; authorizations about to lapse are refused */
+const SETTLEMENT_MARGIN_SECONDS = 6n
+
+export interface LocalFacilitatorOptions {
+    /** Submits settlements and pays their gas. Omit to run offline. */
+    settler?: LocalAccount
+    publicClient?: PublicClient
+    /** Unix seconds; injectable for tests */
+    now?: () => number
+}
+
+const sameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase()
+
+export class LocalFacilitator implements X402Facilitator {
+    readonly url: string
+    private readonly publicClient: PublicClient
+    private readonly now: () => number
+    /** `from:nonce` of authorizations settled by this instance */
+    private readonly usedNonces = new Set<string>()
+
+    constructor(readonly network: NetworkProfile, private readonly options: LocalFacilitatorOptions = {}) {
+        this.url = `local:${network.id}${options.settler ? '' : ' (offline)'}`
+        this.publicClient = options.publicClient ?? createPublicClient({ chain: network.chain, transport: networkTransport(network) })
+        this.now = options.now ?? (() => Math.floor(Date.now() / 1000))
+    }
+
+    get offline(): boolean {
+        return !this.options.settler
+    }
+
+    async supported(): Promise<SupportedResponse> {
+        return { kinds: [{ x402Version: X402_VERSION, scheme: 'exact', network: this.network.x402Network }] }
+    }
+
+    async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+        const invalidReason = await this.check(payload, requirements)
+        const payer = payload.payload?.authorization?.from
+        return invalidReason ? { isValid: false, invalidReason, payer } : { isValid: true, payer }
+    }
+
+    async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+        const { authorization, signature } = payload.payload
+        const base = { network: requirements.network, payer: authorization.from }
+        const invalidReason = await this.check(payload, requirements)
+        if (invalidReason) return { ...base, success: false, errorReason: invalidReason, transaction: '' }
+
+        // Claimed before anything else awaits, so a concurrent settle of the same authorization loses
+        const nonceKey = `${authorization.from.toLowerCase()}:${authorization.nonce}`
+        if (this.usedNonces.has(nonceKey)) return { ...base, success: false, errorReason: 'nonce_already_used', transaction: '' }
+        this.usedNonces.add(nonceKey)
+
+        const { settler } = this.options
+        if (!settler) return { ...base, success: true, transaction: keccak256(signature) }
+
+        try {
+            const wallet = createWalletClient({ account: settler, chain: this.network.chain, transport: networkTransport(this.network) })
+            const { r, s, v, yParity } = parseSignature(signature)
+            const hash = await wallet.writeContract({
+                address: requirements.asset,
+                abi: ERC20_ABI,
+                functionName: 'transferWithAuthorization',
+                args: [
+                    authorization.from,
+                    authorization.to,
+                    BigInt(authorization.value),
+                    BigInt(authorization.validAfter),
+                    BigInt(authorization.validBefore),
+                    authorization.nonce,
+                    Number(v ?? BigInt(yParity + 27)),
+                    r,
+                    s,
+                ],
+                gas: 500000n,
+                gasPrice: await this.publicClient.getGasPrice(),
+                type: 'legacy',
+            })
+            const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+            if (receipt.status !== 'success') return { ...base, success: false, errorReason: 'settlement_reverted', transaction: hash }
+            return { ...base, success: true, transaction: hash }
+        } catch (error) {
+            // The authorization was never used on-chain, so it may be settled again
+            this.usedNonces.delete(nonceKey)
+            const message = error instanceof Error ? error.message.split('\n')[0] : String(error)
+            return { ...base, success: false, errorReason: `settlement_failed: ${message}`, transaction: '' }
+        }
+    }
+
+    /** Why the payment is invalid, or null if it is valid */
+    private async check(payload: PaymentPayload, requirements: PaymentRequirements): Promise<string | null> {
+        if (payload.x402Version !== X402_VERSION) return 'invalid_x402_version'
+        if (payload.scheme !== 'exact' || requirements.scheme !== 'exact') return 'unsupported_scheme'
+        if (payload.network !== requirements.network || requirements.network !== this.network.x402Network) return 'invalid_network'
+        // Only the network's USDC; an arbitrary `asset` would make us call and pay gas for any contract
+        if (!sameAddress(requirements.asset, this.network.usdcAddress)) return 'unsupported_asset'
+
+        const { authorization, signature } = payload.payload ?? {}
+        if (!authorization || !signature) return 'invalid_payload'
+        let value: bigint, validAfter: bigint, validBefore: bigint, required: bigint
+        try {
+            value = BigInt(authorization.value)
+            validAfter = BigInt(authorization.validAfter)
+            validBefore = BigInt(authorization.validBefore)
+            required = BigInt(requirements.maxAmountRequired)
+        } catch {
+            return 'invalid_payload'
+        }
+
+        if (!sameAddress(authorization.to, requirements.payTo)) return 'invalid_recipient'
+        // The exact scheme transfers exactly the price; more would overcharge the payer
+        if (value !== required) return value < required ? 'insufficient_amount' : 'invalid_amount'
+        const now = BigInt(this.now())
+        if (validAfter > now) return 'authorization_not_yet_valid'
+        if (validBefore < now + SETTLEMENT_MARGIN_SECONDS) return 'authorization_expired'
+
+        const signed = await verifyTypedData({
+            address: authorization.from,
+            ...authorizationTypedData(requirements, this.network.chain.id, authorization),
+            signature,
+        }).catch(() => false)
+        if (!signed) return 'invalid_signature'
+        if (this.usedNonces.has(`${authorization.from.toLowerCase()}:${authorization.nonce}`)) return 'nonce_already_used'
+        if (this.offline) return null
+
+        const [nonceUsed, balance] = await Promise.all([
+            this.publicClient.readContract({
+                address: requirements.asset,
+                abi: ERC20_ABI,
+                functionName: 'authorizationState',
+                args: [authorization.from, authorization.nonce],
+            }),
+            this.publicClient.readContract({
+                address: requirements.asset,
+                abi: ERC20_ABI,
+                functionName: 'balanceOf',
+                args: [authorization.from],
+            }),
+        ])
+        if (nonceUsed) return 'nonce_already_used'
+        if (balance < value) return 'insufficient_funds'
+        return null
+    }
+}
+
+// ─────────────── Server instances ───────────────
+
+// One facilitator per network for the server process, so offline nonce memory holds across requests
+const instances = new Map<string, LocalFacilitator>()
+
+function settlerAccount(): LocalAccount | undefined {
+    const key = process.env.X402_FACILITATOR_KEY
+    if (!key) return undefined
+    if (!/^0x[0-9a-fA-F]{64}$/.test(key)) throw new Error('X402_FACILITATOR_KEY must be a 0x-prefixed 32-byte hex private key')
+    return privateKeyToAccount(key as `0x${string}`)
+}
+
+/**
+ * The server's local facilitator for the x402 network name `x402Network`.
+ * Settles with X402_FACILITATOR_KEY, or offline without it. Offline
+ * settlement moves no funds, so without a key only the local profile is
+ * served; null for networks not served.
+ */
+export function getLocalFacilitator(x402Network: string): LocalFacilitator | null {
+    const network = Object.values(NETWORK_PROFILES).find(p => p.x402Network === x402Network)
+    if (!network) return null
+    let facilitator = instances.get(network.id)
+    if (!facilitator) {
+        const settler = settlerAccount()
+        if (!settler && network.id !== 'local') return null
+        facilitator = new LocalFacilitator(network, { settler })
+        instances.set(network.id, facilitator)
+    }
+    return facilitator
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared plumbing for the /api/payments routes: admin auth, error mapping and JSON shaping.
+ * Paid amounts are returned as atomic-unit strings next to the request's
+ * decimal `amount`.
+ */
+import { NextResponse, type NextRequest } from 'next/server'
+import { bearerToken, secretsMatch } from '@/lib/api-auth'
+import { jsonError } from '@/lib/indexer/api'
+import { PaymentRequestError, type PaymentRequestRecord } from './payment-requests'
+
+/**
+ * Gate the routes that settle or refund requests on PAYMENTS_API_TOKEN
+ * (Bearer). Returns the error response to send, or null when authorized:
+ * 503 when no token is configured, 401 when the credential is missing or wrong.
+ */
+export function requirePaymentsAuth(req: NextRequest): NextResponse | null {
+    const expected = process.env.PAYMENTS_API_TOKEN
+    if (!expected) return jsonError(503, 'Payment admin API is disabled: set PAYMENTS_API_TOKEN on the server')
+    const token = bearerToken(req)
+    if (!token || !secretsMatch(token, expected)) return jsonError(401, 'Payment admin API requires a valid PAYMENTS_API_TOKEN')
+    return null
+}
+
+/**
+ * Map store errors to HTTP: the error's own status (404 unknown, 409 replay or bad transition), else 502.
+ */
+export function paymentErrorResponse(error: unknown, label: string): NextResponse {
+    if (error instanceof PaymentRequestError) return jsonError(error.status, error.message)
+    console.error(`${label} Error:`, error)
+    return jsonError(502, `${label} failed: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+}
+
+export function serializePaymentRecord(record: PaymentRequestRecord) {
+    return {
+        request: record.request,
+        status: record.status,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        payment: record.payment
+            ? {
+                transactionHash: record.payment.transactionHash,
+                payer: record.payment.payer,
+                amount: record.payment.amount.toString(),
+                blockNumber: record.payment.blockNumber?.toString() ?? null,
+                paidAt: record.payment.paidAt,
+            }
+            : null,
+        refundTxHash: record.refundTxHash ?? null,
+    }
+}
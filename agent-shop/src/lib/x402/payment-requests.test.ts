@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { Hash } from 'viem'
+import type { X402PaymentRequest } from '@/lib/skale/x402'
+import { PaymentRequestError, PaymentRequestStore } from './payment-requests'
+
+const TX_A = `0x${'a'.repeat(64)}` as Hash
+const TX_B = `0x${'b'.repeat(64)}` as Hash
+const PAYER = '0x00000000000000000000000000000000000000aa'
+
+function paymentRequest(id: string, deadline = Date.now() + 60_000): X402PaymentRequest {
+    return {
+        id,
+        amount: '1',
+        currency: 'USDC',
+        tokenAddress: '0x00000000000000000000000000000000000000bb',
+        recipient: '0x00000000000000000000000000000000000000cc',
+        createdAt: Date.now(),
+        deadline,
+        facilitator: 'local',
+        chainId: 1,
+    }
+}
+
+function paidStore(id = 'req_1') {
+    const store = PaymentRequestStore.open(':memory:')
+    store.create(paymentRequest(id))
+    store.recordFacilitatorPayment(id, { transactionHash: TX_A, payer: PAYER, amount: 1_000_000n })
+    return store
+}
+
+function assertStatus(fn: () => unknown, status: number) {
+    assert.throws(fn, (e: unknown) => e instanceof PaymentRequestError && e.status === status)
+}
+
+describe('PaymentRequestStore', () => {
+    it('moves created → paid → settled', () => {
+        const store = paidStore()
+        const paid = store.get('req_1')!
+        assert.equal(paid.status, 'paid')
+        assert.equal(paid.payment?.transactionHash, TX_A)
+        assert.equal(paid.payment?.amount, 1_000_000n)
+        assert.equal(store.markSettled('req_1').status, 'settled')
+    })
+
+    it('moves paid → refunded with the refund transaction', () => {
+        const store = paidStore()
+        const refunded = store.markRefunded('req_1', TX_B)
+        assert.equal(refunded.status, 'refunded')
+        assert.equal(refunded.refundTxHash, TX_B)
+    })
+
+    it('refuses transitions the lifecycle does not allow', () => {
+        const store = PaymentRequestStore.open(':memory:')
+        store.create(paymentRequest('req_1'))
+        assertStatus(() => store.markSettled('req_1'), 409)
+        assertStatus(() => store.markRefunded('req_1'), 409)
+
+        const settled = paidStore()
+        settled.markSettled('req_1')
+        assertStatus(() => settled.markRefunded('req_1'), 409)
+        assertStatus(() => settled.markSettled('req_1'), 409)
+    })
+
+    it('answers 404 for an unknown request', () => {
+        assertStatus(() => PaymentRequestStore.open(':memory:').markSettled('nope'), 404)
+    })
+
+    it('expires unpaid requests past their deadline and still accepts a payment', () => {
+        const store = PaymentRequestStore.open(':memory:')
+        const now = Date.now()
+        store.create(paymentRequest('req_1', now - 1), now - 10)
+        assert.equal(store.get('req_1', now)!.status, 'expired')
+        store.markUsed('req_1', TX_A)
+        assert.equal(store.get('req_1')!.status, 'paid')
+    })
+
+    it('pays a request once and a transaction once', () => {
+        const store = paidStore()
+        assert.equal(store.isUsed('req_1', TX_B), true)
+        assertStatus(() => store.markUsed('req_1', TX_B), 409)
+
+        store.create(paymentRequest('req_2'))
+        assert.equal(store.isUsed('req_2', TX_A), true)
+        assertStatus(() => store.markUsed('req_2', TX_A), 409)
+        assert.equal(store.get('req_2')!.status, 'created')
+    })
+})
@@ -0,0 +1,299 @@
+/**
+ * Payment Request Store - SQLite lifecycle of x402 payment requests
+ *
+ * A provider issues an `X402PaymentRequest`, the payer answers with an
+ * `X402PaymentProof`, and the provider delivers only once the request is
+ * `paid`:
+ *
+ *     created → paid → settled | refunded
+ *     created → expired (deadline passed unpaid)
+ *
+ * Proofs go through `verifyPayment` with this store as its replay guard, so
+ * a request is paid at most once and a transaction pays at most one request,
+ * across restarts. A proof arriving after the deadline is still accepted if
+ * its transaction was mined before it (expired → paid).
+ *
+ * Payments over the x402 header flow are tracked too: `withX402Payment`
+ * creates the request once the facilitator verifies the payment and records
+ * it paid and settled once the facilitator settles it after delivery.
+ * Requests paid by proof are settled or refunded through
+ * /api/payments/:id/settle and /refund.
+ *
+ * Server-only: better-sqlite3.
+ */
+import fs from 'node:fs'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import { formatUnits, type Address, type Hash, type PublicClient } from 'viem'
+import { NETWORK_PROFILES } from '@/config/networks'
+import { USDC_DECIMALS } from '@/lib/skale/assets'
+import {
+    verifyPayment,
+    type PaymentReplayGuard,
+    type PaymentVerification,
+    type X402PaymentProof,
+    type X402PaymentRequest,
+} from '@/lib/skale/x402'
+import type { PaymentPayload, PaymentRequirements } from './protocol'
+
+// ─────────────── Types ───────────────
+
+export const PAYMENT_REQUEST_STATUSES = ['created', 'paid', 'settled', 'expired', 'refunded'] as const
+export type PaymentRequestStatus = typeof PAYMENT_REQUEST_STATUSES[number]
+
+export interface PaymentRequestRecord {
+    request: X402PaymentRequest
+    status: PaymentRequestStatus
+    createdAt: number
+    updatedAt: number
+    /** Set once a proof was verified */
+    payment?: {
+        transactionHash: Hash
+        payer: Address
+        /** Atomic units of the request's currency */
+        amount: bigint
+        /** Unknown for facilitator settlements, which report only the transaction */
+        blockNumber?: bigint
+        paidAt: number
+    }
+    refundTxHash?: Hash
+}
+
+/** Unknown request or a transition the lifecycle does not allow; routes answer `status`. */
+export class PaymentRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message)
+        this.name = 'PaymentRequestError'
+    }
+}
+
+const TRANSITIONS: Record<PaymentRequestStatus, PaymentRequestStatus[]> = {
+    created: ['paid', 'expired'],
+    expired: ['paid'],
+    paid: ['settled', 'refunded'],
+    settled: [],
+    refunded: [],
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS payment_requests (
+        id             TEXT PRIMARY KEY,
+        request        TEXT NOT NULL,
+        status         TEXT NOT NULL,
+        deadline       INTEGER NOT NULL,
+        tx_hash        TEXT UNIQUE,
+        payer          TEXT,
+        paid_amount    TEXT,
+        paid_block     TEXT,
+        paid_at        INTEGER,
+        refund_tx_hash TEXT,
+        created_at     INTEGER NOT NULL,
+        updated_at     INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS payment_requests_open ON payment_requests (status, deadline);
+`
+
+interface PaymentRequestRow {
+    id: string
+    request: string
+    status: PaymentRequestStatus
+    deadline: number
+    tx_hash: Hash | null
+    payer: Address | null
+    paid_amount: string | null
+    paid_block: string | null
+    paid_at: number | null
+    refund_tx_hash: Hash | null
+    created_at: number
+    updated_at: number
+}
+
+export function defaultPaymentsDbPath(): string {
+    return process.env.PAYMENTS_DB_PATH || path.join(process.cwd(), 'data', 'payments.db')
+}
+
+// ─────────────── Store ───────────────
+
+export class PaymentRequestStore implements PaymentReplayGuard {
+    readonly db: Database.Database
+
+    private constructor(db: Database.Database) {
+        this.db = db
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    /**
+     * Open (or create) the payments database. Parent directories are created as needed.
+     */
+    static open(file: string): PaymentRequestStore {
+        if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true })
+        return new PaymentRequestStore(new Database(file))
+    }
+
+    close() {
+        this.db.close()
+    }
+
+    /**
+     * Track a newly issued request. Fails if the ID is taken.
+     */
+    create(request: X402PaymentRequest, now = Date.now()): PaymentRequestRecord {
+        this.db.prepare(`
+            INSERT INTO payment_requests (id, request, status, deadline, created_at, updated_at)
+            VALUES (?, ?, 'created', ?, ?, ?)
+        `).run(request.id, JSON.stringify(request), request.deadline, now, now)
+        return this.get(request.id, now)!
+    }
+
+    /**
+     * The request and its status. Unpaid requests past their deadline are
+     * marked `expired` on the way out.
+     */
+    get(id: string, now = Date.now()): PaymentRequestRecord | null {
+        this.expire(now)
+        const row = this.db.prepare('SELECT * FROM payment_requests WHERE id = ?').get(id) as PaymentRequestRow | undefined
+        return row ? toRecord(row) : null
+    }
+
+    /**
+     * Mark unpaid requests past their deadline `expired`. Returns how many.
+     */
+    expire(now = Date.now()): number {
+        return this.db.prepare(`
+            UPDATE payment_requests SET status = 'expired', updated_at = ?
+            WHERE status = 'created' AND deadline < ?
+        `).run(now, now).changes
+    }
+
+    /**
+     * Verify `proof` on-chain and, if it pays the request, mark it `paid`.
+     * Replays (a paid request, a transaction already used) come back as
+     * `already_used`.
+     */
+    async submitProof(proof: X402PaymentProof, publicClient: PublicClient): Promise<PaymentVerification> {
+        const record = this.get(proof.requestId)
+        if (!record) throw new PaymentRequestError(404, `Unknown payment request "${proof.requestId}"`)
+
+        const verification = await verifyPayment(record.request, proof, publicClient, { replayGuard: this })
+        if (verification.valid) {
+            this.db.prepare(`
+                UPDATE payment_requests SET payer = ?, paid_amount = ?, paid_block = ?, paid_at = ?
+                WHERE id = ?
+            `).run(verification.payer, verification.amount.toString(), verification.blockNumber.toString(), verification.paidAt, record.request.id)
+        }
+        return verification
+    }
+
+    /**
+     * Record a payment the facilitator settled for request `id` (x402 header
+     * flow; there is no proof to verify) and mark it paid.
+     */
+    recordFacilitatorPayment(id: string, payment: { transactionHash: Hash; payer: Address; amount: bigint }, now = Date.now()): PaymentRequestRecord {
+        this.markUsed(id, payment.transactionHash)
+        this.db.prepare(`
+            UPDATE payment_requests SET payer = ?, paid_amount = ?, paid_at = ?
+            WHERE id = ?
+        `).run(payment.payer, payment.amount.toString(), now, id)
+        return this.get(id, now)!
+    }
+
+    /** The service was delivered against a paid request. */
+    markSettled(id: string): PaymentRequestRecord {
+        return this.transition(id, 'settled')
+    }
+
+    /** The payment went back to the payer (`refundTxHash` if it moved on-chain). */
+    markRefunded(id: string, refundTxHash?: Hash): PaymentRequestRecord {
+        return this.transition(id, 'refunded', refundTxHash)
+    }
+
+    // ─────────────── PaymentReplayGuard ───────────────
+
+    isUsed(requestId: string, transactionHash: Hash): boolean {
+        const row = this.db.prepare(`
+            SELECT 1 FROM payment_requests
+            WHERE (id = ? AND status NOT IN ('created', 'expired')) OR tx_hash = ?
+        `).get(requestId, transactionHash.toLowerCase())
+        return !!row
+    }
+
+    markUsed(requestId: string, transactionHash: Hash) {
+        try {
+            const changes = this.db.prepare(`
+                UPDATE payment_requests SET status = 'paid', tx_hash = ?, updated_at = ?
+                WHERE id = ? AND status IN ('created', 'expired')
+            `).run(transactionHash.toLowerCase(), Date.now(), requestId).changes
+            if (changes === 0) throw new PaymentRequestError(409, `Payment request "${requestId}" is already paid`)
+        } catch (error) {
+            if (error instanceof Error && 'code' in error && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+                throw new PaymentRequestError(409, `Transaction ${transactionHash} already paid another request`)
+            }
+            throw error
+        }
+    }
+
+    private transition(id: string, to: PaymentRequestStatus, refundTxHash?: Hash): PaymentRequestRecord {
+        const record = this.get(id)
+        if (!record) throw new PaymentRequestError(404, `Unknown payment request "${id}"`)
+        if (!TRANSITIONS[record.status].includes(to)) {
+            throw new PaymentRequestError(409, `Payment request "${id}" is ${record.status}; it cannot become ${to}`)
+        }
+        this.db.prepare(`
+            UPDATE payment_requests SET status = ?, refund_tx_hash = COALESCE(?, refund_tx_hash), updated_at = ?
+            WHERE id = ? AND status = ?
+        `).run(to, refundTxHash ?? null, Date.now(), id, record.status)
+        return this.get(id)!
+    }
+}
+
+function toRecord(row: PaymentRequestRow): PaymentRequestRecord {
+    return {
+        request: JSON.parse(row.request) as X402PaymentRequest,
+        status: row.status,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        payment: row.tx_hash && row.payer && row.paid_amount && row.paid_at !== null
+            ? {
+                transactionHash: row.tx_hash,
+                payer: row.payer,
+                amount: BigInt(row.paid_amount),
+                blockNumber: row.paid_block ? BigInt(row.paid_block) : undefined,
+                paidAt: row.paid_at,
+            }
+            : undefined,
+        refundTxHash: row.refund_tx_hash ?? undefined,
+    }
+}
+
+/**
+ * The payment request an x402 header payment answers: USDC `payTo` is owed
+ * `maxAmountRequired` until the authorization's `validBefore`. Null for a
+ * network this app does not know. IDs derive from the authorization, so a
+ * resent payment maps to the same request.
+ */
+export function paymentRequestForX402(payload: PaymentPayload, requirements: PaymentRequirements, facilitator: string, now = Date.now()): X402PaymentRequest | null {
+    const network = Object.values(NETWORK_PROFILES).find(p => p.x402Network === requirements.network)
+    if (!network) return null
+    const { authorization } = payload.payload
+    return {
+        id: `x402_${authorization.from.toLowerCase()}_${authorization.nonce}`,
+        amount: formatUnits(BigInt(requirements.maxAmountRequired), USDC_DECIMALS),
+        currency: 'USDC',
+        tokenAddress: requirements.asset,
+        recipient: requirements.payTo,
+        createdAt: now,
+        deadline: Number(authorization.validBefore) * 1000,
+        facilitator,
+        chainId: network.chain.id,
+        metadata: JSON.stringify({ resource: requirements.resource }),
+    }
+}
+
+// One database handle for the lifetime of the server process
+let instance: PaymentRequestStore | null = null
+
+export function getPaymentRequestStore(): PaymentRequestStore {
+    if (!instance) instance = PaymentRequestStore.open(defaultPaymentsDbPath())
+    return instance
+}
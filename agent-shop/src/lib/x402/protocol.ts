@@ -0,0 +1,208 @@
+/**
+ * x402 Protocol - HTTP 402 payments, wire format
+ *
+ * A paid resource answers an unpaid request with `402 Payment Required` and
+ * a list of payment requirements. The client signs an EIP-3009
+ * `transferWithAuthorization` for one of them and retries with the signed
+ * payload, base64-encoded, in the `X-PAYMENT` header. The server has a
+ * facilitator verify the payload, serves the resource, has the facilitator
+ * settle it on-chain and reports the settlement in `X-PAYMENT-RESPONSE`.
+ *
+ * Only the `exact` scheme (a fixed amount of an EIP-3009 token) is supported.
+ */
+import type { Address, Hex } from 'viem'
+import type { NetworkProfile } from '@/config/networks'
+
+// ─────────────── Types ───────────────
+
+export const X402_VERSION = 1
+
+export const PAYMENT_HEADER = 'X-PAYMENT'
+export const PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE'
+
+/** One way to pay for a resource, as listed in a 402 response */
+export interface PaymentRequirements {
+    scheme: 'exact'
+    network: string
+    /** Atomic units of `asset` */
+    maxAmountRequired: string
+    /** URL of the paid resource */
+    resource: string
+    description: string
+    mimeType: string
+    payTo: Address
+    /** How long the authorization must stay valid for the server to settle it */
+    maxTimeoutSeconds: number
+    /** EIP-3009 token contract */
+    asset: Address
+    /** EIP-712 domain of `asset` */
+    extra: { name: string; version: string }
+}
+
+/** Body of a 402 response */
+export interface PaymentRequiredResponse {
+    x402Version: number
+    error?: string
+    accepts: PaymentRequirements[]
+}
+
+/** EIP-3009 `transferWithAuthorization` arguments. Numbers are decimal strings. */
+export interface Eip3009Authorization {
+    from: Address
+    to: Address
+    value: string
+    validAfter: string
+    validBefore: string
+    nonce: Hex
+}
+
+/** Decoded `X-PAYMENT` header */
+export interface PaymentPayload {
+    x402Version: number
+    scheme: 'exact'
+    network: string
+    payload: {
+        signature: Hex
+        authorization: Eip3009Authorization
+    }
+}
+
+export interface VerifyResponse {
+    isValid: boolean
+    invalidReason?: string
+    payer?: Address
+}
+
+/** Decoded `X-PAYMENT-RESPONSE` header */
+export interface SettleResponse {
+    success: boolean
+    errorReason?: string
+    /** Settlement transaction hash; empty when settlement failed */
+    transaction: Hex | ''
+    network: string
+    payer?: Address
+}
+
+/** A scheme and network a facilitator can verify and settle */
+export interface SupportedKind {
+    x402Version: number
+    scheme: 'exact'
+    network: string
+}
+
+/** Body of a facilitator's `GET /supported` */
+export interface SupportedResponse {
+    kinds: SupportedKind[]
+}
+
+/** EIP-712 types of EIP-3009 `transferWithAuthorization` */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+    TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+    ],
+} as const
+
+/** Malformed x402 data: a bad header, an unreadable 402 body */
+export class X402ProtocolError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'X402ProtocolError'
+    }
+}
+
+// ─────────────── Requirements ───────────────
+
+export interface ExactUsdcRequirementsInput {
+    network: NetworkProfile
+    /** Atomic USDC units (6 decimals) */
+    amount: bigint
+    payTo: Address
+    resource: string
+    description: string
+    mimeType?: string
+    maxTimeoutSeconds?: number
+}
+
+/**
+ * Requirements for a fixed USDC price on `network`.
+ */
+export function exactUsdcRequirements(input: ExactUsdcRequirementsInput): PaymentRequirements {
+    return {
+        scheme: 'exact',
+        network: input.network.x402Network,
+        maxAmountRequired: input.amount.toString(),
+        resource: input.resource,
+        description: input.description,
+        mimeType: input.mimeType ?? 'application/json',
+        payTo: input.payTo,
+        maxTimeoutSeconds: input.maxTimeoutSeconds ?? 60,
+        asset: input.network.usdcAddress,
+        extra: input.network.usdcDomain,
+    }
+}
+
+/**
+ * EIP-712 typed data an `exact` payment signs, ready for `signTypedData`.
+ */
+export function authorizationTypedData(requirements: PaymentRequirements, chainId: number, authorization: Eip3009Authorization) {
+    return {
+        domain: {
+            name: requirements.extra.name,
+            version: requirements.extra.version,
+            chainId,
+            verifyingContract: requirements.asset,
+        },
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization' as const,
+        message: {
+            from: authorization.from,
+            to: authorization.to,
+            value: BigInt(authorization.value),
+            validAfter: BigInt(authorization.validAfter),
+            validBefore: BigInt(authorization.validBefore),
+            nonce: authorization.nonce,
+        },
+    }
+}
+
+// ─────────────── Headers ───────────────
+
+// btoa/atob exist in browsers and Node alike; Buffer does not exist in the browser
+function encodeJson(value: unknown): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(value))
+    return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''))
+}
+
+function decodeJson<T>(header: string, label: string): T {
+    try {
+        const bytes = Uint8Array.from(atob(header), c => c.charCodeAt(0))
+        return JSON.parse(new TextDecoder().decode(bytes)) as T
+    } catch {
+        throw new X402ProtocolError(`${label} is not base64-encoded JSON`)
+    }
+}
+
+export function encodePaymentHeader(payload: PaymentPayload): string {
+    return encodeJson(payload)
+}
+
+export function decodePaymentHeader(header: string): PaymentPayload {
+    const payload = decodeJson<PaymentPayload>(header, PAYMENT_HEADER)
+    if (payload?.scheme !== 'exact' || !payload.payload?.signature || !payload.payload.authorization) {
+        throw new X402ProtocolError(`${PAYMENT_HEADER} is not an exact-scheme payment`)
+    }
+    return payload
+}
+
+export function encodePaymentResponseHeader(response: SettleResponse): string {
+    return encodeJson(response)
+}
+
+export function decodePaymentResponseHeader(header: string): SettleResponse {
+    return decodeJson<SettleResponse>(header, PAYMENT_RESPONSE_HEADER)
+}
@@ -0,0 +1,159 @@
+/**
+ * x402 Resource Server - charging for a Next.js route
+ *
+ * `withX402Payment` wraps a route handler: requests without a valid
+ * `X-PAYMENT` header get `402 Payment Required` and the route's payment
+ * requirements. Paid requests are verified by the facilitator before the
+ * handler runs and settled after it succeeds; a failed handler is not charged.
+ * With a `paymentRequests` store, each verified payment is tracked as a
+ * payment request and marked settled once the facilitator settles it, and
+ * an authorization whose request is past `created` is refused before it is
+ * verified, whatever the facilitator remembers.
+ */
+import { NextResponse, type NextRequest } from 'next/server'
+import type { Address } from 'viem'
+import { FacilitatorError, type X402Facilitator } from './facilitator'
+import {
+    X402_VERSION,
+    PAYMENT_HEADER,
+    PAYMENT_RESPONSE_HEADER,
+    X402ProtocolError,
+    decodePaymentHeader,
+    encodePaymentResponseHeader,
+    type PaymentPayload,
+    type PaymentRequiredResponse,
+    type PaymentRequirements,
+} from './protocol'
+import { paymentRequestForX402, type PaymentRequestStore } from './payment-requests'
+
+/** A payment the facilitator has verified, handed to the paid handler */
+export interface VerifiedPayment {
+    payer: Address
+    payload: PaymentPayload
+    requirements: PaymentRequirements
+}
+
+export interface X402RouteOptions {
+    /**
+     * Requirements for this request, or a Response to send instead (the route
+     * is misconfigured, the query is invalid). Evaluated on every request so the
+     * resource URL and price can depend on it.
+     */
+    requirements: (req: NextRequest) => PaymentRequirements | Response | Promise<PaymentRequirements | Response>
+    facilitator: X402Facilitator | ((req: NextRequest) => X402Facilitator)
+    /**
+     * Track payments here (created on verify, settled on settlement). Pass a
+     * function to open the store on the first paid request, not at import.
+     */
+    paymentRequests?: PaymentRequestStore | ((req: NextRequest) => PaymentRequestStore)
+}
+
+type PaidHandler<A extends unknown[]> = (req: NextRequest, payment: VerifiedPayment, ...args: A) => Promise<Response>
+
+function paymentRequired(requirements: PaymentRequirements, error: string): NextResponse<PaymentRequiredResponse> {
+    return NextResponse.json({ x402Version: X402_VERSION, error, accepts: [requirements] }, { status: 402 })
+}
+
+function facilitatorFailure(error: unknown): NextResponse {
+    console.error('x402 Facilitator Error:', error)
+    const message = error instanceof FacilitatorError ? error.message : 'Payment facilitator failed'
+    return NextResponse.json({ success: false, error: message }, { status: 502 })
+}
+
+/**
+ * Run a payment request store update. Tracking is bookkeeping: a failure is
+ * logged and never fails the paid response.
+ */
+function track(label: string, update: () => void) {
+    try {
+        update()
+    } catch (error) {
+        console.error(`x402 Payment Tracking Error (${label}):`, error)
+    }
+}
+
+/**
+ * Charge for `handler` with x402. The handler only runs for verified
+ * payments; its response carries the settlement in `X-PAYMENT-RESPONSE`.
+ */
+export function withX402Payment<A extends unknown[]>(handler: PaidHandler<A>, options: X402RouteOptions) {
+    return async (req: NextRequest, ...args: A): Promise<Response> => {
+        const requirements = await options.requirements(req)
+        if (requirements instanceof Response) return requirements
+
+        const header = req.headers.get(PAYMENT_HEADER)
+        if (!header) return paymentRequired(requirements, `${PAYMENT_HEADER} header is required`)
+
+        let payload: PaymentPayload
+        try {
+            payload = decodePaymentHeader(header)
+        } catch (error) {
+            if (error instanceof X402ProtocolError) return paymentRequired(requirements, error.message)
+            throw error
+        }
+        if (payload.network !== requirements.network) {
+            return paymentRequired(requirements, `Payment is for network ${payload.network}, expected ${requirements.network}`)
+        }
+
+        const facilitator = typeof options.facilitator === 'function' ? options.facilitator(req) : options.facilitator
+        const store = typeof options.paymentRequests === 'function' ? options.paymentRequests(req) : options.paymentRequests
+        const tracked = store ? paymentRequestForX402(payload, requirements, facilitator.url) : null
+
+        // ─────────────── Replay ───────────────
+        // Facilitators may forget nonces (the offline LocalFacilitator does on
+        // restart); the store does not, so a used authorization is refused here
+        if (store && tracked) {
+            const existing = store.get(tracked.id)
+            if (existing && existing.status !== 'created') {
+                return paymentRequired(requirements, `Payment authorization was already used (request ${tracked.id} is ${existing.status})`)
+            }
+        }
+
+        // ─────────────── Verify ───────────────
+        let payer: Address
+        try {
+            const verification = await facilitator.verify(payload, requirements)
+            if (!verification.isValid) {
+                return paymentRequired(requirements, verification.invalidReason ?? 'Payment is invalid')
+            }
+            payer = verification.payer ?? payload.payload.authorization.from
+        } catch (error) {
+            return facilitatorFailure(error)
+        }
+
+        if (store && tracked) {
+            // A payment retried after a failed settlement already has its request
+            track('create', () => store.get(tracked.id) ?? store.create(tracked))
+        }
+
+        const response = await handler(req, { payer, payload, requirements }, ...args)
+        // Only charge for what was served
+        if (!response.ok) return response
+
+        // ─────────────── Settle ───────────────
+        try {
+            const settlement = await facilitator.settle(payload, requirements)
+            if (!settlement.success) {
+                return paymentRequired(requirements, settlement.errorReason ?? 'Payment settlement failed')
+            }
+            console.log(`💵 x402 payment from ${payer} settled: ${settlement.transaction}`)
+            if (store && tracked && settlement.transaction) {
+                const transactionHash = settlement.transaction
+                track('settle', () => {
+                    store.recordFacilitatorPayment(tracked.id, {
+                        transactionHash,
+                        payer,
+                        amount: BigInt(payload.payload.authorization.value),
+                    })
+                    store.markSettled(tracked.id)
+                })
+            }
+            const paid = new NextResponse(response.body, response)
+            paid.headers.set(PAYMENT_RESPONSE_HEADER, encodePaymentResponseHeader(settlement))
+            paid.headers.set('Access-Control-Expose-Headers', PAYMENT_RESPONSE_HEADER)
+            return paid
+        } catch (error) {
+            return facilitatorFailure(error)
+        }
+    }
+}
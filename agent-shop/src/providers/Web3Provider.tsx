@@ -4,7 +4,7 @@
  * Configures Wagmi, Viem, and RainbowKit for the application.
  * 
  * Key Features:
- * - SKALE BITE V2 Integration: Connects to the specific SKALE Sidechain (BITE Sandbox).
+ * - Network Profiles: Registers every chain in `config/networks` (BITE Sandbox first, local devnet for offline runs).
  * - RainbowKit: Provides the "Connect Wallet" UI.
  * - Transport Optimizations: Custom polling interval for faster SKALE finality feedback.
  */
@@ -25,8 +25,9 @@ import {
     walletConnectWallet,
     okxWallet,
 } from '@rainbow-me/rainbowkit/wallets'
-import { skaleBiteSandbox } from '@/config/chains'
-import { createConfig, http } from 'wagmi'
+import { NETWORK_PROFILES, getActiveNetwork, networkTransport } from '@/config/networks'
+import { createConfig } from 'wagmi'
+import type { Chain } from 'viem'
 import '@rainbow-me/rainbowkit/styles.css'
 
 const queryClient = new QueryClient()
@@ -51,15 +52,18 @@ const connectors = connectorsForWallets(
     }
 )
 
+// 🌐 Chains: the active profile first (wagmi's default), then every other registered network
+const activeNetwork = getActiveNetwork()
+const profiles = [activeNetwork, ...Object.values(NETWORK_PROFILES).filter(p => p.id !== activeNetwork.id)]
+const chains = profiles.map(p => p.chain) as [Chain, ...Chain[]]
+
 // ⚙️ Wagmi Config
 const config = createConfig({
     connectors,
-    chains: [skaleBiteSandbox], // Only allow BITE V2 Chain
-    transports: {
-        [skaleBiteSandbox.id]: http(process.env.NEXT_PUBLIC_SKALE_RPC_URL || 'https://base-sepolia-testnet.skalenodes.com/v1/bite-v2-sandbox', {
-            batch: true, // Batch JSON-RPC requests for performance
-        }),
-    },
+    chains,
+    transports: Object.fromEntries(
+        profiles.map(p => [p.chain.id, networkTransport(p, { batch: true })]) // Batch JSON-RPC requests for performance
+    ),
     pollingInterval: 250, // ⚡ Ultra-fast polling (250ms) for instant UX on SKALE
     ssr: true, // Server-Side Rendering compatibility
 })